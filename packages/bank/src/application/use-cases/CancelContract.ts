@@ -1,7 +1,7 @@
-import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
-import type { ISessionRepository } from '../../domain/repositories/ISessionRepository.js';
-import type { ILedgerRepository } from '../../domain/repositories/ILedgerRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
 import type { SessionTokenPayload } from '@pluto/shared';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
 import {
     SessionNotFoundError,
     ValidationError,
@@ -24,12 +24,11 @@ export interface CancelContractResult {
 /**
  * Cancel a contract - return locked funds to all players
  * This is called when a game fails to start or needs to be aborted
+ * Refunds and the status change commit together under a lock on the session row
  */
 export class CancelContractUseCase {
     constructor(
-        private userRepository: IUserRepository,
-        private sessionRepository: ISessionRepository,
-        private ledgerRepository: ILedgerRepository,
+        private unitOfWork: IUnitOfWork,
         private verifySessionToken: (token: string) => SessionTokenPayload | null
     ) { }
 
@@ -40,61 +39,72 @@ export class CancelContractUseCase {
             throw new ValidationError('Invalid or expired session token');
         }
 
-        // 2. Find session
-        const session = await this.sessionRepository.findById(payload.sessionId);
-        if (!session) {
-            throw new SessionNotFoundError(payload.sessionId);
-        }
+        return this.unitOfWork.run(async ({ userRepository, sessionRepository, ledgerRepository, journalRepository }) => {
+            // 2. Find session
+            const session = await sessionRepository.findByIdForUpdate(payload.sessionId);
+            if (!session) {
+                throw new SessionNotFoundError(payload.sessionId);
+            }
 
-        // 3. Check session can be cancelled
-        if (!session.canCancel()) {
-            throw new ValidationError(`Cannot cancel session in ${session.status} status`);
-        }
+            // 3. Check session can be cancelled
+            if (!session.canCancel()) {
+                throw new ValidationError(`Cannot cancel session in ${session.status} status`);
+            }
 
-        // 4. Refund all players
-        const users = await this.userRepository.findByIds(
-            session.players.map((p: any) => p.userId)
-        );
-        const ledgerEntries = [];
-        const refundedPlayers = [];
+            // 4. Refund all players
+            const users = await userRepository.findByIdsForUpdate(
+                session.players.map((p: any) => p.userId)
+            );
+            const ledgerEntries = [];
+            const transfers = [];
+            const refundedPlayers = [];
 
-        for (const user of users) {
-            const player = session.getPlayer(user.id)!;
+            for (const user of users) {
+                const player = session.getPlayer(user.id)!;
 
-            // Unlock funds
-            user.unlockFunds(player.amountLocked);
+                // Unlock funds
+                user.unlockFunds(player.amountLocked);
 
-            await this.userRepository.updateBalance(
-                user.id,
-                user.balance,
-                user.lockedBalance
-            );
+                await userRepository.updateBalance(
+                    user.id,
+                    user.balance,
+                    user.lockedBalance
+                );
 
-            ledgerEntries.push({
-                userId: user.id,
-                type: 'UNLOCK' as const,
-                amount: player.amountLocked,
-                balanceAfter: user.balance,
-                description: input.reason ?? 'Game cancelled - funds refunded',
-                sessionId: session.id,
-            });
+                ledgerEntries.push({
+                    userId: user.id,
+                    type: 'UNLOCK' as const,
+                    amount: player.amountLocked,
+                    balanceAfter: user.balance,
+                    description: input.reason ?? 'Game cancelled - funds refunded',
+                    sessionId: session.id,
+                });
+                transfers.push(new LedgerTransfer(
+                    'UNLOCK',
+                    LedgerAccount.escrow(),
+                    LedgerAccount.player(user.id),
+                    player.amountLocked,
+                    session.id
+                ));
 
-            refundedPlayers.push({
-                id: user.id,
-                displayName: user.displayName,
-                amountRefunded: player.amountLocked,
-            });
-        }
+                refundedPlayers.push({
+                    id: user.id,
+                    displayName: user.displayName,
+                    amountRefunded: player.amountLocked,
+                });
+            }
 
-        // 5. Record ledger entries
-        await this.ledgerRepository.appendMany(ledgerEntries);
+            // 5. Record ledger entries
+            await ledgerRepository.appendMany(ledgerEntries);
+            await journalRepository.post(transfers);
 
-        // 6. Update session status
-        await this.sessionRepository.updateStatus(session.id, 'CANCELLED');
+            // 6. Update session status
+            await sessionRepository.updateStatus(session.id, 'CANCELLED');
 
-        return {
-            sessionId: session.id,
-            refundedPlayers,
-        };
+            return {
+                sessionId: session.id,
+                refundedPlayers,
+            };
+        });
     }
 }
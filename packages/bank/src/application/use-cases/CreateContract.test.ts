@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
+import type { PayoutStructure } from '../../domain/entities/PayoutStructure.js';
+import type { MatchFormat } from '../../domain/entities/MatchFormat.js';
+import { Contract, Game } from '../../domain/entities/Contract.js';
+import { CreateContractUseCase } from './CreateContract.js';
+
+// A game owned by developer 'dev', whose rounds last up to 60s, and a repository building contracts from what it's given
+function setup() {
+    const game = new Game('game', 'DiceRoyale', null, 'hash', null, 'dev', true, new Date());
+    const contractRepo = {
+        findGameById: async () => game,
+        createContract: vi.fn(async (data: {
+            gameId: string;
+            name: string;
+            entryFee: bigint;
+            platformFee: number;
+            developerShare?: number;
+            payout: PayoutStructure;
+            match: MatchFormat;
+            minPlayers: number;
+            maxPlayers: number;
+            ttlSeconds?: number;
+        }) => new Contract(
+            'contract', data.gameId, game.name, data.name, data.entryFee, data.platformFee, data.developerShare ?? 0,
+            game.ownerId, data.payout, data.match, {}, data.minPlayers, data.maxPlayers, data.ttlSeconds ?? 3600, true, new Date()
+        )),
+    } as unknown as IContractRepository;
+
+    const minMatchSeconds = vi.fn((_game: { name: string }, match: MatchFormat) => match.length * 60);
+
+    return { contractRepo, minMatchSeconds, createContract: new CreateContractUseCase(contractRepo, minMatchSeconds) };
+}
+
+const input = {
+    gameId: 'game',
+    name: 'Quick Match',
+    entryFee: 100n,
+    minPlayers: 2,
+    maxPlayers: 4,
+};
+
+describe('CreateContractUseCase', () => {
+    it('should give contracts the game owner creates the default fees', async () => {
+        const bank = setup();
+
+        const contract = await bank.createContract.execute({ ...input, requestedBy: { userId: 'dev', isAdmin: false } });
+
+        expect(contract).toMatchObject({ gameId: 'game', platformFee: 5, developerShare: 0 });
+    });
+
+    it('should refuse the game owner setting its own fees', async () => {
+        const bank = setup();
+        const owner = { userId: 'dev', isAdmin: false };
+
+        await expect(bank.createContract.execute({ ...input, developerShare: 100, requestedBy: owner }))
+            .rejects.toThrow("Only admins can set a contract's platform fee and developer share");
+        await expect(bank.createContract.execute({ ...input, platformFee: 0, requestedBy: owner }))
+            .rejects.toThrow("Only admins can set a contract's platform fee and developer share");
+        expect(bank.contractRepo.createContract).not.toHaveBeenCalled();
+    });
+
+    it('should let admins create contracts for any game and set their fees', async () => {
+        const bank = setup();
+
+        const contract = await bank.createContract.execute({
+            ...input, platformFee: 10, developerShare: 30, requestedBy: { userId: 'admin', isAdmin: true },
+        });
+
+        expect(contract).toMatchObject({ platformFee: 10, developerShare: 30 });
+        expect(bank.contractRepo.createContract).toHaveBeenCalledOnce();
+    });
+
+    it("should refuse developers creating contracts for another developer's game", async () => {
+        const bank = setup();
+
+        await expect(bank.createContract.execute({ ...input, requestedBy: { userId: 'other-dev', isAdmin: false } }))
+            .rejects.toThrow('Only admins and the game owner can create its contracts');
+        expect(bank.contractRepo.createContract).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a session TTL shorter than a match can take', async () => {
+        const bank = setup();
+
+        await expect(bank.createContract.execute({
+            ...input, matchLength: 5, ttlSeconds: 240, requestedBy: { userId: 'dev', isAdmin: false },
+        })).rejects.toThrow('A 5-round match can take 300s, longer than the 240s session TTL');
+        expect(bank.minMatchSeconds).toHaveBeenCalledWith(expect.objectContaining({ name: 'DiceRoyale' }), expect.objectContaining({ length: 5 }));
+        expect(bank.contractRepo.createContract).not.toHaveBeenCalled();
+    });
+
+    it('should check matches against the default TTL when none is given', async () => {
+        const bank = setup();
+
+        await expect(bank.createContract.execute({ ...input, matchLength: 25, requestedBy: { userId: 'dev', isAdmin: false } }))
+            .resolves.toMatchObject({ matchLength: 25, ttlSeconds: 3600 });
+
+        bank.minMatchSeconds.mockReturnValue(3601);
+        await expect(bank.createContract.execute({ ...input, requestedBy: { userId: 'dev', isAdmin: false } }))
+            .rejects.toThrow('longer than the 3600s session TTL');
+    });
+});
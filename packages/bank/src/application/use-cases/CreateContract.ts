@@ -1,22 +1,47 @@
 import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
-import { NotFoundError, ValidationError } from '@pluto/shared';
+import type { MatchMode, PayoutModel } from '@prisma/client';
+import { PayoutStructure } from '../../domain/entities/PayoutStructure.js';
+import { MatchFormat } from '../../domain/entities/MatchFormat.js';
+import { ForbiddenError, NotFoundError, ValidationError } from '@pluto/shared';
 
 export interface CreateContractInput {
+    requestedBy: { userId: string; isAdmin: boolean }; // Admins, or the owner of the game
     gameId: string;
     name: string;
     entryFee: bigint;
-    platformFee: number; // Percentage 0-100
+    platformFee?: number; // Percentage 0-100, admins only
+    developerShare?: number; // Percentage 0-100 of the platform fee, admins only
+    payoutModel?: PayoutModel; // Defaults to EVEN_SPLIT
+    payoutTable?: number[]; // RANKED only
+    matchMode?: MatchMode; // Defaults to BEST_OF
+    matchLength?: number; // Defaults to 1, a single round
+    gameSettings?: Record<string, unknown>; // Game-specific rules (e.g. DiceRoyale's dice), checked when a game starts
     minPlayers: number;
     maxPlayers: number;
     ttlSeconds?: number;
 }
 
+/**
+ * Shortest time a game's matches take in the given format, or null when the game doesn't bound it
+ */
+export type MinMatchSecondsFn = (game: { name: string }, match: MatchFormat) => number | null;
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_PLATFORM_FEE = 5;
+const DEFAULT_DEVELOPER_SHARE = 0;
+
 export interface CreateContractResult {
     id: string;
     gameId: string;
     name: string;
     entryFee: string;
     platformFee: number;
+    developerShare: number;
+    payoutModel: PayoutModel;
+    payoutTable: number[];
+    matchMode: MatchMode;
+    matchLength: number;
+    gameSettings: Record<string, unknown>;
     minPlayers: number;
     maxPlayers: number;
     ttlSeconds: number;
@@ -24,9 +49,14 @@ export interface CreateContractResult {
 
 /**
  * Create a new contract (economic rules for a game)
+ * Admins and the game's owner create a game's contracts, but only admins set the fees and the
+ * developer's share of them - owners get the defaults
  */
 export class CreateContractUseCase {
-    constructor(private contractRepository: IContractRepository) { }
+    constructor(
+        private contractRepository: IContractRepository,
+        private minMatchSeconds: MinMatchSecondsFn = () => null
+    ) { }
 
     async execute(input: CreateContractInput): Promise<CreateContractResult> {
         // Validate game exists
@@ -34,11 +64,27 @@ export class CreateContractUseCase {
         if (!game) {
             throw new NotFoundError('Game', input.gameId);
         }
+        if (!input.requestedBy.isAdmin && game.ownerId !== input.requestedBy.userId) {
+            throw new ForbiddenError('Only admins and the game owner can create its contracts');
+        }
+
+        if (!input.requestedBy.isAdmin && (input.platformFee !== undefined || input.developerShare !== undefined)) {
+            throw new ForbiddenError("Only admins can set a contract's platform fee and developer share");
+        }
 
         // Validate platform fee
-        if (input.platformFee < 0 || input.platformFee > 100) {
+        const platformFee = input.platformFee ?? DEFAULT_PLATFORM_FEE;
+        const developerShare = input.developerShare ?? DEFAULT_DEVELOPER_SHARE;
+        if (platformFee < 0 || platformFee > 100) {
             throw new ValidationError('Platform fee must be between 0 and 100');
         }
+        if (developerShare < 0 || developerShare > 100) {
+            throw new ValidationError('Developer share must be between 0 and 100');
+        }
+
+        // Validate payout structure
+        const payout = PayoutStructure.create(input.payoutModel ?? 'EVEN_SPLIT', input.payoutTable);
+        const match = MatchFormat.create(input.matchMode, input.matchLength);
 
         // Validate player counts
         if (input.minPlayers < 1) {
@@ -53,14 +99,27 @@ export class CreateContractUseCase {
             throw new ValidationError('Entry fee cannot be negative');
         }
 
+        // Validate the session outlives a match - sessions expire and refund after ttlSeconds
+        const ttlSeconds = input.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+        const matchSeconds = this.minMatchSeconds(game, match);
+        if (matchSeconds !== null && matchSeconds > ttlSeconds) {
+            throw new ValidationError(
+                `A ${match.length}-round match can take ${matchSeconds}s, longer than the ${ttlSeconds}s session TTL`
+            );
+        }
+
         const contract = await this.contractRepository.createContract({
             gameId: input.gameId,
             name: input.name,
             entryFee: input.entryFee,
-            platformFee: input.platformFee,
+            platformFee,
+            developerShare,
+            payout,
+            match,
+            gameSettings: input.gameSettings,
             minPlayers: input.minPlayers,
             maxPlayers: input.maxPlayers,
-            ttlSeconds: input.ttlSeconds,
+            ttlSeconds,
         });
 
         return {
@@ -69,6 +128,12 @@ export class CreateContractUseCase {
             name: contract.name,
             entryFee: contract.entryFee.toString(),
             platformFee: contract.platformFee,
+            developerShare: contract.developerShare,
+            payoutModel: contract.payout.model,
+            payoutTable: contract.payout.table,
+            matchMode: contract.match.mode,
+            matchLength: contract.match.length,
+            gameSettings: contract.gameSettings,
             minPlayers: contract.minPlayers,
             maxPlayers: contract.maxPlayers,
             ttlSeconds: contract.ttlSeconds,
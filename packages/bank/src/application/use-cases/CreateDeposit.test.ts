@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IPaymentRepository } from '../../domain/repositories/IPaymentRepository.js';
+import type { IPaymentProvider, PaymentProviderResult } from '../../domain/services/IPaymentProvider.js';
+import type { ResolvePaymentUseCase } from './ResolvePayment.js';
+import { Payment } from '../../domain/entities/Payment.js';
+import { CreateDepositUseCase } from './CreateDeposit.js';
+
+// A provider answering deposits with the given outcome
+function setup(collect: () => Promise<PaymentProviderResult>) {
+    const paymentRepo = {
+        create: vi.fn(async (data: { userId: string; type: 'DEPOSIT'; amount: bigint; provider: string }) =>
+            new Payment('p1', data.userId, data.type, data.amount, 'PENDING', data.provider, null, null, new Date(), null)),
+    } as unknown as IPaymentRepository;
+    const provider = { name: 'fake', createDeposit: vi.fn(collect) } as unknown as IPaymentProvider;
+    const resolvePayment = {
+        execute: vi.fn(async () => new Payment('p1', 'u1', 'DEPOSIT', 500n, 'CONFIRMED', 'fake', 'ref', null, new Date(), new Date())),
+    } as unknown as ResolvePaymentUseCase;
+
+    return { paymentRepo, resolvePayment, createDeposit: new CreateDepositUseCase(paymentRepo, provider, resolvePayment) };
+}
+
+describe('CreateDepositUseCase', () => {
+    it('should record the deposit and apply the provider decision', async () => {
+        const bank = setup(async () => ({ reference: 'ref', status: 'CONFIRMED' }));
+
+        const payment = await bank.createDeposit.execute({ userId: 'u1', amount: 500n });
+
+        expect(payment.status).toBe('CONFIRMED');
+        expect(bank.paymentRepo.create).toHaveBeenCalledWith({ userId: 'u1', type: 'DEPOSIT', amount: 500n, provider: 'fake' });
+        expect(bank.resolvePayment.execute).toHaveBeenCalledWith(expect.objectContaining({ paymentId: 'p1', status: 'CONFIRMED' }));
+    });
+
+    it('should leave the deposit pending when the provider errors', async () => {
+        const bank = setup(async () => { throw new Error('Gateway timeout'); });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        const payment = await bank.createDeposit.execute({ userId: 'u1', amount: 500n });
+
+        expect(payment.status).toBe('PENDING');
+        expect(bank.resolvePayment.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-positive amounts', async () => {
+        const bank = setup(async () => ({ reference: 'ref', status: 'CONFIRMED' }));
+
+        await expect(bank.createDeposit.execute({ userId: 'u1', amount: 0n }))
+            .rejects.toThrow('Deposit amount must be positive');
+        expect(bank.paymentRepo.create).not.toHaveBeenCalled();
+    });
+});
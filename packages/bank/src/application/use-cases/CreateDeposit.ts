@@ -0,0 +1,63 @@
+import type { IPaymentRepository } from '../../domain/repositories/IPaymentRepository.js';
+import type { IPaymentProvider } from '../../domain/services/IPaymentProvider.js';
+import type { Payment } from '../../domain/entities/Payment.js';
+import type { ResolvePaymentUseCase } from './ResolvePayment.js';
+import { ValidationError } from '@pluto/shared';
+
+export interface CreateDepositInput {
+    userId: string;
+    amount: bigint;
+}
+
+/**
+ * Start a deposit through the payment provider
+ * The balance is only credited once the provider confirms
+ */
+export class CreateDepositUseCase {
+    constructor(
+        private paymentRepository: IPaymentRepository,
+        private paymentProvider: IPaymentProvider,
+        private resolvePayment: ResolvePaymentUseCase
+    ) { }
+
+    async execute(input: CreateDepositInput): Promise<Payment> {
+        // 1. Validate amount
+        if (input.amount <= 0n) {
+            throw new ValidationError('Deposit amount must be positive');
+        }
+
+        // 2. Record pending deposit
+        const payment = await this.paymentRepository.create({
+            userId: input.userId,
+            type: 'DEPOSIT',
+            amount: input.amount,
+            provider: this.paymentProvider.name,
+        });
+
+        // 3. Ask the provider to collect the funds
+        // On an error or timeout the provider may still collect them, so the deposit stays pending
+        let result;
+        try {
+            result = await this.paymentProvider.createDeposit({
+                paymentId: payment.id,
+                userId: input.userId,
+                amount: input.amount,
+            });
+        } catch (error) {
+            console.error(`Payment provider error on deposit ${payment.id}, leaving it pending:`, error);
+            return payment;
+        }
+
+        // 4. Apply the decision now, or leave pending for the provider to resolve later
+        if (result.status === 'PENDING') {
+            return payment;
+        }
+
+        return this.resolvePayment.execute({
+            paymentId: payment.id,
+            status: result.status,
+            providerReference: result.reference,
+            failureReason: result.failureReason,
+        });
+    }
+}
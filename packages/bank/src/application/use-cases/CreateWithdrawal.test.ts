@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { IPaymentProvider, PaymentProviderResult } from '../../domain/services/IPaymentProvider.js';
+import type { ResolvePaymentUseCase } from './ResolvePayment.js';
+import { User } from '../../domain/entities/User.js';
+import { Payment } from '../../domain/entities/Payment.js';
+import { CreateWithdrawalUseCase } from './CreateWithdrawal.js';
+
+// A player with 1000 and a provider answering with the given outcome
+function setup(payout: () => Promise<PaymentProviderResult>) {
+    const user = new User('u1', 'uid1', 'Player', 1000n, 0n, new Date());
+
+    const repositories = {
+        userRepository: {
+            findByIdsForUpdate: async () => [user],
+            updateBalance: async () => user,
+        },
+        ledgerRepository: { append: vi.fn(async () => { }) },
+        paymentRepository: {
+            create: async (data: { userId: string; type: 'WITHDRAWAL'; amount: bigint; provider: string }) =>
+                new Payment('p1', data.userId, data.type, data.amount, 'PENDING', data.provider, null, null, new Date(), null),
+        },
+        journalRepository: { post: vi.fn(async () => { }) },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: work => work(repositories as unknown as TransactionalRepositories),
+    };
+    const provider = { name: 'fake', createWithdrawal: vi.fn(payout) } as unknown as IPaymentProvider;
+    const resolvePayment = {
+        execute: vi.fn(async () => new Payment('p1', 'u1', 'WITHDRAWAL', 300n, 'CONFIRMED', 'fake', 'ref', null, new Date(), new Date())),
+    } as unknown as ResolvePaymentUseCase;
+
+    return {
+        user,
+        repositories,
+        resolvePayment,
+        createWithdrawal: new CreateWithdrawalUseCase(unitOfWork, provider, resolvePayment),
+    };
+}
+
+describe('CreateWithdrawalUseCase', () => {
+    it('should hold the funds and apply the provider decision', async () => {
+        const bank = setup(async () => ({ reference: 'ref', status: 'CONFIRMED' }));
+
+        const payment = await bank.createWithdrawal.execute({ userId: 'u1', amount: 300n });
+
+        expect(payment.status).toBe('CONFIRMED');
+        expect(bank.user.lockedBalance).toBe(300n);
+        expect(bank.repositories.ledgerRepository.append).toHaveBeenCalledWith(expect.objectContaining({ type: 'LOCK', amount: 300n }));
+        expect(bank.resolvePayment.execute).toHaveBeenCalledWith({
+            paymentId: 'p1',
+            status: 'CONFIRMED',
+            providerReference: 'ref',
+            failureReason: undefined,
+        });
+    });
+
+    it('should keep the payment pending and the funds held when the provider errors', async () => {
+        const bank = setup(async () => { throw new Error('Gateway timeout'); });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        const payment = await bank.createWithdrawal.execute({ userId: 'u1', amount: 300n });
+
+        expect(payment.status).toBe('PENDING');
+        expect(bank.user.lockedBalance).toBe(300n);
+        expect(bank.resolvePayment.execute).not.toHaveBeenCalled();
+    });
+
+    it('should keep the hold while the provider has not decided', async () => {
+        const bank = setup(async () => ({ reference: 'ref', status: 'PENDING' }));
+
+        const payment = await bank.createWithdrawal.execute({ userId: 'u1', amount: 300n });
+
+        expect(payment.status).toBe('PENDING');
+        expect(bank.user.lockedBalance).toBe(300n);
+        expect(bank.resolvePayment.execute).not.toHaveBeenCalled();
+    });
+
+    it('should refuse more than the available balance', async () => {
+        const bank = setup(async () => ({ reference: 'ref', status: 'CONFIRMED' }));
+
+        await expect(bank.createWithdrawal.execute({ userId: 'u1', amount: 1001n }))
+            .rejects.toThrow('Insufficient funds');
+        expect(bank.user.lockedBalance).toBe(0n);
+    });
+});
@@ -0,0 +1,92 @@
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
+import type { IPaymentProvider } from '../../domain/services/IPaymentProvider.js';
+import type { Payment } from '../../domain/entities/Payment.js';
+import type { ResolvePaymentUseCase } from './ResolvePayment.js';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import {
+    InsufficientFundsError,
+    UserNotFoundError,
+    ValidationError,
+} from '@pluto/shared';
+
+export interface CreateWithdrawalInput {
+    userId: string;
+    amount: bigint;
+}
+
+/**
+ * Start a withdrawal through the payment provider
+ * Funds are held (locked) first and only leave the balance once the provider confirms
+ */
+export class CreateWithdrawalUseCase {
+    constructor(
+        private unitOfWork: IUnitOfWork,
+        private paymentProvider: IPaymentProvider,
+        private resolvePayment: ResolvePaymentUseCase
+    ) { }
+
+    async execute(input: CreateWithdrawalInput): Promise<Payment> {
+        // 1. Validate amount
+        if (input.amount <= 0n) {
+            throw new ValidationError('Withdrawal amount must be positive');
+        }
+
+        // 2. Hold the funds and record the pending withdrawal together
+        const payment = await this.unitOfWork.run(async ({ userRepository, ledgerRepository, paymentRepository, journalRepository }) => {
+            const [user] = await userRepository.findByIdsForUpdate([input.userId]);
+            if (!user) {
+                throw new UserNotFoundError(input.userId);
+            }
+            if (!user.canAfford(input.amount)) {
+                throw new InsufficientFundsError(input.amount, user.availableBalance);
+            }
+
+            user.lockFunds(input.amount);
+            await userRepository.updateBalance(user.id, user.balance, user.lockedBalance);
+            await ledgerRepository.append({
+                userId: user.id,
+                type: 'LOCK',
+                amount: input.amount,
+                balanceAfter: user.balance,
+                description: 'Funds held for withdrawal',
+            });
+            await journalRepository.post([
+                new LedgerTransfer('LOCK', LedgerAccount.player(user.id), LedgerAccount.escrow(), input.amount),
+            ]);
+
+            return paymentRepository.create({
+                userId: user.id,
+                type: 'WITHDRAWAL',
+                amount: input.amount,
+                provider: this.paymentProvider.name,
+            });
+        });
+
+        // 3. Ask the provider to pay out
+        // An error or timeout doesn't mean nothing was paid, so the hold stays until the provider decides
+        let result;
+        try {
+            result = await this.paymentProvider.createWithdrawal({
+                paymentId: payment.id,
+                userId: input.userId,
+                amount: input.amount,
+            });
+        } catch (error) {
+            console.error(`Payment provider error on withdrawal ${payment.id}, leaving it pending:`, error);
+            return payment;
+        }
+
+        // 4. Apply the decision now, or keep the hold until the provider resolves it
+        if (result.status === 'PENDING') {
+            return payment;
+        }
+
+        return this.resolvePayment.execute({
+            paymentId: payment.id,
+            status: result.status,
+            providerReference: result.reference,
+            failureReason: result.failureReason,
+        });
+    }
+}
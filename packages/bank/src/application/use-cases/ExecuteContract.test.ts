@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { User } from '../../domain/entities/User.js';
+import { Contract } from '../../domain/entities/Contract.js';
+import { PayoutStructure } from '../../domain/entities/PayoutStructure.js';
+import { MatchFormat } from '../../domain/entities/MatchFormat.js';
+import { GameSession, GameSessionPlayer } from '../../domain/entities/GameSession.js';
+import { ExecuteContractUseCase } from './ExecuteContract.js';
+
+// A 100-entry 2-4 player contract, and two players who had 1000 each when first read;
+// lockedBalances are what their rows hold once locked, and writes are logged with whether a transaction was open
+function setup(lockedBalances: Record<string, bigint> = { u1: 1000n, u2: 1000n }) {
+    const contract = new Contract(
+        'contract', 'game', 'DiceRoyale', 'Classic', 100n, 5, 0, null,
+        new PayoutStructure('EVEN_SPLIT', []), new MatchFormat(), {}, 2, 4, 3600, true, new Date()
+    );
+    const read = ['u1', 'u2'].map(id => new User(id, `uid-${id}`, id, 1000n, 0n, new Date()));
+    const writes: string[] = [];
+    let inTransaction = false;
+    const log = (write: string) => writes.push(inTransaction ? write : `${write} (outside transaction)`);
+
+    const repositories = {
+        userRepository: {
+            findByIdsForUpdate: vi.fn(async (ids: string[]) => ids.map(id => new User(id, `uid-${id}`, id, lockedBalances[id], 0n, new Date()))),
+            updateBalance: vi.fn(async (id: string, balance: bigint, locked: bigint) => log(`balance ${id} ${balance}/${locked}`)),
+        },
+        sessionRepository: {
+            create: vi.fn(async (data: { players: Array<{ userId: string; displayName: string; amountLocked: bigint }> }) => {
+                log('session');
+                return new GameSession('session', 'contract', 'PENDING', 200n, new Date(), new Date(), null,
+                    data.players.map(p => new GameSessionPlayer(`p-${p.userId}`, 'session', p.userId, p.displayName, p.amountLocked, false, 0n)));
+            }),
+        },
+        ledgerRepository: { appendMany: vi.fn(async (entries: unknown[]) => log(`ledger ${entries.length}`)) },
+        journalRepository: { post: vi.fn(async (transfers: LedgerTransfer[]) => log(`journal ${transfers.length}`)) },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: async work => {
+            inTransaction = true;
+            try {
+                return await work(repositories as unknown as TransactionalRepositories);
+            } finally {
+                inTransaction = false;
+            }
+        },
+    };
+    const userRepository = { findByFirebaseUids: async () => read } as unknown as IUserRepository;
+    const contractRepository = { findContractById: async () => contract } as unknown as IContractRepository;
+    const generateSessionToken = vi.fn(() => 'token');
+
+    return {
+        writes,
+        repositories,
+        generateSessionToken,
+        executeContract: new ExecuteContractUseCase(userRepository, contractRepository, unitOfWork, generateSessionToken),
+    };
+}
+
+const input = { contractId: 'contract', playerFirebaseUids: ['uid-u1', 'uid-u2'] };
+
+describe('ExecuteContractUseCase', () => {
+    it('should lock every stake in one transaction', async () => {
+        const bank = setup();
+
+        const result = await bank.executeContract.execute(input);
+
+        expect(result).toMatchObject({ sessionId: 'session', sessionToken: 'token', totalPot: 200n });
+        expect(bank.repositories.userRepository.findByIdsForUpdate).toHaveBeenCalledWith(['u1', 'u2']);
+        expect(bank.writes).toEqual(['session', 'balance u1 1000/100', 'balance u2 1000/100', 'ledger 2', 'journal 2']);
+        const [[transfers]] = bank.repositories.journalRepository.post.mock.calls;
+        expect(transfers.map(t => [t.type, t.from.code, t.to.code, t.amount, t.sessionId])).toEqual([
+            ['LOCK', 'PLAYER:u1', 'ESCROW', 100n, 'session'],
+            ['LOCK', 'PLAYER:u2', 'ESCROW', 100n, 'session'],
+        ]);
+    });
+
+    it('should check funds against the locked rows rather than the first read', async () => {
+        // u2 spent their balance between the first read and the lock
+        const bank = setup({ u1: 1000n, u2: 50n });
+
+        await expect(bank.executeContract.execute(input)).rejects.toThrow('Insufficient funds');
+        expect(bank.writes).toEqual([]);
+        expect(bank.generateSessionToken).not.toHaveBeenCalled();
+    });
+
+    it('should issue no session token when the transaction fails', async () => {
+        const bank = setup();
+        bank.repositories.journalRepository.post.mockRejectedValueOnce(new Error('connection lost'));
+
+        await expect(bank.executeContract.execute(input)).rejects.toThrow('connection lost');
+        expect(bank.generateSessionToken).not.toHaveBeenCalled();
+    });
+});
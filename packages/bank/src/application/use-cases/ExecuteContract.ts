@@ -1,8 +1,9 @@
 import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
 import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
-import type { ISessionRepository } from '../../domain/repositories/ISessionRepository.js';
-import type { ILedgerRepository } from '../../domain/repositories/ILedgerRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
 import type { ExecuteContractResult } from '@pluto/shared';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
 import {
     ContractNotFoundError,
     InsufficientFundsError,
@@ -19,13 +20,13 @@ export interface ExecuteContractInput {
 /**
  * Execute a contract - lock funds for all players
  * This is called by game backend when a match starts
+ * Session creation, balance locks and ledger entries commit in one transaction
  */
 export class ExecuteContractUseCase {
     constructor(
         private userRepository: IUserRepository,
         private contractRepository: IContractRepository,
-        private sessionRepository: ISessionRepository,
-        private ledgerRepository: ILedgerRepository,
+        private unitOfWork: IUnitOfWork,
         private generateSessionToken: (payload: {
             sessionId: string;
             contractId: string;
@@ -61,50 +62,65 @@ export class ExecuteContractUseCase {
             throw new ValidationError(`Users not found: ${missingUids.join(', ')}`);
         }
 
-        // 4. Check all users have sufficient funds
+        // 4. Calculate totals
         const entryFee = contract.entryFee;
-        for (const user of users) {
-            if (!user.canAfford(entryFee)) {
-                throw new InsufficientFundsError(entryFee, user.availableBalance);
-            }
-        }
-
-        // 5. Calculate totals
         const totalPot = contract.calculateTotalPot(playerCount);
         const expiresAt = addSeconds(contract.ttlSeconds);
 
-        // 6. Create session with players
-        const session = await this.sessionRepository.create({
-            contractId: contract.id,
-            totalPot,
-            expiresAt,
-            players: users.map((user: any) => ({
-                userId: user.id,
-                displayName: user.displayName,
-                amountLocked: entryFee,
-            })),
-        });
-
-        // 7. Lock funds for each user and create ledger entries
-        const ledgerEntries = [];
-        for (const user of users) {
-            user.lockFunds(entryFee);
-            await this.userRepository.updateBalance(
-                user.id,
-                user.balance,
-                user.lockedBalance
-            );
+        const session = await this.unitOfWork.run(async ({ userRepository, sessionRepository, ledgerRepository, journalRepository }) => {
+            // 5. Lock player rows and check funds against their current state
+            const lockedUsers = await userRepository.findByIdsForUpdate(users.map((u: any) => u.id));
+            for (const user of lockedUsers) {
+                if (!user.canAfford(entryFee)) {
+                    throw new InsufficientFundsError(entryFee, user.availableBalance);
+                }
+            }
 
-            ledgerEntries.push({
-                userId: user.id,
-                type: 'LOCK' as const,
-                amount: entryFee,
-                balanceAfter: user.balance,
-                description: `Locked for ${contract.gameName}: ${contract.name}`,
-                sessionId: session.id,
+            // 6. Create session with players
+            const session = await sessionRepository.create({
+                contractId: contract.id,
+                totalPot,
+                expiresAt,
+                players: lockedUsers.map((user: any) => ({
+                    userId: user.id,
+                    displayName: user.displayName,
+                    amountLocked: entryFee,
+                    isBot: user.isBot,
+                })),
             });
-        }
-        await this.ledgerRepository.appendMany(ledgerEntries);
+
+            // 7. Lock funds for each user, moving them into escrow, and create ledger entries
+            const ledgerEntries = [];
+            const transfers = [];
+            for (const user of lockedUsers) {
+                user.lockFunds(entryFee);
+                await userRepository.updateBalance(
+                    user.id,
+                    user.balance,
+                    user.lockedBalance
+                );
+
+                ledgerEntries.push({
+                    userId: user.id,
+                    type: 'LOCK' as const,
+                    amount: entryFee,
+                    balanceAfter: user.balance,
+                    description: `Locked for ${contract.gameName}: ${contract.name}`,
+                    sessionId: session.id,
+                });
+                transfers.push(new LedgerTransfer(
+                    'LOCK',
+                    LedgerAccount.player(user.id),
+                    LedgerAccount.escrow(),
+                    entryFee,
+                    session.id
+                ));
+            }
+            await ledgerRepository.appendMany(ledgerEntries);
+            await journalRepository.post(transfers);
+
+            return session;
+        });
 
         // 8. Generate session token
         const sessionToken = this.generateSessionToken({
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { IIdempotencyRepository } from '../../domain/repositories/IIdempotencyRepository.js';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import { IdempotencyRecord } from '../../domain/entities/IdempotencyRecord.js';
+import { ExecuteIdempotentlyUseCase } from './ExecuteIdempotently.js';
+
+// Idempotency keys kept in memory, and a unit of work counting the transactions that commit
+function setup() {
+    const records = new Map<string, IdempotencyRecord>();
+    let nextId = 0;
+
+    const repo: IIdempotencyRepository = {
+        find: async (gameId, key) => records.get(`${gameId}:${key}`) ?? null,
+        reserve: async data => {
+            if (records.has(`${data.gameId}:${data.key}`)) return null;
+            const record = new IdempotencyRecord(`r${++nextId}`, data.gameId, data.key, data.endpoint, data.requestHash, null, null, new Date());
+            records.set(`${data.gameId}:${data.key}`, record);
+            return record;
+        },
+        complete: async (reservation, statusCode, responseBody) => {
+            const current = records.get(`${reservation.gameId}:${reservation.key}`);
+            if (current?.id !== reservation.id || current.isCompleted()) return false;
+            records.set(`${reservation.gameId}:${reservation.key}`, new IdempotencyRecord(
+                current.id, current.gameId, current.key, current.endpoint, current.requestHash, statusCode, responseBody, current.createdAt
+            ));
+            return true;
+        },
+        release: async reservation => {
+            const current = records.get(`${reservation.gameId}:${reservation.key}`);
+            if (current?.id === reservation.id && !current.isCompleted()) {
+                records.delete(`${reservation.gameId}:${reservation.key}`);
+            }
+        },
+    };
+
+    let commits = 0;
+    const unitOfWork: IUnitOfWork = {
+        run: async work => {
+            const result = await work({ idempotencyRepository: repo } as unknown as TransactionalRepositories);
+            commits++;
+            return result;
+        },
+    };
+
+    return {
+        records,
+        commits: () => commits,
+        executeIdempotently: new ExecuteIdempotentlyUseCase(repo, unitOfWork),
+    };
+}
+
+function request(handler: () => Promise<unknown>, requestBody: unknown = { contractId: 'c1' }) {
+    return { gameId: 'game', key: 'key-1', endpoint: 'contracts/execute', requestBody, handler };
+}
+
+describe('ExecuteIdempotentlyUseCase', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should replay the stored response without running the handler again', async () => {
+        const bank = setup();
+        const handler = vi.fn(async () => ({ sessionId: 's1', totalPot: 200n }));
+
+        const first = await bank.executeIdempotently.execute(request(handler));
+        const retry = await bank.executeIdempotently.execute(request(handler));
+
+        expect(first).toEqual({ statusCode: 200, body: '{"sessionId":"s1","totalPot":"200"}', replayed: false });
+        expect(retry).toEqual({ ...first, replayed: true });
+        expect(handler).toHaveBeenCalledOnce();
+        expect(bank.commits()).toBe(1);
+    });
+
+    it('should reject a key reused with a different body', async () => {
+        const bank = setup();
+        await bank.executeIdempotently.execute(request(async () => ({ ok: true })));
+
+        await expect(bank.executeIdempotently.execute(request(async () => ({ ok: true }), { contractId: 'c2' })))
+            .rejects.toThrow("Idempotency key 'key-1' was already used with a different request");
+    });
+
+    it('should reject a concurrent request while the first is in flight', async () => {
+        const bank = setup();
+        let finish!: () => void;
+        const first = bank.executeIdempotently.execute(request(() => new Promise(resolve => { finish = () => resolve({ ok: true }); })));
+        await vi.waitFor(() => expect(finish).toBeDefined());
+
+        await expect(bank.executeIdempotently.execute(request(async () => ({ ok: true }))))
+            .rejects.toThrow('A request with this idempotency key is already in progress');
+
+        finish();
+        await expect(first).resolves.toMatchObject({ replayed: false });
+        expect(bank.commits()).toBe(1);
+    });
+
+    it('should release the key when the handler fails so a retry can run', async () => {
+        const bank = setup();
+
+        await expect(bank.executeIdempotently.execute(request(async () => { throw new Error('Insufficient funds'); })))
+            .rejects.toThrow('Insufficient funds');
+        const retry = await bank.executeIdempotently.execute(request(async () => ({ ok: true })));
+
+        expect(retry.replayed).toBe(false);
+        expect(bank.commits()).toBe(1);
+    });
+
+    it('should let an abandoned request neither commit nor release the key it lost', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const bank = setup();
+        let finish!: () => void;
+        const stalled = bank.executeIdempotently.execute(request(() => new Promise(resolve => { finish = () => resolve({ attempt: 1 }); })));
+        await vi.waitFor(() => expect(finish).toBeDefined());
+
+        // The lease runs out and a retry takes the key over
+        vi.advanceTimersByTime(6 * 60 * 1000);
+        const takeover = await bank.executeIdempotently.execute(request(async () => ({ attempt: 2 })));
+
+        finish();
+        await expect(stalled).rejects.toThrow('This request took too long and was retried under the same idempotency key');
+
+        expect(takeover).toMatchObject({ body: '{"attempt":2}', replayed: false });
+        expect(bank.commits()).toBe(1);
+        expect(bank.records.get('game:key-1')?.responseBody).toBe('{"attempt":2}');
+    });
+});
@@ -0,0 +1,106 @@
+import type { IIdempotencyRepository } from '../../domain/repositories/IIdempotencyRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
+import type { IdempotencyRecord } from '../../domain/entities/IdempotencyRecord.js';
+import {
+    DuplicateExecutionError,
+    IdempotencyKeyReusedError,
+    serializeJson,
+} from '@pluto/shared';
+import crypto from 'node:crypto';
+
+// Unfinished requests older than this are treated as crashed and may be retried
+const IN_FLIGHT_LEASE_MS = 5 * 60 * 1000;
+
+export interface ExecuteIdempotentlyInput<T> {
+    gameId: string;
+    key: string;
+    endpoint: string;
+    requestBody: unknown;
+    handler: () => Promise<T>;
+}
+
+export interface ExecuteIdempotentlyResult {
+    statusCode: number;
+    body: string; // Serialized JSON
+    replayed: boolean;
+}
+
+/**
+ * Run a game backend request at most once per Idempotency-Key
+ * A retry with the same key and body replays the stored response,
+ * a retry with the same key and a different body is rejected.
+ * The handler runs in the same transaction that stores its response, so a request
+ * whose key was taken over after its lease ran out can't commit its money movements too.
+ */
+export class ExecuteIdempotentlyUseCase {
+    constructor(
+        private idempotencyRepository: IIdempotencyRepository,
+        private unitOfWork: IUnitOfWork
+    ) { }
+
+    async execute<T>(input: ExecuteIdempotentlyInput<T>): Promise<ExecuteIdempotentlyResult> {
+        const requestHash = crypto
+            .createHash('sha256')
+            .update(serializeJson(input.requestBody))
+            .digest('hex');
+
+        // 1. Claim the key, or resolve against the request that already claimed it
+        let reservation = await this.reserve(input, requestHash);
+
+        for (let attempt = 0; !reservation && attempt < 2; attempt++) {
+            const existing = await this.idempotencyRepository.find(input.gameId, input.key);
+
+            if (existing) {
+                if (!existing.matches(input.endpoint, requestHash)) {
+                    throw new IdempotencyKeyReusedError(input.key);
+                }
+                if (existing.isCompleted()) {
+                    return {
+                        statusCode: existing.statusCode!,
+                        body: existing.responseBody!,
+                        replayed: true,
+                    };
+                }
+                if (!existing.isAbandoned(IN_FLIGHT_LEASE_MS)) {
+                    throw new DuplicateExecutionError('A request with this idempotency key is already in progress');
+                }
+
+                // Previous attempt crashed or stalled - take the key over
+                await this.idempotencyRepository.release(existing);
+            }
+
+            reservation = await this.reserve(input, requestHash);
+        }
+
+        if (!reservation) {
+            throw new DuplicateExecutionError('A request with this idempotency key is already in progress');
+        }
+
+        // 2. Run the request and store its response in one transaction,
+        // releasing the key on failure so it can be retried
+        try {
+            return await this.unitOfWork.run(async ({ idempotencyRepository }) => {
+                const body = serializeJson(await input.handler());
+
+                const stored = await idempotencyRepository.complete(reservation, 200, body);
+                if (!stored) {
+                    throw new DuplicateExecutionError('This request took too long and was retried under the same idempotency key');
+                }
+
+                return { statusCode: 200, body, replayed: false };
+            });
+        } catch (error) {
+            await this.idempotencyRepository.release(reservation);
+            throw error;
+        }
+    }
+
+    private reserve(input: ExecuteIdempotentlyInput<unknown>, requestHash: string): Promise<IdempotencyRecord | null> {
+        return this.idempotencyRepository.reserve({
+            gameId: input.gameId,
+            key: input.key,
+            endpoint: input.endpoint,
+            requestHash,
+        });
+    }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ISessionRepository } from '../../domain/repositories/ISessionRepository.js';
+import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { IGameCallbackNotifier } from '../../domain/services/IGameCallbackNotifier.js';
+import { User } from '../../domain/entities/User.js';
+import { GameSession, GameSessionPlayer } from '../../domain/entities/GameSession.js';
+import { ExpireSessionsUseCase } from './ExpireSessions.js';
+
+function expiredSession(id: string, userId: string): GameSession {
+    return new GameSession(id, 'c1', 'ACTIVE', 100n, new Date(0), new Date(0), null, [
+        new GameSessionPlayer(`${id}-p`, id, userId, 'Player', 100n, false, 0n),
+    ]);
+}
+
+// Two expired sessions, each with one player who has 100 locked
+function setup() {
+    const sessions = [expiredSession('s1', 'u1'), expiredSession('s2', 'u2')];
+    const users = new Map([
+        ['u1', new User('u1', 'uid1', 'Player 1', 900n, 100n, new Date())],
+        ['u2', new User('u2', 'uid2', 'Player 2', 900n, 100n, new Date())],
+    ]);
+
+    const repositories = {
+        sessionRepository: {
+            findByIdForUpdate: vi.fn(async (id: string) => sessions.find(s => s.id === id) ?? null),
+            updateStatus: vi.fn(async () => { }),
+        },
+        userRepository: {
+            findByIdsForUpdate: async (ids: string[]) => ids.map(id => users.get(id)!),
+            updateBalance: async () => { },
+        },
+        ledgerRepository: { appendMany: vi.fn(async () => { }) },
+        journalRepository: { post: vi.fn(async () => { }) },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: work => work(repositories as unknown as TransactionalRepositories),
+    };
+    const sessionRepository = {
+        findExpiredSessions: async () => sessions,
+    } as unknown as ISessionRepository;
+    const contractRepository = {
+        findContractById: async () => ({ gameId: 'g1' }),
+        findGameById: async () => ({ id: 'g1' }),
+    } as unknown as IContractRepository;
+    const notifier = { notify: vi.fn(async () => { }) } as unknown as IGameCallbackNotifier;
+
+    return {
+        sessions,
+        users,
+        repositories,
+        notifier,
+        expireSessions: new ExpireSessionsUseCase(sessionRepository, contractRepository, unitOfWork, notifier),
+    };
+}
+
+describe('ExpireSessionsUseCase', () => {
+    it('should refund and expire every expired session', async () => {
+        const bank = setup();
+
+        const { expiredSessionIds } = await bank.expireSessions.execute();
+
+        expect(expiredSessionIds).toEqual(['s1', 's2']);
+        expect(bank.users.get('u1')!.lockedBalance).toBe(0n);
+        expect(bank.repositories.sessionRepository.updateStatus).toHaveBeenCalledWith('s1', 'EXPIRED');
+        expect(bank.repositories.journalRepository.post).toHaveBeenCalledTimes(2);
+        expect(bank.notifier.notify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip sessions another run already expired', async () => {
+        const bank = setup();
+        bank.sessions[0].expire();
+
+        const { expiredSessionIds } = await bank.expireSessions.execute();
+
+        expect(expiredSessionIds).toEqual(['s2']);
+        expect(bank.users.get('u1')!.lockedBalance).toBe(100n);
+    });
+
+    it('should keep expiring the rest when one session fails', async () => {
+        const bank = setup();
+        const error = vi.spyOn(console, 'error').mockImplementation(() => { });
+        bank.repositories.journalRepository.post.mockRejectedValueOnce(new Error('deadlock detected'));
+
+        const { expiredSessionIds } = await bank.expireSessions.execute();
+
+        expect(expiredSessionIds).toEqual(['s2']);
+        expect(bank.repositories.sessionRepository.updateStatus).toHaveBeenCalledWith('s2', 'EXPIRED');
+        expect(error).toHaveBeenCalledWith('Failed to expire session s1:', expect.any(Error));
+        error.mockRestore();
+    });
+});
@@ -0,0 +1,128 @@
+import type { ISessionRepository } from '../../domain/repositories/ISessionRepository.js';
+import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
+import type { IGameCallbackNotifier } from '../../domain/services/IGameCallbackNotifier.js';
+import type { GameSession } from '../../domain/entities/GameSession.js';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+
+export interface ExpireSessionsResult {
+    expiredSessionIds: string[];
+}
+
+/**
+ * Expire PENDING/ACTIVE sessions past their TTL and refund locked funds
+ * Safe to run on several instances at once: each session is re-checked under
+ * a row lock, so only one run expires it and the others skip it. A session that
+ * fails to expire is logged and left for the next run.
+ */
+export class ExpireSessionsUseCase {
+    constructor(
+        private sessionRepository: ISessionRepository,
+        private contractRepository: IContractRepository,
+        private unitOfWork: IUnitOfWork,
+        private notifier: IGameCallbackNotifier
+    ) { }
+
+    async execute(): Promise<ExpireSessionsResult> {
+        const candidates = await this.sessionRepository.findExpiredSessions();
+        const expiredSessionIds: string[] = [];
+
+        for (const candidate of candidates) {
+            // One session failing to expire mustn't hold up the refunds of the rest
+            let session: GameSession | null;
+            try {
+                session = await this.expireSession(candidate.id);
+            } catch (error) {
+                console.error(`Failed to expire session ${candidate.id}:`, error);
+                continue;
+            }
+            if (!session) continue;
+
+            expiredSessionIds.push(session.id);
+            await this.notifyGame(session);
+        }
+
+        return { expiredSessionIds };
+    }
+
+    /**
+     * Expire a single session, returning null if another run got there first
+     */
+    private async expireSession(sessionId: string): Promise<GameSession | null> {
+        return this.unitOfWork.run(async ({ userRepository, sessionRepository, ledgerRepository, journalRepository }) => {
+            // 1. Re-read under lock - it may have been settled, cancelled or expired meanwhile
+            const session = await sessionRepository.findByIdForUpdate(sessionId);
+            if (!session || !session.canCancel() || !session.isExpired()) {
+                return null;
+            }
+
+            // 2. Unlock each player's stake
+            const users = await userRepository.findByIdsForUpdate(
+                session.players.map(p => p.userId)
+            );
+            const ledgerEntries = [];
+            const transfers = [];
+
+            for (const user of users) {
+                const player = session.getPlayer(user.id)!;
+                user.unlockFunds(player.amountLocked);
+
+                await userRepository.updateBalance(
+                    user.id,
+                    user.balance,
+                    user.lockedBalance
+                );
+
+                ledgerEntries.push({
+                    userId: user.id,
+                    type: 'UNLOCK' as const,
+                    amount: player.amountLocked,
+                    balanceAfter: user.balance,
+                    description: 'Game session expired - funds refunded',
+                    sessionId: session.id,
+                });
+                transfers.push(new LedgerTransfer(
+                    'UNLOCK',
+                    LedgerAccount.escrow(),
+                    LedgerAccount.player(user.id),
+                    player.amountLocked,
+                    session.id
+                ));
+            }
+            await ledgerRepository.appendMany(ledgerEntries);
+            await journalRepository.post(transfers);
+
+            // 3. Mark session as expired
+            session.expire();
+            await sessionRepository.updateStatus(session.id, session.status);
+
+            return session;
+        });
+    }
+
+    /**
+     * Tell the owning game its session expired
+     * Delivery is best-effort and never undoes the refund
+     */
+    private async notifyGame(session: GameSession): Promise<void> {
+        try {
+            const contract = await this.contractRepository.findContractById(session.contractId);
+            const game = contract ? await this.contractRepository.findGameById(contract.gameId) : null;
+            if (!game) return;
+
+            await this.notifier.notify(game, {
+                type: 'session_expired',
+                sessionId: session.id,
+                contractId: session.contractId,
+                refundedPlayers: session.players.map(p => ({
+                    id: p.userId,
+                    amountRefunded: p.amountLocked.toString(),
+                })),
+                occurredAt: new Date().toISOString(),
+            });
+        } catch (error) {
+            console.error(`Failed to notify game about expired session ${session.id}:`, error);
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import type { IDeveloperEarningRepository } from '../../domain/repositories/IDeveloperEarningRepository.js';
+import { ValidationError } from '@pluto/shared';
+
+export interface GetDeveloperEarningsInput {
+    developerId: string;
+    from?: Date;
+    to?: Date;
+}
+
+export interface GetDeveloperEarningsOutput {
+    total: string;
+    byGame: Array<{ gameId: string; gameName: string; amount: string; sessions: number }>;
+    byContract: Array<{ contractId: string; contractName: string; gameId: string; amount: string; sessions: number }>;
+    byDay: Array<{ date: string; amount: string; sessions: number }>;
+}
+
+/**
+ * Get a developer's revenue share, broken down by game, contract and day
+ */
+export class GetDeveloperEarningsUseCase {
+    constructor(private developerEarningRepository: IDeveloperEarningRepository) { }
+
+    async execute(input: GetDeveloperEarningsInput): Promise<GetDeveloperEarningsOutput> {
+        if (input.from && input.to && input.from >= input.to) {
+            throw new ValidationError('"from" must be before "to"');
+        }
+
+        const breakdown = await this.developerEarningRepository.getBreakdown(input.developerId, {
+            from: input.from,
+            to: input.to,
+        });
+
+        return {
+            total: breakdown.total.toString(),
+            byGame: breakdown.byGame.map(g => ({ ...g, amount: g.amount.toString() })),
+            byContract: breakdown.byContract.map(c => ({ ...c, amount: c.amount.toString() })),
+            byDay: breakdown.byDay.map(d => ({ ...d, amount: d.amount.toString() })),
+        };
+    }
+}
@@ -0,0 +1,43 @@
+import type { IJournalRepository } from '../../domain/repositories/IJournalRepository.js';
+
+export interface GetLedgerSummaryOutput {
+    balanced: boolean;
+    total: string;
+    totalsByKind: Record<string, string>;
+    accounts: Array<{
+        code: string;
+        kind: string;
+        balance: string;
+    }>;
+}
+
+/**
+ * Summarize the double-entry journal
+ * Every posting is matched by an opposite one, so all accounts together must sum to zero.
+ * Player accounts are only reported in aggregate.
+ */
+export class GetLedgerSummaryUseCase {
+    constructor(private journalRepository: IJournalRepository) { }
+
+    async execute(): Promise<GetLedgerSummaryOutput> {
+        const accounts = await this.journalRepository.getAccounts();
+
+        const totalsByKind: Record<string, bigint> = {};
+        let total = 0n;
+        for (const account of accounts) {
+            totalsByKind[account.kind] = (totalsByKind[account.kind] ?? 0n) + account.balance;
+            total += account.balance;
+        }
+
+        return {
+            balanced: total === 0n,
+            total: total.toString(),
+            totalsByKind: Object.fromEntries(
+                Object.entries(totalsByKind).map(([kind, amount]) => [kind, amount.toString()])
+            ),
+            accounts: accounts
+                .filter(a => a.kind !== 'PLAYER')
+                .map(a => ({ code: a.code, kind: a.kind, balance: a.balance.toString() })),
+        };
+    }
+}
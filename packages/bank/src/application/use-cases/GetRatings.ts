@@ -0,0 +1,42 @@
+import type { IRatingRepository } from '../../domain/repositories/IRatingRepository.js';
+import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
+
+export interface GetRatingsInput {
+    userId: string;
+}
+
+export interface GetRatingsOutput {
+    ratings: Array<{
+        gameId: string;
+        gameName: string;
+        rating: number;
+        gamesPlayed: number;
+    }>;
+}
+
+/**
+ * Get a player's ratings at the games they've played
+ */
+export class GetRatingsUseCase {
+    constructor(
+        private ratingRepository: IRatingRepository,
+        private contractRepository: IContractRepository
+    ) { }
+
+    async execute(input: GetRatingsInput): Promise<GetRatingsOutput> {
+        const ratings = await this.ratingRepository.findByUser(input.userId);
+
+        const result = [];
+        for (const rating of ratings) {
+            const game = await this.contractRepository.findGameById(rating.gameId);
+            result.push({
+                gameId: rating.gameId,
+                gameName: game?.name ?? 'Unknown',
+                rating: rating.rating,
+                gamesPlayed: rating.gamesPlayed,
+            });
+        }
+
+        return { ratings: result };
+    }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { User } from '../../domain/entities/User.js';
+import { OpenJournalBalancesUseCase } from './OpenJournalBalances.js';
+
+// A player with 100 locked out of 1000, a bot, a user with nothing and a player already in the journal
+function setup() {
+    const users = [
+        new User('u1', 'uid1', 'Player 1', 1000n, 100n, new Date()),
+        new User('u2', 'uid2', 'Bot', 50n, 0n, new Date(), true),
+        new User('u3', 'uid3', 'Broke', 0n, 0n, new Date()),
+        new User('u4', 'uid4', 'Player 4', 500n, 0n, new Date()),
+    ];
+    const opened = new Set(['u4']);
+    const posted: LedgerTransfer[] = [];
+
+    const repositories = {
+        userRepository: {
+            findByIdsForUpdate: vi.fn(async (ids: string[]) => users.filter(u => ids.includes(u.id))),
+        },
+        journalRepository: {
+            findOpenedPlayers: async (ids: string[]) => new Set(ids.filter(id => opened.has(id))),
+            post: vi.fn(async (transfers: LedgerTransfer[]) => {
+                for (const t of transfers.filter(t => t.amount > 0n)) {
+                    posted.push(t);
+                    if (t.to.kind === 'PLAYER') opened.add(t.to.userId!);
+                }
+            }),
+        },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: work => work(repositories as unknown as TransactionalRepositories),
+    };
+    const userRepository = {
+        findPage: vi.fn(async (afterId: string | undefined) => afterId ? [] : users),
+    } as unknown as IUserRepository;
+
+    return {
+        posted,
+        repositories,
+        openJournalBalances: new OpenJournalBalancesUseCase(userRepository, unitOfWork),
+    };
+}
+
+function summarize(transfers: LedgerTransfer[]) {
+    return transfers.map(t => [t.type, t.from.code, t.to.code, t.amount]);
+}
+
+describe('OpenJournalBalancesUseCase', () => {
+    it('should post opening balances for users without a player account', async () => {
+        const { openJournalBalances, posted, repositories } = setup();
+
+        const result = await openJournalBalances.execute();
+
+        expect(result).toEqual({ usersChecked: 4, accountsOpened: 2, alreadyOpen: 1 });
+        expect(repositories.userRepository.findByIdsForUpdate).toHaveBeenCalledWith(['u1', 'u2', 'u3', 'u4']);
+        expect(summarize(posted)).toEqual([
+            ['OPENING_BALANCE', 'EXTERNAL', 'PLAYER:u1', 1000n],
+            ['OPENING_BALANCE', 'PLAYER:u1', 'ESCROW', 100n],
+            ['OPENING_BALANCE', 'HOUSE', 'PLAYER:u2', 50n],
+        ]);
+    });
+
+    it('should leave the player account holding only available funds', async () => {
+        const { openJournalBalances, posted } = setup();
+
+        await openJournalBalances.execute();
+
+        const net = (code: string) => posted.reduce(
+            (sum, t) => sum + (t.to.code === code ? t.amount : 0n) - (t.from.code === code ? t.amount : 0n),
+            0n
+        );
+        expect(net('PLAYER:u1')).toBe(900n);
+        expect(net('ESCROW')).toBe(100n);
+    });
+
+    it('should not post anything when run again', async () => {
+        const { openJournalBalances, posted } = setup();
+        await openJournalBalances.execute();
+        posted.length = 0;
+
+        const result = await openJournalBalances.execute();
+
+        expect(result).toEqual({ usersChecked: 4, accountsOpened: 0, alreadyOpen: 3 });
+        expect(posted).toEqual([]);
+    });
+});
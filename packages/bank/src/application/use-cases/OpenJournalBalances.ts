@@ -0,0 +1,71 @@
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
+import type { User } from '../../domain/entities/User.js';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+
+export interface OpenJournalBalancesResult {
+    usersChecked: number;
+    accountsOpened: number;
+    alreadyOpen: number; // users whose player account existed before this run
+}
+
+const BATCH_SIZE = 200;
+const DESCRIPTION = 'Opening balance';
+
+/**
+ * Carry balances that predate the double-entry journal into it
+ * Each user without a player account is credited their balance (from the house for bots, from
+ * EXTERNAL for everyone else) and their locked funds are moved on to ESCROW, both as OPENING_BALANCE
+ * postings. Users who already have a player account are left alone, so it can be re-run safely
+ */
+export class OpenJournalBalancesUseCase {
+    constructor(
+        private userRepository: IUserRepository,
+        private unitOfWork: IUnitOfWork
+    ) { }
+
+    async execute(): Promise<OpenJournalBalancesResult> {
+        const result: OpenJournalBalancesResult = { usersChecked: 0, accountsOpened: 0, alreadyOpen: 0 };
+        let afterId: string | undefined;
+
+        for (;;) {
+            const page = await this.userRepository.findPage(afterId, BATCH_SIZE);
+            if (page.length === 0) break;
+
+            const { opened, skipped } = await this.openBatch(page.map(u => u.id));
+            result.usersChecked += page.length;
+            result.accountsOpened += opened;
+            result.alreadyOpen += skipped;
+            afterId = page[page.length - 1].id;
+        }
+
+        return result;
+    }
+
+    private async openBatch(userIds: string[]): Promise<{ opened: number; skipped: number }> {
+        return this.unitOfWork.run(async ({ userRepository, journalRepository }) => {
+            // Lock the rows so no movement lands between reading a balance and opening it
+            const users = await userRepository.findByIdsForUpdate(userIds);
+            const openedPlayers = await journalRepository.findOpenedPlayers(userIds);
+
+            const toOpen = users.filter(u => !openedPlayers.has(u.id));
+            await journalRepository.post(toOpen.flatMap(u => this.openingTransfers(u)));
+
+            return {
+                opened: toOpen.filter(u => u.balance > 0n).length,
+                skipped: users.length - toOpen.length,
+            };
+        });
+    }
+
+    private openingTransfers(user: User): LedgerTransfer[] {
+        const source = user.isBot ? LedgerAccount.house() : LedgerAccount.external();
+        const player = LedgerAccount.player(user.id);
+        // Locked funds pass through the player account, so any non-zero balance opens it
+        return [
+            new LedgerTransfer('OPENING_BALANCE', source, player, user.balance, null, DESCRIPTION),
+            new LedgerTransfer('OPENING_BALANCE', player, LedgerAccount.escrow(), user.lockedBalance, null, DESCRIPTION),
+        ];
+    }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { User } from '../../domain/entities/User.js';
+import { ProvisionBotUseCase } from './ProvisionBot.js';
+
+// An idle bot with the given balance, or none so a new one is created
+function setup(idle: { balance: bigint; locked: bigint } | null) {
+    const bots = new Map<string, User>();
+    if (idle) {
+        bots.set('bot-1', new User('bot-1', 'bot:1', 'bot-1', idle.balance, idle.locked, new Date(), true));
+    }
+
+    const userRepository = {
+        findIdleBots: vi.fn(async () => [...bots.values()]),
+        create: vi.fn(async (data: { firebaseUid: string; displayName: string; isBot?: boolean }) => {
+            const bot = new User('bot-new', data.firebaseUid, data.displayName, 0n, 0n, new Date(), data.isBot);
+            bots.set(bot.id, bot);
+            return bot;
+        }),
+    } as unknown as IUserRepository;
+
+    const repositories = {
+        userRepository: {
+            findByIdsForUpdate: async (ids: string[]) => ids.map(id => bots.get(id)!),
+            updateBalance: vi.fn(async () => { }),
+        },
+        ledgerRepository: { append: vi.fn(async () => { }) },
+        journalRepository: { post: vi.fn(async (_transfers: LedgerTransfer[]) => { }) },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: work => work(repositories as unknown as TransactionalRepositories),
+    };
+
+    return {
+        userRepository,
+        repositories,
+        provisionBot: new ProvisionBotUseCase(userRepository, unitOfWork),
+    };
+}
+
+describe('ProvisionBotUseCase', () => {
+    it('should create a bot when none is idle and fund it from the house', async () => {
+        const { provisionBot, userRepository, repositories } = setup(null);
+
+        const bot = await provisionBot.execute({ stake: 100n });
+
+        expect(userRepository.create).toHaveBeenCalledWith(expect.objectContaining({ isBot: true }));
+        expect(bot.isBot).toBe(true);
+        expect(bot.availableBalance).toBe(100n);
+        expect(repositories.userRepository.updateBalance).toHaveBeenCalledWith('bot-new', 100n, 0n);
+        expect(repositories.ledgerRepository.append).toHaveBeenCalledWith(expect.objectContaining({
+            userId: 'bot-new', type: 'HOUSE_FUNDING', amount: 100n, balanceAfter: 100n,
+        }));
+        const [[transfers]] = repositories.journalRepository.post.mock.calls;
+        expect(transfers.map(t => [t.type, t.from.code, t.to.code, t.amount])).toEqual([
+            ['HOUSE_FUNDING', 'HOUSE', 'PLAYER:bot-new', 100n],
+        ]);
+    });
+
+    it('should reuse an idle bot and only fund what it is short', async () => {
+        const { provisionBot, userRepository, repositories } = setup({ balance: 80n, locked: 20n });
+
+        const bot = await provisionBot.execute({ stake: 100n });
+
+        expect(userRepository.create).not.toHaveBeenCalled();
+        expect(bot.id).toBe('bot-1');
+        expect(bot.availableBalance).toBe(100n);
+        expect(repositories.ledgerRepository.append).toHaveBeenCalledWith(expect.objectContaining({ amount: 40n, balanceAfter: 120n }));
+    });
+
+    it('should not fund a bot that can already afford the stake', async () => {
+        const { provisionBot, repositories } = setup({ balance: 250n, locked: 0n });
+
+        const bot = await provisionBot.execute({ stake: 100n });
+
+        expect(bot.availableBalance).toBe(250n);
+        expect(repositories.userRepository.updateBalance).not.toHaveBeenCalled();
+        expect(repositories.ledgerRepository.append).not.toHaveBeenCalled();
+        expect(repositories.journalRepository.post).not.toHaveBeenCalled();
+    });
+});
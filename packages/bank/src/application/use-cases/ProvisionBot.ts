@@ -0,0 +1,56 @@
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
+import type { User } from '../../domain/entities/User.js';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { randomBytes, randomUUID } from 'node:crypto';
+
+export interface ProvisionBotInput {
+    stake: bigint; // Entry fee the bot must be able to afford
+}
+
+/**
+ * Get a bot ready to join a lobby
+ * Reuses an idle bot or creates a new one, then tops its available balance up to the stake from
+ * the house account. Bots keep what they win, so the house only funds what they've lost.
+ */
+export class ProvisionBotUseCase {
+    constructor(
+        private userRepository: IUserRepository,
+        private unitOfWork: IUnitOfWork
+    ) { }
+
+    async execute(input: ProvisionBotInput): Promise<User> {
+        // 1. Reuse an idle bot, or create one - bots never sign in, so their Firebase UID is made up
+        const [idle] = await this.userRepository.findIdleBots(1);
+        const bot = idle ?? await this.userRepository.create({
+            firebaseUid: `bot:${randomUUID()}`,
+            displayName: `bot-${randomBytes(4).toString('hex')}`,
+            isBot: true,
+        });
+
+        // 2. Fund whatever the bot is short of the stake
+        return this.unitOfWork.run(async ({ userRepository, ledgerRepository, journalRepository }) => {
+            const [locked] = await userRepository.findByIdsForUpdate([bot.id]);
+            const shortfall = input.stake - locked.availableBalance;
+            if (shortfall <= 0n) {
+                return locked;
+            }
+
+            locked.deposit(shortfall);
+            await userRepository.updateBalance(locked.id, locked.balance, locked.lockedBalance);
+            await ledgerRepository.append({
+                userId: locked.id,
+                type: 'HOUSE_FUNDING',
+                amount: shortfall,
+                balanceAfter: locked.balance,
+                description: 'House funding for bot play',
+            });
+            await journalRepository.post([
+                new LedgerTransfer('HOUSE_FUNDING', LedgerAccount.house(), LedgerAccount.player(locked.id), shortfall),
+            ]);
+
+            return locked;
+        });
+    }
+}
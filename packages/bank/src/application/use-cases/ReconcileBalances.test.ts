@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LedgerEntryType } from '@prisma/client';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import { User } from '../../domain/entities/User.js';
+import { LedgerEntry } from '../../domain/entities/LedgerEntry.js';
+import { ReconcileBalancesUseCase } from './ReconcileBalances.js';
+
+type Entry = { type: LedgerEntryType; amount: bigint; balanceAfter: bigint };
+
+// Each user's entries, oldest first
+function setup(users: User[], entries: Record<string, Entry[]>, openLocks: Record<string, bigint> = {}) {
+    const ledgerRepository = {
+        sumByType: vi.fn(async (ids: string[]) => ids.flatMap(userId =>
+            (entries[userId] ?? []).map(e => ({ userId, type: e.type, amount: e.amount }))
+        )),
+        getFirstEntries: vi.fn(async (ids: string[]) => ids.flatMap(userId => {
+            const first = entries[userId]?.[0];
+            return first
+                ? [new LedgerEntry(`${userId}-1`, userId, first.type, first.amount, first.balanceAfter, null, null, new Date())]
+                : [];
+        })),
+    };
+    const repositories = {
+        userRepository: { findPage: vi.fn(async (afterId: string | undefined) => afterId ? [] : users) },
+        ledgerRepository,
+        sessionRepository: { sumOpenLocks: async () => new Map(Object.entries(openLocks)) },
+        paymentRepository: { sumPendingWithdrawals: async () => new Map() },
+    };
+    const unitOfWork = {
+        run: vi.fn((work: (repositories: TransactionalRepositories) => Promise<unknown>) =>
+            work(repositories as unknown as TransactionalRepositories)
+        ),
+    };
+
+    return {
+        unitOfWork,
+        reconcileBalances: new ReconcileBalancesUseCase(unitOfWork as unknown as IUnitOfWork),
+    };
+}
+
+describe('ReconcileBalancesUseCase', () => {
+    it('should read everything from one snapshot', async () => {
+        const { reconcileBalances, unitOfWork } = setup([], {});
+
+        await reconcileBalances.execute();
+
+        expect(unitOfWork.run).toHaveBeenCalledTimes(1);
+        expect(unitOfWork.run).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ snapshot: true }));
+    });
+
+    it('should find no discrepancies when balances match the ledger and open locks', async () => {
+        const { reconcileBalances } = setup(
+            [new User('u1', 'uid1', 'Player 1', 900n, 100n, new Date())],
+            {
+                u1: [
+                    { type: 'DEPOSIT', amount: 1000n, balanceAfter: 1000n },
+                    { type: 'LOCK', amount: 200n, balanceAfter: 1000n },
+                    { type: 'LOSE', amount: 100n, balanceAfter: 900n },
+                ],
+            },
+            { u1: 100n }
+        );
+
+        const result = await reconcileBalances.execute();
+
+        expect(result).toMatchObject({ consistent: true, usersChecked: 1, discrepancies: [] });
+    });
+
+    it('should replay legacy history from the opening balance its first entry sets', async () => {
+        // u1 held 400 before the ledger started recording
+        const { reconcileBalances } = setup(
+            [new User('u1', 'uid1', 'Player 1', 550n, 0n, new Date())],
+            {
+                u1: [
+                    { type: 'WIN', amount: 100n, balanceAfter: 500n },
+                    { type: 'DEPOSIT', amount: 50n, balanceAfter: 550n },
+                ],
+            }
+        );
+
+        const result = await reconcileBalances.execute();
+
+        expect(result.discrepancies).toEqual([]);
+    });
+
+    it('should report balances that differ from the replay', async () => {
+        const { reconcileBalances } = setup(
+            [new User('u1', 'uid1', 'Player 1', 1200n, 100n, new Date())],
+            { u1: [{ type: 'DEPOSIT', amount: 1000n, balanceAfter: 1000n }] }
+        );
+
+        const result = await reconcileBalances.execute();
+
+        expect(result.consistent).toBe(false);
+        expect(result.discrepancies.map(d => [d.kind, d.stored, d.expected, d.difference])).toEqual([
+            ['BALANCE_MISMATCH', '1200', '1000', '200'],
+            ['LOCKED_BALANCE_MISMATCH', '100', '0', '100'],
+            ['OPEN_LOCKS_MISMATCH', '100', '0', '100'],
+        ]);
+    });
+});
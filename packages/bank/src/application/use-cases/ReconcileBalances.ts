@@ -0,0 +1,116 @@
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { User } from '../../domain/entities/User.js';
+import { LedgerChain } from '../../domain/entities/LedgerChain.js';
+
+export type BalanceDiscrepancyKind =
+    | 'BALANCE_MISMATCH' // balance differs from the ledger replay
+    | 'LOCKED_BALANCE_MISMATCH' // lockedBalance differs from the ledger replay
+    | 'OPEN_LOCKS_MISMATCH'; // lockedBalance differs from open session stakes plus pending withdrawals
+
+export interface BalanceDiscrepancy {
+    userId: string;
+    displayName: string;
+    kind: BalanceDiscrepancyKind;
+    stored: string;
+    expected: string;
+    difference: string; // stored - expected
+}
+
+export interface ReconcileBalancesResult {
+    consistent: boolean;
+    usersChecked: number;
+    discrepancies: BalanceDiscrepancy[];
+    checkedAt: string;
+}
+
+const BATCH_SIZE = 500;
+const SNAPSHOT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Reconcile stored user balances against the ledger and open locks
+ * Replays each user's ledger entries and checks that:
+ * - balance and lockedBalance match the replay
+ * - lockedBalance matches the stakes in open sessions plus funds held for pending withdrawals
+ * Everything is read from one snapshot, so movements made while it runs can't show up as discrepancies
+ */
+export class ReconcileBalancesUseCase {
+    constructor(private unitOfWork: IUnitOfWork) { }
+
+    async execute(): Promise<ReconcileBalancesResult> {
+        return this.unitOfWork.run(async repositories => {
+            const discrepancies: BalanceDiscrepancy[] = [];
+            let usersChecked = 0;
+            let afterId: string | undefined;
+
+            // Work through users in batches so the whole table is never in memory
+            for (;;) {
+                const users = await repositories.userRepository.findPage(afterId, BATCH_SIZE);
+                if (users.length === 0) break;
+
+                discrepancies.push(...await this.reconcileBatch(repositories, users));
+                usersChecked += users.length;
+                afterId = users[users.length - 1].id;
+            }
+
+            return {
+                consistent: discrepancies.length === 0,
+                usersChecked,
+                discrepancies,
+                checkedAt: new Date().toISOString(),
+            };
+        }, { snapshot: true, timeoutMs: SNAPSHOT_TIMEOUT_MS });
+    }
+
+    private async reconcileBatch(
+        { ledgerRepository, sessionRepository, paymentRepository }: TransactionalRepositories,
+        users: User[]
+    ): Promise<BalanceDiscrepancy[]> {
+        const ids = users.map(u => u.id);
+        // Sequential - queries on one transaction can't run in parallel
+        const ledgerTotals = await ledgerRepository.sumByType(ids);
+        const firstEntries = await ledgerRepository.getFirstEntries(ids);
+        const openLocks = await sessionRepository.sumOpenLocks(ids);
+        const pendingWithdrawals = await paymentRepository.sumPendingWithdrawals(ids);
+
+        // As in LedgerChain.verify, the first entry sets the opening balance, so users whose history
+        // starts before the ledger did replay from what they held then rather than from zero
+        const replayed = new Map<string, { balance: bigint; lockedBalance: bigint }>();
+        for (const first of firstEntries) {
+            replayed.set(first.userId, {
+                balance: first.balanceAfter - LedgerChain.balanceChange(first.type, first.amount),
+                lockedBalance: 0n,
+            });
+        }
+        for (const total of ledgerTotals) {
+            const current = replayed.get(total.userId) ?? { balance: 0n, lockedBalance: 0n };
+            current.balance += LedgerChain.balanceChange(total.type, total.amount);
+            current.lockedBalance += LedgerChain.lockedChange(total.type, total.amount);
+            replayed.set(total.userId, current);
+        }
+
+        const discrepancies: BalanceDiscrepancy[] = [];
+        const check = (user: User, kind: BalanceDiscrepancyKind, stored: bigint, expected: bigint) => {
+            if (stored !== expected) {
+                discrepancies.push({
+                    userId: user.id,
+                    displayName: user.displayName,
+                    kind,
+                    stored: stored.toString(),
+                    expected: expected.toString(),
+                    difference: (stored - expected).toString(),
+                });
+            }
+        };
+
+        for (const user of users) {
+            const replay = replayed.get(user.id) ?? { balance: 0n, lockedBalance: 0n };
+            const held = (openLocks.get(user.id) ?? 0n) + (pendingWithdrawals.get(user.id) ?? 0n);
+
+            check(user, 'BALANCE_MISMATCH', user.balance, replay.balance);
+            check(user, 'LOCKED_BALANCE_MISMATCH', user.lockedBalance, replay.lockedBalance);
+            check(user, 'OPEN_LOCKS_MISMATCH', user.lockedBalance, held);
+        }
+
+        return discrepancies;
+    }
+}
@@ -1,16 +1,19 @@
 import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
-import { generateSecureToken } from '@pluto/shared';
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import { generateSecureToken, ValidationError } from '@pluto/shared';
 import crypto from 'node:crypto';
 
 export interface RegisterGameInput {
     name: string;
     description?: string;
     callbackUrl?: string;
+    ownerId?: string; // Approved developer earning a share of fees
 }
 
 export interface RegisterGameResult {
     id: string;
     name: string;
+    ownerId: string | null;
     clientSecret: string; // Plain text, shown only once
 }
 
@@ -18,9 +21,17 @@ export interface RegisterGameResult {
  * Register a new game
  */
 export class RegisterGameUseCase {
-    constructor(private contractRepository: IContractRepository) { }
+    constructor(
+        private contractRepository: IContractRepository,
+        private userRepository: IUserRepository
+    ) { }
 
     async execute(input: RegisterGameInput): Promise<RegisterGameResult> {
+        // Only approved developers can own games
+        if (input.ownerId && !(await this.userRepository.isActiveDeveloper(input.ownerId))) {
+            throw new ValidationError('Game owner must be an approved developer');
+        }
+
         // Generate client secret
         const clientSecret = generateSecureToken(32);
 
@@ -35,11 +46,13 @@ export class RegisterGameUseCase {
             description: input.description,
             clientSecretHash,
             callbackUrl: input.callbackUrl,
+            ownerId: input.ownerId,
         });
 
         return {
             id: game.id,
             name: game.name,
+            ownerId: game.ownerId,
             clientSecret, // Only returned once!
         };
     }
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { PaymentType } from '@prisma/client';
+import { User } from '../../domain/entities/User.js';
+import { Payment } from '../../domain/entities/Payment.js';
+import { ResolvePaymentUseCase } from './ResolvePayment.js';
+
+// A player with 1000, 300 of it held, and one pending payment of 300
+function setup(type: PaymentType) {
+    const user = new User('u1', 'uid1', 'Player', 1000n, 300n, new Date());
+    const payment = new Payment('p1', 'u1', type, 300n, 'PENDING', 'fake', null, null, new Date(), null);
+
+    const repositories = {
+        userRepository: {
+            findByIdsForUpdate: async () => [user],
+            updateBalance: vi.fn(async () => user),
+        },
+        ledgerRepository: { append: vi.fn(async () => { }) },
+        paymentRepository: {
+            findByIdForUpdate: async () => payment,
+            save: async (saved: Payment) => saved,
+        },
+        journalRepository: { post: vi.fn(async () => { }) },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: work => work(repositories as unknown as TransactionalRepositories),
+    };
+
+    return { user, repositories, resolvePayment: new ResolvePaymentUseCase(unitOfWork) };
+}
+
+describe('ResolvePaymentUseCase', () => {
+    it('should credit a confirmed deposit', async () => {
+        const bank = setup('DEPOSIT');
+
+        const payment = await bank.resolvePayment.execute({ paymentId: 'p1', status: 'CONFIRMED', providerReference: 'ref' });
+
+        expect(payment.status).toBe('CONFIRMED');
+        expect(bank.user.balance).toBe(1300n);
+        expect(bank.repositories.ledgerRepository.append).toHaveBeenCalledWith(expect.objectContaining({ type: 'DEPOSIT', amount: 300n, balanceAfter: 1300n }));
+        expect(bank.repositories.journalRepository.post).toHaveBeenCalledWith([
+            expect.objectContaining({ type: 'DEPOSIT', from: expect.objectContaining({ code: 'EXTERNAL' }), amount: 300n }),
+        ]);
+    });
+
+    it('should consume the hold of a confirmed withdrawal', async () => {
+        const bank = setup('WITHDRAWAL');
+
+        await bank.resolvePayment.execute({ paymentId: 'p1', status: 'CONFIRMED', providerReference: 'ref' });
+
+        expect(bank.user.balance).toBe(700n);
+        expect(bank.user.lockedBalance).toBe(0n);
+        expect(bank.repositories.ledgerRepository.append).toHaveBeenCalledWith(expect.objectContaining({ type: 'WITHDRAW', balanceAfter: 700n }));
+    });
+
+    it('should release the hold of a failed withdrawal', async () => {
+        const bank = setup('WITHDRAWAL');
+
+        const payment = await bank.resolvePayment.execute({ paymentId: 'p1', status: 'FAILED', providerReference: 'ref', failureReason: 'Card declined' });
+
+        expect(payment.status).toBe('FAILED');
+        expect(payment.failureReason).toBe('Card declined');
+        expect(bank.user.balance).toBe(1000n);
+        expect(bank.user.lockedBalance).toBe(0n);
+        expect(bank.repositories.ledgerRepository.append).toHaveBeenCalledWith(expect.objectContaining({ type: 'UNLOCK' }));
+    });
+
+    it('should leave the balance alone for a failed deposit', async () => {
+        const bank = setup('DEPOSIT');
+
+        await bank.resolvePayment.execute({ paymentId: 'p1', status: 'FAILED', providerReference: 'ref' });
+
+        expect(bank.user.balance).toBe(1000n);
+        expect(bank.repositories.userRepository.updateBalance).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a decision delivered twice', async () => {
+        const bank = setup('DEPOSIT');
+
+        await bank.resolvePayment.execute({ paymentId: 'p1', status: 'CONFIRMED', providerReference: 'ref' });
+        await bank.resolvePayment.execute({ paymentId: 'p1', status: 'CONFIRMED', providerReference: 'ref' });
+
+        expect(bank.user.balance).toBe(1300n);
+        expect(bank.repositories.ledgerRepository.append).toHaveBeenCalledOnce();
+    });
+});
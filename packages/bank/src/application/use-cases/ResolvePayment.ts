@@ -0,0 +1,86 @@
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
+import type { Payment } from '../../domain/entities/Payment.js';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { NotFoundError, UserNotFoundError } from '@pluto/shared';
+
+export interface ResolvePaymentInput {
+    paymentId: string;
+    status: 'CONFIRMED' | 'FAILED';
+    providerReference: string;
+    failureReason?: string;
+}
+
+/**
+ * Apply a payment provider's decision to a pending payment
+ * Confirmed deposits credit the balance, confirmed withdrawals consume the held funds,
+ * failed withdrawals release the hold. Already resolved payments are left untouched,
+ * so providers can safely deliver the same decision more than once.
+ */
+export class ResolvePaymentUseCase {
+    constructor(private unitOfWork: IUnitOfWork) { }
+
+    async execute(input: ResolvePaymentInput): Promise<Payment> {
+        return this.unitOfWork.run(async ({ userRepository, ledgerRepository, paymentRepository, journalRepository }) => {
+            // 1. Lock the payment and skip it if it was already resolved
+            const payment = await paymentRepository.findByIdForUpdate(input.paymentId);
+            if (!payment) {
+                throw new NotFoundError('Payment', input.paymentId);
+            }
+            if (!payment.isPending()) {
+                return payment;
+            }
+
+            const [user] = await userRepository.findByIdsForUpdate([payment.userId]);
+            if (!user) {
+                throw new UserNotFoundError(payment.userId);
+            }
+
+            // 2. Move funds according to the decision
+            if (input.status === 'CONFIRMED') {
+                payment.confirm(input.providerReference);
+
+                if (payment.type === 'DEPOSIT') {
+                    user.deposit(payment.amount);
+                } else {
+                    user.deductLockedFunds(payment.amount);
+                }
+
+                await userRepository.updateBalance(user.id, user.balance, user.lockedBalance);
+                await ledgerRepository.append({
+                    userId: user.id,
+                    type: payment.type === 'DEPOSIT' ? 'DEPOSIT' : 'WITHDRAW',
+                    amount: payment.amount,
+                    balanceAfter: user.balance,
+                    description: payment.type === 'DEPOSIT' ? 'Deposit confirmed' : 'Withdrawal confirmed',
+                });
+                await journalRepository.post([
+                    payment.type === 'DEPOSIT'
+                        ? new LedgerTransfer('DEPOSIT', LedgerAccount.external(), LedgerAccount.player(user.id), payment.amount)
+                        : new LedgerTransfer('WITHDRAW', LedgerAccount.escrow(), LedgerAccount.external(), payment.amount),
+                ]);
+            } else {
+                payment.fail(input.failureReason ?? 'Rejected by payment provider', input.providerReference);
+
+                // Deposits never touched the balance; withdrawals release their hold
+                if (payment.type === 'WITHDRAWAL') {
+                    user.unlockFunds(payment.amount);
+
+                    await userRepository.updateBalance(user.id, user.balance, user.lockedBalance);
+                    await ledgerRepository.append({
+                        userId: user.id,
+                        type: 'UNLOCK',
+                        amount: payment.amount,
+                        balanceAfter: user.balance,
+                        description: 'Withdrawal failed - hold released',
+                    });
+                    await journalRepository.post([
+                        new LedgerTransfer('UNLOCK', LedgerAccount.escrow(), LedgerAccount.player(user.id), payment.amount),
+                    ]);
+                }
+            }
+
+            return paymentRepository.save(payment);
+        });
+    }
+}
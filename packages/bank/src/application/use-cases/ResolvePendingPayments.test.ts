@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IPaymentRepository } from '../../domain/repositories/IPaymentRepository.js';
+import type { IPaymentProvider, PaymentProviderResult } from '../../domain/services/IPaymentProvider.js';
+import type { ResolvePaymentUseCase } from './ResolvePayment.js';
+import { Payment } from '../../domain/entities/Payment.js';
+import { ResolvePendingPaymentsUseCase } from './ResolvePendingPayments.js';
+
+// Three pending withdrawals and the provider's view of each
+function setup(decisions: Record<string, () => Promise<PaymentProviderResult>>) {
+    const pending = Object.keys(decisions).map(id =>
+        new Payment(id, 'u1', 'WITHDRAWAL', 100n, 'PENDING', 'fake', null, null, new Date(0), null));
+
+    const paymentRepo = {
+        findPending: vi.fn(async () => pending),
+    } as unknown as IPaymentRepository;
+    const provider = {
+        name: 'fake',
+        getPaymentStatus: async ({ paymentId }: { paymentId: string }) => decisions[paymentId](),
+    } as unknown as IPaymentProvider;
+    const resolvePayment = { execute: vi.fn(async () => pending[0]) } as unknown as ResolvePaymentUseCase;
+
+    return {
+        paymentRepo,
+        resolvePayment,
+        resolvePendingPayments: new ResolvePendingPaymentsUseCase(paymentRepo, provider, resolvePayment),
+    };
+}
+
+describe('ResolvePendingPaymentsUseCase', () => {
+    it('should apply decided payments and leave undecided ones pending', async () => {
+        const bank = setup({
+            paid: async () => ({ reference: 'ref-paid', status: 'CONFIRMED' }),
+            waiting: async () => ({ reference: 'ref-waiting', status: 'PENDING' }),
+            declined: async () => ({ reference: 'ref-declined', status: 'FAILED', failureReason: 'Card declined' }),
+        });
+
+        const { resolvedPaymentIds } = await bank.resolvePendingPayments.execute();
+
+        expect(resolvedPaymentIds).toEqual(['paid', 'declined']);
+        expect(bank.paymentRepo.findPending).toHaveBeenCalledWith('fake', expect.any(Date), 100);
+        expect(bank.resolvePayment.execute).toHaveBeenCalledWith({
+            paymentId: 'declined',
+            status: 'FAILED',
+            providerReference: 'ref-declined',
+            failureReason: 'Card declined',
+        });
+    });
+
+    it('should keep going when the provider errors on one payment', async () => {
+        const bank = setup({
+            broken: async () => { throw new Error('Gateway timeout'); },
+            paid: async () => ({ reference: 'ref-paid', status: 'CONFIRMED' }),
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        const { resolvedPaymentIds } = await bank.resolvePendingPayments.execute();
+
+        expect(resolvedPaymentIds).toEqual(['paid']);
+        expect(bank.resolvePayment.execute).toHaveBeenCalledOnce();
+    });
+});
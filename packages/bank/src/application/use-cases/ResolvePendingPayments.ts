@@ -0,0 +1,58 @@
+import type { IPaymentRepository } from '../../domain/repositories/IPaymentRepository.js';
+import type { IPaymentProvider } from '../../domain/services/IPaymentProvider.js';
+import type { ResolvePaymentUseCase } from './ResolvePayment.js';
+
+// Payments younger than this may still be resolved by the request that created them
+const IN_FLIGHT_GRACE_MS = 60 * 1000;
+
+// Payments checked with the provider per run
+const BATCH_SIZE = 100;
+
+export interface ResolvePendingPaymentsResult {
+    resolvedPaymentIds: string[];
+}
+
+/**
+ * Ask the payment provider about payments still pending and apply its decisions
+ * Covers payments whose provider call failed or timed out, and providers that decide later.
+ * A payment the provider can't report on yet stays pending for the next run.
+ */
+export class ResolvePendingPaymentsUseCase {
+    constructor(
+        private paymentRepository: IPaymentRepository,
+        private paymentProvider: IPaymentProvider,
+        private resolvePayment: ResolvePaymentUseCase
+    ) { }
+
+    async execute(): Promise<ResolvePendingPaymentsResult> {
+        const pending = await this.paymentRepository.findPending(
+            this.paymentProvider.name,
+            new Date(Date.now() - IN_FLIGHT_GRACE_MS),
+            BATCH_SIZE
+        );
+        const resolvedPaymentIds: string[] = [];
+
+        for (const payment of pending) {
+            try {
+                const result = await this.paymentProvider.getPaymentStatus({
+                    paymentId: payment.id,
+                    type: payment.type,
+                    amount: payment.amount,
+                });
+                if (result.status === 'PENDING') continue;
+
+                await this.resolvePayment.execute({
+                    paymentId: payment.id,
+                    status: result.status,
+                    providerReference: result.reference,
+                    failureReason: result.failureReason,
+                });
+                resolvedPaymentIds.push(payment.id);
+            } catch (error) {
+                console.error(`Failed to resolve pending payment ${payment.id}:`, error);
+            }
+        }
+
+        return { resolvedPaymentIds };
+    }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
+import type { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork.js';
+import type { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { User } from '../../domain/entities/User.js';
+import { Contract } from '../../domain/entities/Contract.js';
+import { PayoutStructure } from '../../domain/entities/PayoutStructure.js';
+import { MatchFormat } from '../../domain/entities/MatchFormat.js';
+import { PlayerRating } from '../../domain/entities/PlayerRating.js';
+import { GameSession, GameSessionPlayer } from '../../domain/entities/GameSession.js';
+import { SettleContractUseCase } from './SettleContract.js';
+
+// A 200 pot between u1 and u2 under a contract taking a 10% fee, of which the game's developer gets developerShare%
+function setup(developer: { id: string | null; share: number }) {
+    const contract = new Contract(
+        'contract', 'game', 'DiceRoyale', 'Classic', 100n, 10, developer.share, developer.id,
+        new PayoutStructure('EVEN_SPLIT', []), new MatchFormat(), {}, 2, 4, 3600, true, new Date()
+    );
+    const session = new GameSession('session', 'contract', 'ACTIVE', 200n, new Date(Date.now() + 60_000), new Date(), null,
+        ['u1', 'u2'].map(id => new GameSessionPlayer(`p-${id}`, 'session', id, id, 100n, false, 0n)));
+
+    const repositories = {
+        sessionRepository: {
+            findByIdForUpdate: async () => session,
+            settle: vi.fn(async () => { }),
+        },
+        userRepository: {
+            findByIdsForUpdate: async (ids: string[]) => ids.map(id => new User(id, `uid-${id}`, id, 1000n, 100n, new Date())),
+            updateBalance: vi.fn(async () => { }),
+            creditDeveloperBalance: vi.fn(async (_id: string, amount: bigint) => 500n + amount),
+        },
+        ledgerRepository: { appendMany: vi.fn(async () => { }) },
+        journalRepository: { post: vi.fn(async (_transfers: LedgerTransfer[]) => { }) },
+        developerEarningRepository: { record: vi.fn(async () => { }) },
+        ratingRepository: {
+            findByUsersForUpdate: async (gameId: string, ids: string[]) => ids.map(id => new PlayerRating(id, gameId)),
+            saveMany: async () => { },
+        },
+    };
+    const unitOfWork: IUnitOfWork = {
+        run: work => work(repositories as unknown as TransactionalRepositories),
+    };
+    const contractRepository = { findContractById: async () => contract } as unknown as IContractRepository;
+
+    return {
+        repositories,
+        settleContract: new SettleContractUseCase(contractRepository, unitOfWork, () => ({ sessionId: 'session' }) as never),
+    };
+}
+
+const results = [{ playerId: 'u1', isWinner: true }, { playerId: 'u2', isWinner: false }];
+
+function transfersOf(repositories: ReturnType<typeof setup>['repositories']) {
+    const [[transfers]] = repositories.journalRepository.post.mock.calls;
+    return transfers;
+}
+
+describe('SettleContractUseCase', () => {
+    it("should credit the developer's share of the platform fee", async () => {
+        const { settleContract, repositories } = setup({ id: 'dev', share: 30 });
+
+        const result = await settleContract.execute({ sessionToken: 'token', results });
+
+        expect(result).toMatchObject({ platformFeeCollected: 20n, developerRevenue: 6n });
+        expect(repositories.userRepository.creditDeveloperBalance).toHaveBeenCalledWith('dev', 6n);
+        expect(repositories.developerEarningRepository.record).toHaveBeenCalledWith({
+            developerId: 'dev',
+            gameId: 'game',
+            contractId: 'contract',
+            sessionId: 'session',
+            amount: 6n,
+            balanceAfter: 506n,
+        });
+        const fees = transfersOf(repositories)
+            .filter(t => t.type === 'REVENUE_SHARE' || t.type === 'FEE')
+            .map(t => [t.type, t.from.code, t.to.code, t.amount]);
+        expect(fees).toEqual([
+            ['REVENUE_SHARE', 'PRIZE_POOL', 'DEVELOPER_REVENUE:game', 6n],
+            ['FEE', 'PRIZE_POOL', 'PLATFORM_REVENUE', 14n],
+        ]);
+    });
+
+    it('should leave the prize pool empty once the pot is paid out', async () => {
+        const { settleContract, repositories } = setup({ id: 'dev', share: 30 });
+
+        await settleContract.execute({ sessionToken: 'token', results });
+
+        const prizePool = transfersOf(repositories).reduce((total, t) =>
+            total + (t.to.code === 'PRIZE_POOL' ? t.amount : 0n) - (t.from.code === 'PRIZE_POOL' ? t.amount : 0n), 0n);
+        expect(prizePool).toBe(0n);
+    });
+
+    it('should keep the whole fee when the game has no developer', async () => {
+        const { settleContract, repositories } = setup({ id: null, share: 30 });
+
+        const result = await settleContract.execute({ sessionToken: 'token', results });
+
+        expect(result.developerRevenue).toBe(0n);
+        expect(repositories.userRepository.creditDeveloperBalance).not.toHaveBeenCalled();
+        expect(repositories.developerEarningRepository.record).not.toHaveBeenCalled();
+        expect(transfersOf(repositories).filter(t => t.type === 'REVENUE_SHARE')).toEqual([]);
+        expect(transfersOf(repositories).find(t => t.type === 'FEE')?.amount).toBe(20n);
+    });
+
+    it('should share nothing when the contract gives the developer no share', async () => {
+        const { settleContract, repositories } = setup({ id: 'dev', share: 0 });
+
+        const result = await settleContract.execute({ sessionToken: 'token', results });
+
+        expect(result.developerRevenue).toBe(0n);
+        expect(repositories.userRepository.creditDeveloperBalance).not.toHaveBeenCalled();
+    });
+});
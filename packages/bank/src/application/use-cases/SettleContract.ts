@@ -1,14 +1,14 @@
-import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
 import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
-import type { ISessionRepository } from '../../domain/repositories/ISessionRepository.js';
-import type { ILedgerRepository } from '../../domain/repositories/ILedgerRepository.js';
+import type { IUnitOfWork } from '../../domain/repositories/IUnitOfWork.js';
 import type { SettleContractResult, PlayerResult, SessionTokenPayload } from '@pluto/shared';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import { PlayerRating } from '../../domain/entities/PlayerRating.js';
 import {
     SessionNotFoundError,
     SessionAlreadySettledError,
     SessionExpiredError,
     ValidationError,
-    distributeEvenly,
 } from '@pluto/shared';
 
 export interface SettleContractInput {
@@ -17,15 +17,15 @@ export interface SettleContractInput {
 }
 
 /**
- * Settle a contract - distribute rewards to winners
+ * Settle a contract - distribute rewards to winners and rate the players
  * This is called by game backend when a match ends
+ * The session row stays locked until settlement commits, so concurrent settles of
+ * the same session are serialized and only the first one succeeds
  */
 export class SettleContractUseCase {
     constructor(
-        private userRepository: IUserRepository,
         private contractRepository: IContractRepository,
-        private sessionRepository: ISessionRepository,
-        private ledgerRepository: ILedgerRepository,
+        private unitOfWork: IUnitOfWork,
         private verifySessionToken: (token: string) => SessionTokenPayload | null
     ) { }
 
@@ -36,121 +36,183 @@ export class SettleContractUseCase {
             throw new ValidationError('Invalid or expired session token');
         }
 
-        // 2. Find session
-        const session = await this.sessionRepository.findById(payload.sessionId);
-        if (!session) {
-            throw new SessionNotFoundError(payload.sessionId);
-        }
+        return this.unitOfWork.run(async ({
+            userRepository,
+            sessionRepository,
+            ledgerRepository,
+            journalRepository,
+            developerEarningRepository,
+            ratingRepository,
+        }) => {
+            // 2. Find session
+            const session = await sessionRepository.findByIdForUpdate(payload.sessionId);
+            if (!session) {
+                throw new SessionNotFoundError(payload.sessionId);
+            }
 
-        // 3. Check session status
-        if (session.status === 'SETTLED') {
-            throw new SessionAlreadySettledError(session.id);
-        }
-        if (session.status === 'CANCELLED' || session.status === 'EXPIRED') {
-            throw new ValidationError(`Session is ${session.status.toLowerCase()}`);
-        }
-        if (session.isExpired()) {
-            throw new SessionExpiredError(session.id);
-        }
+            // 3. Check session status
+            if (session.status === 'SETTLED') {
+                throw new SessionAlreadySettledError(session.id);
+            }
+            if (session.status === 'CANCELLED' || session.status === 'EXPIRED') {
+                throw new ValidationError(`Session is ${session.status.toLowerCase()}`);
+            }
+            if (session.isExpired()) {
+                throw new SessionExpiredError(session.id);
+            }
 
-        // 4. Validate results
-        const sessionPlayerIds = session.players.map((p: any) => p.userId);
-        const resultPlayerIds = input.results.map(r => r.playerId);
+            // 4. Validate results
+            const sessionPlayerIds = session.players.map((p: any) => p.userId);
+            const resultPlayerIds = input.results.map(r => r.playerId);
 
-        // Check all session players are accounted for
-        for (const playerId of sessionPlayerIds) {
-            if (!resultPlayerIds.includes(playerId)) {
-                throw new ValidationError(`Missing result for player ${playerId}`);
+            // Check all session players are accounted for, and nobody else
+            for (const playerId of sessionPlayerIds) {
+                if (!resultPlayerIds.includes(playerId)) {
+                    throw new ValidationError(`Missing result for player ${playerId}`);
+                }
+            }
+            for (const playerId of resultPlayerIds) {
+                if (!sessionPlayerIds.includes(playerId)) {
+                    throw new ValidationError(`Player ${playerId} is not in this session`);
+                }
             }
-        }
 
-        // 5. Get contract for fee calculation
-        const contract = await this.contractRepository.findContractById(session.contractId);
-        if (!contract) {
-            throw new ValidationError('Contract not found');
-        }
+            // 5. Get contract for fee calculation
+            const contract = await this.contractRepository.findContractById(session.contractId);
+            if (!contract) {
+                throw new ValidationError('Contract not found');
+            }
 
-        // 6. Calculate distributions
-        const platformFee = contract.calculatePlatformFee(session.totalPot);
-        const prizePool = contract.calculatePrizePool(session.totalPot);
+            // 6. Split the prize pool by the contract's payout model - must add up exactly
+            const platformFee = contract.calculatePlatformFee(session.totalPot);
+            const prizePool = contract.calculatePrizePool(session.totalPot);
+            const payouts = contract.payout.distribute(prizePool, input.results);
 
-        const winners = input.results.filter(r => r.isWinner);
-        if (winners.length === 0) {
-            throw new ValidationError('At least one winner required');
-        }
+            // 7. Update user balances and create ledger entries
+            const users = await userRepository.findByIdsForUpdate(sessionPlayerIds);
+            const ledgerEntries = [];
+            const transfers = [];
+            const settledWinners = [];
 
-        // Distribute prize pool among winners
-        const winAmounts = distributeEvenly(prizePool, winners.length);
-        const winnerDistribution = winners.map((w, i) => ({
-            playerId: w.playerId,
-            amount: w.winAmount ?? winAmounts[i],
-        }));
-
-        // 7. Update user balances and create ledger entries
-        const users = await this.userRepository.findByIds(sessionPlayerIds);
-        const ledgerEntries = [];
-        const settledWinners = [];
-
-        for (const user of users) {
-            const player = session.getPlayer(user.id)!;
-            const winnerInfo = winnerDistribution.find(w => w.playerId === user.id);
-
-            // Everyone loses their locked amount first
-            user.deductLockedFunds(player.amountLocked);
-
-            ledgerEntries.push({
-                userId: user.id,
-                type: 'LOSE' as const,
-                amount: player.amountLocked,
-                balanceAfter: user.balance,
-                description: 'Game entry fee deducted',
-                sessionId: session.id,
-            });
+            for (const user of users) {
+                const player = session.getPlayer(user.id)!;
+                const payout = payouts.find(p => p.playerId === user.id)!;
 
-            // Winners get their share of prize pool
-            if (winnerInfo) {
-                user.addWinnings(winnerInfo.amount);
+                // Everyone loses their locked amount first
+                user.deductLockedFunds(player.amountLocked);
 
                 ledgerEntries.push({
                     userId: user.id,
-                    type: 'WIN' as const,
-                    amount: winnerInfo.amount,
+                    type: 'LOSE' as const,
+                    amount: player.amountLocked,
                     balanceAfter: user.balance,
-                    description: 'Game winnings',
+                    description: 'Game entry fee deducted',
                     sessionId: session.id,
                 });
+                transfers.push(new LedgerTransfer(
+                    'LOSE',
+                    LedgerAccount.escrow(),
+                    LedgerAccount.prizePool(),
+                    player.amountLocked,
+                    session.id
+                ));
+
+                // Winners get their share of prize pool
+                if (payout.isWinner) {
+                    user.addWinnings(payout.amount);
+
+                    ledgerEntries.push({
+                        userId: user.id,
+                        type: 'WIN' as const,
+                        amount: payout.amount,
+                        balanceAfter: user.balance,
+                        description: 'Game winnings',
+                        sessionId: session.id,
+                    });
+                    transfers.push(new LedgerTransfer(
+                        'WIN',
+                        LedgerAccount.prizePool(),
+                        LedgerAccount.player(user.id),
+                        payout.amount,
+                        session.id
+                    ));
+
+                    settledWinners.push({
+                        id: user.id,
+                        displayName: user.displayName,
+                        amountWon: payout.amount,
+                    });
+                }
+
+                await userRepository.updateBalance(
+                    user.id,
+                    user.balance,
+                    user.lockedBalance
+                );
+            }
 
-                settledWinners.push({
-                    id: user.id,
-                    displayName: user.displayName,
-                    amountWon: winnerInfo.amount,
+            // 8. Pay the game developer their share of the fee
+            const developerRevenue = contract.calculateDeveloperShare(platformFee);
+            if (developerRevenue > 0n) {
+                const developerBalance = await userRepository.creditDeveloperBalance(
+                    contract.developerId!,
+                    developerRevenue
+                );
+                await developerEarningRepository.record({
+                    developerId: contract.developerId!,
+                    gameId: contract.gameId,
+                    contractId: contract.id,
+                    sessionId: session.id,
+                    amount: developerRevenue,
+                    balanceAfter: developerBalance,
                 });
+                transfers.push(new LedgerTransfer(
+                    'REVENUE_SHARE',
+                    LedgerAccount.prizePool(),
+                    LedgerAccount.developerRevenue(contract.gameId),
+                    developerRevenue,
+                    session.id,
+                    'Developer revenue share'
+                ));
             }
 
-            await this.userRepository.updateBalance(
-                user.id,
-                user.balance,
-                user.lockedBalance
+            // 9. Record ledger entries, sweeping the rest of the pot into platform revenue
+            transfers.push(new LedgerTransfer(
+                'FEE',
+                LedgerAccount.prizePool(),
+                LedgerAccount.platformRevenue(),
+                platformFee - developerRevenue,
+                session.id,
+                'Platform fee'
+            ));
+            await ledgerRepository.appendMany(ledgerEntries);
+            await journalRepository.post(transfers);
+
+            // 10. Update the players' ratings at the game, placed by rank or else by winning
+            const ratings = await ratingRepository.findByUsersForUpdate(contract.gameId, sessionPlayerIds);
+            PlayerRating.applyResults(ratings.map(rating => {
+                const payout = payouts.find(p => p.playerId === rating.userId)!;
+                return { rating, placing: payout.rank ?? (payout.isWinner ? 1 : 2) };
+            }));
+            await ratingRepository.saveMany(ratings);
+
+            // 11. Update session status
+            await sessionRepository.settle(
+                session.id,
+                payouts.map(p => ({
+                    playerId: p.playerId,
+                    isWinner: p.isWinner,
+                    rank: p.rank,
+                    winAmount: p.amount,
+                }))
             );
-        }
 
-        // 8. Record ledger entries
-        await this.ledgerRepository.appendMany(ledgerEntries);
-
-        // 9. Update session status
-        await this.sessionRepository.settle(
-            session.id,
-            input.results.map(r => ({
-                playerId: r.playerId,
-                isWinner: r.isWinner,
-                winAmount: winnerDistribution.find(w => w.playerId === r.playerId)?.amount ?? 0n,
-            }))
-        );
-
-        return {
-            sessionId: session.id,
-            winners: settledWinners,
-            platformFeeCollected: platformFee,
-        };
+            return {
+                sessionId: session.id,
+                winners: settledWinners,
+                platformFeeCollected: platformFee,
+                developerRevenue,
+            };
+        });
     }
 }
@@ -0,0 +1,55 @@
+import type { ILedgerRepository } from '../../domain/repositories/ILedgerRepository.js';
+import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { LedgerChainIssue } from '../../domain/entities/LedgerChain.js';
+import { LedgerChain } from '../../domain/entities/LedgerChain.js';
+
+export interface VerifyLedgerInput {
+    userId?: string; // Verify every user when omitted
+}
+
+export interface VerifyLedgerResult {
+    valid: boolean;
+    usersChecked: number;
+    entriesChecked: number;
+    issues: Array<LedgerChainIssue & { userId: string }>;
+}
+
+/**
+ * Verify ledger hash chains
+ * Walks each user's entries, checking hashes, links, sequence numbers and balance replay
+ */
+export class VerifyLedgerUseCase {
+    constructor(
+        private ledgerRepository: ILedgerRepository,
+        private userRepository: IUserRepository
+    ) { }
+
+    async execute(input: VerifyLedgerInput = {}): Promise<VerifyLedgerResult> {
+        const userIds = input.userId
+            ? [input.userId]
+            : await this.ledgerRepository.getUserIds();
+
+        const issues: VerifyLedgerResult['issues'] = [];
+        let entriesChecked = 0;
+
+        // One user at a time keeps memory bounded on large ledgers
+        for (const userId of userIds) {
+            const [entries, user] = await Promise.all([
+                this.ledgerRepository.getChain(userId),
+                this.userRepository.findById(userId),
+            ]);
+            entriesChecked += entries.length;
+
+            for (const issue of LedgerChain.verify(entries, user?.balance)) {
+                issues.push({ userId, ...issue });
+            }
+        }
+
+        return {
+            valid: issues.length === 0,
+            usersChecked: userIds.length,
+            entriesChecked,
+            issues,
+        };
+    }
+}
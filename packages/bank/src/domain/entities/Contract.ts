@@ -1,3 +1,6 @@
+import type { PayoutStructure } from './PayoutStructure.js';
+import type { MatchFormat } from './MatchFormat.js';
+
 /**
  * Contract domain entity
  * Represents economic rules for a game
@@ -10,6 +13,11 @@ export class Contract {
         public readonly name: string,
         public readonly entryFee: bigint,
         public readonly platformFee: number, // Percentage 0-100
+        public readonly developerShare: number, // Percentage 0-100 of the platform fee
+        public readonly developerId: string | null, // Owner of the game, if any
+        public readonly payout: PayoutStructure,
+        public readonly match: MatchFormat,
+        public readonly gameSettings: Record<string, unknown>, // Game-specific rules, validated by the game when it starts
         public readonly minPlayers: number,
         public readonly maxPlayers: number,
         public readonly ttlSeconds: number,
@@ -38,6 +46,15 @@ export class Contract {
         return pot - this.calculatePlatformFee(pot);
     }
 
+    /**
+     * Calculate the game developer's cut of a collected platform fee
+     * Nothing is shared when the game has no owner
+     */
+    calculateDeveloperShare(platformFee: bigint): bigint {
+        if (!this.developerId) return 0n;
+        return (platformFee * BigInt(this.developerShare)) / 100n;
+    }
+
     /**
      * Check if player count is valid for this contract
      */
@@ -53,6 +70,12 @@ export class Contract {
             name: this.name,
             entryFee: this.entryFee.toString(),
             platformFee: this.platformFee,
+            developerShare: this.developerShare,
+            payoutModel: this.payout.model,
+            payoutTable: this.payout.table,
+            matchMode: this.match.mode,
+            matchLength: this.match.length,
+            gameSettings: this.gameSettings,
             minPlayers: this.minPlayers,
             maxPlayers: this.maxPlayers,
             ttlSeconds: this.ttlSeconds,
@@ -73,6 +96,7 @@ export class Game {
         public readonly description: string | null,
         public readonly clientSecretHash: string,
         public readonly callbackUrl: string | null,
+        public readonly ownerId: string | null,
         public readonly isActive: boolean,
         public readonly createdAt: Date
     ) { }
@@ -83,6 +107,7 @@ export class Game {
             name: this.name,
             description: this.description,
             callbackUrl: this.callbackUrl,
+            ownerId: this.ownerId,
             isActive: this.isActive,
             createdAt: this.createdAt.toISOString(),
         };
@@ -118,7 +118,8 @@ export class GameSessionPlayer {
         public readonly displayName: string,
         public readonly amountLocked: bigint,
         private _isWinner: boolean,
-        private _winAmount: bigint
+        private _winAmount: bigint,
+        public readonly isBot: boolean = false
     ) { }
 
     get isWinner(): boolean {
@@ -145,6 +146,7 @@ export class GameSessionPlayer {
             amountLocked: this.amountLocked.toString(),
             isWinner: this._isWinner,
             winAmount: this._winAmount.toString(),
+            isBot: this.isBot,
         };
     }
 }
@@ -0,0 +1,37 @@
+/**
+ * IdempotencyRecord domain entity
+ * Remembers the outcome of a game backend request sent with an Idempotency-Key
+ */
+export class IdempotencyRecord {
+    constructor(
+        public readonly id: string,
+        public readonly gameId: string,
+        public readonly key: string,
+        public readonly endpoint: string,
+        public readonly requestHash: string,
+        public readonly statusCode: number | null,
+        public readonly responseBody: string | null,
+        public readonly createdAt: Date
+    ) { }
+
+    /**
+     * Check if the original request finished and its response was stored
+     */
+    isCompleted(): boolean {
+        return this.statusCode !== null && this.responseBody !== null;
+    }
+
+    /**
+     * Check if a retry is the same request as the original
+     */
+    matches(endpoint: string, requestHash: string): boolean {
+        return this.endpoint === endpoint && this.requestHash === requestHash;
+    }
+
+    /**
+     * Check if an unfinished request has been in flight for too long to still be running
+     */
+    isAbandoned(leaseMs: number): boolean {
+        return !this.isCompleted() && Date.now() - this.createdAt.getTime() > leaseMs;
+    }
+}
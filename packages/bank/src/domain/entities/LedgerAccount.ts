@@ -0,0 +1,86 @@
+import type { LedgerAccountKind } from '@prisma/client';
+
+/**
+ * Identifies a double-entry account without loading it
+ */
+export interface LedgerAccountRef {
+    code: string;
+    kind: LedgerAccountKind;
+    userId?: string;
+    gameId?: string;
+}
+
+/**
+ * LedgerAccount domain entity
+ * A double-entry account whose balance is the sum of its postings
+ */
+export class LedgerAccount {
+    constructor(
+        public readonly id: string,
+        public readonly code: string,
+        public readonly kind: LedgerAccountKind,
+        public readonly userId: string | null,
+        public readonly gameId: string | null,
+        public readonly balance: bigint
+    ) { }
+
+    /**
+     * A player's available funds
+     */
+    static player(userId: string): LedgerAccountRef {
+        return { code: `PLAYER:${userId}`, kind: 'PLAYER', userId };
+    }
+
+    /**
+     * Funds locked for games and pending withdrawals
+     */
+    static escrow(): LedgerAccountRef {
+        return { code: 'ESCROW', kind: 'ESCROW' };
+    }
+
+    /**
+     * Clearing account for pots being settled - nets to zero after every settlement
+     */
+    static prizePool(): LedgerAccountRef {
+        return { code: 'PRIZE_POOL', kind: 'PRIZE_POOL' };
+    }
+
+    /**
+     * Fees earned by the platform
+     */
+    static platformRevenue(): LedgerAccountRef {
+        return { code: 'PLATFORM_REVENUE', kind: 'PLATFORM_REVENUE' };
+    }
+
+    /**
+     * Revenue earned by a game's developer
+     */
+    static developerRevenue(gameId: string): LedgerAccountRef {
+        return { code: `DEVELOPER_REVENUE:${gameId}`, kind: 'DEVELOPER_REVENUE', gameId };
+    }
+
+    /**
+     * Money outside Pluto - its balance is minus everything deposited and not withdrawn
+     */
+    static external(): LedgerAccountRef {
+        return { code: 'EXTERNAL', kind: 'EXTERNAL' };
+    }
+
+    /**
+     * Funds the platform stakes for bots - its balance is minus everything bots were given
+     */
+    static house(): LedgerAccountRef {
+        return { code: 'HOUSE', kind: 'HOUSE' };
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            code: this.code,
+            kind: this.kind,
+            userId: this.userId,
+            gameId: this.gameId,
+            balance: this.balance.toString(),
+        };
+    }
+}
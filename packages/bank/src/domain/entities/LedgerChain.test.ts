@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { LedgerEntryType } from '@prisma/client';
+import { LedgerChain } from './LedgerChain.js';
+import { LedgerEntry } from './LedgerEntry.js';
+
+// Build a valid chain from (type, amount, balanceAfter) rows
+function buildChain(rows: Array<[LedgerEntryType, bigint, bigint]>): LedgerEntry[] {
+    let prevHash: string | null = null;
+    return rows.map(([type, amount, balanceAfter], i) => {
+        const contents = {
+            userId: 'user',
+            type,
+            amount,
+            balanceAfter,
+            description: null,
+            sessionId: null,
+            createdAt: new Date(Date.UTC(2024, 0, 1, 0, 0, i)),
+        };
+        const hash = LedgerChain.hash(contents, i + 1, prevHash);
+        const entry = new LedgerEntry(
+            `e${i + 1}`, contents.userId, type, amount, balanceAfter, null, null, contents.createdAt,
+            { sequence: i + 1, prevHash, hash }
+        );
+        prevHash = hash;
+        return entry;
+    });
+}
+
+const rows: Array<[LedgerEntryType, bigint, bigint]> = [
+    ['DEPOSIT', 1000n, 1000n],
+    ['LOCK', 100n, 1000n],
+    ['LOSE', 100n, 900n],
+    ['WIN', 190n, 1090n],
+];
+
+describe('LedgerChain', () => {
+    it('should accept an untouched chain', () => {
+        expect(LedgerChain.verify(buildChain(rows), 1090n)).toEqual([]);
+    });
+
+    it('should detect edited entries', () => {
+        const chain = buildChain(rows);
+        const [, , lose] = chain;
+        chain[2] = new LedgerEntry(
+            lose.id, lose.userId, lose.type, 10n, lose.balanceAfter, lose.description,
+            lose.sessionId, lose.createdAt, lose.chain
+        );
+
+        const kinds = LedgerChain.verify(chain).map(i => i.kind);
+        expect(kinds).toContain('HASH_MISMATCH');
+        expect(kinds).toContain('BALANCE_MISMATCH');
+    });
+
+    it('should detect deleted entries', () => {
+        const chain = buildChain(rows);
+        chain.splice(1, 1);
+
+        const kinds = LedgerChain.verify(chain).map(i => i.kind);
+        expect(kinds).toEqual(['SEQUENCE_GAP', 'BROKEN_LINK']);
+    });
+
+    it('should detect balances that do not replay', () => {
+        const chain = buildChain([
+            ['DEPOSIT', 1000n, 1000n],
+            ['WIN', 100n, 1200n],
+        ]);
+
+        const issues = LedgerChain.verify(chain);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ kind: 'BALANCE_MISMATCH', sequence: 2 });
+    });
+
+    it('should compare the last entry with the stored balance', () => {
+        const issues = LedgerChain.verify(buildChain(rows), 5000n);
+        expect(issues.map(i => i.kind)).toEqual(['BALANCE_MISMATCH']);
+    });
+});
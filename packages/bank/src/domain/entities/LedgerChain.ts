@@ -0,0 +1,188 @@
+import type { LedgerEntryType } from '@prisma/client';
+import type { LedgerEntry } from './LedgerEntry.js';
+import { createHash } from 'node:crypto';
+
+/**
+ * Position of a ledger entry in its user's hash chain
+ */
+export interface LedgerChainLink {
+    sequence: number; // 1-based, no gaps
+    prevHash: string | null; // Null for the first chained entry
+    hash: string;
+}
+
+export type LedgerChainIssueKind =
+    | 'HASH_MISMATCH' // Entry contents changed after it was written
+    | 'BROKEN_LINK' // prevHash does not point at the previous entry
+    | 'SEQUENCE_GAP' // Entries missing or reordered
+    | 'BALANCE_MISMATCH' // balanceAfter does not follow from the amounts
+    | 'UNCHAINED_ENTRY'; // Written around the ledger repository
+
+export interface LedgerChainIssue {
+    kind: LedgerChainIssueKind;
+    entryId: string | null;
+    sequence: number | null;
+    message: string;
+}
+
+/**
+ * Per-user hash chain over ledger entries
+ * Each entry hashes its own contents together with the previous entry's hash, so editing,
+ * deleting or inserting an entry breaks every link after it.
+ */
+export class LedgerChain {
+    /**
+     * Hash an entry's contents together with the previous entry's hash
+     */
+    static hash(
+        entry: {
+            userId: string;
+            type: LedgerEntryType;
+            amount: bigint;
+            balanceAfter: bigint;
+            description: string | null;
+            sessionId: string | null;
+            createdAt: Date;
+        },
+        sequence: number,
+        prevHash: string | null
+    ): string {
+        const contents = JSON.stringify([
+            prevHash,
+            entry.userId,
+            sequence,
+            entry.type,
+            entry.amount.toString(),
+            entry.balanceAfter.toString(),
+            entry.description,
+            entry.sessionId,
+            entry.createdAt.toISOString(),
+        ]);
+        return createHash('sha256').update(contents).digest('hex');
+    }
+
+    /**
+     * How an entry changes the user's total balance
+     * Locks and unlocks only move funds between available and locked, so they leave it unchanged
+     */
+    static balanceChange(type: LedgerEntryType, amount: bigint): bigint {
+        switch (type) {
+            case 'DEPOSIT':
+            case 'WIN':
+            case 'HOUSE_FUNDING':
+                return amount;
+            case 'WITHDRAW':
+            case 'LOSE':
+            case 'FEE':
+                return -amount;
+            default:
+                return 0n;
+        }
+    }
+
+    /**
+     * How an entry changes the user's locked balance
+     */
+    static lockedChange(type: LedgerEntryType, amount: bigint): bigint {
+        switch (type) {
+            case 'LOCK':
+                return amount;
+            case 'UNLOCK':
+            case 'LOSE':
+            case 'WITHDRAW':
+                return -amount;
+            default:
+                return 0n;
+        }
+    }
+
+    /**
+     * Walk one user's entries, reporting tampering, gaps and balances that don't replay
+     * Entries written before chaining was introduced are only checked for balance replay.
+     * @param currentBalance the user's stored balance, checked against the last entry
+     */
+    static verify(entries: LedgerEntry[], currentBalance?: bigint): LedgerChainIssue[] {
+        const issues: LedgerChainIssue[] = [];
+        const legacy = entries
+            .filter(e => !e.chain)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const chained = entries
+            .filter(e => e.chain)
+            .sort((a, b) => a.chain!.sequence - b.chain!.sequence);
+
+        // 1. Once chaining started, every entry must be part of the chain
+        const chainStart = chained[0]?.createdAt;
+        for (const entry of legacy) {
+            if (chainStart && entry.createdAt >= chainStart) {
+                issues.push({
+                    kind: 'UNCHAINED_ENTRY',
+                    entryId: entry.id,
+                    sequence: null,
+                    message: `Entry ${entry.id} was written after chaining started but has no hash`,
+                });
+            }
+        }
+
+        // 2. Check each link
+        let prevHash: string | null = null;
+        let expectedSequence = 1;
+        for (const entry of chained) {
+            const link = entry.chain!;
+
+            if (link.sequence !== expectedSequence) {
+                issues.push({
+                    kind: 'SEQUENCE_GAP',
+                    entryId: entry.id,
+                    sequence: link.sequence,
+                    message: `Expected sequence ${expectedSequence}, found ${link.sequence}`,
+                });
+            }
+            if (link.prevHash !== prevHash) {
+                issues.push({
+                    kind: 'BROKEN_LINK',
+                    entryId: entry.id,
+                    sequence: link.sequence,
+                    message: `prevHash does not match the hash of entry ${link.sequence - 1}`,
+                });
+            }
+            if (LedgerChain.hash(entry, link.sequence, link.prevHash) !== link.hash) {
+                issues.push({
+                    kind: 'HASH_MISMATCH',
+                    entryId: entry.id,
+                    sequence: link.sequence,
+                    message: `Contents of entry ${entry.id} do not match its hash`,
+                });
+            }
+
+            prevHash = link.hash;
+            expectedSequence = link.sequence + 1;
+        }
+
+        // 3. Replay balances - the first entry sets the opening balance
+        const timeline = [...legacy, ...chained];
+        for (let i = 1; i < timeline.length; i++) {
+            const entry = timeline[i];
+            const expected = timeline[i - 1].balanceAfter + LedgerChain.balanceChange(entry.type, entry.amount);
+            if (entry.balanceAfter !== expected) {
+                issues.push({
+                    kind: 'BALANCE_MISMATCH',
+                    entryId: entry.id,
+                    sequence: entry.chain?.sequence ?? null,
+                    message: `balanceAfter is ${entry.balanceAfter}, replay gives ${expected}`,
+                });
+            }
+        }
+
+        const last = timeline[timeline.length - 1];
+        if (last && currentBalance !== undefined && last.balanceAfter !== currentBalance) {
+            issues.push({
+                kind: 'BALANCE_MISMATCH',
+                entryId: last.id,
+                sequence: last.chain?.sequence ?? null,
+                message: `User balance is ${currentBalance}, but the ledger ends at ${last.balanceAfter}`,
+            });
+        }
+
+        return issues;
+    }
+}
@@ -1,4 +1,5 @@
 import type { LedgerEntryType } from '@prisma/client';
+import type { LedgerChainLink } from './LedgerChain.js';
 
 /**
  * LedgerEntry domain entity
@@ -13,14 +14,15 @@ export class LedgerEntry {
         public readonly balanceAfter: bigint,
         public readonly description: string | null,
         public readonly sessionId: string | null,
-        public readonly createdAt: Date
+        public readonly createdAt: Date,
+        public readonly chain: LedgerChainLink | null = null // Null for entries written before chaining
     ) { }
 
     /**
      * Check if this is a credit (adds to balance)
      */
     isCredit(): boolean {
-        return ['DEPOSIT', 'WIN', 'UNLOCK'].includes(this.type);
+        return ['DEPOSIT', 'WIN', 'UNLOCK', 'HOUSE_FUNDING'].includes(this.type);
     }
 
     /**
@@ -53,7 +55,7 @@ export class LedgerEntryFactory {
         amount: bigint,
         balanceAfter: bigint,
         sessionId: string
-    ): Omit<LedgerEntry, 'id' | 'createdAt'> {
+    ): Omit<LedgerEntry, 'id' | 'createdAt' | 'chain'> {
         return {
             userId,
             type: 'LOCK' as LedgerEntryType,
@@ -72,7 +74,7 @@ export class LedgerEntryFactory {
         amount: bigint,
         balanceAfter: bigint,
         sessionId: string
-    ): Omit<LedgerEntry, 'id' | 'createdAt'> {
+    ): Omit<LedgerEntry, 'id' | 'createdAt' | 'chain'> {
         return {
             userId,
             type: 'UNLOCK' as LedgerEntryType,
@@ -91,7 +93,7 @@ export class LedgerEntryFactory {
         amount: bigint,
         balanceAfter: bigint,
         sessionId: string
-    ): Omit<LedgerEntry, 'id' | 'createdAt'> {
+    ): Omit<LedgerEntry, 'id' | 'createdAt' | 'chain'> {
         return {
             userId,
             type: 'WIN' as LedgerEntryType,
@@ -110,7 +112,7 @@ export class LedgerEntryFactory {
         amount: bigint,
         balanceAfter: bigint,
         sessionId: string
-    ): Omit<LedgerEntry, 'id' | 'createdAt'> {
+    ): Omit<LedgerEntry, 'id' | 'createdAt' | 'chain'> {
         return {
             userId,
             type: 'LOSE' as LedgerEntryType,
@@ -129,7 +131,7 @@ export class LedgerEntryFactory {
         amount: bigint,
         balanceAfter: bigint,
         sessionId: string
-    ): Omit<LedgerEntry, 'id' | 'createdAt'> {
+    ): Omit<LedgerEntry, 'id' | 'createdAt' | 'chain'> {
         return {
             userId,
             type: 'FEE' as LedgerEntryType,
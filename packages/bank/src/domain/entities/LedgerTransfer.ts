@@ -0,0 +1,34 @@
+import type { LedgerEntryType } from '@prisma/client';
+import type { LedgerAccountRef } from './LedgerAccount.js';
+
+/**
+ * LedgerTransfer domain entity
+ * A single money movement, posted as one debit and one matching credit line
+ */
+export class LedgerTransfer {
+    constructor(
+        public readonly type: LedgerEntryType,
+        public readonly from: LedgerAccountRef,
+        public readonly to: LedgerAccountRef,
+        public readonly amount: bigint,
+        public readonly sessionId: string | null = null,
+        public readonly description: string | null = null
+    ) {
+        if (amount < 0n) {
+            throw new Error('Transfer amount cannot be negative');
+        }
+        if (from.code === to.code) {
+            throw new Error(`Cannot transfer from ${from.code} to itself`);
+        }
+    }
+
+    /**
+     * Debit and credit lines - always sum to zero
+     */
+    lines(): Array<{ account: LedgerAccountRef; amount: bigint }> {
+        return [
+            { account: this.from, amount: -this.amount },
+            { account: this.to, amount: this.amount },
+        ];
+    }
+}
@@ -0,0 +1,29 @@
+import type { MatchMode } from '@prisma/client';
+import { ValidationError } from '@pluto/shared';
+
+const MAX_MATCH_LENGTH = 25;
+
+/**
+ * MatchFormat value object
+ * How many rounds a contract's matches last, for games played in rounds
+ *
+ * - BEST_OF: up to `length` rounds, over early once the leader can't be caught (best of 1 is a single round)
+ * - FIRST_TO: until a player has won `length` rounds
+ */
+export class MatchFormat {
+    constructor(
+        public readonly mode: MatchMode = 'BEST_OF',
+        public readonly length: number = 1
+    ) { }
+
+    /**
+     * Create a match format, validating its length
+     */
+    static create(mode: MatchMode = 'BEST_OF', length = 1): MatchFormat {
+        if (!Number.isInteger(length) || length < 1 || length > MAX_MATCH_LENGTH) {
+            throw new ValidationError(`Match length must be a whole number from 1 to ${MAX_MATCH_LENGTH}`);
+        }
+
+        return new MatchFormat(mode, length);
+    }
+}
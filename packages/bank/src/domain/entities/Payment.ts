@@ -0,0 +1,82 @@
+import type { PaymentStatus, PaymentType } from '@prisma/client';
+
+/**
+ * Payment domain entity
+ * Represents a deposit or withdrawal moving through an external payment provider
+ */
+export class Payment {
+    constructor(
+        public readonly id: string,
+        public readonly userId: string,
+        public readonly type: PaymentType,
+        public readonly amount: bigint,
+        private _status: PaymentStatus,
+        public readonly provider: string,
+        private _providerReference: string | null,
+        private _failureReason: string | null,
+        public readonly createdAt: Date,
+        private _completedAt: Date | null
+    ) { }
+
+    get status(): PaymentStatus {
+        return this._status;
+    }
+
+    get providerReference(): string | null {
+        return this._providerReference;
+    }
+
+    get failureReason(): string | null {
+        return this._failureReason;
+    }
+
+    get completedAt(): Date | null {
+        return this._completedAt;
+    }
+
+    /**
+     * Check if the provider has not decided on this payment yet
+     */
+    isPending(): boolean {
+        return this._status === 'PENDING';
+    }
+
+    /**
+     * Mark payment as confirmed by the provider
+     */
+    confirm(providerReference: string): void {
+        if (!this.isPending()) {
+            throw new Error(`Cannot confirm payment in ${this._status} status`);
+        }
+        this._status = 'CONFIRMED';
+        this._providerReference = providerReference;
+        this._completedAt = new Date();
+    }
+
+    /**
+     * Mark payment as failed
+     */
+    fail(reason: string, providerReference: string | null = null): void {
+        if (!this.isPending()) {
+            throw new Error(`Cannot fail payment in ${this._status} status`);
+        }
+        this._status = 'FAILED';
+        this._failureReason = reason;
+        this._providerReference = providerReference ?? this._providerReference;
+        this._completedAt = new Date();
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            type: this.type,
+            amount: this.amount.toString(),
+            status: this._status,
+            provider: this.provider,
+            providerReference: this._providerReference,
+            failureReason: this._failureReason,
+            createdAt: this.createdAt.toISOString(),
+            completedAt: this._completedAt?.toISOString() ?? null,
+        };
+    }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { PayoutStructure } from './PayoutStructure.js';
+
+const amounts = (payouts: { playerId: string; amount: bigint }[]) =>
+    Object.fromEntries(payouts.map(p => [p.playerId, p.amount]));
+
+describe('PayoutStructure', () => {
+    it('should validate the payout table', () => {
+        expect(() => PayoutStructure.create('RANKED', [])).toThrow('require a payout table');
+        expect(() => PayoutStructure.create('RANKED', [50, 30])).toThrow('add up to 100');
+        expect(() => PayoutStructure.create('EVEN_SPLIT', [100])).toThrow('only used by RANKED');
+        expect(PayoutStructure.create('RANKED', [50, 30, 20]).table).toEqual([50, 30, 20]);
+    });
+
+    it('should split evenly among winners', () => {
+        const payouts = new PayoutStructure('EVEN_SPLIT').distribute(1000n, [
+            { playerId: 'a', isWinner: true },
+            { playerId: 'b', isWinner: true },
+            { playerId: 'c', isWinner: false },
+        ]);
+        expect(amounts(payouts)).toEqual({ a: 500n, b: 500n, c: 0n });
+    });
+
+    it('should give winner-takes-all to the single first place', () => {
+        const wta = new PayoutStructure('WINNER_TAKES_ALL');
+        expect(amounts(wta.distribute(900n, [
+            { playerId: 'a', rank: 2 },
+            { playerId: 'b', rank: 1 },
+        ]))).toEqual({ a: 0n, b: 900n });
+        expect(() => wta.distribute(900n, [
+            { playerId: 'a', rank: 1 },
+            { playerId: 'b', rank: 1 },
+        ])).toThrow('exactly one winner');
+    });
+
+    it('should pay places by the percentage table', () => {
+        const ranked = new PayoutStructure('RANKED', [50, 30, 20]);
+        const payouts = ranked.distribute(1000n, [
+            { playerId: 'a', rank: 3 },
+            { playerId: 'b', rank: 1 },
+            { playerId: 'c', rank: 2 },
+            { playerId: 'd', rank: 4 },
+        ]);
+        expect(amounts(payouts)).toEqual({ a: 200n, b: 500n, c: 300n, d: 0n });
+        expect(payouts.find(p => p.playerId === 'd')!.isWinner).toBe(false);
+    });
+
+    it('should pool the places occupied by tied players', () => {
+        const payouts = new PayoutStructure('RANKED', [50, 30, 20]).distribute(1000n, [
+            { playerId: 'a', rank: 1 },
+            { playerId: 'b', rank: 2 },
+            { playerId: 'c', rank: 2 },
+        ]);
+        expect(amounts(payouts)).toEqual({ a: 500n, b: 250n, c: 250n });
+    });
+
+    it('should rescale unused places and keep rounding dust in the pool', () => {
+        const payouts = new PayoutStructure('RANKED', [50, 30, 20]).distribute(1001n, [
+            { playerId: 'a', rank: 1 },
+            { playerId: 'b', rank: 2 },
+        ]);
+        // 50/30 of 1001 = 625.6 / 375.3 - dust goes to first place
+        expect(amounts(payouts)).toEqual({ a: 626n, b: 375n });
+    });
+
+    it('should only accept custom amounts that add up to the prize pool', () => {
+        const custom = new PayoutStructure('CUSTOM');
+        expect(amounts(custom.distribute(1000n, [
+            { playerId: 'a', winAmount: 700n },
+            { playerId: 'b', winAmount: 300n },
+        ]))).toEqual({ a: 700n, b: 300n });
+        expect(() => custom.distribute(1000n, [
+            { playerId: 'a', winAmount: 900n },
+            { playerId: 'b', winAmount: 300n },
+        ])).toThrow('prize pool is 1000');
+    });
+
+    it('should reject winAmount outside CUSTOM payouts', () => {
+        expect(() => new PayoutStructure('EVEN_SPLIT').distribute(1000n, [
+            { playerId: 'a', isWinner: true, winAmount: 2000n },
+        ])).toThrow('only accepted for CUSTOM');
+    });
+});
@@ -0,0 +1,173 @@
+import type { PayoutModel } from '@prisma/client';
+import { ValidationError, distributeEvenly } from '@pluto/shared';
+
+/**
+ * A player's outcome as reported by the game server
+ */
+export interface PayoutResult {
+    playerId: string;
+    isWinner?: boolean;
+    rank?: number; // 1 = first place, equal ranks are ties
+    winAmount?: bigint; // CUSTOM payouts only
+}
+
+export interface Payout {
+    playerId: string;
+    rank: number | null;
+    isWinner: boolean;
+    amount: bigint;
+}
+
+/**
+ * PayoutStructure value object
+ * Decides how a contract's prize pool is split between players
+ *
+ * - WINNER_TAKES_ALL: the single first-placed player gets everything
+ * - EVEN_SPLIT: all winners share equally
+ * - RANKED: places share by a percentage table (e.g. 50/30/20); tied players pool the places they occupy
+ * - CUSTOM: the game server sends every amount
+ */
+export class PayoutStructure {
+    constructor(
+        public readonly model: PayoutModel,
+        public readonly table: number[] = []
+    ) { }
+
+    /**
+     * Create a payout structure, validating its percentage table
+     */
+    static create(model: PayoutModel, table: number[] = []): PayoutStructure {
+        if (model === 'RANKED') {
+            if (table.length === 0) {
+                throw new ValidationError('RANKED payouts require a payout table');
+            }
+            if (table.some(p => !Number.isInteger(p) || p <= 0)) {
+                throw new ValidationError('Payout table entries must be positive whole percentages');
+            }
+            const total = table.reduce((sum, p) => sum + p, 0);
+            if (total !== 100) {
+                throw new ValidationError(`Payout table must add up to 100, got ${total}`);
+            }
+        } else if (table.length > 0) {
+            throw new ValidationError('Payout table is only used by RANKED payouts');
+        }
+
+        return new PayoutStructure(model, table);
+    }
+
+    /**
+     * Split the prize pool according to the players' results
+     * @throws ValidationError if the results don't fit the model or don't add up to the prize pool
+     */
+    distribute(prizePool: bigint, results: PayoutResult[]): Payout[] {
+        const playerIds = new Set(results.map(r => r.playerId));
+        if (playerIds.size !== results.length) {
+            throw new ValidationError('Duplicate player in results');
+        }
+        for (const r of results) {
+            if (r.rank !== undefined && (!Number.isInteger(r.rank) || r.rank < 1)) {
+                throw new ValidationError(`Invalid rank ${r.rank} for player ${r.playerId}`);
+            }
+        }
+        if (this.model !== 'CUSTOM' && results.some(r => r.winAmount !== undefined)) {
+            throw new ValidationError('winAmount is only accepted for CUSTOM payouts');
+        }
+
+        let payouts: Payout[];
+        switch (this.model) {
+            case 'WINNER_TAKES_ALL':
+                payouts = this.splitAmongWinners(prizePool, results, true);
+                break;
+            case 'EVEN_SPLIT':
+                payouts = this.splitAmongWinners(prizePool, results, false);
+                break;
+            case 'RANKED':
+                payouts = this.splitByRank(prizePool, results);
+                break;
+            case 'CUSTOM':
+                payouts = this.takeCustomAmounts(results);
+                break;
+        }
+
+        const total = payouts.reduce((sum, p) => sum + p.amount, 0n);
+        if (total !== prizePool) {
+            throw new ValidationError(`Payouts total ${total} but the prize pool is ${prizePool}`);
+        }
+
+        return payouts;
+    }
+
+    /**
+     * Winners are the first-ranked players, or those flagged isWinner when no rank is given
+     */
+    private splitAmongWinners(prizePool: bigint, results: PayoutResult[], single: boolean): Payout[] {
+        const isWinner = (r: PayoutResult) => r.rank !== undefined ? r.rank === 1 : r.isWinner === true;
+        const winners = results.filter(isWinner);
+
+        if (winners.length === 0) {
+            throw new ValidationError('At least one winner required');
+        }
+        if (single && winners.length > 1) {
+            throw new ValidationError('Winner-takes-all payouts require exactly one winner');
+        }
+
+        const shares = distributeEvenly(prizePool, winners.length);
+        return results.map(r => {
+            const index = winners.indexOf(r);
+            return {
+                playerId: r.playerId,
+                rank: r.rank ?? null,
+                isWinner: index >= 0,
+                amount: index >= 0 ? shares[index] : 0n,
+            };
+        });
+    }
+
+    private splitByRank(prizePool: bigint, results: PayoutResult[]): Payout[] {
+        if (results.some(r => r.rank === undefined)) {
+            throw new ValidationError('Every player needs a rank for RANKED payouts');
+        }
+
+        // With fewer players than paid places, the unused percentages are spread proportionally
+        const paidPlaces = Math.min(results.length, this.table.length);
+        const paidPercent = BigInt(this.table.slice(0, paidPlaces).reduce((sum, p) => sum + p, 0));
+        const placeShares = this.table.slice(0, paidPlaces).map(p => (prizePool * BigInt(p)) / paidPercent);
+        placeShares[0] += prizePool - placeShares.reduce((sum, s) => sum + s, 0n); // Rounding dust to first place
+
+        // Walk the standings; each group of tied players pools the places it occupies
+        const ranks = [...new Set(results.map(r => r.rank!))].sort((a, b) => a - b);
+        const amounts = new Map<string, bigint>();
+        let place = 0;
+        for (const rank of ranks) {
+            const tied = results.filter(r => r.rank === rank);
+            const pooled = placeShares
+                .slice(place, place + tied.length)
+                .reduce((sum, s) => sum + s, 0n);
+            const shares = distributeEvenly(pooled, tied.length);
+            tied.forEach((r, i) => amounts.set(r.playerId, shares[i]));
+            place += tied.length;
+        }
+
+        return results.map(r => ({
+            playerId: r.playerId,
+            rank: r.rank!,
+            isWinner: amounts.get(r.playerId)! > 0n,
+            amount: amounts.get(r.playerId)!,
+        }));
+    }
+
+    private takeCustomAmounts(results: PayoutResult[]): Payout[] {
+        return results.map(r => {
+            const amount = r.winAmount ?? 0n;
+            if (amount < 0n) {
+                throw new ValidationError(`Negative winAmount for player ${r.playerId}`);
+            }
+            return {
+                playerId: r.playerId,
+                rank: r.rank ?? null,
+                isWinner: r.isWinner ?? amount > 0n,
+                amount,
+            };
+        });
+    }
+}
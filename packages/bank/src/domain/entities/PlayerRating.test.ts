@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerRating } from './PlayerRating.js';
+
+describe('PlayerRating Entity', () => {
+    it('should move even players by half the K factor', () => {
+        const winner = new PlayerRating('a', 'game');
+        const loser = new PlayerRating('b', 'game');
+
+        PlayerRating.applyResults([{ rating: winner, placing: 1 }, { rating: loser, placing: 2 }]);
+
+        expect(winner.rating).toBe(1516);
+        expect(loser.rating).toBe(1484);
+        expect(winner.gamesPlayed).toBe(1);
+        expect(loser.gamesPlayed).toBe(1);
+    });
+
+    it('should reward an upset more than an expected win', () => {
+        const favourite = new PlayerRating('a', 'game', 1800);
+        const underdog = new PlayerRating('b', 'game', 1400);
+
+        PlayerRating.applyResults([{ rating: favourite, placing: 2 }, { rating: underdog, placing: 1 }]);
+
+        expect(underdog.rating).toBe(1429);
+        expect(favourite.rating).toBe(1771);
+    });
+
+    it('should leave tied even players unchanged', () => {
+        const players = ['a', 'b', 'c'].map(id => new PlayerRating(id, 'game'));
+
+        PlayerRating.applyResults(players.map(rating => ({ rating, placing: 1 })));
+
+        expect(players.map(p => p.rating)).toEqual([1500, 1500, 1500]);
+    });
+
+    it('should average a multiplayer session over the opponents', () => {
+        const [first, second, third] = ['a', 'b', 'c'].map(id => new PlayerRating(id, 'game'));
+
+        PlayerRating.applyResults([
+            { rating: first, placing: 1 },
+            { rating: second, placing: 2 },
+            { rating: third, placing: 3 },
+        ]);
+
+        expect([first.rating, second.rating, third.rating]).toEqual([1516, 1500, 1484]);
+    });
+});
@@ -0,0 +1,65 @@
+const K_FACTOR = 32;
+
+/**
+ * PlayerRating entity
+ * A player's Elo rating at one game. Multiplayer sessions are scored as every pair of players
+ * meeting head to head, the better-placed one winning (a draw on equal placings), with the
+ * change averaged over the player's opponents.
+ */
+export class PlayerRating {
+    static readonly INITIAL = 1500;
+
+    constructor(
+        public readonly userId: string,
+        public readonly gameId: string,
+        private _rating: number = PlayerRating.INITIAL,
+        private _gamesPlayed: number = 0
+    ) { }
+
+    get rating(): number {
+        return this._rating;
+    }
+
+    get gamesPlayed(): number {
+        return this._gamesPlayed;
+    }
+
+    /**
+     * Chance of beating an opponent, from 0 to 1
+     */
+    expectedScore(opponent: PlayerRating): number {
+        return 1 / (1 + 10 ** ((opponent._rating - this._rating) / 400));
+    }
+
+    /**
+     * Rate a finished session from each player's placing (1 = first, equal placings are ties)
+     */
+    static applyResults(standings: Array<{ rating: PlayerRating; placing: number }>): void {
+        if (standings.length < 2) return;
+
+        // Work from the ratings before the session, so the order players are updated in doesn't matter
+        const changes = standings.map(({ rating, placing }) => {
+            let total = 0;
+            for (const opponent of standings) {
+                if (opponent.rating === rating) continue;
+                const actual = placing < opponent.placing ? 1 : placing === opponent.placing ? 0.5 : 0;
+                total += actual - rating.expectedScore(opponent.rating);
+            }
+            return Math.round(K_FACTOR * total / (standings.length - 1));
+        });
+
+        standings.forEach(({ rating }, i) => {
+            rating._rating += changes[i];
+            rating._gamesPlayed += 1;
+        });
+    }
+
+    toJSON() {
+        return {
+            userId: this.userId,
+            gameId: this.gameId,
+            rating: this._rating,
+            gamesPlayed: this._gamesPlayed,
+        };
+    }
+}
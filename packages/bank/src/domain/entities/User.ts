@@ -11,7 +11,8 @@ export class User {
         public readonly displayName: string,
         private _balance: bigint,
         private _lockedBalance: bigint,
-        public readonly createdAt: Date
+        public readonly createdAt: Date,
+        public readonly isBot: boolean = false // System player, funded by the house
     ) { }
 
     get balance(): bigint {
@@ -100,6 +101,7 @@ export class User {
             balance: this._balance.toString(),
             lockedBalance: this._lockedBalance.toString(),
             availableBalance: this.availableBalance.toString(),
+            isBot: this.isBot,
             createdAt: this.createdAt.toISOString(),
         };
     }
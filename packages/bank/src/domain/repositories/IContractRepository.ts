@@ -1,4 +1,6 @@
 import type { Contract, Game } from '../entities/Contract.js';
+import type { PayoutStructure } from '../entities/PayoutStructure.js';
+import type { MatchFormat } from '../entities/MatchFormat.js';
 
 /**
  * Repository interface for Contract and Game operations
@@ -22,6 +24,10 @@ export interface IContractRepository {
         name: string;
         entryFee: bigint;
         platformFee: number;
+        developerShare?: number;
+        payout?: PayoutStructure;
+        match?: MatchFormat;
+        gameSettings?: Record<string, unknown>;
         minPlayers: number;
         maxPlayers: number;
         ttlSeconds?: number;
@@ -45,6 +51,7 @@ export interface IContractRepository {
         description?: string;
         clientSecretHash: string;
         callbackUrl?: string;
+        ownerId?: string;
     }): Promise<Game>;
 
     /**
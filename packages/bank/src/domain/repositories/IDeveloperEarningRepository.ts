@@ -0,0 +1,34 @@
+/**
+ * A developer's earnings grouped by game, contract and day
+ */
+export interface DeveloperEarningsBreakdown {
+    total: bigint;
+    byGame: Array<{ gameId: string; gameName: string; amount: bigint; sessions: number }>;
+    byContract: Array<{ contractId: string; contractName: string; gameId: string; amount: bigint; sessions: number }>;
+    byDay: Array<{ date: string; amount: bigint; sessions: number }>;
+}
+
+/**
+ * Repository interface for developer revenue share records
+ */
+export interface IDeveloperEarningRepository {
+    /**
+     * Record a developer's share of one settled session
+     */
+    record(data: {
+        developerId: string;
+        gameId: string;
+        contractId: string;
+        sessionId: string;
+        amount: bigint;
+        balanceAfter: bigint;
+    }): Promise<void>;
+
+    /**
+     * Sum a developer's earnings, optionally limited to [from, to)
+     */
+    getBreakdown(
+        developerId: string,
+        range?: { from?: Date; to?: Date }
+    ): Promise<DeveloperEarningsBreakdown>;
+}
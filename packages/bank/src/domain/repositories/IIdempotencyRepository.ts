@@ -0,0 +1,34 @@
+import type { IdempotencyRecord } from '../entities/IdempotencyRecord.js';
+
+/**
+ * Repository interface for idempotency key operations
+ */
+export interface IIdempotencyRepository {
+    /**
+     * Find the record for a key used by a game
+     */
+    find(gameId: string, key: string): Promise<IdempotencyRecord | null>;
+
+    /**
+     * Claim a key before running the request
+     * Returns the reservation, or null if the key is already claimed
+     */
+    reserve(data: {
+        gameId: string;
+        key: string;
+        endpoint: string;
+        requestHash: string;
+    }): Promise<IdempotencyRecord | null>;
+
+    /**
+     * Store the response of a finished request on its reservation
+     * Returns false if the reservation was released or taken over meanwhile
+     */
+    complete(reservation: IdempotencyRecord, statusCode: number, responseBody: string): Promise<boolean>;
+
+    /**
+     * Release an unfinished reservation so the request can be retried
+     * Does nothing if the key has since been completed or claimed by another request
+     */
+    release(reservation: IdempotencyRecord): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import type { LedgerAccountKind } from '@prisma/client';
+import type { LedgerAccount } from '../entities/LedgerAccount.js';
+import type { LedgerTransfer } from '../entities/LedgerTransfer.js';
+
+/**
+ * Repository interface for the double-entry journal
+ */
+export interface IJournalRepository {
+    /**
+     * Post transfers as balanced journals, opening accounts as needed
+     * Zero-amount transfers are skipped
+     */
+    post(transfers: LedgerTransfer[]): Promise<void>;
+
+    /**
+     * Get accounts with their balances, optionally filtered by kind
+     */
+    getAccounts(kind?: LedgerAccountKind): Promise<LedgerAccount[]>;
+
+    /**
+     * Find which of the given users already have a player account
+     */
+    findOpenedPlayers(userIds: string[]): Promise<Set<string>>;
+}
@@ -7,7 +7,8 @@ import type { PaginatedResult } from '@pluto/shared';
  */
 export interface ILedgerRepository {
     /**
-     * Append a new ledger entry (immutable)
+     * Append a new ledger entry (immutable), chained to the user's previous entry
+     * Callers must hold the user's row lock so appends for one user are serialized
      */
     append(data: {
         userId: string;
@@ -19,7 +20,7 @@ export interface ILedgerRepository {
     }): Promise<LedgerEntry>;
 
     /**
-     * Append multiple ledger entries in a transaction
+     * Append multiple ledger entries in a transaction, chaining each per user
      */
     appendMany(entries: Array<{
         userId: string;
@@ -43,4 +44,28 @@ export interface ILedgerRepository {
      * Get entries for a specific session
      */
     getBySessionId(sessionId: string): Promise<LedgerEntry[]>;
+
+    /**
+     * Get all of a user's entries, oldest first
+     */
+    getChain(userId: string): Promise<LedgerEntry[]>;
+
+    /**
+     * Get each user's first entry, in the order getChain returns them
+     */
+    getFirstEntries(userIds: string[]): Promise<LedgerEntry[]>;
+
+    /**
+     * Get IDs of all users with ledger entries
+     */
+    getUserIds(): Promise<string[]>;
+
+    /**
+     * Sum entry amounts per user and type, for replaying balances in bulk
+     */
+    sumByType(userIds: string[]): Promise<Array<{
+        userId: string;
+        type: LedgerEntryType;
+        amount: bigint;
+    }>>;
 }
@@ -0,0 +1,42 @@
+import type { Payment } from '../entities/Payment.js';
+import type { PaymentType } from '@prisma/client';
+
+/**
+ * Repository interface for Payment operations
+ */
+export interface IPaymentRepository {
+    /**
+     * Find payment by ID
+     */
+    findById(id: string): Promise<Payment | null>;
+
+    /**
+     * Find payment by ID and lock its row until the surrounding transaction ends
+     */
+    findByIdForUpdate(id: string): Promise<Payment | null>;
+
+    /**
+     * Find a provider's payments still pending since before the given time, oldest first
+     */
+    findPending(provider: string, createdBefore: Date, limit: number): Promise<Payment[]>;
+
+    /**
+     * Create a new pending payment
+     */
+    create(data: {
+        userId: string;
+        type: PaymentType;
+        amount: bigint;
+        provider: string;
+    }): Promise<Payment>;
+
+    /**
+     * Persist a payment's status change
+     */
+    save(payment: Payment): Promise<Payment>;
+
+    /**
+     * Sum each user's funds held by pending withdrawals
+     */
+    sumPendingWithdrawals(userIds: string[]): Promise<Map<string, bigint>>;
+}
@@ -0,0 +1,27 @@
+import type { PlayerRating } from '../entities/PlayerRating.js';
+
+/**
+ * Repository interface for players' ratings at games
+ * Players who never played a game are rated PlayerRating.INITIAL for it.
+ */
+export interface IRatingRepository {
+    /**
+     * Find players' ratings at a game
+     */
+    findByUsers(gameId: string, userIds: string[]): Promise<PlayerRating[]>;
+
+    /**
+     * Find players' ratings at a game, locked for update until the transaction ends
+     */
+    findByUsersForUpdate(gameId: string, userIds: string[]): Promise<PlayerRating[]>;
+
+    /**
+     * Find a player's ratings at every game they've played
+     */
+    findByUser(userId: string): Promise<PlayerRating[]>;
+
+    /**
+     * Save updated ratings
+     */
+    saveMany(ratings: PlayerRating[]): Promise<void>;
+}
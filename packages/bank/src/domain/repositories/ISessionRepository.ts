@@ -10,6 +10,11 @@ export interface ISessionRepository {
      */
     findById(id: string): Promise<GameSession | null>;
 
+    /**
+     * Find session by ID and lock its row until the surrounding transaction ends
+     */
+    findByIdForUpdate(id: string): Promise<GameSession | null>;
+
     /**
      * Create a new game session with players
      */
@@ -21,6 +26,7 @@ export interface ISessionRepository {
             userId: string;
             displayName: string;
             amountLocked: bigint;
+            isBot: boolean;
         }>;
     }): Promise<GameSession>;
 
@@ -37,6 +43,7 @@ export interface ISessionRepository {
         results: Array<{
             playerId: string;
             isWinner: boolean;
+            rank?: number | null;
             winAmount: bigint;
         }>
     ): Promise<GameSession>;
@@ -50,4 +57,9 @@ export interface ISessionRepository {
      * Find sessions by status
      */
     findByStatus(status: GameSessionStatus): Promise<GameSession[]>;
+
+    /**
+     * Sum each user's stakes in PENDING/ACTIVE sessions
+     */
+    sumOpenLocks(userIds: string[]): Promise<Map<string, bigint>>;
 }
@@ -0,0 +1,39 @@
+import type { IUserRepository } from './IUserRepository.js';
+import type { ILedgerRepository } from './ILedgerRepository.js';
+import type { ISessionRepository } from './ISessionRepository.js';
+import type { IPaymentRepository } from './IPaymentRepository.js';
+import type { IJournalRepository } from './IJournalRepository.js';
+import type { IDeveloperEarningRepository } from './IDeveloperEarningRepository.js';
+import type { IRatingRepository } from './IRatingRepository.js';
+import type { IIdempotencyRepository } from './IIdempotencyRepository.js';
+
+/**
+ * Repositories bound to a single database transaction
+ */
+export interface TransactionalRepositories {
+    userRepository: IUserRepository;
+    ledgerRepository: ILedgerRepository;
+    sessionRepository: ISessionRepository;
+    paymentRepository: IPaymentRepository;
+    journalRepository: IJournalRepository;
+    developerEarningRepository: IDeveloperEarningRepository;
+    ratingRepository: IRatingRepository;
+    idempotencyRepository: IIdempotencyRepository;
+}
+
+export interface UnitOfWorkOptions {
+    snapshot?: boolean; // Read every table as of one moment (REPEATABLE READ), for reports spanning several
+    timeoutMs?: number; // How long the transaction may stay open, when longer than the default
+}
+
+/**
+ * Unit of work for money movements
+ * Everything written through the provided repositories commits together or not at all
+ */
+export interface IUnitOfWork {
+    /**
+     * Run work inside a transaction, rolling back if it throws
+     * Called again from within work, it joins the transaction already in progress and ignores options
+     */
+    run<T>(work: (repositories: TransactionalRepositories) => Promise<T>, options?: UnitOfWorkOptions): Promise<T>;
+}
@@ -24,6 +24,21 @@ export interface IUserRepository {
      */
     findByFirebaseUids(uids: string[]): Promise<User[]>;
 
+    /**
+     * Page through all users ordered by ID, starting after the given ID
+     */
+    findPage(afterId: string | undefined, limit: number): Promise<User[]>;
+
+    /**
+     * Find bots that aren't in an open lobby or game session, oldest first
+     */
+    findIdleBots(limit: number): Promise<User[]>;
+
+    /**
+     * Find users by ID and lock their rows until the surrounding transaction ends
+     */
+    findByIdsForUpdate(ids: string[]): Promise<User[]>;
+
     /**
      * Create a new user
      */
@@ -31,6 +46,7 @@ export interface IUserRepository {
         firebaseUid: string;
         displayName: string;
         balance?: bigint;
+        isBot?: boolean;
     }): Promise<User>;
 
     /**
@@ -42,6 +58,16 @@ export interface IUserRepository {
         lockedBalance: bigint
     ): Promise<User>;
 
+    /**
+     * Add to a developer's earned balance, returning the new developer balance
+     */
+    creditDeveloperBalance(id: string, amount: bigint): Promise<bigint>;
+
+    /**
+     * Check if user is an approved developer in good standing
+     */
+    isActiveDeveloper(id: string): Promise<boolean>;
+
     /**
      * Check if display name is available
      */
@@ -0,0 +1,13 @@
+import type { GameCallbackEvent } from '@pluto/shared';
+import type { Game } from '../entities/Contract.js';
+
+/**
+ * Port for pushing events to a game backend's callbackUrl
+ */
+export interface IGameCallbackNotifier {
+    /**
+     * Deliver an event to the game
+     * Games without a callbackUrl are skipped
+     */
+    notify(game: Game, event: GameCallbackEvent): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import type { PaymentType } from '@prisma/client';
+
+/**
+ * Outcome reported by a payment provider
+ * PENDING means the provider will decide later (e.g. via webhook)
+ */
+export interface PaymentProviderResult {
+    reference: string;
+    status: 'PENDING' | 'CONFIRMED' | 'FAILED';
+    failureReason?: string;
+}
+
+/**
+ * Port for moving money in and out of Pluto
+ * Calls that throw or time out leave the outcome unknown - the provider may still have moved the money
+ */
+export interface IPaymentProvider {
+    /**
+     * Provider name stored with each payment
+     */
+    readonly name: string;
+
+    /**
+     * Collect funds from the player
+     */
+    createDeposit(data: {
+        paymentId: string;
+        userId: string;
+        amount: bigint;
+    }): Promise<PaymentProviderResult>;
+
+    /**
+     * Pay funds out to the player
+     */
+    createWithdrawal(data: {
+        paymentId: string;
+        userId: string;
+        amount: bigint;
+    }): Promise<PaymentProviderResult>;
+
+    /**
+     * Look up the provider's current decision on an earlier payment
+     */
+    getPaymentStatus(data: {
+        paymentId: string;
+        type: PaymentType;
+        amount: bigint;
+    }): Promise<PaymentProviderResult>;
+}
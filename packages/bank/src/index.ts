@@ -3,10 +3,26 @@ export * from './domain/entities/User.js';
 export * from './domain/entities/LedgerEntry.js';
 export * from './domain/entities/Contract.js';
 export * from './domain/entities/GameSession.js';
+export * from './domain/entities/IdempotencyRecord.js';
+export * from './domain/entities/Payment.js';
+export * from './domain/entities/LedgerAccount.js';
+export * from './domain/entities/LedgerTransfer.js';
+export * from './domain/entities/PayoutStructure.js';
+export * from './domain/entities/MatchFormat.js';
+export * from './domain/entities/LedgerChain.js';
+export * from './domain/entities/PlayerRating.js';
 export * from './domain/repositories/IUserRepository.js';
 export * from './domain/repositories/ILedgerRepository.js';
 export * from './domain/repositories/IContractRepository.js';
 export * from './domain/repositories/ISessionRepository.js';
+export * from './domain/repositories/IUnitOfWork.js';
+export * from './domain/repositories/IIdempotencyRepository.js';
+export * from './domain/repositories/IPaymentRepository.js';
+export * from './domain/repositories/IJournalRepository.js';
+export * from './domain/repositories/IDeveloperEarningRepository.js';
+export * from './domain/repositories/IRatingRepository.js';
+export * from './domain/services/IGameCallbackNotifier.js';
+export * from './domain/services/IPaymentProvider.js';
 
 // Application
 export * from './application/use-cases/GetBalance.js';
@@ -16,12 +32,36 @@ export * from './application/use-cases/SettleContract.js';
 export * from './application/use-cases/CancelContract.js';
 export * from './application/use-cases/RegisterGame.js';
 export * from './application/use-cases/CreateContract.js';
+export * from './application/use-cases/ExecuteIdempotently.js';
+export * from './application/use-cases/ExpireSessions.js';
+export * from './application/use-cases/ResolvePayment.js';
+export * from './application/use-cases/CreateDeposit.js';
+export * from './application/use-cases/CreateWithdrawal.js';
+export * from './application/use-cases/ResolvePendingPayments.js';
+export * from './application/use-cases/GetLedgerSummary.js';
+export * from './application/use-cases/GetDeveloperEarnings.js';
+export * from './application/use-cases/VerifyLedger.js';
+export * from './application/use-cases/ReconcileBalances.js';
+export * from './application/use-cases/OpenJournalBalances.js';
+export * from './application/use-cases/ProvisionBot.js';
+export * from './application/use-cases/GetRatings.js';
 
 // Infrastructure
 export * from './infrastructure/repositories/PrismaUserRepository.js';
 export * from './infrastructure/repositories/PrismaLedgerRepository.js';
 export * from './infrastructure/repositories/PrismaContractRepository.js';
 export * from './infrastructure/repositories/PrismaSessionRepository.js';
+export * from './infrastructure/repositories/PrismaUnitOfWork.js';
+export * from './infrastructure/repositories/PrismaExecutor.js';
+export * from './infrastructure/repositories/PrismaIdempotencyRepository.js';
+export * from './infrastructure/repositories/PrismaPaymentRepository.js';
+export * from './infrastructure/repositories/PrismaJournalRepository.js';
+export * from './infrastructure/repositories/PrismaDeveloperEarningRepository.js';
+export * from './infrastructure/repositories/PrismaRatingRepository.js';
+export * from './infrastructure/payments/FakePaymentProvider.js';
+export * from './infrastructure/callbacks/HttpGameCallbackNotifier.js';
+export * from './infrastructure/jobs/SessionExpirySweeper.js';
+export * from './infrastructure/jobs/PendingPaymentPoller.js';
 
 // Interface
 export * from './interface/routes.js';
@@ -0,0 +1,32 @@
+import type { GameCallbackEvent } from '@pluto/shared';
+import type { IGameCallbackNotifier } from '../../domain/services/IGameCallbackNotifier.js';
+import type { Game } from '../../domain/entities/Contract.js';
+import { generateHmacSignature } from '@pluto/shared';
+
+/**
+ * Delivers callback events over HTTP
+ * Bodies are signed the same way game backends sign their requests to us
+ */
+export class HttpGameCallbackNotifier implements IGameCallbackNotifier {
+    constructor(private timeoutMs = 5000) { }
+
+    async notify(game: Game, event: GameCallbackEvent): Promise<void> {
+        if (!game.callbackUrl) return;
+
+        const body = JSON.stringify(event);
+        const response = await fetch(game.callbackUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Game-Id': game.id,
+                'X-Pluto-Signature': generateHmacSignature(body, game.clientSecretHash),
+            },
+            body,
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Callback to ${game.callbackUrl} failed with status ${response.status}`);
+        }
+    }
+}
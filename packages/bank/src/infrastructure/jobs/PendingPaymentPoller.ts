@@ -0,0 +1,40 @@
+import type { ResolvePendingPaymentsUseCase } from '../../application/use-cases/ResolvePendingPayments.js';
+
+/**
+ * Periodically drives pending payments to the payment provider's decision
+ */
+export class PendingPaymentPoller {
+    private running = false;
+
+    constructor(private resolvePendingPayments: ResolvePendingPaymentsUseCase) { }
+
+    /**
+     * Run one poll, skipping if the previous one is still in progress
+     */
+    async poll(): Promise<string[]> {
+        if (this.running) return [];
+
+        this.running = true;
+        try {
+            const { resolvedPaymentIds } = await this.resolvePendingPayments.execute();
+            if (resolvedPaymentIds.length > 0) {
+                console.log(`💳 Resolved ${resolvedPaymentIds.length} pending payment(s)`);
+            }
+            return resolvedPaymentIds;
+        } catch (error) {
+            console.error('❌ Pending payment poll failed:', error);
+            return [];
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Start polling on an interval
+     */
+    start(intervalMs = 60000): NodeJS.Timeout {
+        return setInterval(() => {
+            void this.poll();
+        }, intervalMs);
+    }
+}
@@ -0,0 +1,40 @@
+import type { ExpireSessionsUseCase } from '../../application/use-cases/ExpireSessions.js';
+
+/**
+ * Periodically expires stale game sessions
+ */
+export class SessionExpirySweeper {
+    private running = false;
+
+    constructor(private expireSessions: ExpireSessionsUseCase) { }
+
+    /**
+     * Run one sweep, skipping if the previous one is still in progress
+     */
+    async sweep(): Promise<string[]> {
+        if (this.running) return [];
+
+        this.running = true;
+        try {
+            const { expiredSessionIds } = await this.expireSessions.execute();
+            if (expiredSessionIds.length > 0) {
+                console.log(`⏰ Expired ${expiredSessionIds.length} stale game session(s)`);
+            }
+            return expiredSessionIds;
+        } catch (error) {
+            console.error('❌ Session expiry sweep failed:', error);
+            return [];
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Start sweeping on an interval
+     */
+    start(intervalMs = 30000): NodeJS.Timeout {
+        return setInterval(() => {
+            void this.sweep();
+        }, intervalMs);
+    }
+}
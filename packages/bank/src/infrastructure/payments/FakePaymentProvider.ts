@@ -0,0 +1,31 @@
+import type { IPaymentProvider, PaymentProviderResult } from '../../domain/services/IPaymentProvider.js';
+
+/**
+ * Deterministic payment provider for local development and tests
+ * Confirms every payment up to maxAmount and fails anything larger
+ */
+export class FakePaymentProvider implements IPaymentProvider {
+    readonly name = 'fake';
+
+    constructor(private maxAmount = 1_000_000n) { }
+
+    async createDeposit(data: { paymentId: string; amount: bigint }): Promise<PaymentProviderResult> {
+        return this.decide(data.paymentId, data.amount);
+    }
+
+    async createWithdrawal(data: { paymentId: string; amount: bigint }): Promise<PaymentProviderResult> {
+        return this.decide(data.paymentId, data.amount);
+    }
+
+    async getPaymentStatus(data: { paymentId: string; amount: bigint }): Promise<PaymentProviderResult> {
+        return this.decide(data.paymentId, data.amount);
+    }
+
+    private decide(paymentId: string, amount: bigint): PaymentProviderResult {
+        const reference = `fake_${paymentId}`;
+        if (amount > this.maxAmount) {
+            return { reference, status: 'FAILED', failureReason: `Amount exceeds provider limit of ${this.maxAmount}` };
+        }
+        return { reference, status: 'CONFIRMED' };
+    }
+}
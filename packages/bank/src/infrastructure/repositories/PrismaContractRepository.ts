@@ -1,6 +1,8 @@
-import type { PrismaClient } from '@prisma/client';
+import type { MatchMode, PayoutModel, Prisma, PrismaClient } from '@prisma/client';
 import type { IContractRepository } from '../../domain/repositories/IContractRepository.js';
 import { Contract, Game } from '../../domain/entities/Contract.js';
+import { PayoutStructure } from '../../domain/entities/PayoutStructure.js';
+import { MatchFormat } from '../../domain/entities/MatchFormat.js';
 
 export class PrismaContractRepository implements IContractRepository {
     constructor(private prisma: PrismaClient) { }
@@ -11,12 +13,18 @@ export class PrismaContractRepository implements IContractRepository {
         name: string;
         entryFee: bigint;
         platformFee: number;
+        developerShare: number;
+        payoutModel: PayoutModel;
+        payoutTable: number[];
+        matchMode: MatchMode;
+        matchLength: number;
+        gameSettings: Prisma.JsonValue;
         minPlayers: number;
         maxPlayers: number;
         ttlSeconds: number;
         isActive: boolean;
         createdAt: Date;
-        game: { name: string };
+        game: { name: string; ownerId: string | null };
     }): Contract {
         return new Contract(
             data.id,
@@ -25,6 +33,11 @@ export class PrismaContractRepository implements IContractRepository {
             data.name,
             data.entryFee,
             data.platformFee,
+            data.developerShare,
+            data.game.ownerId,
+            new PayoutStructure(data.payoutModel, data.payoutTable),
+            new MatchFormat(data.matchMode, data.matchLength),
+            data.gameSettings as Record<string, unknown>,
             data.minPlayers,
             data.maxPlayers,
             data.ttlSeconds,
@@ -39,6 +52,7 @@ export class PrismaContractRepository implements IContractRepository {
         description: string | null;
         clientSecret: string;
         callbackUrl: string | null;
+        ownerId: string | null;
         isActive: boolean;
         createdAt: Date;
     }): Game {
@@ -48,6 +62,7 @@ export class PrismaContractRepository implements IContractRepository {
             data.description,
             data.clientSecret,
             data.callbackUrl,
+            data.ownerId,
             data.isActive,
             data.createdAt
         );
@@ -56,7 +71,7 @@ export class PrismaContractRepository implements IContractRepository {
     async findContractById(id: string): Promise<Contract | null> {
         const data = await this.prisma.contract.findUnique({
             where: { id },
-            include: { game: { select: { name: true } } },
+            include: { game: { select: { name: true, ownerId: true } } },
         });
         return data ? this.toContractEntity(data) : null;
     }
@@ -64,7 +79,7 @@ export class PrismaContractRepository implements IContractRepository {
     async findContractsByGameId(gameId: string): Promise<Contract[]> {
         const data = await this.prisma.contract.findMany({
             where: { gameId, isActive: true },
-            include: { game: { select: { name: true } } },
+            include: { game: { select: { name: true, ownerId: true } } },
         });
         return data.map(d => this.toContractEntity(d));
     }
@@ -74,6 +89,10 @@ export class PrismaContractRepository implements IContractRepository {
         name: string;
         entryFee: bigint;
         platformFee: number;
+        developerShare?: number;
+        payout?: PayoutStructure;
+        match?: MatchFormat;
+        gameSettings?: Record<string, unknown>;
         minPlayers: number;
         maxPlayers: number;
         ttlSeconds?: number;
@@ -84,11 +103,17 @@ export class PrismaContractRepository implements IContractRepository {
                 name: data.name,
                 entryFee: data.entryFee,
                 platformFee: data.platformFee,
+                developerShare: data.developerShare ?? 0,
+                payoutModel: data.payout?.model,
+                payoutTable: data.payout?.table,
+                matchMode: data.match?.mode,
+                matchLength: data.match?.length,
+                gameSettings: data.gameSettings as Prisma.InputJsonObject | undefined,
                 minPlayers: data.minPlayers,
                 maxPlayers: data.maxPlayers,
                 ttlSeconds: data.ttlSeconds ?? 3600,
             },
-            include: { game: { select: { name: true } } },
+            include: { game: { select: { name: true, ownerId: true } } },
         });
         return this.toContractEntity(created);
     }
@@ -108,6 +133,7 @@ export class PrismaContractRepository implements IContractRepository {
         description?: string;
         clientSecretHash: string;
         callbackUrl?: string;
+        ownerId?: string;
     }): Promise<Game> {
         const created = await this.prisma.game.create({
             data: {
@@ -115,6 +141,7 @@ export class PrismaContractRepository implements IContractRepository {
                 description: data.description ?? null,
                 clientSecret: data.clientSecretHash,
                 callbackUrl: data.callbackUrl ?? null,
+                ownerId: data.ownerId ?? null,
             },
         });
         return this.toGameEntity(created);
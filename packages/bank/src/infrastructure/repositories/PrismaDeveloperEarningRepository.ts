@@ -0,0 +1,95 @@
+import { Prisma } from '@prisma/client';
+import type {
+    DeveloperEarningsBreakdown,
+    IDeveloperEarningRepository,
+} from '../../domain/repositories/IDeveloperEarningRepository.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+
+export class PrismaDeveloperEarningRepository implements IDeveloperEarningRepository {
+    constructor(private prisma: PrismaExecutor) { }
+
+    async record(data: {
+        developerId: string;
+        gameId: string;
+        contractId: string;
+        sessionId: string;
+        amount: bigint;
+        balanceAfter: bigint;
+    }): Promise<void> {
+        await this.prisma.developerEarning.create({ data });
+    }
+
+    async getBreakdown(
+        developerId: string,
+        range: { from?: Date; to?: Date } = {}
+    ): Promise<DeveloperEarningsBreakdown> {
+        const where = {
+            developerId,
+            createdAt: { gte: range.from, lt: range.to },
+        };
+
+        const [games, contracts] = await Promise.all([
+            this.prisma.developerEarning.groupBy({
+                by: ['gameId'],
+                where,
+                _sum: { amount: true },
+                _count: { _all: true },
+            }),
+            this.prisma.developerEarning.groupBy({
+                by: ['contractId'],
+                where,
+                _sum: { amount: true },
+                _count: { _all: true },
+            }),
+        ]);
+
+        const [gameNames, contractNames, days] = await Promise.all([
+            this.prisma.game.findMany({
+                where: { id: { in: games.map(g => g.gameId) } },
+                select: { id: true, name: true },
+            }),
+            this.prisma.contract.findMany({
+                where: { id: { in: contracts.map(c => c.contractId) } },
+                select: { id: true, name: true, gameId: true },
+            }),
+            this.prisma.$queryRaw<Array<{ day: Date; amount: bigint; sessions: bigint }>>`
+                SELECT date_trunc('day', "createdAt") AS day,
+                       SUM("amount")::bigint AS amount,
+                       COUNT(*) AS sessions
+                FROM "DeveloperEarning"
+                WHERE "developerId" = ${developerId}
+                ${range.from ? Prisma.sql`AND "createdAt" >= ${range.from}` : Prisma.empty}
+                ${range.to ? Prisma.sql`AND "createdAt" < ${range.to}` : Prisma.empty}
+                GROUP BY day
+                ORDER BY day
+            `,
+        ]);
+
+        const byGame = games.map(g => ({
+            gameId: g.gameId,
+            gameName: gameNames.find(n => n.id === g.gameId)?.name ?? 'Unknown',
+            amount: g._sum.amount ?? 0n,
+            sessions: g._count._all,
+        }));
+
+        return {
+            total: byGame.reduce((sum, g) => sum + g.amount, 0n),
+            byGame,
+            byContract: contracts.map(c => {
+                const contract = contractNames.find(n => n.id === c.contractId);
+                return {
+                    contractId: c.contractId,
+                    contractName: contract?.name ?? 'Unknown',
+                    gameId: contract?.gameId ?? '',
+                    amount: c._sum.amount ?? 0n,
+                    sessions: c._count._all,
+                };
+            }),
+            byDay: days.map(d => ({
+                date: d.day.toISOString().slice(0, 10),
+                amount: d.amount,
+                sessions: Number(d.sessions),
+            })),
+        };
+    }
+}
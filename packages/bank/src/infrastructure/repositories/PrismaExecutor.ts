@@ -0,0 +1,20 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Either the root Prisma client or a client bound to an interactive transaction
+ */
+export type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Run work atomically on the given executor
+ * Opens a transaction on the root client, or reuses the one already in progress
+ */
+export async function runInTransaction<T>(
+    prisma: PrismaExecutor,
+    work: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+    if ('$transaction' in prisma) {
+        return prisma.$transaction(work);
+    }
+    return work(prisma);
+}
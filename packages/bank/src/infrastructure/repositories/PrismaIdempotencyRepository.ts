@@ -0,0 +1,68 @@
+import { Prisma } from '@prisma/client';
+import type { IIdempotencyRepository } from '../../domain/repositories/IIdempotencyRepository.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+import { IdempotencyRecord } from '../../domain/entities/IdempotencyRecord.js';
+
+export class PrismaIdempotencyRepository implements IIdempotencyRepository {
+    constructor(private prisma: PrismaExecutor) { }
+
+    private toEntity(data: {
+        id: string;
+        gameId: string;
+        key: string;
+        endpoint: string;
+        requestHash: string;
+        statusCode: number | null;
+        responseBody: string | null;
+        createdAt: Date;
+    }): IdempotencyRecord {
+        return new IdempotencyRecord(
+            data.id,
+            data.gameId,
+            data.key,
+            data.endpoint,
+            data.requestHash,
+            data.statusCode,
+            data.responseBody,
+            data.createdAt
+        );
+    }
+
+    async find(gameId: string, key: string): Promise<IdempotencyRecord | null> {
+        const data = await this.prisma.idempotencyKey.findUnique({
+            where: { gameId_key: { gameId, key } },
+        });
+        return data ? this.toEntity(data) : null;
+    }
+
+    async reserve(data: {
+        gameId: string;
+        key: string;
+        endpoint: string;
+        requestHash: string;
+    }): Promise<IdempotencyRecord | null> {
+        try {
+            return this.toEntity(await this.prisma.idempotencyKey.create({ data }));
+        } catch (error) {
+            // Unique constraint violation - another request holds the key
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async complete(reservation: IdempotencyRecord, statusCode: number, responseBody: string): Promise<boolean> {
+        const { count } = await this.prisma.idempotencyKey.updateMany({
+            where: { id: reservation.id, statusCode: null },
+            data: { statusCode, responseBody },
+        });
+        return count === 1;
+    }
+
+    async release(reservation: IdempotencyRecord): Promise<void> {
+        await this.prisma.idempotencyKey.deleteMany({
+            where: { id: reservation.id, statusCode: null },
+        });
+    }
+}
@@ -0,0 +1,88 @@
+import type { LedgerAccountKind } from '@prisma/client';
+import type { IJournalRepository } from '../../domain/repositories/IJournalRepository.js';
+import type { LedgerTransfer } from '../../domain/entities/LedgerTransfer.js';
+import type { LedgerAccountRef } from '../../domain/entities/LedgerAccount.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+import { LedgerAccount } from '../../domain/entities/LedgerAccount.js';
+import { randomUUID } from 'node:crypto';
+
+export class PrismaJournalRepository implements IJournalRepository {
+    constructor(private prisma: PrismaExecutor) { }
+
+    async post(transfers: LedgerTransfer[]): Promise<void> {
+        const postable = transfers.filter(t => t.amount > 0n);
+        if (postable.length === 0) return;
+
+        // 1. Open any missing accounts (never touches existing rows, so no lock contention)
+        const refs = new Map<string, LedgerAccountRef>();
+        for (const transfer of postable) {
+            for (const line of transfer.lines()) {
+                refs.set(line.account.code, line.account);
+            }
+        }
+
+        await this.prisma.ledgerAccount.createMany({
+            data: [...refs.values()].map(ref => ({
+                code: ref.code,
+                kind: ref.kind,
+                userId: ref.userId ?? null,
+                gameId: ref.gameId ?? null,
+            })),
+            skipDuplicates: true,
+        });
+
+        const accounts = await this.prisma.ledgerAccount.findMany({
+            where: { code: { in: [...refs.keys()] } },
+            select: { id: true, code: true },
+        });
+        const accountIds = new Map(accounts.map(a => [a.code, a.id]));
+
+        // 2. Write each transfer as a journal of balanced lines
+        await this.prisma.ledgerPosting.createMany({
+            data: postable.flatMap(transfer => {
+                const journalId = randomUUID();
+                return transfer.lines().map(line => ({
+                    journalId,
+                    accountId: accountIds.get(line.account.code)!,
+                    type: transfer.type,
+                    amount: line.amount,
+                    description: transfer.description,
+                    sessionId: transfer.sessionId,
+                }));
+            }),
+        });
+    }
+
+    async getAccounts(kind?: LedgerAccountKind): Promise<LedgerAccount[]> {
+        const accounts = await this.prisma.ledgerAccount.findMany({
+            where: kind ? { kind } : {},
+            orderBy: { code: 'asc' },
+        });
+
+        const sums = await this.prisma.ledgerPosting.groupBy({
+            by: ['accountId'],
+            where: kind ? { account: { kind } } : {},
+            _sum: { amount: true },
+        });
+        const balances = new Map(sums.map(s => [s.accountId, s._sum.amount ?? 0n]));
+
+        return accounts.map(a => new LedgerAccount(
+            a.id,
+            a.code,
+            a.kind,
+            a.userId,
+            a.gameId,
+            balances.get(a.id) ?? 0n
+        ));
+    }
+
+    async findOpenedPlayers(userIds: string[]): Promise<Set<string>> {
+        if (userIds.length === 0) return new Set();
+
+        const accounts = await this.prisma.ledgerAccount.findMany({
+            where: { code: { in: userIds.map(id => LedgerAccount.player(id).code) } },
+            select: { userId: true },
+        });
+        return new Set(accounts.map(a => a.userId!));
+    }
+}
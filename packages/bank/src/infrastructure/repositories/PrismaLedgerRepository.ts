@@ -1,21 +1,44 @@
-import type { PrismaClient, LedgerEntryType } from '@prisma/client';
+import type { LedgerEntryType } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import type { ILedgerRepository } from '../../domain/repositories/ILedgerRepository.js';
 import type { PaginatedResult } from '@pluto/shared';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+import { runInTransaction } from './PrismaExecutor.js';
 import { LedgerEntry } from '../../domain/entities/LedgerEntry.js';
+import { LedgerChain } from '../../domain/entities/LedgerChain.js';
+
+type NewLedgerEntry = {
+    userId: string;
+    type: LedgerEntryType;
+    amount: bigint;
+    balanceAfter: bigint;
+    description?: string;
+    sessionId?: string;
+};
+
+type LedgerEntryRow = {
+    id: string;
+    userId: string;
+    type: LedgerEntryType;
+    amount: bigint;
+    balanceAfter: bigint;
+    description: string | null;
+    sessionId: string | null;
+    sequence: number | null;
+    prevHash: string | null;
+    hash: string | null;
+    createdAt: Date;
+};
+
+type ChainHead = { sequence: number; hash: string } | null;
+
+// A user's chain head and whether they are a bot, looked up once per call
+type ChainState = { head: ChainHead; isBot: boolean };
 
 export class PrismaLedgerRepository implements ILedgerRepository {
-    constructor(private prisma: PrismaClient) { }
+    constructor(private prisma: PrismaExecutor) { }
 
-    private toEntity(data: {
-        id: string;
-        userId: string;
-        type: LedgerEntryType;
-        amount: bigint;
-        balanceAfter: bigint;
-        description: string | null;
-        sessionId: string | null;
-        createdAt: Date;
-    }): LedgerEntry {
+    private toEntity(data: LedgerEntryRow): LedgerEntry {
         return new LedgerEntry(
             data.id,
             data.userId,
@@ -24,54 +47,75 @@ export class PrismaLedgerRepository implements ILedgerRepository {
             data.balanceAfter,
             data.description,
             data.sessionId,
-            data.createdAt
+            data.createdAt,
+            data.sequence !== null && data.hash !== null
+                ? { sequence: data.sequence, prevHash: data.prevHash, hash: data.hash }
+                : null
         );
     }
 
-    async append(data: {
-        userId: string;
-        type: LedgerEntryType;
-        amount: bigint;
-        balanceAfter: bigint;
-        description?: string;
-        sessionId?: string;
-    }): Promise<LedgerEntry> {
-        const created = await this.prisma.ledgerEntry.create({
-            data: {
-                userId: data.userId,
-                type: data.type,
-                amount: data.amount,
-                balanceAfter: data.balanceAfter,
-                description: data.description ?? null,
-                sessionId: data.sessionId ?? null,
-            },
+    /**
+     * Write an entry as the next link in its user's chain
+     * Chain heads are cached per call so several entries for one user link to each other.
+     * Entries of bot users are flagged so player reporting can leave them out.
+     */
+    private async appendChained(
+        tx: PrismaExecutor,
+        entry: NewLedgerEntry,
+        states: Map<string, ChainState>
+    ) {
+        let state = states.get(entry.userId);
+        if (state === undefined) {
+            const [last, user] = await Promise.all([
+                tx.ledgerEntry.findFirst({
+                    where: { userId: entry.userId, sequence: { not: null } },
+                    orderBy: { sequence: 'desc' },
+                    select: { sequence: true, hash: true },
+                }),
+                tx.user.findUnique({ where: { id: entry.userId }, select: { isBot: true } }),
+            ]);
+            state = {
+                head: last ? { sequence: last.sequence!, hash: last.hash! } : null,
+                isBot: user?.isBot ?? false,
+            };
+        }
+        const { head, isBot } = state;
+
+        const data = {
+            userId: entry.userId,
+            type: entry.type,
+            amount: entry.amount,
+            balanceAfter: entry.balanceAfter,
+            description: entry.description ?? null,
+            sessionId: entry.sessionId ?? null,
+            createdAt: new Date(),
+        };
+        const sequence = (head?.sequence ?? 0) + 1;
+        const prevHash = head?.hash ?? null;
+        const hash = LedgerChain.hash(data, sequence, prevHash);
+
+        const created = await tx.ledgerEntry.create({
+            data: { ...data, sequence, prevHash, hash, isBot },
         });
+        states.set(entry.userId, { head: { sequence, hash }, isBot });
+        return created;
+    }
+
+    async append(data: NewLedgerEntry): Promise<LedgerEntry> {
+        const created = await this.appendChained(this.prisma, data, new Map());
         return this.toEntity(created);
     }
 
-    async appendMany(entries: Array<{
-        userId: string;
-        type: LedgerEntryType;
-        amount: bigint;
-        balanceAfter: bigint;
-        description?: string;
-        sessionId?: string;
-    }>): Promise<LedgerEntry[]> {
+    async appendMany(entries: NewLedgerEntry[]): Promise<LedgerEntry[]> {
         // Use transaction to ensure atomicity
-        const created = await this.prisma.$transaction(
-            entries.map(entry =>
-                this.prisma.ledgerEntry.create({
-                    data: {
-                        userId: entry.userId,
-                        type: entry.type,
-                        amount: entry.amount,
-                        balanceAfter: entry.balanceAfter,
-                        description: entry.description ?? null,
-                        sessionId: entry.sessionId ?? null,
-                    },
-                })
-            )
-        );
+        const created = await runInTransaction(this.prisma, async tx => {
+            const states = new Map<string, ChainState>();
+            const rows = [];
+            for (const entry of entries) {
+                rows.push(await this.appendChained(tx, entry, states));
+            }
+            return rows;
+        });
         return created.map(c => this.toEntity(c));
     }
 
@@ -106,4 +150,47 @@ export class PrismaLedgerRepository implements ILedgerRepository {
         });
         return data.map(d => this.toEntity(d));
     }
+
+    async getChain(userId: string): Promise<LedgerEntry[]> {
+        const data = await this.prisma.ledgerEntry.findMany({
+            where: { userId },
+            orderBy: [{ sequence: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+        });
+        return data.map(d => this.toEntity(d));
+    }
+
+    async getFirstEntries(userIds: string[]): Promise<LedgerEntry[]> {
+        if (userIds.length === 0) return [];
+
+        const data = await this.prisma.$queryRaw<LedgerEntryRow[]>`
+            SELECT DISTINCT ON ("userId")
+                id, "userId", type, amount, "balanceAfter", description, "sessionId",
+                sequence, "prevHash", hash, "createdAt"
+            FROM "LedgerEntry"
+            WHERE "userId" IN (${Prisma.join(userIds)})
+            ORDER BY "userId", sequence ASC NULLS FIRST, "createdAt" ASC
+        `;
+        return data.map(d => this.toEntity(d));
+    }
+
+    async getUserIds(): Promise<string[]> {
+        const data = await this.prisma.ledgerEntry.findMany({
+            distinct: ['userId'],
+            select: { userId: true },
+        });
+        return data.map(d => d.userId);
+    }
+
+    async sumByType(userIds: string[]): Promise<Array<{
+        userId: string;
+        type: LedgerEntryType;
+        amount: bigint;
+    }>> {
+        const data = await this.prisma.ledgerEntry.groupBy({
+            by: ['userId', 'type'],
+            where: { userId: { in: userIds } },
+            _sum: { amount: true },
+        });
+        return data.map(d => ({ userId: d.userId, type: d.type, amount: d._sum.amount ?? 0n }));
+    }
 }
@@ -0,0 +1,93 @@
+import type { PaymentStatus, PaymentType } from '@prisma/client';
+import type { IPaymentRepository } from '../../domain/repositories/IPaymentRepository.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+import { Payment } from '../../domain/entities/Payment.js';
+
+export class PrismaPaymentRepository implements IPaymentRepository {
+    constructor(private prisma: PrismaExecutor) { }
+
+    private toEntity(data: {
+        id: string;
+        userId: string;
+        type: PaymentType;
+        amount: bigint;
+        status: PaymentStatus;
+        provider: string;
+        providerReference: string | null;
+        failureReason: string | null;
+        createdAt: Date;
+        completedAt: Date | null;
+    }): Payment {
+        return new Payment(
+            data.id,
+            data.userId,
+            data.type,
+            data.amount,
+            data.status,
+            data.provider,
+            data.providerReference,
+            data.failureReason,
+            data.createdAt,
+            data.completedAt
+        );
+    }
+
+    async findById(id: string): Promise<Payment | null> {
+        const data = await this.prisma.payment.findUnique({ where: { id } });
+        return data ? this.toEntity(data) : null;
+    }
+
+    async findByIdForUpdate(id: string): Promise<Payment | null> {
+        await this.prisma.$queryRaw`SELECT id FROM "Payment" WHERE id = ${id} FOR UPDATE`;
+        return this.findById(id);
+    }
+
+    async findPending(provider: string, createdBefore: Date, limit: number): Promise<Payment[]> {
+        const data = await this.prisma.payment.findMany({
+            where: { provider, status: 'PENDING', createdAt: { lt: createdBefore } },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+        });
+        return data.map(d => this.toEntity(d));
+    }
+
+    async create(data: {
+        userId: string;
+        type: PaymentType;
+        amount: bigint;
+        provider: string;
+    }): Promise<Payment> {
+        const created = await this.prisma.payment.create({
+            data: {
+                userId: data.userId,
+                type: data.type,
+                amount: data.amount,
+                provider: data.provider,
+                status: 'PENDING',
+            },
+        });
+        return this.toEntity(created);
+    }
+
+    async save(payment: Payment): Promise<Payment> {
+        const updated = await this.prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+                status: payment.status,
+                providerReference: payment.providerReference,
+                failureReason: payment.failureReason,
+                completedAt: payment.completedAt,
+            },
+        });
+        return this.toEntity(updated);
+    }
+
+    async sumPendingWithdrawals(userIds: string[]): Promise<Map<string, bigint>> {
+        const data = await this.prisma.payment.groupBy({
+            by: ['userId'],
+            where: { userId: { in: userIds }, type: 'WITHDRAWAL', status: 'PENDING' },
+            _sum: { amount: true },
+        });
+        return new Map(data.map(d => [d.userId, d._sum.amount ?? 0n]));
+    }
+}
@@ -0,0 +1,57 @@
+import { Prisma } from '@prisma/client';
+import type { IRatingRepository } from '../../domain/repositories/IRatingRepository.js';
+import { PlayerRating } from '../../domain/entities/PlayerRating.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+
+export class PrismaRatingRepository implements IRatingRepository {
+    constructor(private prisma: PrismaExecutor) { }
+
+    private toEntity(data: { userId: string; gameId: string; rating: number; gamesPlayed: number }): PlayerRating {
+        return new PlayerRating(data.userId, data.gameId, data.rating, data.gamesPlayed);
+    }
+
+    async findByUsers(gameId: string, userIds: string[]): Promise<PlayerRating[]> {
+        const rows = await this.prisma.playerRating.findMany({
+            where: { gameId, userId: { in: userIds } },
+        });
+        return userIds.map(userId => {
+            const row = rows.find(r => r.userId === userId);
+            return row ? this.toEntity(row) : new PlayerRating(userId, gameId);
+        });
+    }
+
+    async findByUsersForUpdate(gameId: string, userIds: string[]): Promise<PlayerRating[]> {
+        if (userIds.length === 0) return [];
+
+        // Rows must exist to be locked, newcomers start at the initial rating
+        await this.prisma.playerRating.createMany({
+            data: userIds.map(userId => ({ userId, gameId, rating: PlayerRating.INITIAL })),
+            skipDuplicates: true,
+        });
+
+        // Lock in a stable order so concurrent transactions can't deadlock
+        await this.prisma.$queryRaw`
+            SELECT id FROM "PlayerRating"
+            WHERE "gameId" = ${gameId} AND "userId" IN (${Prisma.join(userIds)})
+            ORDER BY "userId" FOR UPDATE
+        `;
+        return this.findByUsers(gameId, userIds);
+    }
+
+    async findByUser(userId: string): Promise<PlayerRating[]> {
+        const rows = await this.prisma.playerRating.findMany({
+            where: { userId },
+            orderBy: { gamesPlayed: 'desc' },
+        });
+        return rows.map(r => this.toEntity(r));
+    }
+
+    async saveMany(ratings: PlayerRating[]): Promise<void> {
+        for (const rating of ratings) {
+            await this.prisma.playerRating.update({
+                where: { userId_gameId: { userId: rating.userId, gameId: rating.gameId } },
+                data: { rating: rating.rating, gamesPlayed: rating.gamesPlayed },
+            });
+        }
+    }
+}
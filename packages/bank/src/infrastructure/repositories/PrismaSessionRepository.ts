@@ -1,9 +1,11 @@
-import type { PrismaClient, GameSessionStatus } from '@prisma/client';
+import type { GameSessionStatus } from '@prisma/client';
 import type { ISessionRepository } from '../../domain/repositories/ISessionRepository.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
+import { runInTransaction } from './PrismaExecutor.js';
 import { GameSession, GameSessionPlayer } from '../../domain/entities/GameSession.js';
 
 export class PrismaSessionRepository implements ISessionRepository {
-    constructor(private prisma: PrismaClient) { }
+    constructor(private prisma: PrismaExecutor) { }
 
     private toEntity(data: {
         id: string;
@@ -19,7 +21,9 @@ export class PrismaSessionRepository implements ISessionRepository {
             userId: string;
             amountLocked: bigint;
             isWinner: boolean;
+            rank?: number | null;
             winAmount: bigint;
+            isBot: boolean;
             user: { uniqueDisplayName: string };
         }>;
     }): GameSession {
@@ -30,7 +34,8 @@ export class PrismaSessionRepository implements ISessionRepository {
             p.user.uniqueDisplayName,
             p.amountLocked,
             p.isWinner,
-            p.winAmount
+            p.winAmount,
+            p.isBot
         ));
 
         return new GameSession(
@@ -59,6 +64,11 @@ export class PrismaSessionRepository implements ISessionRepository {
         return data ? this.toEntity(data) : null;
     }
 
+    async findByIdForUpdate(id: string): Promise<GameSession | null> {
+        await this.prisma.$queryRaw`SELECT id FROM "GameSession" WHERE id = ${id} FOR UPDATE`;
+        return this.findById(id);
+    }
+
     async create(data: {
         contractId: string;
         totalPot: bigint;
@@ -67,6 +77,7 @@ export class PrismaSessionRepository implements ISessionRepository {
             userId: string;
             displayName: string;
             amountLocked: bigint;
+            isBot: boolean;
         }>;
     }): Promise<GameSession> {
         const created = await this.prisma.gameSession.create({
@@ -79,6 +90,7 @@ export class PrismaSessionRepository implements ISessionRepository {
                     create: data.players.map(p => ({
                         userId: p.userId,
                         amountLocked: p.amountLocked,
+                        isBot: p.isBot,
                     })),
                 },
             },
@@ -116,22 +128,23 @@ export class PrismaSessionRepository implements ISessionRepository {
         results: Array<{
             playerId: string;
             isWinner: boolean;
+            rank?: number | null;
             winAmount: bigint;
         }>
     ): Promise<GameSession> {
         // Update session and player results in transaction
-        await this.prisma.$transaction([
-            ...results.map(r =>
-                this.prisma.gameSessionPlayer.updateMany({
+        await runInTransaction(this.prisma, async tx => {
+            for (const r of results) {
+                await tx.gameSessionPlayer.updateMany({
                     where: { sessionId: id, userId: r.playerId },
-                    data: { isWinner: r.isWinner, winAmount: r.winAmount },
-                })
-            ),
-            this.prisma.gameSession.update({
+                    data: { isWinner: r.isWinner, rank: r.rank ?? null, winAmount: r.winAmount },
+                });
+            }
+            await tx.gameSession.update({
                 where: { id },
                 data: { status: 'SETTLED', settledAt: new Date() },
-            }),
-        ]);
+            });
+        });
 
         return (await this.findById(id))!;
     }
@@ -166,4 +179,16 @@ export class PrismaSessionRepository implements ISessionRepository {
         });
         return data.map(d => this.toEntity(d));
     }
+
+    async sumOpenLocks(userIds: string[]): Promise<Map<string, bigint>> {
+        const data = await this.prisma.gameSessionPlayer.groupBy({
+            by: ['userId'],
+            where: {
+                userId: { in: userIds },
+                session: { status: { in: ['PENDING', 'ACTIVE'] } },
+            },
+            _sum: { amountLocked: true },
+        });
+        return new Map(data.map(d => [d.userId, d._sum.amountLocked ?? 0n]));
+    }
 }
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { IUnitOfWork, TransactionalRepositories, UnitOfWorkOptions } from '../../domain/repositories/IUnitOfWork.js';
+import { PrismaUserRepository } from './PrismaUserRepository.js';
+import { PrismaLedgerRepository } from './PrismaLedgerRepository.js';
+import { PrismaSessionRepository } from './PrismaSessionRepository.js';
+import { PrismaPaymentRepository } from './PrismaPaymentRepository.js';
+import { PrismaJournalRepository } from './PrismaJournalRepository.js';
+import { PrismaDeveloperEarningRepository } from './PrismaDeveloperEarningRepository.js';
+import { PrismaRatingRepository } from './PrismaRatingRepository.js';
+import { PrismaIdempotencyRepository } from './PrismaIdempotencyRepository.js';
+
+// Transaction the current async call chain is running in, so nested units of work can join it
+const currentTransaction = new AsyncLocalStorage<{ prisma: PrismaClient; tx: Prisma.TransactionClient }>();
+
+export class PrismaUnitOfWork implements IUnitOfWork {
+    constructor(private prisma: PrismaClient) { }
+
+    async run<T>(work: (repositories: TransactionalRepositories) => Promise<T>, options?: UnitOfWorkOptions): Promise<T> {
+        const current = currentTransaction.getStore();
+        if (current?.prisma === this.prisma) {
+            return work(this.repositories(current.tx));
+        }
+
+        return this.prisma.$transaction(
+            tx => currentTransaction.run({ prisma: this.prisma, tx }, () => work(this.repositories(tx))),
+            {
+                isolationLevel: options?.snapshot ? 'RepeatableRead' : undefined,
+                timeout: options?.timeoutMs,
+            }
+        );
+    }
+
+    private repositories(tx: Prisma.TransactionClient): TransactionalRepositories {
+        return {
+            userRepository: new PrismaUserRepository(tx),
+            ledgerRepository: new PrismaLedgerRepository(tx),
+            sessionRepository: new PrismaSessionRepository(tx),
+            paymentRepository: new PrismaPaymentRepository(tx),
+            journalRepository: new PrismaJournalRepository(tx),
+            developerEarningRepository: new PrismaDeveloperEarningRepository(tx),
+            ratingRepository: new PrismaRatingRepository(tx),
+            idempotencyRepository: new PrismaIdempotencyRepository(tx),
+        };
+    }
+}
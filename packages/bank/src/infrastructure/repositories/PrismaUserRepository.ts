@@ -1,9 +1,10 @@
-import type { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import type { IUserRepository } from '../../domain/repositories/IUserRepository.js';
+import type { PrismaExecutor } from './PrismaExecutor.js';
 import { User } from '../../domain/entities/User.js';
 
 export class PrismaUserRepository implements IUserRepository {
-    constructor(private prisma: PrismaClient) { }
+    constructor(private prisma: PrismaExecutor) { }
 
     private toEntity(data: {
         id: string;
@@ -11,6 +12,7 @@ export class PrismaUserRepository implements IUserRepository {
         uniqueDisplayName: string;
         balance: bigint;
         lockedBalance: bigint;
+        isBot: boolean;
         createdAt: Date;
     }): User {
         return new User(
@@ -19,7 +21,8 @@ export class PrismaUserRepository implements IUserRepository {
             data.uniqueDisplayName,
             data.balance,
             data.lockedBalance,
-            data.createdAt
+            data.createdAt,
+            data.isBot
         );
     }
 
@@ -49,10 +52,43 @@ export class PrismaUserRepository implements IUserRepository {
         return data.map(d => this.toEntity(d));
     }
 
+    async findPage(afterId: string | undefined, limit: number): Promise<User[]> {
+        const data = await this.prisma.user.findMany({
+            where: afterId ? { id: { gt: afterId } } : {},
+            orderBy: { id: 'asc' },
+            take: limit,
+        });
+        return data.map(d => this.toEntity(d));
+    }
+
+    async findIdleBots(limit: number): Promise<User[]> {
+        const data = await this.prisma.user.findMany({
+            where: {
+                isBot: true,
+                lobbyPlayers: { none: { lobby: { status: { in: ['WAITING', 'STARTING'] } } } },
+                gameSessions: { none: { session: { status: { in: ['PENDING', 'ACTIVE'] } } } },
+            },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+        });
+        return data.map(d => this.toEntity(d));
+    }
+
+    async findByIdsForUpdate(ids: string[]): Promise<User[]> {
+        if (ids.length === 0) return [];
+
+        // Lock in a stable order so concurrent transactions can't deadlock
+        await this.prisma.$queryRaw`
+            SELECT id FROM "User" WHERE id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE
+        `;
+        return this.findByIds(ids);
+    }
+
     async create(data: {
         firebaseUid: string;
         displayName: string;
         balance?: bigint;
+        isBot?: boolean;
     }): Promise<User> {
         const created = await this.prisma.user.create({
             data: {
@@ -60,6 +96,7 @@ export class PrismaUserRepository implements IUserRepository {
                 uniqueDisplayName: data.displayName,
                 balance: data.balance ?? 0n,
                 lockedBalance: 0n,
+                isBot: data.isBot ?? false,
             },
         });
         return this.toEntity(created);
@@ -77,6 +114,24 @@ export class PrismaUserRepository implements IUserRepository {
         return this.toEntity(updated);
     }
 
+    async creditDeveloperBalance(id: string, amount: bigint): Promise<bigint> {
+        // Atomic increment - developers can earn from many sessions settling at once
+        const updated = await this.prisma.user.update({
+            where: { id },
+            data: { developerBalance: { increment: amount } },
+            select: { developerBalance: true },
+        });
+        return updated.developerBalance;
+    }
+
+    async isActiveDeveloper(id: string): Promise<boolean> {
+        const user = await this.prisma.user.findUnique({
+            where: { id },
+            select: { developerStatus: true },
+        });
+        return user?.developerStatus === 'ACTIVE';
+    }
+
     async isDisplayNameAvailable(displayName: string): Promise<boolean> {
         const normalized = displayName.toLowerCase();
         const existing = await this.prisma.user.findFirst({
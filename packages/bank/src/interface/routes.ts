@@ -1,18 +1,35 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import type { PrismaClient } from '@prisma/client';
 import type { LRUCache } from '@pluto/gateway';
 import { z } from 'zod';
+import { serializeJson } from '@pluto/shared';
 import { GetBalanceUseCase } from '../application/use-cases/GetBalance.js';
+import { GetRatingsUseCase } from '../application/use-cases/GetRatings.js';
 import { GetHistoryUseCase } from '../application/use-cases/GetHistory.js';
 import { ExecuteContractUseCase } from '../application/use-cases/ExecuteContract.js';
 import { SettleContractUseCase } from '../application/use-cases/SettleContract.js';
 import { CancelContractUseCase } from '../application/use-cases/CancelContract.js';
 import { RegisterGameUseCase } from '../application/use-cases/RegisterGame.js';
 import { CreateContractUseCase } from '../application/use-cases/CreateContract.js';
+import type { MinMatchSecondsFn } from '../application/use-cases/CreateContract.js';
+import { ExecuteIdempotentlyUseCase } from '../application/use-cases/ExecuteIdempotently.js';
+import { ResolvePaymentUseCase } from '../application/use-cases/ResolvePayment.js';
+import { CreateDepositUseCase } from '../application/use-cases/CreateDeposit.js';
+import { CreateWithdrawalUseCase } from '../application/use-cases/CreateWithdrawal.js';
+import { GetLedgerSummaryUseCase } from '../application/use-cases/GetLedgerSummary.js';
+import { GetDeveloperEarningsUseCase } from '../application/use-cases/GetDeveloperEarnings.js';
+import { ReconcileBalancesUseCase } from '../application/use-cases/ReconcileBalances.js';
 import { PrismaUserRepository } from '../infrastructure/repositories/PrismaUserRepository.js';
 import { PrismaLedgerRepository } from '../infrastructure/repositories/PrismaLedgerRepository.js';
 import { PrismaContractRepository } from '../infrastructure/repositories/PrismaContractRepository.js';
 import { PrismaSessionRepository } from '../infrastructure/repositories/PrismaSessionRepository.js';
+import { PrismaUnitOfWork } from '../infrastructure/repositories/PrismaUnitOfWork.js';
+import { PrismaIdempotencyRepository } from '../infrastructure/repositories/PrismaIdempotencyRepository.js';
+import { PrismaPaymentRepository } from '../infrastructure/repositories/PrismaPaymentRepository.js';
+import { PrismaJournalRepository } from '../infrastructure/repositories/PrismaJournalRepository.js';
+import { PrismaDeveloperEarningRepository } from '../infrastructure/repositories/PrismaDeveloperEarningRepository.js';
+import { PrismaRatingRepository } from '../infrastructure/repositories/PrismaRatingRepository.js';
+import type { IPaymentProvider } from '../domain/services/IPaymentProvider.js';
 
 // Validation schemas
 const ExecuteContractSchema = z.object({
@@ -24,11 +41,16 @@ const SettleContractSchema = z.object({
     sessionToken: z.string(),
     results: z.array(z.object({
         playerId: z.string(),
-        isWinner: z.boolean(),
-        winAmount: z.string().optional(),
+        isWinner: z.boolean().optional(),
+        rank: z.number().int().min(1).optional(),
+        winAmount: z.string().regex(/^\d+$/, 'winAmount must be a non-negative integer string').optional(),
     })),
 });
 
+const PaymentSchema = z.object({
+    amount: z.string().regex(/^\d+$/, 'Amount must be a positive integer string'), // BigInt as string
+});
+
 const CancelContractSchema = z.object({
     sessionToken: z.string(),
     reason: z.string().optional(),
@@ -38,24 +60,38 @@ const RegisterGameSchema = z.object({
     name: z.string().min(1).max(100),
     description: z.string().max(500).optional(),
     callbackUrl: z.string().url().optional(),
+    ownerId: z.string().uuid().optional(), // Admins only - developers always own what they register
 });
 
 const CreateContractSchema = z.object({
     gameId: z.string().uuid(),
     name: z.string().min(1).max(100),
     entryFee: z.string(), // BigInt as string
-    platformFee: z.number().min(0).max(100),
+    platformFee: z.number().min(0).max(100).optional(), // Admins only
+    developerShare: z.number().int().min(0).max(100).optional(), // Admins only
+    payoutModel: z.enum(['WINNER_TAKES_ALL', 'EVEN_SPLIT', 'RANKED', 'CUSTOM']).optional(),
+    payoutTable: z.array(z.number().int().positive()).max(100).optional(),
+    matchMode: z.enum(['BEST_OF', 'FIRST_TO']).optional(),
+    matchLength: z.number().int().min(1).optional(),
+    gameSettings: z.record(z.unknown()).optional(),
     minPlayers: z.number().int().min(1),
     maxPlayers: z.number().int().min(1),
     ttlSeconds: z.number().int().min(60).optional(),
 });
 
+const EarningsQuerySchema = z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+});
+
 export interface BankRoutesConfig {
     prisma: PrismaClient;
     generateSessionToken: (payload: any) => string;
     verifySessionToken: (token: string) => any;
     verifyFirebaseToken: (token: string) => Promise<{ uid: string } | null>;
     verifyHmacSignature: (body: string, signature: string, gameId: string) => Promise<boolean>;
+    paymentProvider: IPaymentProvider;
+    minMatchSeconds?: MinMatchSecondsFn; // Checks new contracts' ttlSeconds against the game's matches
 }
 
 export function registerBankRoutes(
@@ -63,28 +99,124 @@ export function registerBankRoutes(
     cache: LRUCache<string, unknown>,
     config: BankRoutesConfig
 ) {
-    const { prisma, generateSessionToken, verifySessionToken, verifyFirebaseToken, verifyHmacSignature } = config;
+    const {
+        prisma,
+        generateSessionToken,
+        verifySessionToken,
+        verifyFirebaseToken,
+        verifyHmacSignature,
+        paymentProvider,
+        minMatchSeconds,
+    } = config;
 
     // Initialize repositories
     const userRepo = new PrismaUserRepository(prisma);
     const ledgerRepo = new PrismaLedgerRepository(prisma);
     const contractRepo = new PrismaContractRepository(prisma);
     const sessionRepo = new PrismaSessionRepository(prisma);
+    const unitOfWork = new PrismaUnitOfWork(prisma);
+    const idempotencyRepo = new PrismaIdempotencyRepository(prisma);
+    const paymentRepo = new PrismaPaymentRepository(prisma);
+    const journalRepo = new PrismaJournalRepository(prisma);
+    const developerEarningRepo = new PrismaDeveloperEarningRepository(prisma);
+    const ratingRepo = new PrismaRatingRepository(prisma);
 
     // Initialize use cases
     const getBalance = new GetBalanceUseCase(userRepo);
     const getHistory = new GetHistoryUseCase(ledgerRepo);
+    const getRatings = new GetRatingsUseCase(ratingRepo, contractRepo);
     const executeContract = new ExecuteContractUseCase(
-        userRepo, contractRepo, sessionRepo, ledgerRepo, generateSessionToken
+        userRepo, contractRepo, unitOfWork, generateSessionToken
     );
     const settleContract = new SettleContractUseCase(
-        userRepo, contractRepo, sessionRepo, ledgerRepo, verifySessionToken
+        contractRepo, unitOfWork, verifySessionToken
     );
     const cancelContract = new CancelContractUseCase(
-        userRepo, sessionRepo, ledgerRepo, verifySessionToken
+        unitOfWork, verifySessionToken
     );
-    const registerGame = new RegisterGameUseCase(contractRepo);
-    const createContract = new CreateContractUseCase(contractRepo);
+    const registerGame = new RegisterGameUseCase(contractRepo, userRepo);
+    const createContract = new CreateContractUseCase(contractRepo, minMatchSeconds);
+    const executeIdempotently = new ExecuteIdempotentlyUseCase(idempotencyRepo, unitOfWork);
+    const resolvePayment = new ResolvePaymentUseCase(unitOfWork);
+    const createDeposit = new CreateDepositUseCase(paymentRepo, paymentProvider, resolvePayment);
+    const createWithdrawal = new CreateWithdrawalUseCase(unitOfWork, paymentProvider, resolvePayment);
+    const getLedgerSummary = new GetLedgerSummaryUseCase(journalRepo);
+    const getDeveloperEarnings = new GetDeveloperEarningsUseCase(developerEarningRepo);
+    const reconcileBalances = new ReconcileBalancesUseCase(unitOfWork);
+
+    // Helper to get the user behind a Firebase bearer token
+    async function authenticateUser(authHeader: string | undefined) {
+        if (!authHeader?.startsWith('Bearer ')) {
+            return null;
+        }
+        const decoded = await verifyFirebaseToken(authHeader.slice(7));
+        if (!decoded) return null;
+        return userRepo.findByFirebaseUid(decoded.uid);
+    }
+
+    // Helper to get the authenticated user's admin and developer access
+    async function authenticateAccess(authHeader: string | undefined) {
+        const user = await authenticateUser(authHeader);
+        if (!user) {
+            return null;
+        }
+
+        const fullUser = await prisma.user.findUnique({
+            where: { id: user.id },
+            select: { role: true, developerStatus: true },
+        });
+
+        return {
+            user,
+            isAdmin: fullUser?.role === 'ADMIN',
+            isDeveloper: fullUser?.developerStatus === 'ACTIVE',
+        };
+    }
+
+    // Helper to check if user is admin
+    async function requireAdmin(authHeader: string | undefined) {
+        const access = await authenticateAccess(authHeader);
+        return access?.isAdmin ? access.user : null;
+    }
+
+    // Helper to check if user is an approved developer
+    async function requireDeveloper(authHeader: string | undefined) {
+        const access = await authenticateAccess(authHeader);
+        return access?.isDeveloper ? access.user : null;
+    }
+
+    // Send a contract response, deduplicated by the Idempotency-Key header when present
+    async function sendContractResponse(
+        request: FastifyRequest,
+        reply: FastifyReply,
+        endpoint: string,
+        handler: () => Promise<unknown>
+    ) {
+        const gameId = request.headers['x-game-id'] as string;
+        const key = request.headers['idempotency-key'] as string | undefined;
+
+        if (!key) {
+            return reply.type('application/json').send(serializeJson(await handler()));
+        }
+        if (key.length > 255) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Idempotency-Key must be at most 255 characters' }
+            });
+        }
+
+        const outcome = await executeIdempotently.execute({
+            gameId,
+            key,
+            endpoint,
+            requestBody: request.body,
+            handler,
+        });
+
+        if (outcome.replayed) {
+            reply.header('Idempotent-Replayed', 'true');
+        }
+        return reply.status(outcome.statusCode).type('application/json').send(outcome.body);
+    }
 
     // ============================================
     // Player Routes (Firebase Auth)
@@ -111,6 +243,25 @@ export function registerBankRoutes(
         return result;
     });
 
+    app.get('/me/ratings', async (request, reply) => {
+        const auth = request.headers.authorization;
+        if (!auth?.startsWith('Bearer ')) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Missing token' } });
+        }
+
+        const decoded = await verifyFirebaseToken(auth.slice(7));
+        if (!decoded) {
+            return reply.status(401).send({ error: { code: 'INVALID_TOKEN', message: 'Invalid token' } });
+        }
+
+        const user = await userRepo.findByFirebaseUid(decoded.uid);
+        if (!user) {
+            return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'User not found' } });
+        }
+
+        return getRatings.execute({ userId: user.id });
+    });
+
     app.get('/me/history', async (request, reply) => {
         const auth = request.headers.authorization;
         if (!auth?.startsWith('Bearer ')) {
@@ -137,6 +288,73 @@ export function registerBankRoutes(
         return result;
     });
 
+    app.post('/me/deposits', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = PaymentSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.flatten() }
+            });
+        }
+
+        const payment = await createDeposit.execute({
+            userId: user.id,
+            amount: BigInt(parsed.data.amount),
+        });
+        cache.delete(`balance:${user.id}`);
+
+        return payment.toJSON();
+    });
+
+    app.post('/me/withdrawals', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = PaymentSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.flatten() }
+            });
+        }
+
+        const payment = await createWithdrawal.execute({
+            userId: user.id,
+            amount: BigInt(parsed.data.amount),
+        });
+        cache.delete(`balance:${user.id}`);
+
+        return payment.toJSON();
+    });
+
+    // ============================================
+    // Developer Routes (Firebase Auth)
+    // ============================================
+
+    app.get('/developer/earnings', async (request, reply) => {
+        const developer = await requireDeveloper(request.headers.authorization);
+        if (!developer) {
+            return reply.status(403).send({ error: { code: 'FORBIDDEN', message: 'Developer access required' } });
+        }
+
+        const parsed = EarningsQuerySchema.safeParse(request.query);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid query', details: parsed.error.flatten() }
+            });
+        }
+
+        return getDeveloperEarnings.execute({
+            developerId: developer.id,
+            ...parsed.data,
+        });
+    });
+
     // ============================================
     // Contract Routes (HMAC Auth)
     // ============================================
@@ -162,17 +380,19 @@ export function registerBankRoutes(
             });
         }
 
-        const result = await executeContract.execute({
-            contractId: parsed.data.contractId,
-            playerFirebaseUids: parsed.data.playerIds,
-        });
+        return sendContractResponse(request, reply, 'contracts/execute', async () => {
+            const result = await executeContract.execute({
+                contractId: parsed.data.contractId,
+                playerFirebaseUids: parsed.data.playerIds,
+            });
 
-        // Invalidate balance cache for all players
-        for (const player of result.players) {
-            cache.delete(`balance:${player.id}`);
-        }
+            // Invalidate balance cache for all players
+            for (const player of result.players) {
+                cache.delete(`balance:${player.id}`);
+            }
 
-        return result;
+            return result;
+        });
     });
 
     app.post('/contracts/settle', async (request, reply) => {
@@ -196,16 +416,17 @@ export function registerBankRoutes(
             });
         }
 
-        const result = await settleContract.execute({
-            sessionToken: parsed.data.sessionToken,
-            results: parsed.data.results.map(r => ({
-                playerId: r.playerId,
-                isWinner: r.isWinner,
-                winAmount: r.winAmount ? BigInt(r.winAmount) : undefined,
-            })),
-        });
-
-        return result;
+        return sendContractResponse(request, reply, 'contracts/settle', () =>
+            settleContract.execute({
+                sessionToken: parsed.data.sessionToken,
+                results: parsed.data.results.map(r => ({
+                    playerId: r.playerId,
+                    isWinner: r.isWinner,
+                    rank: r.rank,
+                    winAmount: r.winAmount !== undefined ? BigInt(r.winAmount) : undefined,
+                })),
+            })
+        );
     });
 
     app.post('/contracts/cancel', async (request, reply) => {
@@ -229,16 +450,39 @@ export function registerBankRoutes(
             });
         }
 
-        const result = await cancelContract.execute(parsed.data);
-        return result;
+        return sendContractResponse(request, reply, 'contracts/cancel', () =>
+            cancelContract.execute(parsed.data)
+        );
     });
 
     // ============================================
     // Admin Routes
     // ============================================
 
+    app.get('/admin/ledger/summary', async (request, reply) => {
+        const admin = await requireAdmin(request.headers.authorization);
+        if (!admin) {
+            return reply.status(403).send({ error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+        }
+
+        return getLedgerSummary.execute();
+    });
+
+    app.get('/admin/reconciliation', async (request, reply) => {
+        const admin = await requireAdmin(request.headers.authorization);
+        if (!admin) {
+            return reply.status(403).send({ error: { code: 'FORBIDDEN', message: 'Admin access required' } });
+        }
+
+        return reconcileBalances.execute();
+    });
+
     app.post('/dev/games', async (request, reply) => {
-        // TODO: Add admin authentication
+        const access = await authenticateAccess(request.headers.authorization);
+        if (!access || (!access.isAdmin && !access.isDeveloper)) {
+            return reply.status(403).send({ error: { code: 'FORBIDDEN', message: 'Developer or admin access required' } });
+        }
+
         const parsed = RegisterGameSchema.safeParse(request.body);
         if (!parsed.success) {
             return reply.status(400).send({
@@ -246,12 +490,19 @@ export function registerBankRoutes(
             });
         }
 
-        const result = await registerGame.execute(parsed.data);
+        const result = await registerGame.execute({
+            ...parsed.data,
+            ownerId: access.isAdmin ? parsed.data.ownerId : access.user.id,
+        });
         return result;
     });
 
     app.post('/dev/contracts', async (request, reply) => {
-        // TODO: Add admin authentication
+        const access = await authenticateAccess(request.headers.authorization);
+        if (!access || (!access.isAdmin && !access.isDeveloper)) {
+            return reply.status(403).send({ error: { code: 'FORBIDDEN', message: 'Developer or admin access required' } });
+        }
+
         const parsed = CreateContractSchema.safeParse(request.body);
         if (!parsed.success) {
             return reply.status(400).send({
@@ -262,6 +513,7 @@ export function registerBankRoutes(
         const result = await createContract.execute({
             ...parsed.data,
             entryFee: BigInt(parsed.data.entryFee),
+            requestedBy: { userId: access.user.id, isAdmin: access.isAdmin },
         });
         return result;
     });
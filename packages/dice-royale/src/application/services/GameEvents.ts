@@ -0,0 +1,37 @@
+import type { DiceGame, DiceRoll } from '../../domain/entities/DiceGame.js';
+import type { DiceRoyaleBroadcaster } from '../../infrastructure/sse/DiceRoyaleBroadcaster.js';
+
+/**
+ * Broadcast newly recorded rolls, then the round or game they ended
+ */
+export function broadcastRolls(
+    broadcaster: DiceRoyaleBroadcaster,
+    game: DiceGame,
+    rolls: Array<{ userId: string; roll: DiceRoll }>
+): void {
+    for (const { userId, roll } of rolls) {
+        broadcaster.broadcast(game.id, {
+            type: 'player_rolled',
+            playerId: userId,
+            round: roll.round,
+            rollValue: roll.rollValue,
+            dice: roll.dice,
+            kind: roll.kind,
+        });
+    }
+
+    if (game.status === 'COMPLETE') {
+        broadcaster.broadcast(game.id, {
+            type: 'game_complete',
+            winners: game.getWinners(),
+            serverSeed: game.revealedServerSeed ?? undefined,
+        });
+    } else if (rolls.some(r => r.roll.round !== game.round)) {
+        broadcaster.broadcast(game.id, {
+            type: 'round_started',
+            round: game.round,
+            players: game.players.filter(p => game.isInCurrentRound(p.userId)).map(p => p.userId),
+            rollDeadline: game.rollDeadline?.toISOString(),
+        });
+    }
+}
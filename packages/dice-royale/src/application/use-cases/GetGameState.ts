@@ -29,18 +29,35 @@ export class GetGameStateUseCase {
         }
 
         const winners = game.status === 'COMPLETE' ? game.getWinners() : undefined;
+        const scores = game.getScores();
 
         return {
             gameId: game.id,
             sessionId: game.sessionId,
             status: game.status,
-            players: game.players.map((p: any) => ({
+            round: game.round,
+            tiePolicy: game.tiePolicy,
+            match: game.match,
+            variant: game.variant.toJSON(),
+            rollDeadline: game.rollDeadline?.toISOString(),
+            idlePolicy: game.idlePolicy ?? undefined,
+            players: game.players.map(p => ({
                 userId: p.userId,
                 displayName: p.displayName,
-                hasRolled: p.hasRolled,
+                isBot: p.isBot,
+                score: scores.get(p.userId)!,
+                hasRolled: p.hasRolledIn(game.round),
+                inCurrentRound: game.isInCurrentRound(p.userId),
                 rollValue: p.rollValue ?? undefined,
+                dice: p.dice ?? undefined,
+                clientSeed: p.clientSeed ?? undefined,
+                nonce: p.nonce ?? undefined,
             })),
+            rounds: game.getRounds(),
             winnerId: winners?.[0],
+            settlementStatus: game.settlementStatus,
+            serverSeedHash: game.serverSeedHash ?? undefined,
+            serverSeed: game.revealedServerSeed ?? undefined,
         };
     }
 }
@@ -0,0 +1,51 @@
+import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import type { DiceRoyaleBroadcaster } from '../../infrastructure/sse/DiceRoyaleBroadcaster.js';
+import { broadcastRolls } from '../services/GameEvents.js';
+import { NotFoundError } from '@pluto/shared';
+
+/**
+ * Resolve the players who let a round's roll deadline pass
+ * Idle players are rolled for or forfeit, depending on the game's idle policy, and the round
+ * then ends as if they had rolled
+ */
+export class ResolveIdlePlayersUseCase {
+    constructor(
+        private diceGameRepository: IDiceGameRepository,
+        private broadcaster: DiceRoyaleBroadcaster,
+        private onGameComplete?: (gameId: string, winners: string[]) => Promise<void>
+    ) { }
+
+    /**
+     * @returns the number of idle players resolved
+     */
+    async execute(gameId: string, now = new Date()): Promise<number> {
+        // Auto-rolls take nonces too, so resolve under the same lock as player rolls
+        const { game, resolved } = await this.diceGameRepository.runLocked(gameId, async diceGameRepository => {
+            const game = await diceGameRepository.findById(gameId);
+            if (!game) {
+                throw new NotFoundError('DiceRoyale game', gameId);
+            }
+
+            const resolved = game.resolveIdlePlayers(now);
+            for (const { userId, roll } of resolved) {
+                await diceGameRepository.recordRoll(game.id, userId, roll);
+            }
+            if (resolved.length > 0) {
+                await diceGameRepository.saveProgress(game);
+            }
+            return { game, resolved };
+        });
+
+        if (resolved.length === 0) {
+            return 0;
+        }
+
+        broadcastRolls(this.broadcaster, game, resolved);
+
+        if (game.status === 'COMPLETE' && this.onGameComplete) {
+            await this.onGameComplete(game.id, game.getWinners());
+        }
+
+        return resolved.length;
+    }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import type { DiceRoll } from '../../domain/entities/DiceGame.js';
+import type { DiceRoyaleBroadcaster } from '../../infrastructure/sse/DiceRoyaleBroadcaster.js';
+import { DiceGame, DicePlayer } from '../../domain/entities/DiceGame.js';
+import { ProvablyFair } from '../../domain/entities/ProvablyFair.js';
+import { RollDiceUseCase } from './RollDice.js';
+
+const serverSeed = 'a'.repeat(64);
+
+// A provably fair game between a, b and c, stored as rows that each load reads afresh;
+// runLocked queues work one at a time like the game's row lock
+function setup() {
+    const stored: Array<{ userId: string; roll: DiceRoll }> = [];
+    const load = () => new DiceGame('game', 'session', 'ROLLING', new Date(), ['a', 'b', 'c'].map(id =>
+        new DicePlayer(id, id, stored.filter(r => r.userId === id).map(r => r.roll))
+    ), null, 'PENDING', 0, { serverSeed, serverSeedHash: ProvablyFair.hashSeed(serverSeed) });
+
+    let queue = Promise.resolve();
+    const diceGameRepo = {
+        findById: async () => load(),
+        recordRoll: vi.fn(async (_gameId: string, userId: string, roll: DiceRoll) => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            stored.push({ userId, roll });
+        }),
+        saveProgress: async () => { },
+        runLocked: vi.fn(<T>(_gameId: string, work: (repo: IDiceGameRepository) => Promise<T>) => {
+            const result = queue.then(() => work(diceGameRepo));
+            queue = result.then(() => { }, () => { });
+            return result;
+        }),
+    } as unknown as IDiceGameRepository & { runLocked: ReturnType<typeof vi.fn> };
+    const broadcaster = { broadcast: vi.fn() } as unknown as DiceRoyaleBroadcaster;
+
+    return {
+        stored,
+        diceGameRepo,
+        rollDice: new RollDiceUseCase(diceGameRepo, broadcaster),
+    };
+}
+
+describe('RollDiceUseCase', () => {
+    it('should give concurrent rolls distinct nonces', async () => {
+        const { rollDice, stored } = setup();
+
+        const results = await Promise.all(['a', 'b'].map(userId => rollDice.execute({ gameId: 'game', userId })));
+
+        expect(results.map(r => r.nonce).sort()).toEqual([1, 2]);
+        expect(stored.map(r => r.roll.nonce).sort()).toEqual([1, 2]);
+    });
+
+    it('should roll under the game lock', async () => {
+        const { rollDice, diceGameRepo } = setup();
+
+        await rollDice.execute({ gameId: 'game', userId: 'a' });
+
+        expect(diceGameRepo.runLocked).toHaveBeenCalledWith('game', expect.any(Function));
+    });
+
+    it('should reject a second roll in the same round', async () => {
+        const { rollDice } = setup();
+        await rollDice.execute({ gameId: 'game', userId: 'a' });
+
+        await expect(rollDice.execute({ gameId: 'game', userId: 'a' })).rejects.toThrow('Player has already rolled');
+    });
+});
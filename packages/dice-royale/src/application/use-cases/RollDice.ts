@@ -1,67 +1,110 @@
+import type { DiceRoyaleStatus } from '@prisma/client';
 import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import type { DiceRoyaleBroadcaster } from '../../infrastructure/sse/DiceRoyaleBroadcaster.js';
+import { broadcastRolls } from '../services/GameEvents.js';
 import { NotFoundError, ValidationError } from '@pluto/shared';
 
 export interface RollDiceInput {
     gameId: string;
     userId: string;
+    clientSeed?: string;
 }
 
 export interface RollDiceResult {
-    rollValue: number;
-    allPlayersRolled: boolean;
+    round: number;
+    rollValue: number; // Score of the dice under the game's variant
+    dice: number[];
+    clientSeed: string | null;
+    nonce: number | null;
+    allPlayersRolled: boolean; // Everyone in this round has rolled
+    status: DiceRoyaleStatus;
+    tiedPlayers?: string[]; // Players rolling the sudden-death round that just started
     winners?: string[];
 }
 
+/**
+ * Check a client seed sent by a player; leaving it out rolls with their user ID
+ */
+export function parseClientSeed(value: unknown): string | undefined {
+    if (value !== undefined && (typeof value !== 'string' || value.length === 0 || value.length > 64)) {
+        throw new ValidationError('clientSeed must be a string of 1-64 characters');
+    }
+    return value;
+}
+
 /**
  * Handle a player's dice roll
  */
 export class RollDiceUseCase {
     constructor(
         private diceGameRepository: IDiceGameRepository,
+        private broadcaster: DiceRoyaleBroadcaster,
         private onGameComplete?: (gameId: string, winners: string[]) => Promise<void>
     ) { }
 
     async execute(input: RollDiceInput): Promise<RollDiceResult> {
-        // Find game
-        const game = await this.diceGameRepository.findById(input.gameId);
-        if (!game) {
-            throw new NotFoundError('DiceRoyale game', input.gameId);
-        }
+        // Hold the game's lock while rolling so concurrent rolls can't take the same nonce or both end the round
+        const { game, roll, result } = await this.diceGameRepository.runLocked(input.gameId, async diceGameRepository => {
+            // Find game
+            const game = await diceGameRepository.findById(input.gameId);
+            if (!game) {
+                throw new NotFoundError('DiceRoyale game', input.gameId);
+            }
 
-        // Check game status
-        if (game.status !== 'ROLLING') {
-            throw new ValidationError('Game is not in rolling phase');
-        }
+            // Check game status
+            if (!game.isRolling) {
+                throw new ValidationError('Game is not in rolling phase');
+            }
 
-        // Check player is in game
-        const player = game.getPlayer(input.userId);
-        if (!player) {
-            throw new ValidationError('Player is not in this game');
-        }
+            // Check player is in game and in the current round
+            const player = game.getPlayer(input.userId);
+            if (!player) {
+                throw new ValidationError('Player is not in this game');
+            }
+            if (!game.isInCurrentRound(input.userId)) {
+                throw new ValidationError('Player is out of the tie-break');
+            }
 
-        // Check player hasn't already rolled
-        if (player.hasRolled) {
-            throw new ValidationError('Player has already rolled');
-        }
+            // Check player hasn't already rolled this round
+            if (player.hasRolledIn(game.round)) {
+                throw new ValidationError('Player has already rolled');
+            }
+
+            // Record the roll
+            const roll = game.recordRoll(input.userId, input.clientSeed);
+            await diceGameRepository.recordRoll(game.id, input.userId, roll);
 
-        // Record the roll
-        const rollValue = game.recordRoll(input.userId);
-        await this.diceGameRepository.recordRoll(game.id, input.userId, rollValue);
+            // The round is over once the game completes or moves on to the next round
+            const nextRound = game.round !== roll.round;
+            const result: RollDiceResult = {
+                ...roll,
+                allPlayersRolled: nextRound || game.status === 'COMPLETE',
+                status: game.status,
+            };
+
+            // The match goes on, or a tie went to sudden death and the tied players roll again
+            if (nextRound) {
+                await diceGameRepository.saveProgress(game);
+                if (game.status === 'TIEBREAK') {
+                    result.tiedPlayers = game.players.filter(p => game.isInCurrentRound(p.userId)).map(p => p.userId);
+                }
+            }
+
+            if (game.status === 'COMPLETE') {
+                // Update status and determine winners
+                await diceGameRepository.saveProgress(game);
+                result.winners = game.getWinners();
+            }
 
-        // Check if game is complete
-        const result: RollDiceResult = {
-            rollValue,
-            allPlayersRolled: game.allPlayersRolled,
-        };
+            return { game, roll, result };
+        });
 
-        if (game.allPlayersRolled) {
-            // Update status and determine winners
-            await this.diceGameRepository.updateStatus(game.id, 'COMPLETE');
-            result.winners = game.getWinners();
+        broadcastRolls(this.broadcaster, game, [{ userId: input.userId, roll }]);
 
+        if (result.winners) {
             // Trigger callback if provided (to settle the contract)
             if (this.onGameComplete) {
-                await this.onGameComplete(game.id, result.winners!);
+                await this.onGameComplete(game.id, result.winners);
             }
         }
 
@@ -1,16 +1,33 @@
+import type { DiceRoyaleIdlePolicy, DiceRoyaleTiePolicy } from '@prisma/client';
 import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
-import type { DiceGame } from '../../domain/entities/DiceGame.js';
+import type { DiceGame, DiceMatch } from '../../domain/entities/DiceGame.js';
+import { ProvablyFair } from '../../domain/entities/ProvablyFair.js';
+import { DiceVariant } from '../../domain/entities/DiceVariant.js';
+import { addSeconds } from '@pluto/shared';
+
+export const DEFAULT_ROLL_TIMEOUT_SECONDS = 30;
 
 export interface StartGameInput {
     sessionId: string;
+    sessionToken: string; // From contract execution, kept to settle the game
+    tiePolicy?: DiceRoyaleTiePolicy; // SUDDEN_DEATH for contracts that need a single winner
+    match?: DiceMatch; // Defaults to best of 1, a single roll
+    settings?: Record<string, unknown>; // Contract's game settings: dice, faces and scoring, 1d6 summed by default
+    rollTimeoutSeconds?: number; // Per round
+    idlePolicy?: DiceRoyaleIdlePolicy; // What happens to players who miss the roll deadline
     players: Array<{
         userId: string;
         displayName: string;
+        isBot?: boolean; // Rolled for by the bot roller
     }>;
 }
 
 /**
  * Start a new DiceRoyale game
+ * Commits to a fresh server seed; only its hash is published until the game is complete
+ * The first round's roll deadline starts now
+ *
+ * @throws ValidationError if the game settings aren't a valid dice variant
  */
 export class StartGameUseCase {
     constructor(private diceGameRepository: IDiceGameRepository) { }
@@ -22,9 +39,23 @@ export class StartGameUseCase {
             return existing;
         }
 
+        const variant = DiceVariant.create(input.settings);
+
         // Create new game
+        const serverSeed = ProvablyFair.generateServerSeed();
+        const timeoutSeconds = input.rollTimeoutSeconds ?? DEFAULT_ROLL_TIMEOUT_SECONDS;
         const game = await this.diceGameRepository.create({
             sessionId: input.sessionId,
+            sessionToken: input.sessionToken,
+            seed: { serverSeed, serverSeedHash: ProvablyFair.hashSeed(serverSeed) },
+            tiePolicy: input.tiePolicy ?? 'SPLIT',
+            match: input.match ?? { mode: 'BEST_OF', length: 1 },
+            variant,
+            rollTimer: {
+                timeoutSeconds,
+                idlePolicy: input.idlePolicy ?? 'AUTO_ROLL',
+                deadline: addSeconds(timeoutSeconds),
+            },
             players: input.players,
         });
 
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import type { DiceRoll } from '../../domain/entities/DiceGame.js';
+import { DiceGame, DicePlayer } from '../../domain/entities/DiceGame.js';
+import { ProvablyFair } from '../../domain/entities/ProvablyFair.js';
+import { VerifyGameUseCase } from './VerifyGame.js';
+
+const serverSeed = 'a'.repeat(64);
+const seed = { serverSeed, serverSeedHash: ProvablyFair.hashSeed(serverSeed) };
+
+// A complete provably fair game between a and b, loaded with the given rolls
+function setup(rolls: Record<string, DiceRoll[]> = {}) {
+    const game = new DiceGame('game', 'session', 'COMPLETE', new Date(), [
+        new DicePlayer('a', 'A', rolls.a),
+        new DicePlayer('b', 'B', rolls.b),
+    ], null, 'PENDING', 0, seed);
+    const diceGameRepo = { findById: async (id: string) => id === 'game' ? game : null } as unknown as IDiceGameRepository;
+    return new VerifyGameUseCase(diceGameRepo);
+}
+
+function provableRoll(clientSeed: string, nonce: number): DiceRoll {
+    const value = ProvablyFair.roll(serverSeed, clientSeed, nonce);
+    return { round: 1, rollValue: value, dice: [value], clientSeed, nonce, kind: 'PLAYER' };
+}
+
+describe('VerifyGameUseCase', () => {
+    it('should verify rolls that replay from the revealed seed', async () => {
+        const verifyGame = setup({ a: [provableRoll('a', 1)], b: [provableRoll('b', 2)] });
+
+        const result = await verifyGame.execute('game');
+
+        expect(result.verified).toBe(true);
+        expect(result.rolls.map(r => [r.userId, r.nonce, r.valid])).toEqual([['a', 1, true], ['b', 2, true]]);
+    });
+
+    it('should flag a roll whose dice do not match the seeds', async () => {
+        const tampered = { ...provableRoll('b', 2), rollValue: 7, dice: [7] };
+        const verifyGame = setup({ a: [provableRoll('a', 1)], b: [tampered] });
+
+        const result = await verifyGame.execute('game');
+
+        expect(result.verified).toBe(false);
+        expect(result.rolls[1].valid).toBe(false);
+    });
+
+    it('should reject a roll stored without its nonce', async () => {
+        const verifyGame = setup({ a: [provableRoll('a', 1)], b: [{ ...provableRoll('b', 2), nonce: null }] });
+
+        await expect(verifyGame.execute('game')).rejects.toThrow('Round 1 roll of b is missing its client seed or nonce');
+    });
+
+    it('should reject an unknown game', async () => {
+        await expect(setup().execute('other')).rejects.toThrow('not found');
+    });
+});
@@ -0,0 +1,86 @@
+import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import { ProvablyFair } from '../../domain/entities/ProvablyFair.js';
+import { ConflictError, NotFoundError, ValidationError } from '@pluto/shared';
+
+export interface VerifyGameResult {
+    gameId: string;
+    verified: boolean;
+    serverSeed: string;
+    serverSeedHash: string;
+    seedMatchesHash: boolean;
+    rolls: Array<{
+        userId: string;
+        round: number;
+        clientSeed: string;
+        nonce: number;
+        dice: number[];
+        expectedDice: number[];
+        rollValue: number;
+        expectedRollValue: number;
+        valid: boolean;
+    }>;
+}
+
+/**
+ * Recompute every roll of a complete game from its revealed server seed
+ * Each roll's dice are rolled again with the game's variant and scored under its rules
+ */
+export class VerifyGameUseCase {
+    constructor(private diceGameRepository: IDiceGameRepository) { }
+
+    async execute(gameId: string): Promise<VerifyGameResult> {
+        const game = await this.diceGameRepository.findById(gameId);
+        if (!game) {
+            throw new NotFoundError('DiceRoyale game', gameId);
+        }
+        if (!game.serverSeedHash) {
+            throw new ValidationError('Game was played before provably fair rolls');
+        }
+
+        const serverSeed = game.revealedServerSeed;
+        if (!serverSeed) {
+            throw new ValidationError('Server seed is revealed once the game is complete');
+        }
+
+        const rolls = game.players
+            .flatMap(p => p.rolls.map(roll => ({ userId: p.userId, ...roll })))
+            .filter(roll => roll.kind !== 'FORFEIT')
+            .map(roll => {
+                // Every roll of a provably fair game is stored with the inputs it was rolled from
+                const { clientSeed, nonce } = roll;
+                if (clientSeed === null || nonce === null) {
+                    throw new ConflictError(`Round ${roll.round} roll of ${roll.userId} is missing its client seed or nonce`);
+                }
+                return { ...roll, clientSeed, nonce };
+            })
+            .sort((a, b) => a.nonce - b.nonce)
+            .map(roll => {
+                const { variant } = game;
+                const expectedDice = ProvablyFair.rollDice(serverSeed, roll.clientSeed, roll.nonce, variant.dice, variant.faces);
+                const expectedRollValue = variant.score(expectedDice);
+                return {
+                    userId: roll.userId,
+                    round: roll.round,
+                    clientSeed: roll.clientSeed,
+                    nonce: roll.nonce,
+                    dice: roll.dice,
+                    expectedDice,
+                    rollValue: roll.rollValue,
+                    expectedRollValue,
+                    valid: roll.rollValue === expectedRollValue
+                        && roll.dice.length === expectedDice.length
+                        && roll.dice.every((d, i) => d === expectedDice[i]),
+                };
+            });
+        const seedMatchesHash = ProvablyFair.hashSeed(serverSeed) === game.serverSeedHash;
+
+        return {
+            gameId: game.id,
+            verified: seedMatchesHash && rolls.every(r => r.valid),
+            serverSeed,
+            serverSeedHash: game.serverSeedHash,
+            seedMatchesHash,
+            rolls,
+        };
+    }
+}
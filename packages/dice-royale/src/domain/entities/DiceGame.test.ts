@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import type { DiceRoyaleIdlePolicy, DiceRoyaleTiePolicy } from '@prisma/client';
+import { DiceGame, DicePlayer } from './DiceGame.js';
+import type { DiceMatch } from './DiceGame.js';
+import { ProvablyFair } from './ProvablyFair.js';
+
+const serverSeed = 'b'.repeat(64);
+
+// Find a client seed that rolls the wanted value, so tests can script the dice
+function seedFor(value: number, nonce: number): string {
+    for (let i = 0; ; i++) {
+        if (ProvablyFair.roll(serverSeed, `seed-${i}`, nonce) === value) return `seed-${i}`;
+    }
+}
+
+const deadline = new Date('2024-01-01T12:00:00Z');
+const afterDeadline = new Date('2024-01-01T12:00:01Z');
+
+function newGame(
+    tiePolicy: DiceRoyaleTiePolicy,
+    userIds: string[],
+    idlePolicy: DiceRoyaleIdlePolicy = 'AUTO_ROLL',
+    match?: DiceMatch
+): DiceGame {
+    return new DiceGame(
+        'game', 'session', 'ROLLING', new Date(),
+        userIds.map(id => new DicePlayer(id, id)),
+        null, 'PENDING', 0,
+        { serverSeed, serverSeedHash: ProvablyFair.hashSeed(serverSeed) },
+        tiePolicy,
+        1,
+        { timeoutSeconds: 30, idlePolicy, deadline },
+        match
+    );
+}
+
+// Roll values in order; nonces count every roll in the game
+function rollAll(game: DiceGame, rolls: Array<[string, number]>, firstNonce = 1): void {
+    rolls.forEach(([userId, value], i) => game.recordRoll(userId, seedFor(value, firstNonce + i)));
+}
+
+describe('DiceGame', () => {
+    it('should split a tie on the highest roll', () => {
+        const game = newGame('SPLIT', ['a', 'b', 'c']);
+        rollAll(game, [['a', 5], ['b', 5], ['c', 2]]);
+
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getWinners()).toEqual(['a', 'b']);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 1 },
+            { userId: 'b', rank: 1 },
+            { userId: 'c', rank: 3 },
+        ]);
+    });
+
+    it('should send tied players to sudden death', () => {
+        const game = newGame('SUDDEN_DEATH', ['a', 'b', 'c']);
+        rollAll(game, [['a', 5], ['b', 5], ['c', 2]]);
+
+        expect(game.status).toBe('TIEBREAK');
+        expect(game.round).toBe(2);
+        expect(game.isInCurrentRound('c')).toBe(false);
+        expect(() => game.recordRoll('c')).toThrow('out of round 2');
+
+        rollAll(game, [['b', 4], ['a', 1]], 4);
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getWinners()).toEqual(['b']);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 2 },
+            { userId: 'b', rank: 1 },
+            { userId: 'c', rank: 3 },
+        ]);
+        expect(game.getRounds().map(r => r.results.length)).toEqual([3, 2]);
+    });
+
+    it('should keep re-rolling while the tie holds', () => {
+        const game = newGame('SUDDEN_DEATH', ['a', 'b']);
+        rollAll(game, [['a', 6], ['b', 6], ['a', 3], ['b', 3]]);
+        expect(game.round).toBe(3);
+
+        rollAll(game, [['a', 2], ['b', 1]], 5);
+        expect(game.getWinners()).toEqual(['a']);
+    });
+
+    it('should roll for idle players once the deadline passes', () => {
+        const game = newGame('SPLIT', ['a', 'b', 'c']);
+        rollAll(game, [['a', 3]]);
+        expect(game.resolveIdlePlayers(deadline)).toHaveLength(2);
+        expect(game.status).toBe('COMPLETE');
+        expect(game.rollDeadline).toBeNull();
+        expect(game.getRounds()[0].results.map(r => r.kind)).toEqual(['PLAYER', 'AUTO', 'AUTO']);
+    });
+
+    it('should rank forfeiting players last', () => {
+        const game = newGame('SUDDEN_DEATH', ['a', 'b', 'c'], 'FORFEIT');
+        rollAll(game, [['a', 1]]);
+        expect(game.resolveIdlePlayers(new Date(deadline.getTime() - 1))).toEqual([]);
+
+        game.resolveIdlePlayers(afterDeadline);
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getWinners()).toEqual(['a']);
+        expect(game.getStandings().map(s => s.rank)).toEqual([1, 2, 2]);
+    });
+
+    it('should restart the deadline for a sudden-death round', () => {
+        const game = newGame('SUDDEN_DEATH', ['a', 'b'], 'FORFEIT');
+        rollAll(game, [['a', 4], ['b', 4]]);
+        expect(game.status).toBe('TIEBREAK');
+        expect(game.rollDeadline!.getTime()).toBeGreaterThan(deadline.getTime());
+    });
+
+    it('should end a best-of match once the leader can\'t be caught', () => {
+        const game = newGame('SPLIT', ['a', 'b'], 'AUTO_ROLL', { mode: 'BEST_OF', length: 3 });
+        rollAll(game, [['a', 5], ['b', 2]]);
+        expect(game.status).toBe('ROLLING');
+        expect(game.round).toBe(2);
+        expect(game.isInCurrentRound('b')).toBe(true);
+
+        rollAll(game, [['a', 4], ['b', 3]], 3);
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getScores()).toEqual(new Map([['a', 2], ['b', 0]]));
+        expect(game.getWinners()).toEqual(['a']);
+    });
+
+    it('should play a first-to match into sudden death when players reach the target together', () => {
+        const game = newGame('SUDDEN_DEATH', ['a', 'b', 'c'], 'AUTO_ROLL', { mode: 'FIRST_TO', length: 2 });
+        rollAll(game, [['a', 6], ['b', 6], ['c', 1]]);
+        expect(game.status).toBe('ROLLING');
+
+        rollAll(game, [['a', 5], ['b', 5], ['c', 3]], 4);
+        expect(game.status).toBe('TIEBREAK');
+        expect(game.isInCurrentRound('c')).toBe(false);
+
+        rollAll(game, [['b', 4], ['a', 2]], 7);
+        expect(game.getWinners()).toEqual(['b']);
+        expect(game.getRounds().map(r => r.winners)).toEqual([['a', 'b'], ['a', 'b'], ['b']]);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 2 },
+            { userId: 'b', rank: 1 },
+            { userId: 'c', rank: 3 },
+        ]);
+    });
+});
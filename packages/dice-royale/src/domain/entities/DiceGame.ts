@@ -1,9 +1,59 @@
-import type { DiceRoyaleStatus } from '@prisma/client';
-import { randomInt } from '@pluto/shared';
+import type {
+    MatchMode,
+    DiceRoyaleIdlePolicy,
+    DiceRoyaleRollKind,
+    DiceRoyaleSettlementStatus,
+    DiceRoyaleStatus,
+    DiceRoyaleTiePolicy,
+} from '@prisma/client';
+import { randomInt, addSeconds } from '@pluto/shared';
+import { ProvablyFair } from './ProvablyFair.js';
+import { DiceVariant } from './DiceVariant.js';
+
+/**
+ * Server seed committed to when the game starts
+ */
+export interface GameSeed {
+    serverSeed: string;
+    serverSeedHash: string;
+}
+
+/**
+ * How long players get to roll each round, and what happens to those who don't
+ */
+export interface RollTimer {
+    timeoutSeconds: number;
+    idlePolicy: DiceRoyaleIdlePolicy; // AUTO_ROLL for them, or FORFEIT their round
+    deadline: Date | null; // For the current round, cleared once the game is complete
+}
+
+/**
+ * How many rounds a match lasts
+ * BEST_OF plays up to `length` rounds, stopping early once the leader can't be caught;
+ * FIRST_TO plays until someone scores `length` points. Best of 1 is a single roll.
+ */
+export interface DiceMatch {
+    mode: MatchMode;
+    length: number;
+}
+
+interface RoundOutcome {
+    round: number;
+    contenders: DicePlayer[];
+    winners: DicePlayer[]; // Highest roll, once every contender has rolled
+    scores: Map<string, number>; // Rounds won by each player so far
+}
 
 /**
  * DiceRoyale game domain entity
- * Simple game: highest dice roll wins
+ * Highest scoring roll wins the round and scores a point; the match goes to the highest score.
+ * Rolls are scored by the game's dice variant (e.g. the sum of 2d6).
+ *
+ * Ties on the top score once the match is decided either split the pot (SPLIT) or go to sudden
+ * death (SUDDEN_DEATH): the tied players alone roll more rounds, until a single player is left on top.
+ *
+ * Each round has a roll deadline; players still idle when it passes are rolled for or forfeit,
+ * so a game can't keep the players' funds locked forever.
  */
 export class DiceGame {
     constructor(
@@ -11,19 +61,65 @@ export class DiceGame {
         public readonly sessionId: string,
         private _status: DiceRoyaleStatus,
         public readonly createdAt: Date,
-        private _players: DicePlayer[]
+        private _players: DicePlayer[],
+        public readonly sessionToken: string | null = null,
+        public readonly settlementStatus: DiceRoyaleSettlementStatus = 'PENDING',
+        public readonly settlementAttempts: number = 0,
+        private seed: GameSeed | null = null, // Missing on games started before provably fair rolls
+        public readonly tiePolicy: DiceRoyaleTiePolicy = 'SPLIT',
+        private _round: number = 1,
+        private rollTimer: RollTimer | null = null, // Missing on games started before roll deadlines
+        public readonly match: DiceMatch = { mode: 'BEST_OF', length: 1 },
+        public readonly variant: DiceVariant = new DiceVariant()
     ) { }
 
     get status(): DiceRoyaleStatus {
         return this._status;
     }
 
+    get round(): number {
+        return this._round;
+    }
+
     get players(): DicePlayer[] {
         return [...this._players];
     }
 
+    get rollDeadline(): Date | null {
+        return this.rollTimer?.deadline ?? null;
+    }
+
+    get idlePolicy(): DiceRoyaleIdlePolicy | null {
+        return this.rollTimer?.idlePolicy ?? null;
+    }
+
+    get isRolling(): boolean {
+        return this._status === 'ROLLING' || this._status === 'TIEBREAK';
+    }
+
+    get serverSeedHash(): string | null {
+        return this.seed?.serverSeedHash ?? null;
+    }
+
+    /**
+     * The server seed, kept secret until every roll is in
+     */
+    get revealedServerSeed(): string | null {
+        return this._status === 'COMPLETE' ? this.seed?.serverSeed ?? null : null;
+    }
+
+    /**
+     * Whether everyone in the current round has rolled
+     */
     get allPlayersRolled(): boolean {
-        return this._players.every(p => p.hasRolled);
+        return this.contenders(this._round).every(p => p.hasRolledIn(this._round));
+    }
+
+    /**
+     * Finished but not yet paid out
+     */
+    get isAwaitingSettlement(): boolean {
+        return this._status === 'COMPLETE' && this.settlementStatus === 'PENDING';
     }
 
     /**
@@ -34,45 +130,241 @@ export class DiceGame {
     }
 
     /**
-     * Record a player's dice roll
+     * Whether a player rolls in the current round
+     */
+    isInCurrentRound(userId: string): boolean {
+        return this.contenders(this._round).some(p => p.userId === userId);
+    }
+
+    /**
+     * Bots still to roll in the current round
+     */
+    getBotsToRoll(): DicePlayer[] {
+        if (!this.isRolling) return [];
+        return this.contenders(this._round).filter(p => p.isBot && !p.hasRolledIn(this._round));
+    }
+
+    /**
+     * Record a player's dice roll for the current round
+     * The roll is derived from the server seed and the player's client seed (their user ID by default)
      */
-    recordRoll(userId: string, value?: number): number {
+    recordRoll(userId: string, clientSeed?: string): DiceRoll {
         const player = this.getPlayer(userId);
         if (!player) {
             throw new Error(`Player ${userId} not in game`);
         }
-        if (player.hasRolled) {
-            throw new Error(`Player ${userId} already rolled`);
-        }
-        if (this._status !== 'ROLLING') {
+        if (!this.isRolling) {
             throw new Error('Game is not in rolling phase');
         }
+        if (!this.isInCurrentRound(userId)) {
+            throw new Error(`Player ${userId} is out of round ${this._round}`);
+        }
+        if (player.hasRolledIn(this._round)) {
+            throw new Error(`Player ${userId} already rolled`);
+        }
 
-        // Generate random roll if not provided
-        const rollValue = value ?? randomInt(1, 6);
-        player.roll(rollValue);
+        const roll = this.rollFor(userId, clientSeed ?? userId, 'PLAYER');
+        player.roll(roll);
 
-        // Check if all players have rolled
         if (this.allPlayersRolled) {
+            this.finishRound();
+        }
+
+        return roll;
+    }
+
+    /**
+     * Whether the current round's roll deadline has passed
+     */
+    isPastRollDeadline(now = new Date()): boolean {
+        return this.isRolling && this.rollDeadline !== null && this.rollDeadline <= now;
+    }
+
+    /**
+     * Roll for, or forfeit, every player who let the roll deadline pass, which ends the round
+     * Forfeits count as a roll of 0, below any real roll
+     */
+    resolveIdlePlayers(now = new Date()): Array<{ userId: string; roll: DiceRoll }> {
+        if (!this.isPastRollDeadline(now)) {
+            return [];
+        }
+
+        const idle = this.contenders(this._round).filter(p => !p.hasRolledIn(this._round));
+        const resolved = idle.map(player => {
+            const roll: DiceRoll = this.rollTimer!.idlePolicy === 'FORFEIT'
+                ? { round: this._round, rollValue: 0, dice: [], clientSeed: null, nonce: null, kind: 'FORFEIT' }
+                : this.rollFor(player.userId, player.userId, 'AUTO');
+            player.roll(roll);
+            return { userId: player.userId, roll };
+        });
+
+        this.finishRound();
+        return resolved;
+    }
+
+    private rollFor(userId: string, clientSeed: string, kind: DiceRoyaleRollKind): DiceRoll {
+        const { dice: count, faces } = this.variant;
+        if (!this.seed) {
+            const dice = Array.from({ length: count }, () => randomInt(1, faces));
+            return { round: this._round, rollValue: this.variant.score(dice), dice, clientSeed: null, nonce: null, kind };
+        }
+
+        // Nonces count rolls across the game, so equal client seeds still roll differently
+        const nonce = this._players.reduce((sum, p) => sum + p.rolls.length, 0) + 1;
+        const dice = ProvablyFair.rollDice(this.seed.serverSeed, clientSeed, nonce, count, faces);
+        return {
+            round: this._round,
+            rollValue: this.variant.score(dice),
+            dice,
+            clientSeed,
+            nonce,
+            kind,
+        };
+    }
+
+    /**
+     * Complete the game, start the next round of the match, or start a sudden-death round among
+     * the players tied on top
+     * A round nobody rolled (every contender forfeited) ends the game on the current scores rather
+     * than repeating forever
+     */
+    private finishRound(): void {
+        const outcome = this.playRounds().pop()!;
+        const decided = this.isDecided(outcome);
+        const leaders = this.scoreLeaders(outcome.scores);
+        const forfeited = outcome.contenders.every(p => p.rollIn(this._round)!.kind === 'FORFEIT');
+        if (forfeited || (decided && (leaders.length === 1 || this.tiePolicy === 'SPLIT'))) {
             this._status = 'COMPLETE';
+            if (this.rollTimer) {
+                this.rollTimer.deadline = null;
+            }
+        } else {
+            this._round++;
+            this._status = decided ? 'TIEBREAK' : 'ROLLING';
+            if (this.rollTimer) {
+                this.rollTimer.deadline = addSeconds(this.rollTimer.timeoutSeconds);
+            }
+        }
+    }
+
+    /**
+     * Replay the rounds so far: who rolls in each, who won it, and the scores after it
+     * Everyone rolls until the match is decided, then only the players tied on the top score
+     */
+    private playRounds(): RoundOutcome[] {
+        const outcomes: RoundOutcome[] = [];
+        const scores = new Map(this._players.map(p => [p.userId, 0]));
+
+        for (let round = 1; round <= this._round; round++) {
+            const previous = outcomes[outcomes.length - 1];
+            const contenders = previous && this.isDecided(previous)
+                ? this.scoreLeaders(previous.scores)
+                : this._players;
+
+            let winners: DicePlayer[] = [];
+            if (contenders.every(p => p.hasRolledIn(round))) {
+                const maxRoll = Math.max(...contenders.map(p => p.rollIn(round)!.rollValue));
+                // Forfeits don't win a round
+                winners = maxRoll > 0 ? contenders.filter(p => p.rollIn(round)!.rollValue === maxRoll) : [];
+            }
+            winners.forEach(p => scores.set(p.userId, scores.get(p.userId)! + 1));
+
+            outcomes.push({ round, contenders, winners, scores: new Map(scores) });
         }
 
-        return rollValue;
+        return outcomes;
+    }
+
+    /**
+     * Whether the match is over after a round, leaving aside ties on the top score
+     */
+    private isDecided(outcome: RoundOutcome): boolean {
+        const [first, second = 0] = [...outcome.scores.values()].sort((a, b) => b - a);
+        if (this.match.mode === 'FIRST_TO') {
+            return first >= this.match.length;
+        }
+        const remaining = this.match.length - outcome.round;
+        return remaining <= 0 || first > second + remaining;
+    }
+
+    private scoreLeaders(scores: Map<string, number>): DicePlayer[] {
+        const maxScore = Math.max(...scores.values());
+        return this._players.filter(p => scores.get(p.userId) === maxScore);
+    }
+
+    /**
+     * Players rolling in a round: everyone until the match is decided, then those tied on top
+     */
+    private contenders(round: number): DicePlayer[] {
+        return this.playRounds()[round - 1].contenders;
+    }
+
+    /**
+     * Rounds won by each player so far
+     */
+    getScores(): Map<string, number> {
+        return this.playRounds().pop()!.scores;
     }
 
     /**
      * Determine the winner(s)
-     * Returns user IDs of winner(s) - can be multiple in case of tie
+     * Returns user IDs of winner(s) - can be multiple in case of a split tie
      */
     getWinners(): string[] {
-        if (!this.allPlayersRolled) {
+        if (this._status !== 'COMPLETE') {
+            throw new Error('Not all players have rolled');
+        }
+
+        return this.scoreLeaders(this.getScores()).map(p => p.userId);
+    }
+
+    /**
+     * Rank players, best first
+     * Players rank by score; equal scores are broken by the latest round reached (so players
+     * knocked out of sudden death earlier rank lower), then by the latest roll. Equal results
+     * share a rank and the next rank skips ahead (1, 1, 3)
+     */
+    getStandings(): Array<{ userId: string; rank: number }> {
+        if (this._status !== 'COMPLETE') {
             throw new Error('Not all players have rolled');
         }
 
-        const maxRoll = Math.max(...this._players.map(p => p.rollValue!));
-        return this._players
-            .filter(p => p.rollValue === maxRoll)
-            .map(p => p.userId);
+        const scores = this.getScores();
+        const beats = (a: DicePlayer, b: DicePlayer) => {
+            const aScore = scores.get(a.userId)!;
+            const bScore = scores.get(b.userId)!;
+            if (aScore !== bScore) return aScore > bScore;
+            const aRound = a.lastRoll!.round;
+            const bRound = b.lastRoll!.round;
+            return aRound !== bRound ? aRound > bRound : a.lastRoll!.rollValue > b.lastRoll!.rollValue;
+        };
+
+        return this._players.map(p => ({
+            userId: p.userId,
+            rank: 1 + this._players.filter(other => beats(other, p)).length,
+        }));
+    }
+
+    /**
+     * Every player's roll, round by round
+     */
+    getRounds(): Array<{
+        round: number;
+        results: Array<{ userId: string; rollValue: number; dice: number[]; kind: DiceRoyaleRollKind }>;
+        winners: string[]; // Empty until every contender has rolled
+    }> {
+        return this.playRounds().map(outcome => ({
+            round: outcome.round,
+            results: this._players
+                .filter(p => p.hasRolledIn(outcome.round))
+                .map(p => ({
+                    userId: p.userId,
+                    rollValue: p.rollIn(outcome.round)!.rollValue,
+                    dice: p.rollIn(outcome.round)!.dice,
+                    kind: p.rollIn(outcome.round)!.kind,
+                })),
+            winners: outcome.winners.map(p => p.userId),
+        }));
     }
 
     toJSON() {
@@ -80,48 +372,111 @@ export class DiceGame {
             id: this.id,
             sessionId: this.sessionId,
             status: this._status,
-            players: this._players.map(p => p.toJSON()),
+            round: this._round,
+            tiePolicy: this.tiePolicy,
+            match: this.match,
+            variant: this.variant.toJSON(),
+            idlePolicy: this.idlePolicy,
+            rollDeadline: this.rollDeadline?.toISOString() ?? null,
+            players: this._players.map(p => ({
+                ...p.toJSON(),
+                score: this.getScores().get(p.userId)!,
+                hasRolled: p.hasRolledIn(this._round),
+                inCurrentRound: this.isInCurrentRound(p.userId),
+            })),
+            rounds: this.getRounds(),
             winners: this._status === 'COMPLETE' ? this.getWinners() : undefined,
+            settlementStatus: this.settlementStatus,
+            serverSeedHash: this.serverSeedHash,
+            serverSeed: this.revealedServerSeed,
             createdAt: this.createdAt.toISOString(),
         };
     }
 }
 
+export interface DiceRoll {
+    round: number;
+    rollValue: number; // Score of the dice, 0 for a forfeit
+    dice: number[]; // Empty for a forfeit
+    clientSeed: string | null;
+    nonce: number | null;
+    kind: DiceRoyaleRollKind; // PLAYER, AUTO (rolled by the server at the deadline) or FORFEIT
+}
+
 /**
  * Player in a dice game
  */
 export class DicePlayer {
-    private _rollValue: number | null;
+    private _rolls: DiceRoll[];
 
     constructor(
         public readonly userId: string,
         public readonly displayName: string,
-        rollValue: number | null = null
+        rolls: DiceRoll[] = [],
+        public readonly isBot: boolean = false // Rolled for by the bot roller
     ) {
-        this._rollValue = rollValue;
+        this._rolls = [...rolls].sort((a, b) => a.round - b.round);
+    }
+
+    get rolls(): DiceRoll[] {
+        return [...this._rolls];
+    }
+
+    /**
+     * The player's latest roll
+     */
+    get lastRoll(): DiceRoll | null {
+        return this._rolls[this._rolls.length - 1] ?? null;
     }
 
     get hasRolled(): boolean {
-        return this._rollValue !== null;
+        return this._rolls.length > 0;
     }
 
     get rollValue(): number | null {
-        return this._rollValue;
+        return this.lastRoll?.rollValue ?? null;
+    }
+
+    get dice(): number[] | null {
+        return this.lastRoll?.dice ?? null;
+    }
+
+    get clientSeed(): string | null {
+        return this.lastRoll?.clientSeed ?? null;
     }
 
-    roll(value: number): void {
-        if (value < 1 || value > 6) {
-            throw new Error('Roll value must be between 1 and 6');
+    get nonce(): number | null {
+        return this.lastRoll?.nonce ?? null;
+    }
+
+    rollIn(round: number): DiceRoll | undefined {
+        return this._rolls.find(r => r.round === round);
+    }
+
+    hasRolledIn(round: number): boolean {
+        return this.rollIn(round) !== undefined;
+    }
+
+    roll(roll: DiceRoll): void {
+        if (roll.kind === 'FORFEIT' ? roll.rollValue !== 0 || roll.dice.length > 0 : roll.rollValue < 1) {
+            throw new Error('Only forfeits can score 0');
+        }
+        if (this.hasRolledIn(roll.round)) {
+            throw new Error(`Already rolled in round ${roll.round}`);
         }
-        this._rollValue = value;
+        this._rolls.push(roll);
     }
 
     toJSON() {
         return {
             userId: this.userId,
             displayName: this.displayName,
+            isBot: this.isBot,
             hasRolled: this.hasRolled,
-            rollValue: this._rollValue,
+            rollValue: this.rollValue,
+            dice: this.dice,
+            clientSeed: this.clientSeed,
+            nonce: this.nonce,
         };
     }
 }
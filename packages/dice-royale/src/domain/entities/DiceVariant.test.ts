@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { DiceVariant } from './DiceVariant.js';
+
+describe('DiceVariant', () => {
+    it('should default to a single six-sided die', () => {
+        expect(DiceVariant.create().toJSON()).toEqual({ dice: 1, faces: 6, scoring: 'SUM' });
+    });
+
+    it('should reject settings outside the supported dice', () => {
+        expect(() => DiceVariant.create({ dice: 0 })).toThrow('Number of dice');
+        expect(() => DiceVariant.create({ dice: 2.5 })).toThrow('Number of dice');
+        expect(() => DiceVariant.create({ faces: 1 })).toThrow('Faces per die');
+        expect(() => DiceVariant.create({ faces: '6' })).toThrow('Faces per die');
+        expect(() => DiceVariant.create({ scoring: 'POKER' })).toThrow('Scoring must be one of');
+    });
+
+    it('should score the sum or the highest die', () => {
+        expect(new DiceVariant(3, 6, 'SUM').score([2, 5, 6])).toBe(13);
+        expect(new DiceVariant(3, 6, 'HIGHEST').score([2, 5, 6])).toBe(6);
+    });
+
+    it('should rank bigger sets above higher sums', () => {
+        const sets = new DiceVariant(3, 6, 'SETS');
+        const ranked = [[4, 5, 6], [1, 1, 2], [1, 1, 6], [2, 2, 1], [1, 1, 1]].map(d => sets.score(d));
+
+        expect(ranked).toEqual([...ranked].sort((a, b) => a - b));
+        expect(new Set(ranked).size).toBe(ranked.length);
+    });
+
+    it('should rank yahtzee-lite categories above sums', () => {
+        const yahtzee = new DiceVariant(4, 6, 'YAHTZEE_LITE');
+        const ranked = [
+            [6, 5, 3, 1], // Nothing
+            [1, 1, 2, 3], // Pair
+            [1, 1, 2, 2], // Two pairs
+            [1, 1, 1, 6], // Three of a kind
+            [1, 2, 3, 4], // Straight
+            [1, 1, 1, 1], // All alike
+        ].map(d => yahtzee.score(d));
+
+        expect(ranked).toEqual([...ranked].sort((a, b) => a - b));
+        expect(new Set(ranked).size).toBe(ranked.length);
+    });
+});
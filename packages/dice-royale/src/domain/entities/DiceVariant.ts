@@ -0,0 +1,102 @@
+import type { DiceRoyaleScoring } from '@prisma/client';
+import { ValidationError } from '@pluto/shared';
+
+const SCORING_RULES: DiceRoyaleScoring[] = ['SUM', 'HIGHEST', 'SETS', 'YAHTZEE_LITE'];
+const MAX_DICE = 6;
+const MAX_FACES = 20;
+
+/**
+ * DiceVariant value object
+ * The dice a game is played with (e.g. 2d6) and how a roll of them is scored
+ *
+ * - SUM: total of the dice
+ * - HIGHEST: highest single die
+ * - SETS: the biggest set of equal dice wins (pair < triple...), then its face, then the sum
+ * - YAHTZEE_LITE: all alike > straight > three of a kind > two pairs > pair > nothing, then the sum
+ *
+ * Scores are whole numbers where higher is better, and every real roll scores at least 1 so a
+ * forfeit (0) stays below it.
+ */
+export class DiceVariant {
+    constructor(
+        public readonly dice: number = 1,
+        public readonly faces: number = 6,
+        public readonly scoring: DiceRoyaleScoring = 'SUM'
+    ) { }
+
+    /**
+     * Create a variant from a contract's game settings, validating them
+     */
+    static create(settings: { dice?: unknown; faces?: unknown; scoring?: unknown } = {}): DiceVariant {
+        const { dice = 1, faces = 6, scoring = 'SUM' } = settings;
+
+        if (!Number.isInteger(dice) || (dice as number) < 1 || (dice as number) > MAX_DICE) {
+            throw new ValidationError(`Number of dice must be a whole number from 1 to ${MAX_DICE}`);
+        }
+        if (!Number.isInteger(faces) || (faces as number) < 2 || (faces as number) > MAX_FACES) {
+            throw new ValidationError(`Faces per die must be a whole number from 2 to ${MAX_FACES}`);
+        }
+        if (!SCORING_RULES.includes(scoring as DiceRoyaleScoring)) {
+            throw new ValidationError(`Scoring must be one of ${SCORING_RULES.join(', ')}`);
+        }
+
+        return new DiceVariant(dice as number, faces as number, scoring as DiceRoyaleScoring);
+    }
+
+    score(dice: number[]): number {
+        const sum = dice.reduce((total, d) => total + d, 0);
+        // Larger than any sum, so categories always outweigh the sums they're broken by
+        const base = this.dice * this.faces + 1;
+
+        switch (this.scoring) {
+            case 'SUM':
+                return sum;
+            case 'HIGHEST':
+                return Math.max(...dice);
+            case 'SETS': {
+                const [size, face] = this.largestSet(dice);
+                return (size * base + (size > 1 ? face : 0)) * base + sum;
+            }
+            case 'YAHTZEE_LITE':
+                return this.yahtzeeCategory(dice) * base + sum;
+        }
+    }
+
+    /**
+     * Size and face of the largest set of equal dice, the higher face on equal sizes
+     */
+    private largestSet(dice: number[]): [number, number] {
+        let best: [number, number] = [0, 0];
+        for (const [face, size] of this.counts(dice)) {
+            if (size > best[0] || (size === best[0] && face > best[1])) {
+                best = [size, face];
+            }
+        }
+        return best;
+    }
+
+    private yahtzeeCategory(dice: number[]): number {
+        const sizes = [...this.counts(dice).values()].sort((a, b) => b - a);
+        const sorted = [...dice].sort((a, b) => a - b);
+        const straight = dice.length >= 3 && sorted.every((d, i) => i === 0 || d === sorted[i - 1] + 1);
+
+        if (dice.length > 1 && sizes[0] === dice.length) return 5; // All alike
+        if (straight) return 4;
+        if (sizes[0] >= 3) return 3;
+        if (sizes[0] >= 2 && sizes[1] >= 2) return 2;
+        if (sizes[0] >= 2) return 1;
+        return 0;
+    }
+
+    private counts(dice: number[]): Map<number, number> {
+        const counts = new Map<number, number>();
+        for (const d of dice) {
+            counts.set(d, (counts.get(d) ?? 0) + 1);
+        }
+        return counts;
+    }
+
+    toJSON() {
+        return { dice: this.dice, faces: this.faces, scoring: this.scoring };
+    }
+}
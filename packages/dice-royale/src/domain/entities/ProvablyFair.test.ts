@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ProvablyFair } from './ProvablyFair.js';
+import { DiceGame, DicePlayer } from './DiceGame.js';
+
+const serverSeed = 'a'.repeat(64);
+
+describe('ProvablyFair', () => {
+    it('should derive the same roll from the same seeds', () => {
+        const roll = ProvablyFair.roll(serverSeed, 'client', 1);
+        expect(roll).toBeGreaterThanOrEqual(1);
+        expect(roll).toBeLessThanOrEqual(6);
+        expect(ProvablyFair.roll(serverSeed, 'client', 1)).toBe(roll);
+    });
+
+    it('should roll every face roughly equally', () => {
+        const counts = new Array(6).fill(0);
+        for (let nonce = 1; nonce <= 6000; nonce++) {
+            counts[ProvablyFair.roll(serverSeed, 'client', nonce) - 1]++;
+        }
+        for (const count of counts) {
+            expect(count).toBeGreaterThan(850);
+            expect(count).toBeLessThan(1150);
+        }
+    });
+
+    it('should roll several dice from one seed, starting with the single-die roll', () => {
+        const dice = ProvablyFair.rollDice(serverSeed, 'client', 1, 5, 20);
+        expect(dice).toHaveLength(5);
+        expect(dice.every(d => d >= 1 && d <= 20)).toBe(true);
+        expect(ProvablyFair.rollDice(serverSeed, 'client', 1, 5, 20)).toEqual(dice);
+        expect(dice[0]).toBe(ProvablyFair.roll(serverSeed, 'client', 1, 20));
+    });
+
+    it('should only reveal the server seed once the game is complete', () => {
+        const seed = { serverSeed, serverSeedHash: ProvablyFair.hashSeed(serverSeed) };
+        const game = new DiceGame('game', 'session', 'ROLLING', new Date(), [
+            new DicePlayer('a', 'A'),
+            new DicePlayer('b', 'B'),
+        ], null, 'PENDING', 0, seed);
+
+        const first = game.recordRoll('a', 'lucky');
+        const rollValue = ProvablyFair.roll(serverSeed, 'lucky', 1);
+        expect(first).toEqual({ round: 1, rollValue, dice: [rollValue], clientSeed: 'lucky', nonce: 1, kind: 'PLAYER' });
+        expect(game.revealedServerSeed).toBeNull();
+
+        const second = game.recordRoll('b');
+        expect(second).toMatchObject({ clientSeed: 'b', nonce: 2 });
+        expect(game.revealedServerSeed).toBe(serverSeed);
+    });
+});
@@ -0,0 +1,49 @@
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+
+/**
+ * Commit-reveal scheme for dice rolls
+ * The hash of a secret server seed is published when the game starts and the seed itself
+ * once it is complete. Every roll is derived from HMAC-SHA256(serverSeed, "clientSeed:nonce"),
+ * so anyone holding the revealed seed can recompute the dice and check they weren't changed.
+ */
+export class ProvablyFair {
+    static generateServerSeed(): string {
+        return randomBytes(32).toString('hex');
+    }
+
+    static hashSeed(serverSeed: string): string {
+        return createHash('sha256').update(serverSeed).digest('hex');
+    }
+
+    /**
+     * Derive a roll from 1 to sides
+     */
+    static roll(serverSeed: string, clientSeed: string, nonce: number, sides = 6): number {
+        return ProvablyFair.rollDice(serverSeed, clientSeed, nonce, 1, sides)[0];
+    }
+
+    /**
+     * Derive several dice from one roll's seeds
+     * The digest is read as 4-byte chunks; chunks past the last whole multiple of sides are
+     * skipped so every face is equally likely. Each chunk left gives the next die, and when a
+     * digest runs out the next one is HMAC-SHA256(serverSeed, "clientSeed:nonce:n") for n = 1, 2...
+     */
+    static rollDice(serverSeed: string, clientSeed: string, nonce: number, count: number, sides = 6): number[] {
+        const limit = Math.floor(0x100000000 / sides) * sides;
+        const dice: number[] = [];
+
+        for (let n = 0; dice.length < count; n++) {
+            const message = n === 0 ? `${clientSeed}:${nonce}` : `${clientSeed}:${nonce}:${n}`;
+            const digest = createHmac('sha256', serverSeed).update(message).digest();
+
+            for (let offset = 0; offset + 4 <= digest.length && dice.length < count; offset += 4) {
+                const value = digest.readUInt32BE(offset);
+                if (value < limit) {
+                    dice.push((value % sides) + 1);
+                }
+            }
+        }
+
+        return dice;
+    }
+}
@@ -1,14 +1,13 @@
-import type { DiceGame } from '../entities/DiceGame.js';
+import type { DiceRoyaleTiePolicy } from '@prisma/client';
+import type { GameSettlementStore } from '@pluto/shared';
+import type { DiceGame, DiceMatch, DiceRoll, GameSeed, RollTimer } from '../entities/DiceGame.js';
+import type { DiceVariant } from '../entities/DiceVariant.js';
 
 /**
  * Repository interface for DiceRoyale game operations
+ * Settlement bookkeeping comes from the shared game settlement store
  */
-export interface IDiceGameRepository {
-    /**
-     * Find game by ID
-     */
-    findById(id: string): Promise<DiceGame | null>;
-
+export interface IDiceGameRepository extends GameSettlementStore<DiceGame> {
     /**
      * Find game by session ID
      */
@@ -19,19 +18,42 @@ export interface IDiceGameRepository {
      */
     create(data: {
         sessionId: string;
+        sessionToken: string;
+        seed: GameSeed;
+        tiePolicy: DiceRoyaleTiePolicy;
+        match: DiceMatch;
+        variant: DiceVariant;
+        rollTimer: RollTimer;
         players: Array<{
             userId: string;
             displayName: string;
+            isBot?: boolean;
         }>;
     }): Promise<DiceGame>;
 
     /**
      * Record a dice roll
      */
-    recordRoll(gameId: string, userId: string, rollValue: number): Promise<void>;
+    recordRoll(gameId: string, userId: string, roll: DiceRoll): Promise<void>;
+
+    /**
+     * Save a game's status, round and roll deadline after a round ends
+     */
+    saveProgress(game: DiceGame): Promise<void>;
+
+    /**
+     * Run work while holding the game's row lock, in one transaction with a repository bound to it
+     * Every roll goes through here, so each one sees the rolls before it and takes the next nonce
+     */
+    runLocked<T>(gameId: string, work: (diceGameRepository: IDiceGameRepository) => Promise<T>): Promise<T>;
+
+    /**
+     * Find IDs of games whose current round's roll deadline has passed
+     */
+    findPastRollDeadline(now: Date, limit: number): Promise<string[]>;
 
     /**
-     * Update game status
+     * Find IDs of games in progress with bot players
      */
-    updateStatus(id: string, status: 'ROLLING' | 'COMPLETE'): Promise<DiceGame>;
+    findWithBotsToRoll(limit: number): Promise<string[]>;
 }
@@ -1,7 +1,15 @@
 export * from './domain/entities/DiceGame.js';
+export * from './domain/entities/ProvablyFair.js';
+export * from './domain/entities/DiceVariant.js';
 export * from './domain/repositories/IDiceGameRepository.js';
 export * from './application/use-cases/StartGame.js';
 export * from './application/use-cases/RollDice.js';
 export * from './application/use-cases/GetGameState.js';
+export * from './application/use-cases/VerifyGame.js';
+export * from './application/use-cases/ResolveIdlePlayers.js';
 export * from './infrastructure/repositories/PrismaDiceGameRepository.js';
+export * from './infrastructure/jobs/RollDeadlineEnforcer.js';
+export * from './infrastructure/jobs/BotRoller.js';
+export * from './infrastructure/sse/DiceRoyaleBroadcaster.js';
 export * from './interface/routes.js';
+export * from './interface/DiceRoyalePlugin.js';
@@ -0,0 +1,57 @@
+import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Periodically rolls for bots whose turn it is
+ * Bots roll through the same action path as players, so their rolls are validated, recorded and
+ * broadcast like any other, and a bot's roll that ends the game settles it.
+ */
+export class BotRoller {
+    private running = false;
+
+    constructor(
+        private diceGameRepository: IDiceGameRepository,
+        private rollForBot: (gameId: string, userId: string) => Promise<unknown>
+    ) { }
+
+    /**
+     * Run one pass, skipping if the previous one is still in progress
+     */
+    async roll(): Promise<number> {
+        if (this.running) return 0;
+
+        this.running = true;
+        try {
+            const gameIds = await this.diceGameRepository.findWithBotsToRoll(BATCH_SIZE);
+            let rolled = 0;
+            for (const gameId of gameIds) {
+                const game = await this.diceGameRepository.findById(gameId);
+                for (const bot of game?.getBotsToRoll() ?? []) {
+                    try {
+                        await this.rollForBot(gameId, bot.userId);
+                        rolled++;
+                    } catch (error) {
+                        // Usually the roll deadline resolving the bot first
+                        console.error(`❌ Failed to roll for bot ${bot.userId} in DiceRoyale game ${gameId}:`, error);
+                    }
+                }
+            }
+            return rolled;
+        } catch (error) {
+            console.error('❌ DiceRoyale bot roll pass failed:', error);
+            return 0;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Start rolling on an interval
+     */
+    start(intervalMs = 2000): NodeJS.Timeout {
+        return setInterval(() => {
+            void this.roll();
+        }, intervalMs);
+    }
+}
@@ -0,0 +1,56 @@
+import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import type { ResolveIdlePlayersUseCase } from '../../application/use-cases/ResolveIdlePlayers.js';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Periodically resolves idle players in games whose roll deadline has passed
+ */
+export class RollDeadlineEnforcer {
+    private running = false;
+
+    constructor(
+        private diceGameRepository: IDiceGameRepository,
+        private resolveIdlePlayers: ResolveIdlePlayersUseCase
+    ) { }
+
+    /**
+     * Run one pass, skipping if the previous one is still in progress
+     */
+    async enforce(): Promise<number> {
+        if (this.running) return 0;
+
+        this.running = true;
+        try {
+            const now = new Date();
+            const gameIds = await this.diceGameRepository.findPastRollDeadline(now, BATCH_SIZE);
+            let resolved = 0;
+            for (const gameId of gameIds) {
+                try {
+                    resolved += await this.resolveIdlePlayers.execute(gameId, now);
+                } catch (error) {
+                    // Usually a player rolling at the deadline; the next pass sees their roll
+                    console.error(`❌ Failed to resolve idle players in DiceRoyale game ${gameId}:`, error);
+                }
+            }
+            if (resolved > 0) {
+                console.log(`🎲 Resolved ${resolved} idle player(s) in ${gameIds.length} DiceRoyale game(s)`);
+            }
+            return resolved;
+        } catch (error) {
+            console.error('❌ DiceRoyale roll deadline pass failed:', error);
+            return 0;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Start enforcing on an interval
+     */
+    start(intervalMs = 5000): NodeJS.Timeout {
+        return setInterval(() => {
+            void this.enforce();
+        }, intervalMs);
+    }
+}
@@ -1,23 +1,68 @@
-import type { PrismaClient, DiceRoyaleStatus } from '@prisma/client';
+import type {
+    Prisma,
+    PrismaClient,
+    DiceRoyaleStatus,
+    DiceRoyaleSettlementStatus,
+    DiceRoyaleTiePolicy,
+    DiceRoyaleIdlePolicy,
+    DiceRoyaleRollKind,
+    DiceRoyaleScoring,
+    MatchMode,
+} from '@prisma/client';
 import type { IDiceGameRepository } from '../../domain/repositories/IDiceGameRepository.js';
+import type { DiceMatch, DiceRoll, GameSeed, RollTimer } from '../../domain/entities/DiceGame.js';
 import { DiceGame, DicePlayer } from '../../domain/entities/DiceGame.js';
+import { DiceVariant } from '../../domain/entities/DiceVariant.js';
+
+// Rolls in one game queue on its row lock, so they may wait past Prisma's defaults (2s/5s)
+const LOCKED_TRANSACTION_OPTIONS = { maxWait: 5000, timeout: 10000 };
 
 export class PrismaDiceGameRepository implements IDiceGameRepository {
-    constructor(private prisma: PrismaClient) { }
+    constructor(private prisma: PrismaClient | Prisma.TransactionClient) { }
 
     private toEntity(data: {
         id: string;
         sessionId: string;
+        sessionToken: string | null;
         status: DiceRoyaleStatus;
+        tiePolicy: DiceRoyaleTiePolicy;
+        round: number;
+        matchMode: MatchMode;
+        matchLength: number;
+        diceCount: number;
+        diceFaces: number;
+        scoring: DiceRoyaleScoring;
+        idlePolicy: DiceRoyaleIdlePolicy;
+        rollTimeoutSeconds: number | null;
+        rollDeadline: Date | null;
+        settlementStatus: DiceRoyaleSettlementStatus;
+        settlementAttempts: number;
+        serverSeed: string | null;
+        serverSeedHash: string | null;
         createdAt: Date;
         rolls: Array<{
             userId: string;
+            round: number;
+            kind: DiceRoyaleRollKind;
             rollValue: number;
+            dice: number[];
+            clientSeed: string | null;
+            nonce: number | null;
         }>;
-    }, playerInfo: Array<{ userId: string; displayName: string }>): DiceGame {
+    }, playerInfo: Array<{ userId: string; displayName: string; isBot?: boolean }>): DiceGame {
         const players = playerInfo.map(p => {
-            const roll = data.rolls.find(r => r.userId === p.userId);
-            return new DicePlayer(p.userId, p.displayName, roll?.rollValue ?? null);
+            const rolls = data.rolls
+                .filter(r => r.userId === p.userId)
+                .map(r => ({
+                    round: r.round,
+                    rollValue: r.rollValue,
+                    // Rolls from before variants were a single d6 stored as its value
+                    dice: r.dice.length === 0 && r.kind !== 'FORFEIT' ? [r.rollValue] : r.dice,
+                    clientSeed: r.clientSeed,
+                    nonce: r.nonce,
+                    kind: r.kind,
+                }));
+            return new DicePlayer(p.userId, p.displayName, rolls, p.isBot);
         });
 
         return new DiceGame(
@@ -25,7 +70,20 @@ export class PrismaDiceGameRepository implements IDiceGameRepository {
             data.sessionId,
             data.status,
             data.createdAt,
-            players
+            players,
+            data.sessionToken,
+            data.settlementStatus,
+            data.settlementAttempts,
+            data.serverSeed && data.serverSeedHash
+                ? { serverSeed: data.serverSeed, serverSeedHash: data.serverSeedHash }
+                : null,
+            data.tiePolicy,
+            data.round,
+            data.rollTimeoutSeconds !== null
+                ? { timeoutSeconds: data.rollTimeoutSeconds, idlePolicy: data.idlePolicy, deadline: data.rollDeadline }
+                : null,
+            { mode: data.matchMode, length: data.matchLength },
+            new DiceVariant(data.diceCount, data.diceFaces, data.scoring)
         );
     }
 
@@ -54,6 +112,7 @@ export class PrismaDiceGameRepository implements IDiceGameRepository {
         const playerInfo = session.players.map(p => ({
             userId: p.userId,
             displayName: p.user.uniqueDisplayName,
+            isBot: p.isBot,
         }));
 
         return this.toEntity(data, playerInfo);
@@ -84,6 +143,7 @@ export class PrismaDiceGameRepository implements IDiceGameRepository {
         const playerInfo = session.players.map(p => ({
             userId: p.userId,
             displayName: p.user.uniqueDisplayName,
+            isBot: p.isBot,
         }));
 
         return this.toEntity(data, playerInfo);
@@ -91,11 +151,29 @@ export class PrismaDiceGameRepository implements IDiceGameRepository {
 
     async create(data: {
         sessionId: string;
-        players: Array<{ userId: string; displayName: string }>;
+        sessionToken: string;
+        seed: GameSeed;
+        tiePolicy: DiceRoyaleTiePolicy;
+        match: DiceMatch;
+        variant: DiceVariant;
+        rollTimer: RollTimer;
+        players: Array<{ userId: string; displayName: string; isBot?: boolean }>;
     }): Promise<DiceGame> {
         const created = await this.prisma.diceRoyaleGame.create({
             data: {
                 sessionId: data.sessionId,
+                sessionToken: data.sessionToken,
+                serverSeed: data.seed.serverSeed,
+                serverSeedHash: data.seed.serverSeedHash,
+                tiePolicy: data.tiePolicy,
+                matchMode: data.match.mode,
+                matchLength: data.match.length,
+                diceCount: data.variant.dice,
+                diceFaces: data.variant.faces,
+                scoring: data.variant.scoring,
+                idlePolicy: data.rollTimer.idlePolicy,
+                rollTimeoutSeconds: data.rollTimer.timeoutSeconds,
+                rollDeadline: data.rollTimer.deadline,
                 status: 'ROLLING',
             },
             include: { rolls: true },
@@ -104,40 +182,120 @@ export class PrismaDiceGameRepository implements IDiceGameRepository {
         return this.toEntity(created, data.players);
     }
 
-    async recordRoll(gameId: string, userId: string, rollValue: number): Promise<void> {
+    async recordRoll(gameId: string, userId: string, roll: DiceRoll): Promise<void> {
         await this.prisma.diceRoyaleRoll.create({
             data: {
                 gameId,
                 userId,
-                rollValue,
+                round: roll.round,
+                kind: roll.kind,
+                rollValue: roll.rollValue,
+                dice: roll.dice,
+                clientSeed: roll.clientSeed,
+                nonce: roll.nonce,
             },
         });
     }
 
-    async updateStatus(id: string, status: 'ROLLING' | 'COMPLETE'): Promise<DiceGame> {
-        const updated = await this.prisma.diceRoyaleGame.update({
-            where: { id },
-            data: { status },
-            include: { rolls: true },
+    async saveProgress(game: DiceGame): Promise<void> {
+        await this.prisma.diceRoyaleGame.update({
+            where: { id: game.id },
+            data: {
+                status: game.status,
+                round: game.round,
+                rollDeadline: game.rollDeadline,
+            },
         });
+    }
 
-        // Get player info
-        const session = await this.prisma.gameSession.findUnique({
-            where: { id: updated.sessionId },
-            include: {
-                players: {
-                    include: {
-                        user: { select: { uniqueDisplayName: true } },
-                    },
-                },
+    async runLocked<T>(gameId: string, work: (diceGameRepository: IDiceGameRepository) => Promise<T>): Promise<T> {
+        const lockAndWork = async (tx: Prisma.TransactionClient) => {
+            await tx.$queryRaw`SELECT id FROM "DiceRoyaleGame" WHERE id = ${gameId} FOR UPDATE`;
+            return work(new PrismaDiceGameRepository(tx));
+        };
+
+        // Already in a transaction: take the lock as part of it
+        if (!('$transaction' in this.prisma)) {
+            return lockAndWork(this.prisma);
+        }
+        return this.prisma.$transaction(lockAndWork, LOCKED_TRANSACTION_OPTIONS);
+    }
+
+    async findPastRollDeadline(now: Date, limit: number): Promise<string[]> {
+        const due = await this.prisma.diceRoyaleGame.findMany({
+            where: {
+                status: { in: ['ROLLING', 'TIEBREAK'] },
+                rollDeadline: { lte: now },
             },
+            orderBy: { rollDeadline: 'asc' },
+            take: limit,
+            select: { id: true },
         });
+        return due.map(g => g.id);
+    }
 
-        const playerInfo = session?.players.map(p => ({
-            userId: p.userId,
-            displayName: p.user.uniqueDisplayName,
-        })) ?? [];
+    async findWithBotsToRoll(limit: number): Promise<string[]> {
+        // Games aren't related to sessions in the schema, so join them here to keep the limit in the database
+        const games = await this.prisma.$queryRaw<Array<{ id: string }>>`
+            SELECT g.id
+            FROM "DiceRoyaleGame" g
+            WHERE g.status IN ('ROLLING', 'TIEBREAK')
+              AND EXISTS (
+                  SELECT 1
+                  FROM "GameSessionPlayer" p
+                  JOIN "GameSession" s ON s.id = p."sessionId"
+                  WHERE p."sessionId" = g."sessionId"
+                    AND p."isBot"
+                    AND s.status IN ('PENDING', 'ACTIVE')
+              )
+            ORDER BY g."createdAt" ASC
+            LIMIT ${limit}
+        `;
+        return games.map(g => g.id);
+    }
+
+    async findAwaitingSettlement(now: Date, limit: number): Promise<DiceGame[]> {
+        const due = await this.prisma.diceRoyaleGame.findMany({
+            where: {
+                status: 'COMPLETE',
+                settlementStatus: 'PENDING',
+                OR: [{ nextSettlementAt: null }, { nextSettlementAt: { lte: now } }],
+            },
+            orderBy: { updatedAt: 'asc' },
+            take: limit,
+            select: { id: true },
+        });
 
-        return this.toEntity(updated, playerInfo);
+        const games = [];
+        for (const { id } of due) {
+            const game = await this.findById(id);
+            if (game) games.push(game);
+        }
+        return games;
+    }
+
+    async markSettled(id: string): Promise<void> {
+        await this.prisma.diceRoyaleGame.update({
+            where: { id },
+            data: {
+                settlementStatus: 'SETTLED',
+                settlementAttempts: { increment: 1 },
+                settlementError: null,
+                nextSettlementAt: null,
+                settledAt: new Date(),
+            },
+        });
+    }
+
+    async recordSettlementFailure(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+        await this.prisma.diceRoyaleGame.update({
+            where: { id },
+            data: {
+                settlementStatus: nextAttemptAt ? 'PENDING' : 'FAILED',
+                settlementAttempts: { increment: 1 },
+                settlementError: error,
+                nextSettlementAt: nextAttemptAt,
+            },
+        });
     }
 }
@@ -0,0 +1,8 @@
+import type { DiceRoyaleEvent } from '@pluto/shared';
+import { SseBroadcaster } from '@pluto/shared';
+
+/**
+ * SSE Broadcaster for DiceRoyale game events
+ * One channel per game
+ */
+export class DiceRoyaleBroadcaster extends SseBroadcaster<DiceRoyaleEvent> { }
@@ -0,0 +1,228 @@
+import type { FastifyInstance } from 'fastify';
+import type { DiceRoyaleIdlePolicy, MatchMode, PrismaClient } from '@prisma/client';
+import type {
+    GamePlugin,
+    GamePluginHost,
+    GamePlayerAction,
+    GameResult,
+    GameSessionInfo,
+    DiceRoyaleState,
+} from '@pluto/shared';
+import { GameSettler, NotFoundError, SettlementRetrier, ValidationError } from '@pluto/shared';
+import type { DiceGame } from '../domain/entities/DiceGame.js';
+import { StartGameUseCase, DEFAULT_ROLL_TIMEOUT_SECONDS } from '../application/use-cases/StartGame.js';
+import { RollDiceUseCase, parseClientSeed } from '../application/use-cases/RollDice.js';
+import type { RollDiceResult } from '../application/use-cases/RollDice.js';
+import { GetGameStateUseCase } from '../application/use-cases/GetGameState.js';
+import { VerifyGameUseCase } from '../application/use-cases/VerifyGame.js';
+import { ResolveIdlePlayersUseCase } from '../application/use-cases/ResolveIdlePlayers.js';
+import { PrismaDiceGameRepository } from '../infrastructure/repositories/PrismaDiceGameRepository.js';
+import { RollDeadlineEnforcer } from '../infrastructure/jobs/RollDeadlineEnforcer.js';
+import { BotRoller } from '../infrastructure/jobs/BotRoller.js';
+import { DiceRoyaleBroadcaster } from '../infrastructure/sse/DiceRoyaleBroadcaster.js';
+import { registerDiceRoyaleRoutes } from './routes.js';
+
+export interface DiceRoyalePluginOptions {
+    rollTimeoutSeconds?: number;
+    idlePolicy?: DiceRoyaleIdlePolicy;
+    settlementRetryIntervalMs?: number;
+    rollDeadlineIntervalMs?: number;
+    botRollIntervalMs?: number;
+}
+
+const rollKinds = { enum: ['PLAYER', 'AUTO', 'FORFEIT'] };
+const dieValues = { type: 'array', items: { type: 'integer', minimum: 1 } };
+
+/**
+ * JSON Schema of DiceRoyaleState
+ */
+const STATE_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'DiceRoyaleState',
+    type: 'object',
+    required: ['gameId', 'sessionId', 'status', 'round', 'tiePolicy', 'match', 'variant', 'players', 'rounds', 'settlementStatus'],
+    properties: {
+        gameId: { type: 'string' },
+        sessionId: { type: 'string' },
+        status: { enum: ['ROLLING', 'TIEBREAK', 'COMPLETE'] },
+        round: { type: 'integer', minimum: 1 },
+        tiePolicy: { enum: ['SPLIT', 'SUDDEN_DEATH'] },
+        match: {
+            type: 'object',
+            required: ['mode', 'length'],
+            properties: {
+                mode: { enum: ['BEST_OF', 'FIRST_TO'] },
+                length: { type: 'integer', minimum: 1 },
+            },
+        },
+        variant: {
+            type: 'object',
+            required: ['dice', 'faces', 'scoring'],
+            properties: {
+                dice: { type: 'integer', minimum: 1 },
+                faces: { type: 'integer', minimum: 2 },
+                scoring: { enum: ['SUM', 'HIGHEST', 'SETS', 'YAHTZEE_LITE'] },
+            },
+        },
+        rollDeadline: { type: 'string', format: 'date-time' },
+        idlePolicy: { enum: ['AUTO_ROLL', 'FORFEIT'] },
+        players: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['userId', 'displayName', 'isBot', 'score', 'hasRolled', 'inCurrentRound'],
+                properties: {
+                    userId: { type: 'string' },
+                    displayName: { type: 'string' },
+                    isBot: { type: 'boolean' },
+                    score: { type: 'integer', minimum: 0 },
+                    hasRolled: { type: 'boolean' },
+                    inCurrentRound: { type: 'boolean' },
+                    rollValue: { type: 'integer', minimum: 0 },
+                    dice: dieValues,
+                    clientSeed: { type: 'string' },
+                    nonce: { type: 'integer' },
+                },
+            },
+        },
+        rounds: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['round', 'results', 'winners'],
+                properties: {
+                    round: { type: 'integer', minimum: 1 },
+                    results: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['userId', 'rollValue', 'dice', 'kind'],
+                            properties: {
+                                userId: { type: 'string' },
+                                rollValue: { type: 'integer', minimum: 0 },
+                                dice: dieValues,
+                                kind: rollKinds,
+                            },
+                        },
+                    },
+                    winners: { type: 'array', items: { type: 'string' } },
+                },
+            },
+        },
+        winnerId: { type: 'string' },
+        settlementStatus: { enum: ['PENDING', 'SETTLED', 'FAILED'] },
+        serverSeedHash: { type: 'string' },
+        serverSeed: { type: 'string' },
+    },
+};
+
+/**
+ * DiceRoyale as an in-process game plugin
+ * Reference implementation of GamePlugin: players roll through the `roll` action, and complete
+ * games are settled through the host, with the settlement retrier picking up failures.
+ * Bots roll through the same action, driven by the bot roller.
+ */
+export class DiceRoyalePlugin implements GamePlugin {
+    readonly gameName = 'DiceRoyale';
+    readonly stateSchema = STATE_SCHEMA;
+    readonly supportsBots = true;
+
+    private diceGameRepo: PrismaDiceGameRepository;
+    private broadcaster = new DiceRoyaleBroadcaster();
+    private startGame: StartGameUseCase;
+    private rollDice: RollDiceUseCase;
+    private getGameState: GetGameStateUseCase;
+    private settler: GameSettler<DiceGame>;
+    private verifyGame: VerifyGameUseCase;
+    private resolveIdlePlayers: ResolveIdlePlayersUseCase;
+
+    constructor(
+        prisma: PrismaClient,
+        private host: GamePluginHost,
+        private options: DiceRoyalePluginOptions = {}
+    ) {
+        this.diceGameRepo = new PrismaDiceGameRepository(prisma);
+        this.settler = new GameSettler(this.gameName, this.diceGameRepo, this.broadcaster, host.settleContract);
+        this.startGame = new StartGameUseCase(this.diceGameRepo);
+        this.rollDice = new RollDiceUseCase(this.diceGameRepo, this.broadcaster, gameId => this.onGameComplete(gameId));
+        this.getGameState = new GetGameStateUseCase(this.diceGameRepo);
+        this.verifyGame = new VerifyGameUseCase(this.diceGameRepo);
+        this.resolveIdlePlayers = new ResolveIdlePlayersUseCase(
+            this.diceGameRepo,
+            this.broadcaster,
+            gameId => this.onGameComplete(gameId)
+        );
+    }
+
+    registerRoutes(app: FastifyInstance): void {
+        registerDiceRoyaleRoutes(app, {
+            authenticate: this.host.authenticate,
+            diceGameRepo: this.diceGameRepo,
+            broadcaster: this.broadcaster,
+            rollDice: this.rollDice,
+            getGameState: this.getGameState,
+            verifyGame: this.verifyGame,
+        });
+    }
+
+    async createGame(session: GameSessionInfo): Promise<{ gameId: string }> {
+        const game = await this.startGame.execute({
+            sessionId: session.sessionId,
+            sessionToken: session.sessionToken,
+            // Winner-takes-all contracts can't split a tie
+            tiePolicy: session.payoutModel === 'WINNER_TAKES_ALL' ? 'SUDDEN_DEATH' : 'SPLIT',
+            match: session.match,
+            settings: session.settings,
+            rollTimeoutSeconds: this.options.rollTimeoutSeconds,
+            idlePolicy: this.options.idlePolicy,
+            players: session.players,
+        });
+        return { gameId: game.id };
+    }
+
+    async handleAction(gameId: string, userId: string, action: GamePlayerAction): Promise<RollDiceResult> {
+        if (action.type !== 'roll') {
+            throw new ValidationError(`Unknown DiceRoyale action: ${action.type}`);
+        }
+        return this.rollDice.execute({ gameId, userId, clientSeed: parseClientSeed(action.clientSeed) });
+    }
+
+    async getState(gameId: string): Promise<DiceRoyaleState> {
+        return this.getGameState.execute({ gameId });
+    }
+
+    async getResults(gameId: string): Promise<GameResult[] | null> {
+        const game = await this.diceGameRepo.findById(gameId);
+        if (!game) {
+            throw new NotFoundError('DiceRoyale game', gameId);
+        }
+        if (game.status !== 'COMPLETE') {
+            return null;
+        }
+        return game.getStandings().map(s => ({ playerId: s.userId, rank: s.rank }));
+    }
+
+    // Every match plays at least `length` rounds, each of which can run to the roll deadline
+    minMatchSeconds(match: { mode: MatchMode; length: number }): number {
+        return match.length * (this.options.rollTimeoutSeconds ?? DEFAULT_ROLL_TIMEOUT_SECONDS);
+    }
+
+    startJobs(): NodeJS.Timeout[] {
+        return [
+            this.broadcaster.startHeartbeat(30000),
+            new SettlementRetrier(this.diceGameRepo, this.settler).start(this.options.settlementRetryIntervalMs),
+            new RollDeadlineEnforcer(this.diceGameRepo, this.resolveIdlePlayers).start(this.options.rollDeadlineIntervalMs),
+            new BotRoller(this.diceGameRepo, (gameId, userId) => this.handleAction(gameId, userId, { type: 'roll' }))
+                .start(this.options.botRollIntervalMs),
+        ];
+    }
+
+    // Failures are left for the settlement retrier, the rolls themselves have already been recorded
+    private async onGameComplete(gameId: string): Promise<void> {
+        try {
+            await this.settler.settle(gameId);
+        } catch (error) {
+            console.error(`❌ Failed to settle DiceRoyale game ${gameId}:`, error);
+        }
+    }
+}
@@ -1,50 +1,27 @@
 import type { FastifyInstance } from 'fastify';
-import type { PrismaClient } from '@prisma/client';
-import type { LRUCache } from '@pluto/gateway';
-import { StartGameUseCase } from '../application/use-cases/StartGame.js';
-import { RollDiceUseCase } from '../application/use-cases/RollDice.js';
-import { GetGameStateUseCase } from '../application/use-cases/GetGameState.js';
-import { PrismaDiceGameRepository } from '../infrastructure/repositories/PrismaDiceGameRepository.js';
-
+import type { GamePluginHost } from '@pluto/shared';
+import { randomUUID } from 'node:crypto';
+import type { IDiceGameRepository } from '../domain/repositories/IDiceGameRepository.js';
+import { parseClientSeed } from '../application/use-cases/RollDice.js';
+import type { RollDiceUseCase } from '../application/use-cases/RollDice.js';
+import type { GetGameStateUseCase } from '../application/use-cases/GetGameState.js';
+import type { VerifyGameUseCase } from '../application/use-cases/VerifyGame.js';
+import type { DiceRoyaleBroadcaster } from '../infrastructure/sse/DiceRoyaleBroadcaster.js';
+
+/**
+ * Built by the DiceRoyale plugin, which shares the use cases with its background jobs
+ */
 export interface DiceRoyaleRoutesConfig {
-    prisma: PrismaClient;
-    verifyFirebaseToken: (token: string) => Promise<{ uid: string } | null>;
-    getUserByFirebaseUid: (uid: string) => Promise<{ id: string } | null>;
-    settleGame: (sessionId: string, winners: string[]) => Promise<void>;
+    authenticate: GamePluginHost['authenticate'];
+    diceGameRepo: IDiceGameRepository;
+    broadcaster: DiceRoyaleBroadcaster;
+    rollDice: RollDiceUseCase;
+    getGameState: GetGameStateUseCase;
+    verifyGame: VerifyGameUseCase;
 }
 
-export function registerDiceRoyaleRoutes(
-    app: FastifyInstance,
-    cache: LRUCache<string, unknown>,
-    config: DiceRoyaleRoutesConfig
-) {
-    const { prisma, verifyFirebaseToken, getUserByFirebaseUid, settleGame } = config;
-
-    // Initialize
-    const diceGameRepo = new PrismaDiceGameRepository(prisma);
-
-    // Game completion callback - settles the contract
-    const onGameComplete = async (gameId: string, winnerUserIds: string[]) => {
-        const game = await diceGameRepo.findById(gameId);
-        if (game) {
-            await settleGame(game.sessionId, winnerUserIds);
-        }
-    };
-
-    // Initialize use cases
-    const startGame = new StartGameUseCase(diceGameRepo);
-    const rollDice = new RollDiceUseCase(diceGameRepo, onGameComplete);
-    const getGameState = new GetGameStateUseCase(diceGameRepo);
-
-    // Helper to authenticate user
-    async function authenticateUser(authHeader: string | undefined) {
-        if (!authHeader?.startsWith('Bearer ')) {
-            return null;
-        }
-        const decoded = await verifyFirebaseToken(authHeader.slice(7));
-        if (!decoded) return null;
-        return getUserByFirebaseUid(decoded.uid);
-    }
+export function registerDiceRoyaleRoutes(app: FastifyInstance, config: DiceRoyaleRoutesConfig) {
+    const { authenticate, diceGameRepo, broadcaster, rollDice, getGameState, verifyGame } = config;
 
     // ============================================
     // DiceRoyale Routes
@@ -65,19 +42,51 @@ export function registerDiceRoyaleRoutes(
         }
     });
 
+    // SSE endpoint for game events
+    app.get('/dice-royale/:gameId/events', async (request, reply) => {
+        const params = request.params as { gameId: string };
+        const gameId = params.gameId;
+
+        // Verify game exists
+        const game = await diceGameRepo.findById(gameId);
+        if (!game) {
+            return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'Game not found' } });
+        }
+
+        // Set up SSE headers
+        reply.raw.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'Access-Control-Allow-Origin': '*',
+        });
+
+        // Send initial connection event
+        reply.raw.write(`data: ${JSON.stringify({ type: 'connected', gameId })}\n\n`);
+
+        // Add client to broadcaster
+        const clientId = randomUUID();
+        broadcaster.addClient(gameId, clientId, reply.raw);
+
+        // Don't end the response - it's a continuous stream
+        return reply;
+    });
+
     // Roll dice (player action)
     app.post('/dice-royale/:gameId/roll', async (request, reply) => {
-        const user = await authenticateUser(request.headers.authorization);
+        const user = await authenticate(request.headers.authorization);
         if (!user) {
             return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
         }
 
         const params = request.params as { gameId: string };
+        const body = (request.body ?? {}) as { clientSeed?: unknown };
 
         try {
             const result = await rollDice.execute({
                 gameId: params.gameId,
                 userId: user.id,
+                clientSeed: parseClientSeed(body.clientSeed),
             });
 
             return result;
@@ -92,18 +101,20 @@ export function registerDiceRoyaleRoutes(
         }
     });
 
-    // Internal: Start game (called by lobby when match starts)
-    app.post('/dice-royale/start', async (request, reply) => {
-        // This endpoint should be called internally when a lobby match starts
-        // In production, this would be protected by internal auth
-        const body = request.body as {
-            sessionId: string;
-            players: Array<{ userId: string; displayName: string }>;
-        };
-
-        const game = await startGame.execute(body);
-        return game.toJSON();
-    });
+    // Verify rolls against the revealed server seed (public)
+    app.get('/dice-royale/:gameId/verify', async (request, reply) => {
+        const params = request.params as { gameId: string };
 
-    return { startGame, rollDice, getGameState };
+        try {
+            return await verifyGame.execute(params.gameId);
+        } catch (error: any) {
+            if (error.name === 'NotFoundError') {
+                return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'Game not found' } });
+            }
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({ error: { code: 'VALIDATION_ERROR', message: error.message } });
+            }
+            throw error;
+        }
+    });
 }
@@ -27,7 +27,7 @@ export class Gateway {
         await this.app.register(cors, {
             origin: this.config.corsOrigin,
             methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization', 'X-Pluto-Signature', 'X-Game-Id'],
+            allowedHeaders: ['Content-Type', 'Authorization', 'X-Pluto-Signature', 'X-Game-Id', 'Idempotency-Key'],
             credentials: true,
         });
 
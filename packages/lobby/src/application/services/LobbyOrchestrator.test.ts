@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { LobbyStatus } from '@prisma/client';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { LobbyOrchestrator } from './LobbyOrchestrator.js';
+
+// A single lobby for 2-3 players, kept in memory
+function setup(inviteCode: string | null = null) {
+    let status: LobbyStatus = 'WAITING';
+    const players: LobbyPlayer[] = [];
+    const load = () => new Lobby(
+        'lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 3, status, new Date(), [...players],
+        inviteCode, inviteCode ? 'a' : null
+    );
+
+    const repo = {
+        findById: async () => load(),
+        removePlayer: async (_id: string, userId: string) => {
+            players.splice(players.findIndex(p => p.userId === userId), 1);
+        },
+        updateHost: async () => { },
+        updateStatus: async (_id: string, next: LobbyStatus) => {
+            status = next;
+            return load();
+        },
+        transitionStatus: vi.fn(async (_id: string, from: LobbyStatus, to: LobbyStatus) => {
+            if (status !== from) return false;
+            status = to;
+            return true;
+        }),
+        runLocked: vi.fn((_keys: string[], work: (repo: ILobbyRepository) => Promise<unknown>): Promise<unknown> =>
+            work(repo as unknown as ILobbyRepository)
+        ),
+    };
+    const events: unknown[] = [];
+    const broadcaster = { broadcast: (_id: string, event: unknown) => events.push(event) } as unknown as LobbyBroadcaster;
+    const startMatch = vi.fn(async () => ({ sessionId: 'session' }));
+    const orchestrator = new LobbyOrchestrator(repo as unknown as ILobbyRepository, broadcaster, startMatch, {
+        graceMs: 10000,
+        readyCheckSeconds: 15,
+        countdownSeconds: 5,
+    });
+
+    const join = async (userId: string, isBot = false) => {
+        players.push(new LobbyPlayer(userId, 'lobby', userId, userId, new Date(), isBot));
+        await orchestrator.playersChanged(load());
+    };
+    const ready = (...userIds: string[]) => userIds.forEach(userId => orchestrator.confirmReady('lobby', userId));
+    const leave = async (userId: string) => {
+        await orchestrator.playerLeaving('lobby');
+        players.splice(players.findIndex(p => p.userId === userId), 1);
+        await orchestrator.playersChanged(load());
+    };
+
+    return {
+        orchestrator,
+        repo,
+        startMatch,
+        events,
+        players,
+        join,
+        ready,
+        leave,
+        load,
+        status: () => status,
+        setStatus: (next: LobbyStatus) => { status = next; },
+    };
+}
+
+describe('LobbyOrchestrator', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should start a full lobby once everyone is ready and the countdown is over', async () => {
+        const lobby = setup();
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('c');
+        expect(lobby.status()).toBe('STARTING');
+        expect(lobby.events).toContainEqual(expect.objectContaining({ type: 'ready_check', seconds: 15 }));
+
+        lobby.ready('a', 'b');
+        expect(lobby.events).not.toContainEqual({ type: 'lobby_starting', countdown: 5 });
+        lobby.ready('c');
+        expect(lobby.events).toContainEqual({ type: 'player_ready', playerId: 'c' });
+        expect(lobby.events).toContainEqual({ type: 'lobby_starting', countdown: 5 });
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.startMatch).toHaveBeenCalledOnce();
+        expect(lobby.status()).toBe('IN_GAME');
+        expect(lobby.events).toContainEqual({ type: 'game_started', sessionId: 'session' });
+    });
+
+    it('should wait out the grace period once min players is reached', async () => {
+        const lobby = setup();
+        await lobby.join('a');
+        await lobby.join('b');
+
+        await vi.advanceTimersByTimeAsync(9999);
+        expect(lobby.status()).toBe('WAITING');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(lobby.status()).toBe('STARTING');
+        lobby.ready('a', 'b');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('IN_GAME');
+    });
+
+    it('should cancel the countdown when a player leaves', async () => {
+        const lobby = setup();
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('c');
+        lobby.ready('a', 'b', 'c');
+        await lobby.leave('c');
+
+        expect(lobby.status()).toBe('WAITING');
+        expect(lobby.events).toContainEqual({ type: 'lobby_countdown_cancelled', reason: 'A player left' });
+
+        // Still at min players, so the grace period starts over
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.startMatch).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('STARTING');
+    });
+
+    it('should leave a private lobby at min players to its host', async () => {
+        const lobby = setup('K7WQ2M');
+        await lobby.join('a');
+        await lobby.join('b');
+
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(lobby.status()).toBe('WAITING');
+
+        await lobby.orchestrator.startEarly(lobby.load());
+        expect(lobby.status()).toBe('STARTING');
+        await expect(lobby.orchestrator.startEarly(lobby.load())).rejects.toThrow('Lobby is already starting');
+        lobby.ready('a', 'b');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('IN_GAME');
+    });
+
+    it('should close the lobby when the match fails to start', async () => {
+        const lobby = setup();
+        lobby.startMatch.mockRejectedValueOnce(new Error('Insufficient funds'));
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('c');
+        lobby.ready('a', 'b', 'c');
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('CLOSED');
+        expect(lobby.events).toContainEqual({ type: 'lobby_closed', reason: 'Game failed to start' });
+    });
+
+    it('should ask a player seated while the lobby was being started to confirm too', async () => {
+        const lobby = setup();
+        await lobby.join('a');
+        await lobby.join('b');
+        // c's join picked the lobby while it was waiting, and holds the contract lock when the grace period ends
+        lobby.repo.runLocked.mockImplementationOnce(async (_keys, work) => {
+            lobby.players.push(new LobbyPlayer('c', 'lobby', 'c', 'c', new Date()));
+            return work(lobby.repo as unknown as ILobbyRepository);
+        });
+
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(lobby.repo.runLocked).toHaveBeenCalledWith(['contract:contract'], expect.any(Function));
+        expect(lobby.status()).toBe('STARTING');
+
+        lobby.ready('a', 'b');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.startMatch).not.toHaveBeenCalled();
+        lobby.ready('c');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.startMatch).toHaveBeenCalledWith(expect.objectContaining({
+            players: ['a', 'b', 'c'].map(userId => expect.objectContaining({ userId })),
+        }));
+    });
+
+    it('should remove players who miss the ready check and wait again', async () => {
+        const lobby = setup();
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('bot', true);
+        lobby.ready('a');
+
+        await vi.advanceTimersByTimeAsync(15000);
+        expect(lobby.events).toContainEqual({ type: 'ready_check_failed', playerIds: ['b'] });
+        expect(lobby.players.map(p => p.userId)).toEqual(['a', 'bot']);
+        expect(lobby.status()).toBe('WAITING');
+        expect(lobby.startMatch).not.toHaveBeenCalled();
+        expect(() => lobby.ready('a')).toThrow('Lobby has no ready check running');
+
+        // Still at min players, so the grace period starts over
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(lobby.status()).toBe('STARTING');
+        lobby.ready('a');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('IN_GAME');
+    });
+
+    it('should cancel the ready check when a player leaves', async () => {
+        const lobby = setup();
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('c');
+        lobby.ready('a');
+        await lobby.leave('b');
+
+        expect(lobby.status()).toBe('WAITING');
+        expect(lobby.events).toContainEqual({ type: 'lobby_countdown_cancelled', reason: 'A player left' });
+        await vi.advanceTimersByTimeAsync(15000);
+        expect(lobby.events).not.toContainEqual(expect.objectContaining({ type: 'ready_check_failed' }));
+    });
+
+    it('should keep a lobby whose match started even when marking it in game fails', async () => {
+        const lobby = setup();
+        lobby.repo.transitionStatus.mockRejectedValueOnce(new Error('Connection lost'));
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('c');
+        lobby.ready('a', 'b', 'c');
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.events).toContainEqual({ type: 'game_started', sessionId: 'session' });
+        expect(lobby.events).not.toContainEqual(expect.objectContaining({ type: 'lobby_closed' }));
+        expect(lobby.status()).toBe('STARTING');
+
+        // Retried until it sticks, without starting another match
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('IN_GAME');
+        expect(lobby.startMatch).toHaveBeenCalledOnce();
+    });
+
+    it('should not close a lobby that left starting while its match failed', async () => {
+        const lobby = setup();
+        lobby.startMatch.mockImplementationOnce(async () => {
+            lobby.setStatus('IN_GAME');
+            throw new Error('Game backend timed out');
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        await lobby.join('a');
+        await lobby.join('b');
+        await lobby.join('c');
+        lobby.ready('a', 'b', 'c');
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('IN_GAME');
+        expect(lobby.events).not.toContainEqual(expect.objectContaining({ type: 'lobby_closed' }));
+    });
+
+    it('should start again a lobby left starting by a stopped process', async () => {
+        const lobby = setup();
+        lobby.players.push(...['a', 'b', 'c'].map(id => new LobbyPlayer(id, 'lobby', id, id, new Date(), false)));
+        lobby.setStatus('STARTING');
+
+        expect(await lobby.orchestrator.resumeStalled('lobby')).toBe(true);
+        expect(lobby.events).toContainEqual({ type: 'lobby_countdown_cancelled', reason: 'Lobby start was interrupted' });
+        expect(lobby.events).toContainEqual(expect.objectContaining({ type: 'ready_check', seconds: 15 }));
+
+        // Already being started here now
+        expect(await lobby.orchestrator.resumeStalled('lobby')).toBe(false);
+        lobby.ready('a', 'b', 'c');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(lobby.status()).toBe('IN_GAME');
+    });
+
+    it('should leave a stalled lobby to the process that reopened it first', async () => {
+        const lobby = setup();
+        lobby.setStatus('WAITING');
+
+        expect(await lobby.orchestrator.resumeStalled('lobby')).toBe(false);
+        expect(lobby.events).toEqual([]);
+    });
+});
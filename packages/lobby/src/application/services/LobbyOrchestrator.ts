@@ -0,0 +1,339 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import { LobbyLocks } from '../../domain/repositories/ILobbyRepository.js';
+import type { Lobby } from '../../domain/entities/Lobby.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import { ConflictError } from '@pluto/shared';
+
+/**
+ * Locks the players' funds and creates the game for a full lobby
+ * Provided by the host application, which knows the bank and the games
+ */
+export type StartMatchFn = (match: {
+    lobbyId: string;
+    contractId: string;
+    gameName: string;
+    players: Array<{ userId: string; displayName: string; isBot: boolean }>;
+}) => Promise<{ sessionId: string }>;
+
+export interface LobbyOrchestratorOptions {
+    graceMs: number; // Wait for more players once min players is reached
+    readyCheckSeconds: number; // Time players have to confirm they're ready, 0 to skip the check
+    countdownSeconds: number;
+}
+
+type StartPhase = 'GRACE' | 'READY_CHECK' | 'COUNTDOWN' | 'LAUNCHING';
+
+const IN_GAME_RETRY_MS = 5000;
+const LAUNCH_MARGIN_MS = 60_000; // Time allowed for starting the match itself
+
+/**
+ * Lobby orchestrator
+ * Drives a lobby from WAITING to IN_GAME:
+ * - min players reached: wait out the grace period, then run the ready check
+ * - max players reached: run the ready check straight away
+ * - everyone ready: count down; players who didn't confirm in time are removed and the lobby waits again
+ * - countdown over: start the match and broadcast game_started
+ * Private lobbies have no grace period; their host starts them early instead, or they fill up.
+ * Timers live in memory, so a lobby is started by the process its players joined through; lobbies
+ * left starting by a process that stopped are taken over with resumeStalled.
+ */
+export class LobbyOrchestrator {
+    private pending: Map<string, {
+        phase: StartPhase;
+        timer?: NodeJS.Timeout;
+        unconfirmed?: Set<string>; // Players yet to confirm during the ready check
+    }> = new Map();
+
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private broadcaster: LobbyBroadcaster,
+        private startMatch: StartMatchFn,
+        private options: LobbyOrchestratorOptions = { graceMs: 15000, readyCheckSeconds: 20, countdownSeconds: 5 }
+    ) { }
+
+    /**
+     * How long a lobby can be starting before the process starting it is presumed gone: a whole
+     * ready check and countdown, with a margin for starting the match
+     */
+    get stallTimeoutMs(): number {
+        return (this.options.readyCheckSeconds + this.options.countdownSeconds) * 1000 + LAUNCH_MARGIN_MS;
+    }
+
+    /**
+     * React to a lobby's players changing
+     */
+    async playersChanged(lobby: Lobby): Promise<void> {
+        if (lobby.status !== 'WAITING') return;
+
+        const current = this.pending.get(lobby.id);
+        if (lobby.isFull) {
+            if (current?.phase === 'GRACE') {
+                this.clear(lobby.id);
+            } else if (current) {
+                return;
+            }
+            await this.beginStart(lobby);
+        } else if (lobby.isReady && !current && !lobby.isPrivate) {
+            this.schedule(lobby.id, 'GRACE', this.options.graceMs, () => this.graceOver(lobby.id));
+        }
+    }
+
+    /**
+     * Run the ready check straight away, for a host starting their lobby before it's full
+     */
+    async startEarly(lobby: Lobby): Promise<void> {
+        const current = this.pending.get(lobby.id);
+        if (current && current.phase !== 'GRACE') {
+            throw new ConflictError('Lobby is already starting');
+        }
+
+        this.clear(lobby.id);
+        await this.beginStart(lobby);
+    }
+
+    /**
+     * Confirm a player is ready; the countdown starts once every player has
+     * @throws ConflictError when the lobby has no ready check running
+     */
+    confirmReady(lobbyId: string, userId: string): void {
+        const current = this.pending.get(lobbyId);
+        if (current?.phase !== 'READY_CHECK') {
+            throw new ConflictError('Lobby has no ready check running');
+        }
+        if (!current.unconfirmed?.delete(userId)) return;
+
+        this.broadcaster.broadcast(lobbyId, { type: 'player_ready', playerId: userId });
+        if (current.unconfirmed.size === 0) {
+            this.clear(lobbyId);
+            this.countDown(lobbyId);
+            this.broadcaster.broadcast(lobbyId, { type: 'lobby_starting', countdown: this.options.countdownSeconds });
+        }
+    }
+
+    /**
+     * Stop a pending start before a player leaves
+     * @throws ConflictError once the match is being started
+     */
+    async playerLeaving(lobbyId: string): Promise<void> {
+        const current = this.pending.get(lobbyId);
+        if (!current) return;
+        if (current.phase === 'LAUNCHING') {
+            throw new ConflictError('Game is already starting');
+        }
+
+        this.clear(lobbyId);
+        if (current.phase !== 'GRACE') {
+            const lobby = await this.lobbyRepository.findById(lobbyId);
+            if (lobby) {
+                lobby.reopen();
+                await this.lobbyRepository.updateStatus(lobby.id, lobby.status);
+            }
+            this.broadcaster.broadcast(lobbyId, {
+                type: 'lobby_countdown_cancelled',
+                reason: 'A player left',
+            });
+        }
+    }
+
+    /**
+     * Take over a lobby left starting by a process that stopped, whose timers were lost with it
+     * The lobby goes back to waiting and is then started again like any other
+     * @returns whether this process took the lobby over
+     */
+    async resumeStalled(lobbyId: string): Promise<boolean> {
+        if (this.pending.has(lobbyId)) return false;
+
+        // Only one process wins the lobby back
+        if (!await this.lobbyRepository.transitionStatus(lobbyId, 'STARTING', 'WAITING')) {
+            return false;
+        }
+        this.broadcaster.broadcast(lobbyId, {
+            type: 'lobby_countdown_cancelled',
+            reason: 'Lobby start was interrupted',
+        });
+
+        const lobby = await this.lobbyRepository.findById(lobbyId);
+        if (lobby) {
+            await this.playersChanged(lobby);
+        }
+        return true;
+    }
+
+    private async graceOver(lobbyId: string): Promise<void> {
+        this.pending.delete(lobbyId);
+
+        const lobby = await this.lobbyRepository.findById(lobbyId);
+        if (!lobby || lobby.status !== 'WAITING' || !lobby.isReady) return;
+
+        await this.beginStart(lobby);
+    }
+
+    /**
+     * Mark the lobby starting and ask its players to confirm they're ready; bots always are
+     */
+    private async beginStart(lobby: Lobby): Promise<void> {
+        const unconfirmed = new Set(lobby.players.filter(p => !p.isBot).map(p => p.userId));
+        const seconds = this.options.readyCheckSeconds;
+        const checking = seconds > 0 && unconfirmed.size > 0;
+
+        // Claim the lobby before the first await so concurrent joins don't start it twice
+        if (checking) {
+            this.schedule(lobby.id, 'READY_CHECK', seconds * 1000, () => this.readyCheckOver(lobby.id), unconfirmed);
+        } else {
+            this.countDown(lobby.id);
+        }
+
+        let started: Lobby | null;
+        try {
+            // Under the contract's lock, so a join that picked the lobby while it was waiting has
+            // seated its player before the lobby is marked starting, and the player is asked to confirm
+            started = await this.lobbyRepository.runLocked([LobbyLocks.contract(lobby.contractId)], async lobbyRepository => {
+                const current = await lobbyRepository.findById(lobby.id);
+                if (!current || current.status !== 'WAITING') return null;
+
+                current.start();
+                await lobbyRepository.updateStatus(current.id, current.status);
+                return current;
+            });
+        } catch (error) {
+            this.clear(lobby.id);
+            throw error;
+        }
+        if (!started) {
+            this.clear(lobby.id);
+            return;
+        }
+        unconfirmed.clear();
+        started.players.filter(p => !p.isBot).forEach(p => unconfirmed.add(p.userId));
+
+        this.broadcaster.broadcast(lobby.id, checking
+            ? { type: 'ready_check', seconds, deadline: new Date(Date.now() + seconds * 1000).toISOString() }
+            : { type: 'lobby_starting', countdown: this.options.countdownSeconds });
+    }
+
+    /**
+     * Remove the players who didn't confirm in time and send the lobby back to waiting
+     */
+    private async readyCheckOver(lobbyId: string): Promise<void> {
+        const unconfirmed = [...this.pending.get(lobbyId)?.unconfirmed ?? []];
+        this.pending.delete(lobbyId);
+
+        const lobby = await this.lobbyRepository.findById(lobbyId);
+        if (!lobby || lobby.status !== 'STARTING') return;
+
+        for (const userId of unconfirmed) {
+            await this.lobbyRepository.removePlayer(lobby.id, userId);
+            lobby.removePlayer(userId);
+        }
+        lobby.reopen();
+        await this.lobbyRepository.updateStatus(lobby.id, lobby.status);
+        this.broadcaster.broadcast(lobby.id, { type: 'ready_check_failed', playerIds: unconfirmed });
+
+        // A private lobby whose host didn't confirm is handed to whoever has waited longest
+        if (lobby.hostId && !lobby.hasPlayer(lobby.hostId)) {
+            const hostId = lobby.passHost();
+            await this.lobbyRepository.updateHost(lobby.id, hostId);
+            if (hostId) {
+                this.broadcaster.broadcast(lobby.id, { type: 'host_changed', hostId });
+            }
+        }
+
+        // Bots never keep a lobby going on their own
+        if (!lobby.hasHumanPlayers) {
+            await this.lobbyRepository.updateStatus(lobby.id, 'CLOSED');
+            this.broadcaster.broadcast(lobby.id, {
+                type: 'lobby_closed',
+                reason: 'No player confirmed ready',
+            });
+            return;
+        }
+
+        await this.playersChanged(lobby);
+    }
+
+    private countDown(lobbyId: string): void {
+        this.schedule(lobbyId, 'COUNTDOWN', this.options.countdownSeconds * 1000, () => this.launch(lobbyId));
+    }
+
+    /**
+     * Start the match; a lobby whose match can't start is closed so its players can queue again
+     */
+    private async launch(lobbyId: string): Promise<void> {
+        this.pending.set(lobbyId, { phase: 'LAUNCHING' });
+
+        let sessionId: string;
+        try {
+            const lobby = await this.lobbyRepository.findById(lobbyId);
+            if (!lobby || lobby.status !== 'STARTING') {
+                this.pending.delete(lobbyId);
+                return;
+            }
+
+            ({ sessionId } = await this.startMatch({
+                lobbyId: lobby.id,
+                contractId: lobby.contractId,
+                gameName: lobby.gameName,
+                players: lobby.players.map(p => ({ userId: p.userId, displayName: p.displayName, isBot: p.isBot })),
+            }));
+        } catch (error) {
+            console.error(`❌ Failed to start lobby ${lobbyId}:`, error);
+            this.pending.delete(lobbyId);
+            await this.closeUnstarted(lobbyId);
+            return;
+        }
+
+        this.broadcaster.broadcast(lobbyId, { type: 'game_started', sessionId });
+        await this.markInGame(lobbyId);
+    }
+
+    /**
+     * Mark a launched lobby in game
+     * Its match is already live, so failures are retried rather than closing the lobby over it
+     */
+    private async markInGame(lobbyId: string): Promise<void> {
+        try {
+            await this.lobbyRepository.transitionStatus(lobbyId, 'STARTING', 'IN_GAME');
+            this.pending.delete(lobbyId);
+        } catch (error) {
+            console.error(`❌ Failed to mark lobby ${lobbyId} in game, retrying:`, error);
+            this.schedule(lobbyId, 'LAUNCHING', IN_GAME_RETRY_MS, () => this.markInGame(lobbyId));
+        }
+    }
+
+    /**
+     * Close a lobby whose match couldn't start; one that made it into a game is left alone
+     * If even that fails the lobby stays starting, for resumeStalled to pick up
+     */
+    private async closeUnstarted(lobbyId: string): Promise<void> {
+        try {
+            if (!await this.lobbyRepository.transitionStatus(lobbyId, 'STARTING', 'CLOSED')) return;
+        } catch (error) {
+            console.error(`❌ Failed to close lobby ${lobbyId}:`, error);
+            return;
+        }
+
+        this.broadcaster.broadcast(lobbyId, {
+            type: 'lobby_closed',
+            reason: 'Game failed to start',
+        });
+    }
+
+    private schedule(
+        lobbyId: string,
+        phase: StartPhase,
+        delayMs: number,
+        run: () => Promise<void>,
+        unconfirmed?: Set<string>
+    ): void {
+        const timer = setTimeout(() => {
+            run().catch(error => console.error(`❌ Lobby ${lobbyId} ${phase.toLowerCase().replace('_', ' ')} failed:`, error));
+        }, delayMs);
+        this.pending.set(lobbyId, { phase, timer, unconfirmed });
+    }
+
+    private clear(lobbyId: string): void {
+        const current = this.pending.get(lobbyId);
+        if (current?.timer) clearTimeout(current.timer);
+        this.pending.delete(lobbyId);
+    }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { Matchmaker } from './Matchmaker.js';
+
+// Waiting lobbies of one player each, rated as given, opened `waitedSeconds` ago
+function setup(lobbies: Array<{ id: string; rating: number | null; waitedSeconds?: number }>) {
+    const open = lobbies.map(({ id, rating, waitedSeconds = 0 }) => new Lobby(
+        id, 'contract', 'Classic', 'DiceRoyale', 100n, 2, 4, 'WAITING',
+        new Date(Date.now() - waitedSeconds * 1000),
+        [new LobbyPlayer(`${id}-player`, id, `${id}-player`, `${id}-player`, new Date(), rating === null, rating)]
+    ));
+    const created = new Lobby('new', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 4, 'WAITING', new Date(), []);
+
+    const repo = {
+        getOrCreateWaitingLobby: async (_contractId: string, _seats: number, choose: (open: Lobby[]) => Lobby | null) =>
+            choose(open) ?? created,
+    } as unknown as ILobbyRepository;
+
+    return new Matchmaker(repo, async () => new Map(), { initialWidth: 100, widthGrowthPerSecond: 10, maxWidth: 500 });
+}
+
+describe('Matchmaker', () => {
+    it('should pick the closest lobby within its band', async () => {
+        const matchmaker = setup([{ id: 'far', rating: 1420 }, { id: 'close', rating: 1480 }, { id: 'above', rating: 1560 }]);
+
+        expect((await matchmaker.findLobby('contract', 1, 1500)).id).toBe('close');
+    });
+
+    it('should open a new lobby when no band takes the player', async () => {
+        const matchmaker = setup([{ id: 'low', rating: 1200 }, { id: 'high', rating: 1800 }]);
+
+        expect((await matchmaker.findLobby('contract', 1, 1500)).id).toBe('new');
+    });
+
+    it('should widen a lobby band the longer it waits, up to the max', async () => {
+        const waited = setup([{ id: 'waited', rating: 1200, waitedSeconds: 25 }]);
+        expect((await waited.findLobby('contract', 1, 1551)).id).toBe('new');
+        const lobby = await waited.findLobby('contract', 1, 1550);
+        expect(lobby.id).toBe('waited');
+        expect(waited.bandOf(lobby)?.toJSON()).toEqual({ min: 850, max: 1550 });
+
+        const longWaited = setup([{ id: 'waited', rating: 1200, waitedSeconds: 600 }]);
+        expect((await longWaited.findLobby('contract', 1, 1701)).id).toBe('new');
+    });
+
+    it('should let anyone into a lobby of unrated players', async () => {
+        const matchmaker = setup([{ id: 'bots', rating: null }]);
+
+        expect((await matchmaker.findLobby('contract', 1, 2400)).id).toBe('bots');
+    });
+});
@@ -0,0 +1,70 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { Lobby } from '../../domain/entities/Lobby.js';
+import { RatingBand } from '../../domain/entities/RatingBand.js';
+import type { RatingBandOptions } from '../../domain/entities/RatingBand.js';
+
+/**
+ * Players' ratings at the game of a contract, unrated players at the initial rating
+ * Provided by the host application, which knows the bank
+ */
+export type GetRatingsFn = (contractId: string, userIds: string[]) => Promise<Map<string, number>>;
+
+export const DEFAULT_RATING_BAND: RatingBandOptions = {
+    initialWidth: 100,
+    widthGrowthPerSecond: 10,
+    maxWidth: 500,
+};
+
+/**
+ * Matchmaker
+ * Places players in the public lobby closest to their rating among those whose rating band
+ * takes them, opening a new lobby when none does.
+ */
+export class Matchmaker {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private getRatings: GetRatingsFn,
+        private bandOptions: RatingBandOptions = DEFAULT_RATING_BAND
+    ) { }
+
+    async ratingsOf(contractId: string, userIds: string[]): Promise<Map<string, number>> {
+        return this.getRatings(contractId, userIds);
+    }
+
+    /**
+     * Find a waiting lobby with a seat for each player, rated `rating` on average (null if unrated)
+     * Pass the repository of ILobbyRepository.runLocked when seating the players under its locks.
+     */
+    async findLobby(
+        contractId: string,
+        seats: number,
+        rating: number | null,
+        lobbyRepository: ILobbyRepository = this.lobbyRepository
+    ): Promise<Lobby> {
+        const now = new Date();
+        return lobbyRepository.getOrCreateWaitingLobby(contractId, seats, open => this.closest(open, rating, now));
+    }
+
+    bandOf(lobby: Lobby, now: Date = new Date()): RatingBand | null {
+        return RatingBand.forLobby(lobby, this.bandOptions, now);
+    }
+
+    // Open lobbies come oldest first, so the longest-waiting one wins a tie
+    private closest(open: Lobby[], rating: number | null, now: Date): Lobby | null {
+        if (rating === null) return open[0] ?? null;
+
+        let best: Lobby | null = null;
+        let bestDistance = Infinity;
+        for (const lobby of open) {
+            const band = this.bandOf(lobby, now);
+            if (band && !band.contains(rating)) continue;
+
+            const distance = Math.abs((lobby.rating ?? rating) - rating);
+            if (distance < bestDistance) {
+                best = lobby;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+}
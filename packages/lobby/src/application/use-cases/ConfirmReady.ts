@@ -0,0 +1,33 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { ForbiddenError, LobbyNotFoundError } from '@pluto/shared';
+
+export interface ConfirmReadyInput {
+    lobbyId: string;
+    userId: string;
+}
+
+/**
+ * Confirm a player is ready during their lobby's ready check
+ * Confirming twice is harmless; the match starts once every player has confirmed.
+ */
+export class ConfirmReadyUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private orchestrator: LobbyOrchestrator
+    ) { }
+
+    async execute(input: ConfirmReadyInput): Promise<{ success: boolean; lobbyId: string }> {
+        const lobby = await this.lobbyRepository.findById(input.lobbyId);
+        if (!lobby) {
+            throw new LobbyNotFoundError(input.lobbyId);
+        }
+        if (!lobby.hasPlayer(input.userId)) {
+            throw new ForbiddenError('Only players in the lobby can confirm they are ready');
+        }
+
+        this.orchestrator.confirmReady(lobby.id, input.userId);
+
+        return { success: true, lobbyId: lobby.id };
+    }
+}
@@ -0,0 +1,24 @@
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import type { Party } from '../../domain/entities/Party.js';
+import { ConflictError } from '@pluto/shared';
+
+export interface CreatePartyInput {
+    userId: string;
+}
+
+/**
+ * Start a party led by the user creating it
+ * Others join with the party's invite code.
+ */
+export class CreatePartyUseCase {
+    constructor(private partyRepository: IPartyRepository) { }
+
+    async execute(input: CreatePartyInput): Promise<Party> {
+        const existingParty = await this.partyRepository.findByUserId(input.userId);
+        if (existingParty) {
+            throw new ConflictError('User is already in a party');
+        }
+
+        return this.partyRepository.create({ leaderId: input.userId });
+    }
+}
@@ -0,0 +1,75 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import { LobbyLocks } from '../../domain/repositories/ILobbyRepository.js';
+import type { Matchmaker } from '../services/Matchmaker.js';
+import {
+    AlreadyInLobbyError,
+    InsufficientFundsError,
+    ContractNotFoundError,
+} from '@pluto/shared';
+
+export interface CreatePrivateLobbyInput {
+    userId: string;
+    contractId: string;
+    userBalance: bigint;
+}
+
+export interface CreatePrivateLobbyResult {
+    lobbyId: string;
+    inviteCode: string;
+    currentPlayers: number;
+    minPlayers: number;
+    maxPlayers: number;
+}
+
+/**
+ * Open a private lobby for a contract, hosted by the user creating it
+ * Other players join with the invite code; the lobby is never matched or listed.
+ */
+export class CreatePrivateLobbyUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private matchmaker: Matchmaker,
+        private getContractInfo: (contractId: string) => Promise<{
+            entryFee: bigint;
+            minPlayers: number;
+            maxPlayers: number;
+        } | null>
+    ) { }
+
+    async execute(input: CreatePrivateLobbyInput): Promise<CreatePrivateLobbyResult> {
+        // 1. Get contract info
+        const contract = await this.getContractInfo(input.contractId);
+        if (!contract) {
+            throw new ContractNotFoundError(input.contractId);
+        }
+
+        // 2. Check the host can pay the entry fee like everyone else
+        if (input.userBalance < contract.entryFee) {
+            throw new InsufficientFundsError(contract.entryFee, input.userBalance);
+        }
+
+        // 3. Create the lobby with the host in it, under the user's lock like any join - rated for
+        //    display, private lobbies aren't matched
+        const ratings = await this.matchmaker.ratingsOf(input.contractId, [input.userId]);
+        const lobby = await this.lobbyRepository.runLocked([LobbyLocks.user(input.userId)], async lobbyRepository => {
+            const existingLobby = await lobbyRepository.findByUserId(input.userId);
+            if (existingLobby) {
+                throw new AlreadyInLobbyError();
+            }
+
+            return lobbyRepository.createPrivate({
+                contractId: input.contractId,
+                hostId: input.userId,
+                hostRating: ratings.get(input.userId) ?? null,
+            });
+        });
+
+        return {
+            lobbyId: lobby.id,
+            inviteCode: lobby.inviteCode!,
+            currentPlayers: lobby.currentPlayers,
+            minPlayers: contract.minPlayers,
+            maxPlayers: contract.maxPlayers,
+        };
+    }
+}
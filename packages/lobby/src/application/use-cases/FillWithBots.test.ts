@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { FillWithBotsUseCase } from './FillWithBots.js';
+
+// A waiting lobby for 3-4 players, kept in memory, and a pool of bots
+function setup(players: LobbyPlayer[], botsAvailable = 10) {
+    const load = () => new Lobby('lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 3, 4, 'WAITING', new Date(), [...players]);
+
+    const repo = {
+        findById: async () => load(),
+        findByUserId: async () => null,
+        runLocked: async (_keys: string[], work: (locked: ILobbyRepository) => Promise<unknown>) => work(repo),
+        addPlayer: async (lobbyId: string, userId: string, isBot: boolean) => {
+            const player = new LobbyPlayer(userId, lobbyId, userId, userId, new Date(), isBot);
+            players.push(player);
+            return player;
+        },
+    } as unknown as ILobbyRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as LobbyBroadcaster;
+    const orchestrator = { playersChanged: vi.fn(async () => { }) } as unknown as LobbyOrchestrator;
+
+    let botCount = 0;
+    const provideBot = vi.fn(async () => botCount < botsAvailable
+        ? { userId: `bot-${++botCount}`, displayName: `bot-${botCount}` }
+        : null);
+
+    return {
+        players,
+        orchestrator,
+        provideBot,
+        fillWithBots: new FillWithBotsUseCase(repo, broadcaster, orchestrator, provideBot),
+    };
+}
+
+describe('FillWithBotsUseCase', () => {
+    it('should add bots up to min players and let the orchestrator start the lobby', async () => {
+        const lobby = setup([new LobbyPlayer('a', 'lobby', 'a', 'a', new Date())]);
+
+        expect(await lobby.fillWithBots.execute('lobby')).toBe(2);
+        expect(lobby.players.map(p => p.isBot)).toEqual([false, true, true]);
+        expect(lobby.provideBot).toHaveBeenCalledWith({ contractId: 'contract', entryFee: 100n });
+        expect(lobby.orchestrator.playersChanged).toHaveBeenCalledOnce();
+    });
+
+    it('should leave lobbies without a human alone', async () => {
+        const lobby = setup([new LobbyPlayer('bot-0', 'lobby', 'bot-0', 'bot-0', new Date(), true)]);
+
+        expect(await lobby.fillWithBots.execute('lobby')).toBe(0);
+        expect(lobby.provideBot).not.toHaveBeenCalled();
+    });
+
+    it('should stop once no bot can be provided', async () => {
+        const lobby = setup([new LobbyPlayer('a', 'lobby', 'a', 'a', new Date())], 1);
+
+        expect(await lobby.fillWithBots.execute('lobby')).toBe(1);
+        expect(lobby.players).toHaveLength(2);
+    });
+});
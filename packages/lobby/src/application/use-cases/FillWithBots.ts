@@ -0,0 +1,76 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import { LobbyLocks } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+
+/**
+ * Gets a bot ready to join a lobby, funded for the contract's entry fee
+ * Provided by the host application; null when the contract's game can't be played by bots
+ */
+export type ProvideBotFn = (contract: {
+    contractId: string;
+    entryFee: bigint;
+}) => Promise<{ userId: string; displayName: string } | null>;
+
+/**
+ * Fill a lobby that has waited too long for players with bots
+ * Bots only join lobbies with a human in them, and only up to the contract's minimum players;
+ * the orchestrator then starts the lobby as usual, leaving room for more humans during the grace period.
+ */
+export class FillWithBotsUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private broadcaster: LobbyBroadcaster,
+        private orchestrator: LobbyOrchestrator,
+        private provideBot: ProvideBotFn
+    ) { }
+
+    /**
+     * Returns the number of bots added
+     */
+    async execute(lobbyId: string): Promise<number> {
+        const lobby = await this.lobbyRepository.findById(lobbyId);
+        if (!lobby || lobby.status !== 'WAITING' || lobby.isReady || !lobby.hasHumanPlayers) {
+            return 0;
+        }
+
+        let added = 0;
+        for (let count = lobby.currentPlayers; count < lobby.minPlayers; count++) {
+            const bot = await this.provideBot({ contractId: lobby.contractId, entryFee: lobby.entryFee });
+            if (!bot) break;
+
+            // Seat it like any join, unless players came in or the bot was seated elsewhere meanwhile
+            const player = await this.lobbyRepository.runLocked(
+                [LobbyLocks.contract(lobby.contractId), LobbyLocks.user(bot.userId)],
+                async lobbyRepository => {
+                    const current = await lobbyRepository.findById(lobby.id);
+                    if (!current || current.status !== 'WAITING' || current.isReady) return null;
+                    if (await lobbyRepository.findByUserId(bot.userId)) return null;
+                    return lobbyRepository.addPlayer(lobby.id, bot.userId, true);
+                }
+            );
+            if (!player) break;
+
+            this.broadcaster.broadcast(lobby.id, {
+                type: 'player_joined',
+                player: {
+                    id: player.id,
+                    displayName: bot.displayName,
+                    joinedAt: player.joinedAt,
+                    isBot: true,
+                    rating: null,
+                },
+            });
+            added++;
+        }
+
+        if (added > 0) {
+            const updatedLobby = await this.lobbyRepository.findById(lobby.id);
+            if (updatedLobby) {
+                await this.orchestrator.playersChanged(updatedLobby);
+            }
+        }
+
+        return added;
+    }
+}
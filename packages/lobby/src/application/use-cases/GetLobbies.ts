@@ -1,4 +1,5 @@
 import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { Matchmaker } from '../services/Matchmaker.js';
 import type { LobbyInfo } from '@pluto/shared';
 
 export interface GetLobbiesInput {
@@ -9,13 +10,17 @@ export interface GetLobbiesInput {
  * Get list of active lobbies
  */
 export class GetLobbiesUseCase {
-    constructor(private lobbyRepository: ILobbyRepository) { }
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private matchmaker: Matchmaker
+    ) { }
 
     async execute(input: GetLobbiesInput): Promise<LobbyInfo[]> {
         const lobbies = input.contractId
             ? await this.lobbyRepository.findByContractId(input.contractId, 'WAITING')
             : await this.lobbyRepository.findWaitingLobbies();
 
+        const now = new Date();
         return lobbies.map((lobby: any) => ({
             id: lobby.id,
             contractId: lobby.contractId,
@@ -27,6 +32,8 @@ export class GetLobbiesUseCase {
             minPlayers: lobby.minPlayers,
             maxPlayers: lobby.maxPlayers,
             createdAt: lobby.createdAt,
+            rating: lobby.rating,
+            ratingBand: this.matchmaker.bandOf(lobby, now)?.toJSON() ?? null,
         }));
     }
 }
@@ -1,4 +1,5 @@
 import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { Matchmaker } from '../services/Matchmaker.js';
 import type { LobbyDetails } from '@pluto/shared';
 import { LobbyNotFoundError } from '@pluto/shared';
 
@@ -10,7 +11,10 @@ export interface GetLobbyStatusInput {
  * Get detailed status of a specific lobby
  */
 export class GetLobbyStatusUseCase {
-    constructor(private lobbyRepository: ILobbyRepository) { }
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private matchmaker: Matchmaker
+    ) { }
 
     async execute(input: GetLobbyStatusInput): Promise<LobbyDetails> {
         const lobby = await this.lobbyRepository.findById(input.lobbyId);
@@ -29,10 +33,17 @@ export class GetLobbyStatusUseCase {
             minPlayers: lobby.minPlayers,
             maxPlayers: lobby.maxPlayers,
             createdAt: lobby.createdAt,
+            rating: lobby.rating,
+            ratingBand: this.matchmaker.bandOf(lobby)?.toJSON() ?? null,
+            isPrivate: lobby.isPrivate,
+            hostId: lobby.hostId,
+            isLocked: lobby.isLocked,
             players: lobby.players.map((p: any) => ({
                 id: p.userId,
                 displayName: p.displayName,
                 joinedAt: p.joinedAt,
+                isBot: p.isBot,
+                rating: p.rating,
             })),
         };
     }
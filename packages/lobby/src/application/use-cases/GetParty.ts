@@ -0,0 +1,22 @@
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import type { Party } from '../../domain/entities/Party.js';
+import { NotFoundError } from '@pluto/shared';
+
+export interface GetPartyInput {
+    userId: string;
+}
+
+/**
+ * Get the party a user is in, with the lobby it was last queued into
+ */
+export class GetPartyUseCase {
+    constructor(private partyRepository: IPartyRepository) { }
+
+    async execute(input: GetPartyInput): Promise<Party> {
+        const party = await this.partyRepository.findByUserId(input.userId);
+        if (!party) {
+            throw new NotFoundError('Party for user', input.userId);
+        }
+        return party;
+    }
+}
@@ -0,0 +1,310 @@
+import { describe, it, expect } from 'vitest';
+import type { LobbyStatus } from '@prisma/client';
+import { AlreadyInLobbyError, LobbyFullError } from '@pluto/shared';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { Party, PartyMember } from '../../domain/entities/Party.js';
+import { Matchmaker } from '../services/Matchmaker.js';
+import { JoinLobbyUseCase } from './JoinLobby.js';
+import { QueuePartyUseCase } from './QueueParty.js';
+
+const CONTRACT = { entryFee: 100n, minPlayers: 2, maxPlayers: 4 };
+
+/**
+ * Seeded pseudo-random numbers (mulberry32), so every run interleaves joins the same way
+ */
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Reseeded by setup, so a test's interleaving doesn't depend on the tests before it
+let random = seededRandom(1);
+
+// Yield to other joins for a random number of turns, like a query round trip would
+async function roundTrip(): Promise<void> {
+    for (let turns = Math.floor(random() * 3); turns >= 0; turns--) {
+        await new Promise<void>(resolve => setImmediate(resolve));
+    }
+}
+
+/**
+ * Locks held until the work is done, taken in a stable order - what pg_advisory_xact_lock gives runLocked
+ */
+class KeyedLocks {
+    private tails: Map<string, Promise<void>> = new Map();
+
+    async run<T>(keys: string[], work: () => Promise<T>): Promise<T> {
+        const releases: Array<() => void> = [];
+        for (const key of [...new Set(keys)].sort()) {
+            releases.push(await this.acquire(key));
+        }
+        try {
+            return await work();
+        } finally {
+            releases.reverse().forEach(release => release());
+        }
+    }
+
+    private async acquire(key: string): Promise<() => void> {
+        const previous = this.tails.get(key) ?? Promise.resolve();
+        let release!: () => void;
+        const held = new Promise<void>(resolve => { release = resolve; });
+        const tail = previous.then(() => held);
+        this.tails.set(key, tail);
+
+        await previous;
+        return () => {
+            release();
+            if (this.tails.get(key) === tail) this.tails.delete(key);
+        };
+    }
+}
+
+/**
+ * Lobbies kept in memory, every query taking a round trip so concurrent joins interleave
+ * Without locks, runLocked runs the work straight away, as the repository did before joins were serialized.
+ */
+class InMemoryLobbyRepository {
+    lobbies: Map<string, { id: string; contractId: string; status: LobbyStatus; createdAt: Date; inviteCode: string | null; hostId: string | null }> = new Map();
+    players: Array<{ id: string; lobbyId: string; userId: string; joinedAt: Date; rating: number | null }> = [];
+    private nextId = 0;
+
+    constructor(private locks: KeyedLocks | null = new KeyedLocks()) { }
+
+    private load(id: string): Lobby | null {
+        const row = this.lobbies.get(id);
+        if (!row) return null;
+        const players = this.players
+            .filter(p => p.lobbyId === id)
+            .map(p => new LobbyPlayer(p.id, p.lobbyId, p.userId, p.userId, p.joinedAt, false, p.rating));
+        return new Lobby(
+            row.id, row.contractId, 'Classic', 'DiceRoyale', CONTRACT.entryFee, CONTRACT.minPlayers, CONTRACT.maxPlayers,
+            row.status, row.createdAt, players, row.inviteCode, row.hostId
+        );
+    }
+
+    async findById(id: string): Promise<Lobby | null> {
+        await roundTrip();
+        return this.load(id);
+    }
+
+    // Seats in finished lobbies are kept and come first, so only the status filter finds the open one
+    async findByUserId(userId: string): Promise<Lobby | null> {
+        await roundTrip();
+        const seat = this.players.find(p =>
+            p.userId === userId && ['WAITING', 'STARTING'].includes(this.lobbies.get(p.lobbyId)!.status)
+        );
+        return seat ? this.load(seat.lobbyId) : null;
+    }
+
+    async findByInviteCode(inviteCode: string): Promise<Lobby | null> {
+        await roundTrip();
+        const row = [...this.lobbies.values()].find(l => l.inviteCode === inviteCode);
+        return row ? this.load(row.id) : null;
+    }
+
+    async create(data: { contractId: string }, inviteCode: string | null = null, hostId: string | null = null): Promise<Lobby> {
+        await roundTrip();
+        const id = `lobby-${++this.nextId}`;
+        this.lobbies.set(id, { id, contractId: data.contractId, status: 'WAITING', createdAt: new Date(), inviteCode, hostId });
+        return this.load(id)!;
+    }
+
+    async getOrCreateWaitingLobby(
+        contractId: string,
+        seats = 1,
+        choose: (open: Lobby[]) => Lobby | null = open => open[0] ?? null
+    ): Promise<Lobby> {
+        await roundTrip();
+        const open = [...this.lobbies.values()]
+            .filter(l => l.contractId === contractId && l.status === 'WAITING' && l.inviteCode === null)
+            .map(l => this.load(l.id)!)
+            .filter(l => l.currentPlayers + seats <= l.maxPlayers);
+        return choose(open) ?? this.create({ contractId });
+    }
+
+    async addPlayer(lobbyId: string, userId: string, _isBot = false, rating: number | null = null): Promise<LobbyPlayer> {
+        const [player] = await this.addPlayers(lobbyId, [{ userId, rating }]);
+        return player;
+    }
+
+    async addPlayers(lobbyId: string, seated: Array<{ userId: string; rating: number | null }>): Promise<LobbyPlayer[]> {
+        await roundTrip();
+        // Like the unique (lobbyId, userId) index
+        if (seated.some(s => this.players.some(p => p.lobbyId === lobbyId && p.userId === s.userId))) {
+            throw new Error('Unique constraint failed');
+        }
+        const rows = seated.map(s => ({ id: `player-${++this.nextId}`, lobbyId, userId: s.userId, joinedAt: new Date(), rating: s.rating }));
+        this.players.push(...rows);
+        return rows.map(r => new LobbyPlayer(r.id, r.lobbyId, r.userId, r.userId, r.joinedAt, false, r.rating));
+    }
+
+    async runLocked<T>(keys: string[], work: (lobbyRepository: ILobbyRepository) => Promise<T>): Promise<T> {
+        const repository = this as unknown as ILobbyRepository;
+        return this.locks ? this.locks.run(keys, () => work(repository)) : work(repository);
+    }
+
+    /**
+     * Broken invariants: overfilled lobbies, users seated twice, public lobbies opened while another had room
+     */
+    violations(): string[] {
+        const found: string[] = [];
+        const active = [...this.lobbies.values()].filter(l => l.status !== 'CLOSED' && l.status !== 'IN_GAME');
+
+        for (const lobby of active) {
+            const count = this.players.filter(p => p.lobbyId === lobby.id).length;
+            if (count > CONTRACT.maxPlayers) found.push(`${lobby.id} has ${count} players`);
+        }
+
+        const seats = new Map<string, number>();
+        for (const p of this.players.filter(p => active.some(l => l.id === p.lobbyId))) {
+            seats.set(p.userId, (seats.get(p.userId) ?? 0) + 1);
+        }
+        for (const [userId, count] of seats) {
+            if (count > 1) found.push(`${userId} is in ${count} lobbies`);
+        }
+
+        for (const contractId of new Set(active.map(l => l.contractId))) {
+            const withRoom = active.filter(l => l.contractId === contractId && l.inviteCode === null
+                && this.players.filter(p => p.lobbyId === l.id).length < CONTRACT.maxPlayers);
+            if (withRoom.length > 1) found.push(`${contractId} has ${withRoom.length} lobbies with room`);
+        }
+        return found;
+    }
+
+    seatsOf(userId: string): string[] {
+        return this.players.filter(p => p.userId === userId).map(p => p.lobbyId);
+    }
+}
+
+function setup(locks: KeyedLocks | null = new KeyedLocks()) {
+    random = seededRandom(1);
+    const repo = new InMemoryLobbyRepository(locks);
+    const lobbyRepo = repo as unknown as ILobbyRepository;
+    const broadcaster = { broadcast: () => { } } as unknown as LobbyBroadcaster;
+    // Leaves every lobby WAITING, so full lobbies stay in view of later joins
+    const orchestrator = { playersChanged: async () => { } } as unknown as LobbyOrchestrator;
+    // Everyone rated alike, so every join is a match for every open lobby
+    const matchmaker = new Matchmaker(lobbyRepo, async (_contractId, userIds) => new Map(userIds.map(id => [id, 1500])));
+    const getContractInfo = async () => CONTRACT;
+
+    const joinLobby = new JoinLobbyUseCase(lobbyRepo, broadcaster, orchestrator, matchmaker, getContractInfo);
+    const join = (userId: string, target: { contractId?: string; inviteCode?: string } = { contractId: 'contract' }) =>
+        joinLobby.execute({ userId, displayName: userId, userBalance: 1000n, ...target });
+
+    const parties = new Map<string, Party>();
+    const partyRepo = {
+        findByUserId: async (userId: string) => [...parties.values()].find(p => p.hasMember(userId)) ?? null,
+        setLobby: async () => { },
+    } as unknown as IPartyRepository;
+    const queueParty = new QueuePartyUseCase(
+        lobbyRepo, partyRepo, broadcaster, orchestrator, matchmaker, getContractInfo,
+        async userIds => new Map(userIds.map(id => [id, 1000n]))
+    );
+    const queue = (leaderId: string, memberIds: string[]) => {
+        const members = [leaderId, ...memberIds].map(id => new PartyMember(id, leaderId, id, id, new Date()));
+        parties.set(leaderId, new Party(leaderId, leaderId, leaderId, null, new Date(), members));
+        return queueParty.execute({ userId: leaderId, contractId: 'contract' });
+    };
+
+    return { repo, join, queue };
+}
+
+describe('Lobby joining under concurrency', () => {
+    it('should fill lobbies one at a time for hundreds of simultaneous joins', async () => {
+        const { repo, join } = setup();
+        const users = Array.from({ length: 300 }, (_, i) => `user-${i}`);
+
+        const results = await Promise.allSettled(users.map(userId => join(userId)));
+
+        expect(results.filter(r => r.status === 'rejected')).toEqual([]);
+        expect(repo.violations()).toEqual([]);
+        expect(repo.lobbies.size).toBe(300 / CONTRACT.maxPlayers);
+        for (const userId of users) {
+            expect(repo.seatsOf(userId)).toHaveLength(1);
+        }
+    });
+
+    it('should seat returning players once after their lobbies went to a match', async () => {
+        const { repo, join } = setup();
+        const users = Array.from({ length: 100 }, (_, i) => `user-${i}`);
+        await Promise.all(users.map(userId => join(userId)));
+        for (const lobby of repo.lobbies.values()) lobby.status = 'IN_GAME';
+
+        const results = await Promise.allSettled(users.flatMap(userId => [join(userId), join(userId)]));
+
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(users.length);
+        const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        expect(rejected.every(r => r.reason instanceof AlreadyInLobbyError)).toBe(true);
+        expect(repo.violations()).toEqual([]);
+        for (const userId of users) {
+            expect(repo.seatsOf(userId)).toHaveLength(2);
+        }
+    });
+
+    it('should seat a user once however many joins they fire across contracts', async () => {
+        const { repo, join } = setup();
+        const attempts = Array.from({ length: 100 }, (_, i) => `user-${i}`)
+            .flatMap(userId => ['a', 'b', 'c', 'a', 'b'].map(contractId => ({ userId, contractId })));
+
+        const results = await Promise.allSettled(attempts.map(a => join(a.userId, { contractId: a.contractId })));
+
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(100);
+        const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        expect(rejected.every(r => r.reason instanceof AlreadyInLobbyError)).toBe(true);
+        expect(repo.violations()).toEqual([]);
+    });
+
+    it('should keep parties together among simultaneous solo joins', async () => {
+        const { repo, join, queue } = setup();
+        const parties = Array.from({ length: 40 }, (_, i) => ({ leader: `leader-${i}`, members: [`a-${i}`, `b-${i}`] }));
+        const solos = Array.from({ length: 160 }, (_, i) => `solo-${i}`);
+
+        const results = await Promise.allSettled([
+            ...parties.map(p => queue(p.leader, p.members)),
+            ...solos.map(userId => join(userId)),
+        ]);
+
+        expect(results.filter(r => r.status === 'rejected')).toEqual([]);
+        for (const party of parties) {
+            const lobbies = new Set([party.leader, ...party.members].flatMap(id => repo.seatsOf(id)));
+            expect(lobbies.size).toBe(1);
+        }
+        // Parties of 3 can leave single seats behind, so only overfilling and double seats are checked
+        expect(repo.violations().filter(v => !v.endsWith('lobbies with room'))).toEqual([]);
+    });
+
+    it('should let only the free seats of a private lobby be taken', async () => {
+        const { repo, join } = setup();
+        await repo.addPlayers((await repo.create({ contractId: 'contract' }, 'K7WQ2M', 'host')).id, [{ userId: 'host', rating: 1500 }]);
+
+        const results = await Promise.allSettled(
+            Array.from({ length: 200 }, (_, i) => join(`guest-${i}`, { inviteCode: 'K7WQ2M' }))
+        );
+
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(CONTRACT.maxPlayers - 1);
+        const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        expect(rejected.every(r => r.reason instanceof LobbyFullError)).toBe(true);
+        expect(repo.violations()).toEqual([]);
+    });
+
+    it('should catch the races when joins are not serialized', async () => {
+        const { repo, join } = setup(null);
+
+        await Promise.allSettled(Array.from({ length: 300 }, (_, i) => join(`user-${i % 150}`)));
+
+        // Every kind of race shows up, so the tests above would notice each one
+        const violations = repo.violations();
+        expect(violations.some(v => /^lobby-\d+ has \d+ players$/.test(v))).toBe(true);
+        expect(violations.some(v => /^user-\d+ is in \d+ lobbies$/.test(v))).toBe(true);
+        expect(violations.some(v => v.endsWith('lobbies with room'))).toBe(true);
+    });
+});
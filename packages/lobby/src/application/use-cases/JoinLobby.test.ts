@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LobbyStatus } from '@prisma/client';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import type { Matchmaker } from '../services/Matchmaker.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { JoinLobbyUseCase } from './JoinLobby.js';
+
+// A private 2-3 player lobby behind invite code K7WQ2M, hosted by 'h'
+function setup(options: { status?: LobbyStatus; locked?: boolean; players?: string[] } = {}) {
+    const players = (options.players ?? ['h']).map(id => new LobbyPlayer(id, 'lobby', id, id, new Date()));
+    const load = () => new Lobby(
+        'lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 3, options.status ?? 'WAITING', new Date(),
+        [...players], 'K7WQ2M', 'h', options.locked ?? false
+    );
+
+    const lobbyRepo = {
+        findById: async () => load(),
+        findByInviteCode: async (code: string) => code === 'K7WQ2M' ? load() : null,
+        findByUserId: async (userId: string) => players.some(p => p.userId === userId) ? load() : null,
+        runLocked: vi.fn(async (_keys: string[], work: (locked: ILobbyRepository) => Promise<unknown>) => work(lobbyRepo)),
+        addPlayer: vi.fn(async (lobbyId: string, userId: string) => {
+            const player = new LobbyPlayer(userId, lobbyId, userId, userId, new Date());
+            players.push(player);
+            return player;
+        }),
+    } as unknown as ILobbyRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as LobbyBroadcaster;
+    const orchestrator = { playersChanged: vi.fn(async () => { }) } as unknown as LobbyOrchestrator;
+    const matchmaker = {
+        ratingsOf: async () => new Map(),
+        findLobby: vi.fn(),
+    } as unknown as Matchmaker;
+
+    const joinLobby = new JoinLobbyUseCase(
+        lobbyRepo,
+        broadcaster,
+        orchestrator,
+        matchmaker,
+        async contractId => contractId === 'contract' ? { entryFee: 100n, minPlayers: 2, maxPlayers: 3 } : null
+    );
+
+    return { players, lobbyRepo, matchmaker, orchestrator, joinLobby };
+}
+
+const join = { userId: 'a', displayName: 'A', inviteCode: 'K7WQ2M', userBalance: 100n };
+
+describe('JoinLobbyUseCase with an invite code', () => {
+    it('should seat the player in the private lobby under its contract', async () => {
+        const lobby = setup();
+
+        const result = await lobby.joinLobby.execute(join);
+
+        expect(result).toMatchObject({ lobbyId: 'lobby', currentPlayers: 2, isReady: true });
+        expect(lobby.players.map(p => p.userId)).toEqual(['h', 'a']);
+        expect(lobby.lobbyRepo.runLocked).toHaveBeenCalledWith(['contract:contract', 'user:a'], expect.any(Function));
+        expect(lobby.matchmaker.findLobby).not.toHaveBeenCalled();
+        expect(lobby.orchestrator.playersChanged).toHaveBeenCalledOnce();
+    });
+
+    it('should reject an unknown code', async () => {
+        const lobby = setup();
+
+        await expect(lobby.joinLobby.execute({ ...join, inviteCode: 'NOPE42' })).rejects.toThrow('not found');
+    });
+
+    it('should reject a locked lobby', async () => {
+        const lobby = setup({ locked: true });
+
+        await expect(lobby.joinLobby.execute(join)).rejects.toThrow('Lobby is locked by its host');
+        expect(lobby.lobbyRepo.addPlayer).not.toHaveBeenCalled();
+    });
+
+    it('should reject a lobby that is already starting', async () => {
+        const lobby = setup({ status: 'STARTING', players: ['h', 'b'] });
+
+        await expect(lobby.joinLobby.execute(join)).rejects.toThrow('Cannot join lobby in STARTING status');
+    });
+
+    it('should reject a full lobby', async () => {
+        const lobby = setup({ players: ['h', 'b', 'c'] });
+
+        await expect(lobby.joinLobby.execute(join)).rejects.toThrow('Lobby is full');
+    });
+});
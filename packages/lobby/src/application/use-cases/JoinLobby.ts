@@ -1,16 +1,25 @@
 import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import { LobbyLocks } from '../../domain/repositories/ILobbyRepository.js';
 import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import type { Matchmaker } from '../services/Matchmaker.js';
+import type { Lobby } from '../../domain/entities/Lobby.js';
 import {
     AlreadyInLobbyError,
     LobbyFullError,
+    LobbyLockedError,
     InsufficientFundsError,
     ContractNotFoundError,
+    ConflictError,
+    NotFoundError,
+    ValidationError,
 } from '@pluto/shared';
 
 export interface JoinLobbyInput {
     userId: string;
     displayName: string;
-    contractId: string;
+    contractId?: string; // Matches into a public lobby
+    inviteCode?: string; // Or joins a private lobby
     userBalance: bigint;
 }
 
@@ -21,15 +30,18 @@ export interface JoinLobbyResult {
     minPlayers: number;
     maxPlayers: number;
     isReady: boolean;
+    rating: number | null; // Player's rating for the game
 }
 
 /**
- * Join a lobby for a specific contract
+ * Join a lobby for a specific contract, or a private lobby by its invite code
  */
 export class JoinLobbyUseCase {
     constructor(
         private lobbyRepository: ILobbyRepository,
         private broadcaster: LobbyBroadcaster,
+        private orchestrator: LobbyOrchestrator,
+        private matchmaker: Matchmaker,
         private getContractInfo: (contractId: string) => Promise<{
             entryFee: bigint;
             minPlayers: number;
@@ -38,16 +50,17 @@ export class JoinLobbyUseCase {
     ) { }
 
     async execute(input: JoinLobbyInput): Promise<JoinLobbyResult> {
-        // 1. Check if user is already in a lobby
-        const existingLobby = await this.lobbyRepository.findByUserId(input.userId);
-        if (existingLobby) {
-            throw new AlreadyInLobbyError();
+        // 1. An invite code picks the private lobby, and with it the contract
+        const invited = input.inviteCode ? await this.findPrivateLobby(this.lobbyRepository, input.inviteCode) : null;
+        const contractId = invited?.contractId ?? input.contractId;
+        if (!contractId) {
+            throw new ValidationError('Either contractId or inviteCode is required');
         }
 
         // 2. Get contract info
-        const contract = await this.getContractInfo(input.contractId);
+        const contract = await this.getContractInfo(contractId);
         if (!contract) {
-            throw new ContractNotFoundError(input.contractId);
+            throw new ContractNotFoundError(contractId);
         }
 
         // 3. Check user has sufficient balance
@@ -55,37 +68,54 @@ export class JoinLobbyUseCase {
             throw new InsufficientFundsError(contract.entryFee, input.userBalance);
         }
 
-        // 4. Get or create a waiting lobby
-        const lobby = await this.lobbyRepository.getOrCreateWaitingLobby(input.contractId);
+        // 4. Rate the player for the game
+        const ratings = await this.matchmaker.ratingsOf(contractId, [input.userId]);
+        const rating = ratings.get(input.userId) ?? null;
 
-        // 5. Check if lobby is full
-        if (lobby.isFull) {
-            throw new LobbyFullError();
-        }
+        // 5. Seat the player under the contract's and the user's locks, so the checks hold until the insert
+        const { lobby, player } = await this.lobbyRepository.runLocked(
+            [LobbyLocks.contract(contractId), LobbyLocks.user(input.userId)],
+            async lobbyRepository => {
+                // Check if user is already in a lobby
+                const existingLobby = await lobbyRepository.findByUserId(input.userId);
+                if (existingLobby) {
+                    throw new AlreadyInLobbyError();
+                }
+
+                // Get the private lobby, or match the player into a public one near their rating
+                const lobby = invited
+                    ? await this.findPrivateLobby(lobbyRepository, input.inviteCode!)
+                    : await this.matchmaker.findLobby(contractId, 1, rating, lobbyRepository);
 
-        // 6. Add player to lobby
-        const player = await this.lobbyRepository.addPlayer(lobby.id, input.userId);
+                // Check if lobby is full
+                if (lobby.isFull) {
+                    throw new LobbyFullError();
+                }
 
-        // 7. Broadcast player joined event
+                // Add player to lobby
+                const player = await lobbyRepository.addPlayer(lobby.id, input.userId, false, rating);
+                return { lobby, player };
+            }
+        );
+
+        // 6. Broadcast player joined event
         this.broadcaster.broadcast(lobby.id, {
             type: 'player_joined',
             player: {
                 id: player.id,
                 displayName: input.displayName,
                 joinedAt: player.joinedAt,
+                isBot: false,
+                rating,
             },
         });
 
-        // 8. Check if lobby is now ready to start
+        // 7. Check if lobby is now ready to start
         const updatedLobby = await this.lobbyRepository.findById(lobby.id);
         const isReady = updatedLobby?.isReady ?? false;
 
-        if (isReady && updatedLobby?.currentPlayers === updatedLobby?.maxPlayers) {
-            // Lobby is full, broadcast starting
-            this.broadcaster.broadcast(lobby.id, {
-                type: 'lobby_starting',
-                countdown: 5,
-            });
+        if (updatedLobby) {
+            await this.orchestrator.playersChanged(updatedLobby);
         }
 
         return {
@@ -95,6 +125,24 @@ export class JoinLobbyUseCase {
             minPlayers: contract.minPlayers,
             maxPlayers: contract.maxPlayers,
             isReady,
+            rating,
         };
     }
+
+    /**
+     * Find the private lobby behind an invite code, if it's still open to new players
+     */
+    private async findPrivateLobby(lobbyRepository: ILobbyRepository, inviteCode: string): Promise<Lobby> {
+        const lobby = await lobbyRepository.findByInviteCode(inviteCode);
+        if (!lobby || lobby.status === 'CLOSED') {
+            throw new NotFoundError('Lobby for invite code', inviteCode);
+        }
+        if (lobby.status !== 'WAITING') {
+            throw new ConflictError(`Cannot join lobby in ${lobby.status} status`);
+        }
+        if (lobby.isLocked) {
+            throw new LobbyLockedError();
+        }
+        return lobby;
+    }
 }
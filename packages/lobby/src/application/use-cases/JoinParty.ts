@@ -0,0 +1,34 @@
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import type { Party } from '../../domain/entities/Party.js';
+import { ConflictError, NotFoundError } from '@pluto/shared';
+
+export interface JoinPartyInput {
+    userId: string;
+    inviteCode: string;
+}
+
+/**
+ * Join a party by its invite code
+ */
+export class JoinPartyUseCase {
+    constructor(private partyRepository: IPartyRepository) { }
+
+    async execute(input: JoinPartyInput): Promise<Party> {
+        // 1. One party per user
+        const existingParty = await this.partyRepository.findByUserId(input.userId);
+        if (existingParty) {
+            throw new ConflictError('User is already in a party');
+        }
+
+        // 2. Find the party
+        const party = await this.partyRepository.findByInviteCode(input.inviteCode);
+        if (!party) {
+            throw new NotFoundError('Party for invite code', input.inviteCode);
+        }
+
+        // 3. Add the member
+        await this.partyRepository.addMember(party.id, input.userId);
+
+        return (await this.partyRepository.findById(party.id))!;
+    }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LobbyStatus } from '@prisma/client';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { KickPlayerUseCase } from './KickPlayer.js';
+
+// A private lobby hosted by 'h' with 'a' and 'b' waiting
+function setup(status: LobbyStatus = 'WAITING') {
+    const players = ['h', 'a', 'b'].map(id => new LobbyPlayer(id, 'lobby', id, id, new Date()));
+    const load = () => new Lobby(
+        'lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 4, status, new Date(), [...players], 'K7WQ2M', 'h'
+    );
+
+    const lobbyRepo = {
+        findById: async () => load(),
+        removePlayer: vi.fn(async (_lobbyId: string, userId: string) => {
+            players.splice(players.findIndex(p => p.userId === userId), 1);
+        }),
+    } as unknown as ILobbyRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as LobbyBroadcaster;
+    const orchestrator = {
+        playerLeaving: vi.fn(async () => { }),
+        playersChanged: vi.fn(async () => { }),
+    } as unknown as LobbyOrchestrator;
+
+    return {
+        players,
+        lobbyRepo,
+        broadcaster,
+        orchestrator,
+        kickPlayer: new KickPlayerUseCase(lobbyRepo, broadcaster, orchestrator),
+    };
+}
+
+describe('KickPlayerUseCase', () => {
+    it('should remove the player and tell the lobby', async () => {
+        const lobby = setup();
+
+        await lobby.kickPlayer.execute({ lobbyId: 'lobby', hostId: 'h', userId: 'a' });
+
+        expect(lobby.players.map(p => p.userId)).toEqual(['h', 'b']);
+        expect(lobby.orchestrator.playerLeaving).toHaveBeenCalledWith('lobby');
+        expect(lobby.broadcaster.broadcast).toHaveBeenCalledWith('lobby', { type: 'player_kicked', playerId: 'a' });
+        expect(lobby.orchestrator.playersChanged).toHaveBeenCalledOnce();
+    });
+
+    it('should only let the host kick', async () => {
+        const lobby = setup();
+
+        await expect(lobby.kickPlayer.execute({ lobbyId: 'lobby', hostId: 'a', userId: 'b' }))
+            .rejects.toThrow('Only the host of a private lobby can kick players');
+        expect(lobby.lobbyRepo.removePlayer).not.toHaveBeenCalled();
+    });
+
+    it('should not let the host kick themselves', async () => {
+        const lobby = setup();
+
+        await expect(lobby.kickPlayer.execute({ lobbyId: 'lobby', hostId: 'h', userId: 'h' }))
+            .rejects.toThrow('The host cannot kick themselves');
+    });
+
+    it.each<LobbyStatus>(['IN_GAME', 'CLOSED'])('should refuse to kick from a lobby that is %s', async status => {
+        const lobby = setup(status);
+
+        await expect(lobby.kickPlayer.execute({ lobbyId: 'lobby', hostId: 'h', userId: 'a' }))
+            .rejects.toThrow(`Cannot kick players from lobby in ${status} status`);
+        expect(lobby.orchestrator.playerLeaving).not.toHaveBeenCalled();
+        expect(lobby.lobbyRepo.removePlayer).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,60 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { ConflictError, ForbiddenError, LobbyNotFoundError, NotFoundError, ValidationError } from '@pluto/shared';
+
+export interface KickPlayerInput {
+    lobbyId: string;
+    hostId: string; // User asking, who must host the lobby
+    userId: string; // Player to remove
+}
+
+/**
+ * Remove a player from a private lobby, by its host
+ * The player can join again with the invite code unless the lobby is locked.
+ */
+export class KickPlayerUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private broadcaster: LobbyBroadcaster,
+        private orchestrator: LobbyOrchestrator
+    ) { }
+
+    async execute(input: KickPlayerInput): Promise<{ success: boolean; lobbyId: string }> {
+        // 1. Only the host can kick, and not themselves
+        const lobby = await this.lobbyRepository.findById(input.lobbyId);
+        if (!lobby) {
+            throw new LobbyNotFoundError(input.lobbyId);
+        }
+        if (!lobby.isHost(input.hostId)) {
+            throw new ForbiddenError('Only the host of a private lobby can kick players');
+        }
+        if (lobby.status !== 'WAITING' && lobby.status !== 'STARTING') {
+            throw new ConflictError(`Cannot kick players from lobby in ${lobby.status} status`);
+        }
+        if (input.userId === input.hostId) {
+            throw new ValidationError('The host cannot kick themselves, leave the lobby instead');
+        }
+        if (!lobby.hasPlayer(input.userId)) {
+            throw new NotFoundError('Player in lobby', input.userId);
+        }
+
+        // 2. Cancel any pending start, refused once the game is being started
+        await this.orchestrator.playerLeaving(lobby.id);
+
+        // 3. Remove the player and tell the lobby
+        await this.lobbyRepository.removePlayer(lobby.id, input.userId);
+        this.broadcaster.broadcast(lobby.id, {
+            type: 'player_kicked',
+            playerId: input.userId,
+        });
+
+        // 4. The lobby may still have enough players to start
+        const updatedLobby = await this.lobbyRepository.findById(lobby.id);
+        if (updatedLobby) {
+            await this.orchestrator.playersChanged(updatedLobby);
+        }
+
+        return { success: true, lobbyId: lobby.id };
+    }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { LeaveLobbyUseCase } from './LeaveLobby.js';
+
+// A private lobby hosted by 'h', joined by 'b' and then 'a'
+function setup(playerIds = ['h', 'b', 'a']) {
+    const players = playerIds.map((id, i) => new LobbyPlayer(id, 'lobby', id, id, new Date(1000 * i)));
+    let hostId: string | null = 'h';
+    const load = () => new Lobby(
+        'lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 4, 'WAITING', new Date(), [...players], 'K7WQ2M', hostId
+    );
+
+    const lobbyRepo = {
+        findById: async () => load(),
+        findByUserId: async (userId: string) => players.some(p => p.userId === userId) ? load() : null,
+        removePlayer: async (_lobbyId: string, userId: string) => {
+            players.splice(players.findIndex(p => p.userId === userId), 1);
+        },
+        updateHost: vi.fn(async (_lobbyId: string, id: string | null) => { hostId = id; }),
+        updateStatus: vi.fn(async () => { }),
+    } as unknown as ILobbyRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as LobbyBroadcaster;
+    const orchestrator = {
+        playerLeaving: vi.fn(async () => { }),
+        playersChanged: vi.fn(async () => { }),
+    } as unknown as LobbyOrchestrator;
+
+    return { lobbyRepo, broadcaster, orchestrator, leaveLobby: new LeaveLobbyUseCase(lobbyRepo, broadcaster, orchestrator) };
+}
+
+describe('LeaveLobbyUseCase', () => {
+    it('should hand a private lobby to whoever has waited longest when its host leaves', async () => {
+        const lobby = setup();
+
+        await lobby.leaveLobby.execute({ userId: 'h' });
+
+        expect(lobby.lobbyRepo.updateHost).toHaveBeenCalledWith('lobby', 'b');
+        expect(lobby.broadcaster.broadcast).toHaveBeenCalledWith('lobby', { type: 'host_changed', hostId: 'b' });
+        expect(lobby.orchestrator.playersChanged).toHaveBeenCalledOnce();
+    });
+
+    it('should keep the host when another player leaves', async () => {
+        const lobby = setup();
+
+        await lobby.leaveLobby.execute({ userId: 'a' });
+
+        expect(lobby.lobbyRepo.updateHost).not.toHaveBeenCalled();
+        expect(lobby.broadcaster.broadcast).toHaveBeenCalledWith('lobby', { type: 'player_left', playerId: 'a' });
+    });
+
+    it('should close the lobby when the host was the last player', async () => {
+        const lobby = setup(['h']);
+
+        await lobby.leaveLobby.execute({ userId: 'h' });
+
+        expect(lobby.lobbyRepo.updateStatus).toHaveBeenCalledWith('lobby', 'CLOSED');
+        expect(lobby.lobbyRepo.updateHost).not.toHaveBeenCalled();
+        expect(lobby.broadcaster.broadcast).toHaveBeenCalledWith('lobby', { type: 'lobby_closed', reason: 'All players left' });
+    });
+});
@@ -1,5 +1,6 @@
 import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
 import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
 import { NotFoundError } from '@pluto/shared';
 
 export interface LeaveLobbyInput {
@@ -17,7 +18,8 @@ export interface LeaveLobbyResult {
 export class LeaveLobbyUseCase {
     constructor(
         private lobbyRepository: ILobbyRepository,
-        private broadcaster: LobbyBroadcaster
+        private broadcaster: LobbyBroadcaster,
+        private orchestrator: LobbyOrchestrator
     ) { }
 
     async execute(input: LeaveLobbyInput): Promise<LeaveLobbyResult> {
@@ -27,16 +29,19 @@ export class LeaveLobbyUseCase {
             throw new NotFoundError('Lobby for user', input.userId);
         }
 
-        // 2. Remove player from lobby
+        // 2. Cancel any pending start, refused once the game is being started
+        await this.orchestrator.playerLeaving(lobby.id);
+
+        // 3. Remove player from lobby
         await this.lobbyRepository.removePlayer(lobby.id, input.userId);
 
-        // 3. Broadcast player left event
+        // 4. Broadcast player left event
         this.broadcaster.broadcast(lobby.id, {
             type: 'player_left',
             playerId: input.userId,
         });
 
-        // 4. If lobby is empty, close it
+        // 5. If lobby is empty, close it; otherwise it may still have enough players to start
         const updatedLobby = await this.lobbyRepository.findById(lobby.id);
         if (updatedLobby && updatedLobby.currentPlayers === 0) {
             await this.lobbyRepository.updateStatus(lobby.id, 'CLOSED');
@@ -44,6 +49,16 @@ export class LeaveLobbyUseCase {
                 type: 'lobby_closed',
                 reason: 'All players left',
             });
+        } else if (updatedLobby) {
+            // A private lobby whose host left is handed to whoever has waited longest
+            if (lobby.isHost(input.userId)) {
+                const hostId = updatedLobby.passHost();
+                await this.lobbyRepository.updateHost(lobby.id, hostId);
+                if (hostId) {
+                    this.broadcaster.broadcast(lobby.id, { type: 'host_changed', hostId });
+                }
+            }
+            await this.orchestrator.playersChanged(updatedLobby);
         }
 
         return {
@@ -0,0 +1,33 @@
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import { NotFoundError } from '@pluto/shared';
+
+export interface LeavePartyInput {
+    userId: string;
+}
+
+/**
+ * Leave the user's party
+ * A leader leaving hands the party to the longest-standing member; the last one out disbands it.
+ */
+export class LeavePartyUseCase {
+    constructor(private partyRepository: IPartyRepository) { }
+
+    async execute(input: LeavePartyInput): Promise<{ success: boolean; partyId: string }> {
+        const party = await this.partyRepository.findByUserId(input.userId);
+        if (!party) {
+            throw new NotFoundError('Party for user', input.userId);
+        }
+
+        if (party.size === 1) {
+            await this.partyRepository.delete(party.id);
+            return { success: true, partyId: party.id };
+        }
+
+        await this.partyRepository.removeMember(party.id, input.userId);
+        if (party.isLeader(input.userId)) {
+            await this.partyRepository.updateLeader(party.id, party.passLeadership()!);
+        }
+
+        return { success: true, partyId: party.id };
+    }
+}
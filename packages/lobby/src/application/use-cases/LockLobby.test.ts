@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LobbyStatus } from '@prisma/client';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { LockLobbyUseCase } from './LockLobby.js';
+
+// An unlocked private lobby hosted by 'h' with 'a' waiting
+function setup(status: LobbyStatus = 'WAITING') {
+    const players = ['h', 'a'].map(id => new LobbyPlayer(id, 'lobby', id, id, new Date()));
+    const lobbyRepo = {
+        findById: async () => new Lobby(
+            'lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 4, status, new Date(), players, 'K7WQ2M', 'h'
+        ),
+        setLocked: vi.fn(async () => { }),
+    } as unknown as ILobbyRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as LobbyBroadcaster;
+
+    return { lobbyRepo, broadcaster, lockLobby: new LockLobbyUseCase(lobbyRepo, broadcaster) };
+}
+
+describe('LockLobbyUseCase', () => {
+    it('should lock the lobby and tell its players', async () => {
+        const lobby = setup();
+
+        const result = await lobby.lockLobby.execute({ lobbyId: 'lobby', hostId: 'h', locked: true });
+
+        expect(result).toEqual({ lobbyId: 'lobby', isLocked: true });
+        expect(lobby.lobbyRepo.setLocked).toHaveBeenCalledWith('lobby', true);
+        expect(lobby.broadcaster.broadcast).toHaveBeenCalledWith('lobby', { type: 'lobby_locked' });
+    });
+
+    it('should leave an already unlocked lobby alone', async () => {
+        const lobby = setup();
+
+        await lobby.lockLobby.execute({ lobbyId: 'lobby', hostId: 'h', locked: false });
+
+        expect(lobby.lobbyRepo.setLocked).not.toHaveBeenCalled();
+        expect(lobby.broadcaster.broadcast).not.toHaveBeenCalled();
+    });
+
+    it('should only let the host lock', async () => {
+        const lobby = setup();
+
+        await expect(lobby.lockLobby.execute({ lobbyId: 'lobby', hostId: 'a', locked: true }))
+            .rejects.toThrow('Only the host of a private lobby can lock it');
+    });
+
+    it.each<LobbyStatus>(['IN_GAME', 'CLOSED'])('should refuse to lock a lobby that is %s', async status => {
+        const lobby = setup(status);
+
+        await expect(lobby.lockLobby.execute({ lobbyId: 'lobby', hostId: 'h', locked: true }))
+            .rejects.toThrow(`Cannot lock lobby in ${status} status`);
+        expect(lobby.lobbyRepo.setLocked).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,40 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import { ConflictError, ForbiddenError, LobbyNotFoundError } from '@pluto/shared';
+
+export interface LockLobbyInput {
+    lobbyId: string;
+    hostId: string; // User asking, who must host the lobby
+    locked: boolean;
+}
+
+/**
+ * Stop or allow new players joining a private lobby, by its host
+ */
+export class LockLobbyUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private broadcaster: LobbyBroadcaster
+    ) { }
+
+    async execute(input: LockLobbyInput): Promise<{ lobbyId: string; isLocked: boolean }> {
+        const lobby = await this.lobbyRepository.findById(input.lobbyId);
+        if (!lobby) {
+            throw new LobbyNotFoundError(input.lobbyId);
+        }
+        if (!lobby.isHost(input.hostId)) {
+            throw new ForbiddenError('Only the host of a private lobby can lock it');
+        }
+        if (lobby.status !== 'WAITING' && lobby.status !== 'STARTING') {
+            throw new ConflictError(`Cannot lock lobby in ${lobby.status} status`);
+        }
+
+        if (lobby.isLocked !== input.locked) {
+            lobby.setLocked(input.locked);
+            await this.lobbyRepository.setLocked(lobby.id, lobby.isLocked);
+            this.broadcaster.broadcast(lobby.id, { type: lobby.isLocked ? 'lobby_locked' : 'lobby_unlocked' });
+        }
+
+        return { lobbyId: lobby.id, isLocked: lobby.isLocked };
+    }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { Matchmaker } from '../services/Matchmaker.js';
+import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { Party, PartyMember } from '../../domain/entities/Party.js';
+import { QueuePartyUseCase } from './QueueParty.js';
+
+// A party of three led by 'a', queueing for a 2-4 player contract with one player already waiting
+function setup(balances: Record<string, bigint> = { a: 100n, b: 100n, c: 100n }) {
+    const members = ['a', 'b', 'c'].map(id => new PartyMember(id, 'party', id, id, new Date()));
+    const party = new Party('party', 'a', 'K7WQ2M', null, new Date(), members);
+
+    const players = [new LobbyPlayer('w', 'lobby', 'w', 'w', new Date())];
+    const load = () => new Lobby('lobby', 'contract', 'Classic', 'DiceRoyale', 100n, 2, 4, 'WAITING', new Date(), [...players]);
+
+    const lobbyRepo = {
+        findById: async () => load(),
+        runLocked: async (_keys: string[], work: (locked: ILobbyRepository) => Promise<unknown>) => work(lobbyRepo),
+        findByUserId: async (userId: string) => players.some(p => p.userId === userId) ? load() : null,
+        getOrCreateWaitingLobby: vi.fn(async () => load()),
+        addPlayers: async (lobbyId: string, seated: Array<{ userId: string; rating: number | null }>) => {
+            const added = seated.map(({ userId, rating }) => new LobbyPlayer(userId, lobbyId, userId, userId, new Date(), false, rating));
+            players.push(...added);
+            return added;
+        },
+    } as unknown as ILobbyRepository;
+    const partyRepo = {
+        findByUserId: async (userId: string) => party.hasMember(userId) ? party : null,
+        setLobby: vi.fn(async () => { }),
+    } as unknown as IPartyRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as LobbyBroadcaster;
+    const orchestrator = { playersChanged: vi.fn(async () => { }) } as unknown as LobbyOrchestrator;
+
+    const queueParty = new QueuePartyUseCase(
+        lobbyRepo,
+        partyRepo,
+        broadcaster,
+        orchestrator,
+        new Matchmaker(lobbyRepo, async (_contractId, userIds) => new Map(userIds.map(id => [id, 1500]))),
+        async () => ({ entryFee: 100n, minPlayers: 2, maxPlayers: 4 }),
+        async userIds => new Map(userIds.map(id => [id, balances[id] ?? 0n]))
+    );
+
+    return { queueParty, players, lobbyRepo, orchestrator };
+}
+
+describe('QueuePartyUseCase', () => {
+    it('should seat the whole party in one lobby', async () => {
+        const lobby = setup();
+
+        const result = await lobby.queueParty.execute({ userId: 'a', contractId: 'contract' });
+
+        expect(result).toMatchObject({ lobbyId: 'lobby', partyId: 'party', currentPlayers: 4, isReady: true });
+        expect(lobby.players.map(p => p.userId)).toEqual(['w', 'a', 'b', 'c']);
+        expect(lobby.lobbyRepo.getOrCreateWaitingLobby).toHaveBeenCalledWith('contract', 3, expect.any(Function));
+        expect(lobby.orchestrator.playersChanged).toHaveBeenCalledOnce();
+    });
+
+    it('should queue nobody when a member cannot afford the entry fee', async () => {
+        const lobby = setup({ a: 100n, b: 100n, c: 99n });
+
+        await expect(lobby.queueParty.execute({ userId: 'a', contractId: 'contract' }))
+            .rejects.toThrow('Insufficient funds: required 100, available 99');
+        expect(lobby.players).toHaveLength(1);
+    });
+
+    it('should only let the leader queue the party', async () => {
+        const lobby = setup();
+
+        await expect(lobby.queueParty.execute({ userId: 'b', contractId: 'contract' }))
+            .rejects.toThrow('Only the party leader can queue the party');
+        expect(lobby.players).toHaveLength(1);
+    });
+});
@@ -0,0 +1,138 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import { LobbyLocks } from '../../domain/repositories/ILobbyRepository.js';
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import type { LobbyBroadcaster } from '../../infrastructure/sse/LobbyBroadcaster.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import type { Matchmaker } from '../services/Matchmaker.js';
+import {
+    ConflictError,
+    ContractNotFoundError,
+    ForbiddenError,
+    InsufficientFundsError,
+    NotFoundError,
+    ValidationError,
+} from '@pluto/shared';
+
+export interface QueuePartyInput {
+    userId: string; // Party leader
+    contractId: string;
+}
+
+export interface QueuePartyResult {
+    lobbyId: string;
+    partyId: string;
+    currentPlayers: number;
+    minPlayers: number;
+    maxPlayers: number;
+    isReady: boolean;
+}
+
+/**
+ * Queue a whole party for a contract
+ * Every member must be free to join and afford the entry fee; they are then placed in the same
+ * public lobby together, matched on the members' average rating, or the party isn't queued at all.
+ */
+export class QueuePartyUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private partyRepository: IPartyRepository,
+        private broadcaster: LobbyBroadcaster,
+        private orchestrator: LobbyOrchestrator,
+        private matchmaker: Matchmaker,
+        private getContractInfo: (contractId: string) => Promise<{
+            entryFee: bigint;
+            minPlayers: number;
+            maxPlayers: number;
+        } | null>,
+        private getUserBalances: (userIds: string[]) => Promise<Map<string, bigint>>
+    ) { }
+
+    async execute(input: QueuePartyInput): Promise<QueuePartyResult> {
+        // 1. Only the leader queues the party
+        const party = await this.partyRepository.findByUserId(input.userId);
+        if (!party) {
+            throw new NotFoundError('Party for user', input.userId);
+        }
+        if (!party.isLeader(input.userId)) {
+            throw new ForbiddenError('Only the party leader can queue the party');
+        }
+
+        // 2. Get contract info, the party must fit in one lobby
+        const contract = await this.getContractInfo(input.contractId);
+        if (!contract) {
+            throw new ContractNotFoundError(input.contractId);
+        }
+        if (party.size > contract.maxPlayers) {
+            throw new ValidationError(
+                `A party of ${party.size} doesn't fit a lobby of at most ${contract.maxPlayers} players`
+            );
+        }
+
+        // 3. Check every member has sufficient balance
+        const memberIds = party.members.map(m => m.userId);
+        const balances = await this.getUserBalances(memberIds);
+        for (const member of party.members) {
+            const balance = balances.get(member.userId) ?? 0n;
+            if (balance < contract.entryFee) {
+                throw new InsufficientFundsError(contract.entryFee, balance);
+            }
+        }
+
+        // 4. Rate the party by its members' average rating
+        const ratings = await this.matchmaker.ratingsOf(input.contractId, memberIds);
+        const rated = memberIds.map(id => ratings.get(id)).filter((r): r is number => r !== undefined);
+        const partyRating = rated.length > 0
+            ? Math.round(rated.reduce((total, r) => total + r, 0) / rated.length)
+            : null;
+
+        // 5. Under the contract's and every member's locks, match the party into a lobby with a seat
+        //    for each member and seat them all at once
+        const { lobby, players } = await this.lobbyRepository.runLocked(
+            [LobbyLocks.contract(input.contractId), ...memberIds.map(LobbyLocks.user)],
+            async lobbyRepository => {
+                for (const member of party.members) {
+                    if (await lobbyRepository.findByUserId(member.userId)) {
+                        throw new ConflictError(`Party member ${member.displayName} is already in a lobby`);
+                    }
+                }
+
+                const lobby = await this.matchmaker.findLobby(input.contractId, party.size, partyRating, lobbyRepository);
+                const players = await lobbyRepository.addPlayers(
+                    lobby.id,
+                    memberIds.map(userId => ({ userId, rating: ratings.get(userId) ?? null }))
+                );
+                return { lobby, players };
+            }
+        );
+        await this.partyRepository.setLobby(party.id, lobby.id);
+
+        // 6. Broadcast player joined events
+        for (const player of players) {
+            this.broadcaster.broadcast(lobby.id, {
+                type: 'player_joined',
+                player: {
+                    id: player.id,
+                    displayName: player.displayName,
+                    joinedAt: player.joinedAt,
+                    isBot: false,
+                    rating: player.rating,
+                },
+            });
+        }
+
+        // 7. Check if lobby is now ready to start
+        const updatedLobby = await this.lobbyRepository.findById(lobby.id);
+        if (updatedLobby) {
+            await this.orchestrator.playersChanged(updatedLobby);
+        }
+
+        return {
+            lobbyId: lobby.id,
+            partyId: party.id,
+            currentPlayers: updatedLobby?.currentPlayers ?? players.length,
+            minPlayers: contract.minPlayers,
+            maxPlayers: contract.maxPlayers,
+            isReady: updatedLobby?.isReady ?? false,
+        };
+    }
+}
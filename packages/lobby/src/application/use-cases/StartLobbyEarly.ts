@@ -0,0 +1,38 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyOrchestrator } from '../services/LobbyOrchestrator.js';
+import { ConflictError, ForbiddenError, LobbyNotFoundError, LobbyNotReadyError } from '@pluto/shared';
+
+export interface StartLobbyEarlyInput {
+    lobbyId: string;
+    hostId: string; // User asking, who must host the lobby
+}
+
+/**
+ * Start a private lobby's ready check before it's full, by its host
+ */
+export class StartLobbyEarlyUseCase {
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private orchestrator: LobbyOrchestrator
+    ) { }
+
+    async execute(input: StartLobbyEarlyInput): Promise<{ success: boolean; lobbyId: string }> {
+        const lobby = await this.lobbyRepository.findById(input.lobbyId);
+        if (!lobby) {
+            throw new LobbyNotFoundError(input.lobbyId);
+        }
+        if (!lobby.isHost(input.hostId)) {
+            throw new ForbiddenError('Only the host of a private lobby can start it');
+        }
+        if (lobby.status !== 'WAITING') {
+            throw new ConflictError(`Cannot start lobby in ${lobby.status} status`);
+        }
+        if (!lobby.isReady) {
+            throw new LobbyNotReadyError(lobby.currentPlayers, lobby.minPlayers);
+        }
+
+        await this.orchestrator.startEarly(lobby);
+
+        return { success: true, lobbyId: lobby.id };
+    }
+}
@@ -2,6 +2,8 @@ import type { LobbyStatus } from '@prisma/client';
 
 /**
  * Lobby domain entity
+ * Public lobbies are matched by contract; private ones are joined by invite code and run by a host,
+ * who can kick players, lock the lobby and start it early.
  */
 export class Lobby {
     constructor(
@@ -14,13 +16,28 @@ export class Lobby {
         public readonly maxPlayers: number,
         private _status: LobbyStatus,
         public readonly createdAt: Date,
-        private _players: LobbyPlayer[]
+        private _players: LobbyPlayer[],
+        public readonly inviteCode: string | null = null,
+        private _hostId: string | null = null,
+        private _isLocked: boolean = false
     ) { }
 
     get status(): LobbyStatus {
         return this._status;
     }
 
+    get hostId(): string | null {
+        return this._hostId;
+    }
+
+    get isLocked(): boolean {
+        return this._isLocked;
+    }
+
+    get isPrivate(): boolean {
+        return this.inviteCode !== null;
+    }
+
     get players(): LobbyPlayer[] {
         return [...this._players];
     }
@@ -37,6 +54,29 @@ export class Lobby {
         return this._players.length >= this.minPlayers;
     }
 
+    /**
+     * Average rating of the rated players, matched against by newcomers; null when nobody is rated
+     */
+    get rating(): number | null {
+        const ratings = this._players.map(p => p.rating).filter((r): r is number => r !== null);
+        if (ratings.length === 0) return null;
+        return Math.round(ratings.reduce((total, r) => total + r, 0) / ratings.length);
+    }
+
+    /**
+     * Whether anyone but bots is waiting - bots never fill a lobby on their own
+     */
+    get hasHumanPlayers(): boolean {
+        return this._players.some(p => !p.isBot);
+    }
+
+    /**
+     * Check if a user runs this lobby - public lobbies have no host
+     */
+    isHost(userId: string): boolean {
+        return this._hostId === userId;
+    }
+
     /**
      * Check if a user is already in this lobby
      */
@@ -57,6 +97,9 @@ export class Lobby {
         if (this._status !== 'WAITING') {
             throw new Error(`Cannot join lobby in ${this._status} status`);
         }
+        if (this._isLocked) {
+            throw new Error('Lobby is locked');
+        }
         this._players.push(player);
     }
 
@@ -69,6 +112,29 @@ export class Lobby {
         return this._players.splice(index, 1)[0];
     }
 
+    /**
+     * Stop or allow new players joining a private lobby
+     */
+    setLocked(locked: boolean): void {
+        if (!this.isPrivate) {
+            throw new Error('Only private lobbies can be locked');
+        }
+        this._isLocked = locked;
+    }
+
+    /**
+     * Hand a private lobby to the player who has waited longest, e.g. when its host leaves
+     * @returns the new host, or null when nobody is left
+     */
+    passHost(): string | null {
+        if (!this.isPrivate) return null;
+        const [next] = this._players
+            .filter(p => p.userId !== this._hostId)
+            .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+        this._hostId = next?.userId ?? null;
+        return this._hostId;
+    }
+
     /**
      * Mark lobby as starting
      */
@@ -79,6 +145,16 @@ export class Lobby {
         this._status = 'STARTING';
     }
 
+    /**
+     * Return a starting lobby to waiting, e.g. when a player leaves during the countdown
+     */
+    reopen(): void {
+        if (this._status !== 'STARTING') {
+            throw new Error(`Cannot reopen lobby in ${this._status} status`);
+        }
+        this._status = 'WAITING';
+    }
+
     /**
      * Mark lobby as in game
      */
@@ -104,6 +180,10 @@ export class Lobby {
             currentPlayers: this.currentPlayers,
             minPlayers: this.minPlayers,
             maxPlayers: this.maxPlayers,
+            rating: this.rating,
+            isPrivate: this.isPrivate,
+            hostId: this._hostId,
+            isLocked: this._isLocked,
             players: this._players.map(p => p.toJSON()),
             createdAt: this.createdAt.toISOString(),
         };
@@ -119,7 +199,9 @@ export class LobbyPlayer {
         public readonly lobbyId: string,
         public readonly userId: string,
         public readonly displayName: string,
-        public readonly joinedAt: Date
+        public readonly joinedAt: Date,
+        public readonly isBot: boolean = false,
+        public readonly rating: number | null = null // Rating for the game on joining
     ) { }
 
     toJSON() {
@@ -128,6 +210,8 @@ export class LobbyPlayer {
             userId: this.userId,
             displayName: this.displayName,
             joinedAt: this.joinedAt.toISOString(),
+            isBot: this.isBot,
+            rating: this.rating,
         };
     }
 }
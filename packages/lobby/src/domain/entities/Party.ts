@@ -0,0 +1,81 @@
+/**
+ * Party domain entity
+ * Players queueing together: the leader queues the party for a contract and every member is placed
+ * in the same lobby, or none of them is.
+ */
+export class Party {
+    constructor(
+        public readonly id: string,
+        private _leaderId: string,
+        public readonly inviteCode: string,
+        public readonly lobbyId: string | null, // Lobby the party was last queued into
+        public readonly createdAt: Date,
+        private _members: PartyMember[]
+    ) { }
+
+    get leaderId(): string {
+        return this._leaderId;
+    }
+
+    get members(): PartyMember[] {
+        return [...this._members];
+    }
+
+    get size(): number {
+        return this._members.length;
+    }
+
+    isLeader(userId: string): boolean {
+        return this._leaderId === userId;
+    }
+
+    hasMember(userId: string): boolean {
+        return this._members.some(m => m.userId === userId);
+    }
+
+    /**
+     * Hand the party to the member who has been in it longest, e.g. when its leader leaves
+     * @returns the new leader, or null when nobody is left
+     */
+    passLeadership(): string | null {
+        const [next] = this._members
+            .filter(m => m.userId !== this._leaderId)
+            .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+        if (!next) return null;
+        this._leaderId = next.userId;
+        return this._leaderId;
+    }
+
+    toJSON() {
+        return {
+            id: this.id,
+            leaderId: this._leaderId,
+            inviteCode: this.inviteCode,
+            lobbyId: this.lobbyId,
+            members: this._members.map(m => m.toJSON()),
+            createdAt: this.createdAt.toISOString(),
+        };
+    }
+}
+
+/**
+ * Member of a party
+ */
+export class PartyMember {
+    constructor(
+        public readonly id: string,
+        public readonly partyId: string,
+        public readonly userId: string,
+        public readonly displayName: string,
+        public readonly joinedAt: Date
+    ) { }
+
+    toJSON() {
+        return {
+            id: this.id,
+            userId: this.userId,
+            displayName: this.displayName,
+            joinedAt: this.joinedAt.toISOString(),
+        };
+    }
+}
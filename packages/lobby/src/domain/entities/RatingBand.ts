@@ -0,0 +1,39 @@
+import type { Lobby } from './Lobby.js';
+
+export interface RatingBandOptions {
+    initialWidth: number; // Rating points either side of the lobby's rating
+    widthGrowthPerSecond: number; // Added for every second the lobby has waited
+    maxWidth: number;
+}
+
+/**
+ * RatingBand value object
+ * Ratings a public lobby accepts: around its players' average rating, widening the longer the lobby
+ * waits so a lobby that can't find close matches takes wider ones.
+ */
+export class RatingBand {
+    constructor(
+        public readonly min: number,
+        public readonly max: number
+    ) { }
+
+    /**
+     * Band of a lobby at a given time; null when the lobby takes anyone (private, or nobody rated)
+     */
+    static forLobby(lobby: Lobby, options: RatingBandOptions, now: Date = new Date()): RatingBand | null {
+        const rating = lobby.rating;
+        if (lobby.isPrivate || rating === null) return null;
+
+        const waitedSeconds = Math.max(0, (now.getTime() - lobby.createdAt.getTime()) / 1000);
+        const width = Math.min(options.maxWidth, options.initialWidth + Math.floor(waitedSeconds * options.widthGrowthPerSecond));
+        return new RatingBand(rating - width, rating + width);
+    }
+
+    contains(rating: number): boolean {
+        return rating >= this.min && rating <= this.max;
+    }
+
+    toJSON() {
+        return { min: this.min, max: this.max };
+    }
+}
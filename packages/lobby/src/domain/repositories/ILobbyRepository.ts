@@ -1,6 +1,14 @@
 import type { Lobby, LobbyPlayer } from '../entities/Lobby.js';
 import type { LobbyStatus } from '@prisma/client';
 
+/**
+ * Keys for ILobbyRepository.runLocked
+ */
+export const LobbyLocks = {
+    contract: (contractId: string) => `contract:${contractId}`,
+    user: (userId: string) => `user:${userId}`,
+};
+
 /**
  * Repository interface for Lobby operations
  */
@@ -11,12 +19,12 @@ export interface ILobbyRepository {
     findById(id: string): Promise<Lobby | null>;
 
     /**
-     * Find active lobbies for a contract
+     * Find active public lobbies for a contract
      */
     findByContractId(contractId: string, status?: LobbyStatus): Promise<Lobby[]>;
 
     /**
-     * Find all waiting lobbies
+     * Find all waiting public lobbies
      */
     findWaitingLobbies(): Promise<Lobby[]>;
 
@@ -25,6 +33,21 @@ export interface ILobbyRepository {
      */
     findByUserId(userId: string): Promise<Lobby | null>;
 
+    /**
+     * Find a private lobby by its invite code
+     */
+    findByInviteCode(inviteCode: string): Promise<Lobby | null>;
+
+    /**
+     * Find IDs of waiting public lobbies created before a given time, oldest first
+     */
+    findWaitingSince(createdBefore: Date, limit: number): Promise<string[]>;
+
+    /**
+     * Find IDs of lobbies starting since before a given time, oldest first
+     */
+    findStartingSince(updatedBefore: Date, limit: number): Promise<string[]>;
+
     /**
      * Create a new lobby
      */
@@ -32,10 +55,24 @@ export interface ILobbyRepository {
         contractId: string;
     }): Promise<Lobby>;
 
+    /**
+     * Create a private lobby with a fresh invite code, its host as the first player
+     */
+    createPrivate(data: {
+        contractId: string;
+        hostId: string;
+        hostRating: number | null;
+    }): Promise<Lobby>;
+
     /**
      * Add player to lobby
      */
-    addPlayer(lobbyId: string, userId: string): Promise<LobbyPlayer>;
+    addPlayer(lobbyId: string, userId: string, isBot?: boolean, rating?: number | null): Promise<LobbyPlayer>;
+
+    /**
+     * Add several players to a lobby, all of them or none
+     */
+    addPlayers(lobbyId: string, players: Array<{ userId: string; rating: number | null }>): Promise<LobbyPlayer[]>;
 
     /**
      * Remove player from lobby
@@ -48,7 +85,35 @@ export interface ILobbyRepository {
     updateStatus(id: string, status: LobbyStatus): Promise<Lobby>;
 
     /**
-     * Get or create a waiting lobby for a contract
+     * Move a lobby from one status to another, only if it's still in the first
+     * @returns whether the lobby was moved
+     */
+    transitionStatus(id: string, from: LobbyStatus, to: LobbyStatus): Promise<boolean>;
+
+    /**
+     * Lock or unlock a private lobby
+     */
+    setLocked(id: string, isLocked: boolean): Promise<Lobby>;
+
+    /**
+     * Change the host of a private lobby
+     */
+    updateHost(id: string, hostId: string | null): Promise<void>;
+
+    /**
+     * Get or create a public waiting lobby for a contract with room for a number of players
+     * `choose` picks among the lobbies with room, oldest first; the first by default, null for a new one.
+     */
+    getOrCreateWaitingLobby(
+        contractId: string,
+        seats?: number,
+        choose?: (open: Lobby[]) => Lobby | null
+    ): Promise<Lobby>;
+
+    /**
+     * Run work in a transaction holding locks on the given keys (see LobbyLocks), through a
+     * repository bound to it. Seating players takes the contract's and the players' locks, so
+     * concurrent joins can't overfill a lobby, open needless lobbies or seat a user twice.
      */
-    getOrCreateWaitingLobby(contractId: string): Promise<Lobby>;
+    runLocked<T>(keys: string[], work: (lobbyRepository: ILobbyRepository) => Promise<T>): Promise<T>;
 }
@@ -0,0 +1,53 @@
+import type { Party, PartyMember } from '../entities/Party.js';
+
+/**
+ * Repository interface for Party operations
+ */
+export interface IPartyRepository {
+    /**
+     * Find party by ID
+     */
+    findById(id: string): Promise<Party | null>;
+
+    /**
+     * Find the party a user is in
+     */
+    findByUserId(userId: string): Promise<Party | null>;
+
+    /**
+     * Find a party by its invite code
+     */
+    findByInviteCode(inviteCode: string): Promise<Party | null>;
+
+    /**
+     * Create a party with a fresh invite code, its leader as the first member
+     */
+    create(data: {
+        leaderId: string;
+    }): Promise<Party>;
+
+    /**
+     * Add member to party
+     */
+    addMember(partyId: string, userId: string): Promise<PartyMember>;
+
+    /**
+     * Remove member from party
+     */
+    removeMember(partyId: string, userId: string): Promise<void>;
+
+    /**
+     * Change the leader of a party
+     */
+    updateLeader(id: string, leaderId: string): Promise<void>;
+
+    /**
+     * Record the lobby a party was queued into
+     */
+    setLobby(id: string, lobbyId: string): Promise<void>;
+
+    /**
+     * Delete a party, e.g. once its last member left
+     */
+    delete(id: string): Promise<void>;
+}
@@ -1,9 +1,28 @@
 export * from './domain/entities/Lobby.js';
+export * from './domain/entities/Party.js';
+export * from './domain/entities/RatingBand.js';
 export * from './domain/repositories/ILobbyRepository.js';
+export * from './domain/repositories/IPartyRepository.js';
 export * from './application/use-cases/JoinLobby.js';
 export * from './application/use-cases/LeaveLobby.js';
 export * from './application/use-cases/GetLobbies.js';
 export * from './application/use-cases/GetLobbyStatus.js';
+export * from './application/use-cases/CreatePrivateLobby.js';
+export * from './application/use-cases/KickPlayer.js';
+export * from './application/use-cases/LockLobby.js';
+export * from './application/use-cases/StartLobbyEarly.js';
+export * from './application/use-cases/ConfirmReady.js';
+export * from './application/use-cases/CreateParty.js';
+export * from './application/use-cases/JoinParty.js';
+export * from './application/use-cases/LeaveParty.js';
+export * from './application/use-cases/GetParty.js';
+export * from './application/use-cases/QueueParty.js';
+export * from './application/use-cases/FillWithBots.js';
+export * from './application/services/LobbyOrchestrator.js';
+export * from './application/services/Matchmaker.js';
 export * from './infrastructure/repositories/PrismaLobbyRepository.js';
+export * from './infrastructure/repositories/PrismaPartyRepository.js';
 export * from './infrastructure/sse/LobbyBroadcaster.js';
+export * from './infrastructure/jobs/LobbyBotFiller.js';
+export * from './infrastructure/jobs/StalledLobbySweeper.js';
 export * from './interface/routes.js';
@@ -0,0 +1,55 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { FillWithBotsUseCase } from '../../application/use-cases/FillWithBots.js';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Periodically fills lobbies that have been waiting longer than waitMs with bots
+ */
+export class LobbyBotFiller {
+    private running = false;
+
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private fillWithBots: FillWithBotsUseCase,
+        private waitMs: number
+    ) { }
+
+    /**
+     * Run one pass, skipping if the previous one is still in progress
+     */
+    async fill(): Promise<number> {
+        if (this.running) return 0;
+
+        this.running = true;
+        try {
+            const lobbyIds = await this.lobbyRepository.findWaitingSince(new Date(Date.now() - this.waitMs), BATCH_SIZE);
+            let added = 0;
+            for (const lobbyId of lobbyIds) {
+                try {
+                    added += await this.fillWithBots.execute(lobbyId);
+                } catch (error) {
+                    console.error(`❌ Failed to fill lobby ${lobbyId} with bots:`, error);
+                }
+            }
+            if (added > 0) {
+                console.log(`🤖 Added ${added} bot(s) to waiting lobbies`);
+            }
+            return added;
+        } catch (error) {
+            console.error('❌ Lobby bot fill pass failed:', error);
+            return 0;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Start filling on an interval
+     */
+    start(intervalMs = 5000): NodeJS.Timeout {
+        return setInterval(() => {
+            void this.fill();
+        }, intervalMs);
+    }
+}
@@ -0,0 +1,58 @@
+import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
+import type { LobbyOrchestrator } from '../../application/services/LobbyOrchestrator.js';
+
+const BATCH_SIZE = 50;
+
+/**
+ * Periodically takes over lobbies left starting by a process that stopped mid-start
+ */
+export class StalledLobbySweeper {
+    private running = false;
+
+    constructor(
+        private lobbyRepository: ILobbyRepository,
+        private orchestrator: LobbyOrchestrator
+    ) { }
+
+    /**
+     * Run one pass, skipping if the previous one is still in progress
+     */
+    async sweep(): Promise<number> {
+        if (this.running) return 0;
+
+        this.running = true;
+        try {
+            const stalledBefore = new Date(Date.now() - this.orchestrator.stallTimeoutMs);
+            const lobbyIds = await this.lobbyRepository.findStartingSince(stalledBefore, BATCH_SIZE);
+            let resumed = 0;
+            for (const lobbyId of lobbyIds) {
+                try {
+                    if (await this.orchestrator.resumeStalled(lobbyId)) {
+                        resumed++;
+                    }
+                } catch (error) {
+                    console.error(`❌ Failed to resume stalled lobby ${lobbyId}:`, error);
+                }
+            }
+            if (resumed > 0) {
+                console.log(`🔁 Resumed ${resumed} stalled lobby(ies)`);
+            }
+            return resumed;
+        } catch (error) {
+            console.error('❌ Stalled lobby sweep failed:', error);
+            return 0;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Sweep once now, then on an interval
+     */
+    start(intervalMs = 30000): NodeJS.Timeout {
+        void this.sweep();
+        return setInterval(() => {
+            void this.sweep();
+        }, intervalMs);
+    }
+}
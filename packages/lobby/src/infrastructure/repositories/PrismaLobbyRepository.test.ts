@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PrismaClient, Prisma, LobbyStatus } from '@prisma/client';
+import { PrismaLobbyRepository } from './PrismaLobbyRepository.js';
+
+/**
+ * A Prisma client whose transactions take pg_advisory_xact_lock-style locks: $executeRaw on a
+ * transaction waits for the key and holds it until the transaction ends
+ */
+function fakePrisma() {
+    const events: string[] = [];
+    const held = new Map<string, Promise<void>>();
+    let nextTx = 0;
+
+    const lobbyPlayerCreate = (client: string) => vi.fn(async ({ data }: { data: { lobbyId: string; userId: string } }) => {
+        events.push(`${client}: seat ${data.userId}`);
+        return {
+            id: `player-${data.userId}`, lobbyId: data.lobbyId, userId: data.userId, joinedAt: new Date(),
+            isBot: false, rating: null, user: { uniqueDisplayName: data.userId },
+        };
+    });
+
+    const $transaction = vi.fn(async <T>(work: (tx: Prisma.TransactionClient) => Promise<T>, _options?: object) => {
+        const name = `tx${++nextTx}`;
+        const releases: Array<() => void> = [];
+        const tx = {
+            $executeRaw: vi.fn(async (_sql: TemplateStringsArray, key: string) => {
+                while (held.has(key)) await held.get(key);
+                held.set(key, new Promise<void>(resolve => releases.push(() => {
+                    held.delete(key);
+                    resolve();
+                })));
+                events.push(`${name}: lock ${key}`);
+            }),
+            lobbyPlayer: { create: lobbyPlayerCreate(name) },
+        };
+        try {
+            return await work(tx as unknown as Prisma.TransactionClient);
+        } finally {
+            events.push(`${name}: commit`);
+            releases.forEach(release => release());
+        }
+    });
+
+    const prisma = {
+        $transaction,
+        lobbyPlayer: { create: lobbyPlayerCreate('root') },
+    };
+    return { prisma, events };
+}
+
+describe('PrismaLobbyRepository.runLocked', () => {
+    it('should take each advisory lock once, in a stable order, inside one transaction', async () => {
+        const { prisma, events } = fakePrisma();
+        const repository = new PrismaLobbyRepository(prisma as unknown as PrismaClient);
+
+        await repository.runLocked(['user:b', 'contract:c', 'user:b', 'user:a'], async () => {
+            events.push('work');
+        });
+
+        expect(prisma.$transaction).toHaveBeenCalledOnce();
+        expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ timeout: expect.any(Number) }));
+        expect(events).toEqual([
+            'tx1: lock lobby:contract:c',
+            'tx1: lock lobby:user:a',
+            'tx1: lock lobby:user:b',
+            'work',
+            'tx1: commit',
+        ]);
+    });
+
+    it('should run the work on a repository bound to the transaction', async () => {
+        const { prisma, events } = fakePrisma();
+        const repository = new PrismaLobbyRepository(prisma as unknown as PrismaClient);
+
+        await repository.runLocked(['contract:c'], async locked => {
+            // Writes join the locked transaction instead of opening their own
+            await locked.addPlayers('lobby', [{ userId: 'a', rating: null }, { userId: 'b', rating: null }]);
+        });
+
+        expect(prisma.$transaction).toHaveBeenCalledOnce();
+        expect(prisma.lobbyPlayer.create).not.toHaveBeenCalled();
+        expect(events).toEqual(['tx1: lock lobby:contract:c', 'tx1: seat a', 'tx1: seat b', 'tx1: commit']);
+    });
+
+    it('should hold the locks until the transaction commits', async () => {
+        const { prisma, events } = fakePrisma();
+        const repository = new PrismaLobbyRepository(prisma as unknown as PrismaClient);
+
+        let finishFirst!: () => void;
+        const first = repository.runLocked(['contract:c', 'user:a'], async () => {
+            events.push('first work');
+            await new Promise<void>(resolve => { finishFirst = resolve; });
+        });
+        const second = repository.runLocked(['user:b', 'contract:c'], async () => {
+            events.push('second work');
+        });
+        await new Promise(resolve => setImmediate(resolve));
+        expect(events).not.toContain('second work');
+
+        finishFirst();
+        await Promise.all([first, second]);
+
+        expect(events.indexOf('second work')).toBeGreaterThan(events.indexOf('tx1: commit'));
+    });
+
+    it('should not nest transactions inside one already in progress', async () => {
+        const { prisma, events } = fakePrisma();
+
+        await prisma.$transaction(async tx => {
+            const repository = new PrismaLobbyRepository(tx);
+            await repository.runLocked(['contract:c'], async () => {
+                events.push('work');
+            });
+        });
+
+        expect(prisma.$transaction).toHaveBeenCalledOnce();
+        expect(events).toEqual(['tx1: lock lobby:contract:c', 'work', 'tx1: commit']);
+    });
+});
+
+describe('PrismaLobbyRepository.findByUserId', () => {
+    // A user whose first seat, in a lobby that went on to a match, is still stored ahead of their current one
+    function setup() {
+        const lobby = (id: string, status: LobbyStatus) => ({
+            id, contractId: 'contract', status, createdAt: new Date(), inviteCode: null, hostId: null, isLocked: false,
+            contract: { name: 'Classic', entryFee: 100n, minPlayers: 2, maxPlayers: 4, game: { name: 'DiceRoyale' } },
+            players: [],
+        });
+        const seats = [
+            { userId: 'a', lobby: lobby('played', 'IN_GAME') },
+            { userId: 'a', lobby: lobby('closed', 'CLOSED') },
+            { userId: 'a', lobby: lobby('current', 'WAITING') },
+        ];
+        // Applies the where clause and returns the first match in storage order, as Postgres may
+        const findFirst = vi.fn(async ({ where }: { where: { userId: string; lobby?: { status: { in: LobbyStatus[] } } } }) =>
+            seats.find(s => s.userId === where.userId && (!where.lobby || where.lobby.status.in.includes(s.lobby.status))) ?? null
+        );
+        const prisma = { lobbyPlayer: { findFirst } };
+        return { seats, repository: new PrismaLobbyRepository(prisma as unknown as PrismaClient) };
+    }
+
+    it("should find the user's open lobby past seats in finished ones", async () => {
+        const { repository } = setup();
+
+        const lobby = await repository.findByUserId('a');
+
+        expect(lobby?.id).toBe('current');
+    });
+
+    it('should find nothing once every lobby the user sat in has finished', async () => {
+        const { seats, repository } = setup();
+        seats[2].lobby.status = 'IN_GAME';
+
+        expect(await repository.findByUserId('a')).toBeNull();
+    });
+});
@@ -1,15 +1,36 @@
-import type { PrismaClient, LobbyStatus } from '@prisma/client';
+import type { Prisma, PrismaClient, LobbyStatus } from '@prisma/client';
 import type { ILobbyRepository } from '../../domain/repositories/ILobbyRepository.js';
 import { Lobby, LobbyPlayer } from '../../domain/entities/Lobby.js';
+import { createWithInviteCode } from './inviteCodes.js';
+
+// Locked work queues behind other joins, so it may wait well past Prisma's defaults (2s/5s)
+const LOCKED_TRANSACTION_OPTIONS = { maxWait: 10000, timeout: 15000 };
 
 export class PrismaLobbyRepository implements ILobbyRepository {
-    constructor(private prisma: PrismaClient) { }
+    // The root client, or one bound to the transaction of runLocked
+    constructor(private prisma: PrismaClient | Prisma.TransactionClient) { }
+
+    /**
+     * Run work atomically, in a new transaction or the one already in progress
+     */
+    private async atomically<T>(
+        work: (tx: Prisma.TransactionClient) => Promise<T>,
+        options?: { maxWait: number; timeout: number }
+    ): Promise<T> {
+        if ('$transaction' in this.prisma) {
+            return this.prisma.$transaction(work, options);
+        }
+        return work(this.prisma);
+    }
 
     private toEntity(data: {
         id: string;
         contractId: string;
         status: LobbyStatus;
         createdAt: Date;
+        inviteCode: string | null;
+        hostId: string | null;
+        isLocked: boolean;
         contract: {
             name: string;
             entryFee: bigint;
@@ -22,6 +43,8 @@ export class PrismaLobbyRepository implements ILobbyRepository {
             lobbyId: string;
             userId: string;
             joinedAt: Date;
+            isBot: boolean;
+            rating: number | null;
             user: { uniqueDisplayName: string };
         }>;
     }): Lobby {
@@ -30,7 +53,9 @@ export class PrismaLobbyRepository implements ILobbyRepository {
             p.lobbyId,
             p.userId,
             p.user.uniqueDisplayName,
-            p.joinedAt
+            p.joinedAt,
+            p.isBot,
+            p.rating
         ));
 
         return new Lobby(
@@ -43,7 +68,10 @@ export class PrismaLobbyRepository implements ILobbyRepository {
             data.contract.maxPlayers,
             data.status,
             data.createdAt,
-            players
+            players,
+            data.inviteCode,
+            data.hostId,
+            data.isLocked
         );
     }
 
@@ -76,6 +104,7 @@ export class PrismaLobbyRepository implements ILobbyRepository {
         const data = await this.prisma.lobby.findMany({
             where: {
                 contractId,
+                inviteCode: null,
                 ...(status ? { status } : {}),
             },
             include: this.includeClause,
@@ -86,7 +115,7 @@ export class PrismaLobbyRepository implements ILobbyRepository {
 
     async findWaitingLobbies(): Promise<Lobby[]> {
         const data = await this.prisma.lobby.findMany({
-            where: { status: 'WAITING' },
+            where: { status: 'WAITING', inviteCode: null },
             include: this.includeClause,
             orderBy: { createdAt: 'desc' },
         });
@@ -94,8 +123,9 @@ export class PrismaLobbyRepository implements ILobbyRepository {
     }
 
     async findByUserId(userId: string): Promise<Lobby | null> {
+        // Seats in lobbies that went IN_GAME or CLOSED are kept, so filter them out in the query
         const lobbyPlayer = await this.prisma.lobbyPlayer.findFirst({
-            where: { userId },
+            where: { userId, lobby: { status: { in: ['WAITING', 'STARTING'] } } },
             include: {
                 lobby: {
                     include: this.includeClause,
@@ -103,11 +133,7 @@ export class PrismaLobbyRepository implements ILobbyRepository {
             },
         });
 
-        if (!lobbyPlayer || lobbyPlayer.lobby.status === 'CLOSED' || lobbyPlayer.lobby.status === 'IN_GAME') {
-            return null;
-        }
-
-        return this.toEntity(lobbyPlayer.lobby);
+        return lobbyPlayer ? this.toEntity(lobbyPlayer.lobby) : null;
     }
 
     async create(data: { contractId: string }): Promise<Lobby> {
@@ -121,11 +147,62 @@ export class PrismaLobbyRepository implements ILobbyRepository {
         return this.toEntity(created);
     }
 
-    async addPlayer(lobbyId: string, userId: string): Promise<LobbyPlayer> {
+    async createPrivate(data: { contractId: string; hostId: string; hostRating: number | null }): Promise<Lobby> {
+        const created = await createWithInviteCode(inviteCode => this.prisma.lobby.create({
+            data: {
+                contractId: data.contractId,
+                status: 'WAITING',
+                inviteCode,
+                hostId: data.hostId,
+                players: { create: { userId: data.hostId, rating: data.hostRating } },
+            },
+            include: this.includeClause,
+        }));
+        return this.toEntity(created);
+    }
+
+    async findByInviteCode(inviteCode: string): Promise<Lobby | null> {
+        const data = await this.prisma.lobby.findUnique({
+            where: { inviteCode },
+            include: this.includeClause,
+        });
+        return data ? this.toEntity(data) : null;
+    }
+
+    async findWaitingSince(createdBefore: Date, limit: number): Promise<string[]> {
+        const waiting = await this.prisma.lobby.findMany({
+            where: {
+                status: 'WAITING',
+                inviteCode: null,
+                createdAt: { lte: createdBefore },
+            },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+            select: { id: true },
+        });
+        return waiting.map(l => l.id);
+    }
+
+    async findStartingSince(updatedBefore: Date, limit: number): Promise<string[]> {
+        const starting = await this.prisma.lobby.findMany({
+            where: {
+                status: 'STARTING',
+                updatedAt: { lte: updatedBefore },
+            },
+            orderBy: { updatedAt: 'asc' },
+            take: limit,
+            select: { id: true },
+        });
+        return starting.map(l => l.id);
+    }
+
+    async addPlayer(lobbyId: string, userId: string, isBot = false, rating: number | null = null): Promise<LobbyPlayer> {
         const created = await this.prisma.lobbyPlayer.create({
             data: {
                 lobbyId,
                 userId,
+                isBot,
+                rating,
             },
             include: {
                 user: { select: { uniqueDisplayName: true } },
@@ -137,10 +214,38 @@ export class PrismaLobbyRepository implements ILobbyRepository {
             created.lobbyId,
             created.userId,
             created.user.uniqueDisplayName,
-            created.joinedAt
+            created.joinedAt,
+            created.isBot,
+            created.rating
         );
     }
 
+    async addPlayers(lobbyId: string, players: Array<{ userId: string; rating: number | null }>): Promise<LobbyPlayer[]> {
+        // One transaction, so a failing insert leaves none of them in the lobby
+        const created = await this.atomically(async tx => {
+            const rows = [];
+            for (const { userId, rating } of players) {
+                rows.push(await tx.lobbyPlayer.create({
+                    data: { lobbyId, userId, rating },
+                    include: {
+                        user: { select: { uniqueDisplayName: true } },
+                    },
+                }));
+            }
+            return rows;
+        });
+
+        return created.map(p => new LobbyPlayer(
+            p.id,
+            p.lobbyId,
+            p.userId,
+            p.user.uniqueDisplayName,
+            p.joinedAt,
+            p.isBot,
+            p.rating
+        ));
+    }
+
     async removePlayer(lobbyId: string, userId: string): Promise<void> {
         await this.prisma.lobbyPlayer.deleteMany({
             where: { lobbyId, userId },
@@ -156,24 +261,63 @@ export class PrismaLobbyRepository implements ILobbyRepository {
         return this.toEntity(updated);
     }
 
-    async getOrCreateWaitingLobby(contractId: string): Promise<Lobby> {
-        // Find existing waiting lobby that isn't full
-        const existing = await this.prisma.lobby.findFirst({
+    async transitionStatus(id: string, from: LobbyStatus, to: LobbyStatus): Promise<boolean> {
+        const { count } = await this.prisma.lobby.updateMany({
+            where: { id, status: from },
+            data: { status: to },
+        });
+        return count === 1;
+    }
+
+    async setLocked(id: string, isLocked: boolean): Promise<Lobby> {
+        const updated = await this.prisma.lobby.update({
+            where: { id },
+            data: { isLocked },
+            include: this.includeClause,
+        });
+        return this.toEntity(updated);
+    }
+
+    async updateHost(id: string, hostId: string | null): Promise<void> {
+        await this.prisma.lobby.update({
+            where: { id },
+            data: { hostId },
+        });
+    }
+
+    async getOrCreateWaitingLobby(
+        contractId: string,
+        seats = 1,
+        choose: (open: Lobby[]) => Lobby | null = open => open[0] ?? null
+    ): Promise<Lobby> {
+        // Public waiting lobbies with room for everyone, oldest first
+        const waiting = await this.prisma.lobby.findMany({
             where: {
                 contractId,
                 status: 'WAITING',
+                inviteCode: null,
             },
             include: {
                 ...this.includeClause,
                 _count: { select: { players: true } },
             },
+            orderBy: { createdAt: 'asc' },
         });
+        const open = waiting
+            .filter(l => l._count.players + seats <= l.contract.maxPlayers)
+            .map(l => this.toEntity(l));
 
-        if (existing && existing._count.players < existing.contract.maxPlayers) {
-            return this.toEntity(existing);
-        }
+        // Join the chosen one, or create new lobby
+        return choose(open) ?? this.create({ contractId });
+    }
 
-        // Create new lobby
-        return this.create({ contractId });
+    async runLocked<T>(keys: string[], work: (lobbyRepository: ILobbyRepository) => Promise<T>): Promise<T> {
+        return this.atomically(async tx => {
+            // Transaction-scoped advisory locks, taken in a stable order so concurrent joins can't deadlock
+            for (const key of [...new Set(keys)].sort()) {
+                await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`lobby:${key}`}))`;
+            }
+            return work(new PrismaLobbyRepository(tx));
+        }, LOCKED_TRANSACTION_OPTIONS);
     }
 }
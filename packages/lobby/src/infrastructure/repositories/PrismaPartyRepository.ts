@@ -0,0 +1,121 @@
+import type { PrismaClient } from '@prisma/client';
+import type { IPartyRepository } from '../../domain/repositories/IPartyRepository.js';
+import { Party, PartyMember } from '../../domain/entities/Party.js';
+import { createWithInviteCode } from './inviteCodes.js';
+
+export class PrismaPartyRepository implements IPartyRepository {
+    constructor(private prisma: PrismaClient) { }
+
+    private toEntity(data: {
+        id: string;
+        leaderId: string;
+        inviteCode: string;
+        lobbyId: string | null;
+        createdAt: Date;
+        members: Array<{
+            id: string;
+            partyId: string;
+            userId: string;
+            joinedAt: Date;
+            user: { uniqueDisplayName: string };
+        }>;
+    }): Party {
+        const members = data.members.map(m => new PartyMember(
+            m.id,
+            m.partyId,
+            m.userId,
+            m.user.uniqueDisplayName,
+            m.joinedAt
+        ));
+
+        return new Party(data.id, data.leaderId, data.inviteCode, data.lobbyId, data.createdAt, members);
+    }
+
+    private includeClause = {
+        members: {
+            include: {
+                user: { select: { uniqueDisplayName: true } },
+            },
+            orderBy: { joinedAt: 'asc' as const },
+        },
+    };
+
+    async findById(id: string): Promise<Party | null> {
+        const data = await this.prisma.party.findUnique({
+            where: { id },
+            include: this.includeClause,
+        });
+        return data ? this.toEntity(data) : null;
+    }
+
+    async findByUserId(userId: string): Promise<Party | null> {
+        const member = await this.prisma.partyMember.findUnique({
+            where: { userId },
+            include: {
+                party: { include: this.includeClause },
+            },
+        });
+        return member ? this.toEntity(member.party) : null;
+    }
+
+    async findByInviteCode(inviteCode: string): Promise<Party | null> {
+        const data = await this.prisma.party.findUnique({
+            where: { inviteCode },
+            include: this.includeClause,
+        });
+        return data ? this.toEntity(data) : null;
+    }
+
+    async create(data: { leaderId: string }): Promise<Party> {
+        const created = await createWithInviteCode(inviteCode => this.prisma.party.create({
+            data: {
+                leaderId: data.leaderId,
+                inviteCode,
+                members: { create: { userId: data.leaderId } },
+            },
+            include: this.includeClause,
+        }));
+        return this.toEntity(created);
+    }
+
+    async addMember(partyId: string, userId: string): Promise<PartyMember> {
+        const created = await this.prisma.partyMember.create({
+            data: { partyId, userId },
+            include: {
+                user: { select: { uniqueDisplayName: true } },
+            },
+        });
+
+        return new PartyMember(
+            created.id,
+            created.partyId,
+            created.userId,
+            created.user.uniqueDisplayName,
+            created.joinedAt
+        );
+    }
+
+    async removeMember(partyId: string, userId: string): Promise<void> {
+        await this.prisma.partyMember.deleteMany({
+            where: { partyId, userId },
+        });
+    }
+
+    async updateLeader(id: string, leaderId: string): Promise<void> {
+        await this.prisma.party.update({
+            where: { id },
+            data: { leaderId },
+        });
+    }
+
+    async setLobby(id: string, lobbyId: string): Promise<void> {
+        await this.prisma.party.update({
+            where: { id },
+            data: { lobbyId },
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.prisma.party.delete({ where: { id } });
+    }
+}
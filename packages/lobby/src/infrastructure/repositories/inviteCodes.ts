@@ -0,0 +1,31 @@
+import { Prisma } from '@prisma/client';
+import { randomInt } from 'node:crypto';
+
+// Invite codes are read out and typed by players, so lookalikes (0/O, 1/I) are left out
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ATTEMPTS = 5;
+
+function generateInviteCode(): string {
+    let code = '';
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+        code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * Create a record under a fresh invite code, drawing a new one while the code is taken
+ */
+export async function createWithInviteCode<T>(create: (inviteCode: string) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await create(generateInviteCode());
+        } catch (error) {
+            const collided = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+            if (!collided || attempt >= INVITE_CODE_ATTEMPTS) {
+                throw error;
+            }
+        }
+    }
+}
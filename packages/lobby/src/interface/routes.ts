@@ -7,11 +7,56 @@ import { JoinLobbyUseCase } from '../application/use-cases/JoinLobby.js';
 import { LeaveLobbyUseCase } from '../application/use-cases/LeaveLobby.js';
 import { GetLobbiesUseCase } from '../application/use-cases/GetLobbies.js';
 import { GetLobbyStatusUseCase } from '../application/use-cases/GetLobbyStatus.js';
+import { CreatePrivateLobbyUseCase } from '../application/use-cases/CreatePrivateLobby.js';
+import { KickPlayerUseCase } from '../application/use-cases/KickPlayer.js';
+import { LockLobbyUseCase } from '../application/use-cases/LockLobby.js';
+import { StartLobbyEarlyUseCase } from '../application/use-cases/StartLobbyEarly.js';
+import { ConfirmReadyUseCase } from '../application/use-cases/ConfirmReady.js';
+import { CreatePartyUseCase } from '../application/use-cases/CreateParty.js';
+import { JoinPartyUseCase } from '../application/use-cases/JoinParty.js';
+import { LeavePartyUseCase } from '../application/use-cases/LeaveParty.js';
+import { GetPartyUseCase } from '../application/use-cases/GetParty.js';
+import { QueuePartyUseCase } from '../application/use-cases/QueueParty.js';
+import { FillWithBotsUseCase } from '../application/use-cases/FillWithBots.js';
+import type { ProvideBotFn } from '../application/use-cases/FillWithBots.js';
+import { LobbyOrchestrator } from '../application/services/LobbyOrchestrator.js';
+import { Matchmaker } from '../application/services/Matchmaker.js';
+import type { GetRatingsFn } from '../application/services/Matchmaker.js';
+import type { RatingBandOptions } from '../domain/entities/RatingBand.js';
+import type { StartMatchFn, LobbyOrchestratorOptions } from '../application/services/LobbyOrchestrator.js';
 import { PrismaLobbyRepository } from '../infrastructure/repositories/PrismaLobbyRepository.js';
+import { PrismaPartyRepository } from '../infrastructure/repositories/PrismaPartyRepository.js';
 import { LobbyBroadcaster } from '../infrastructure/sse/LobbyBroadcaster.js';
+import { LobbyBotFiller } from '../infrastructure/jobs/LobbyBotFiller.js';
+import { StalledLobbySweeper } from '../infrastructure/jobs/StalledLobbySweeper.js';
 
 // Validation schemas
+const InviteCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z0-9]{6}$/, 'Invite codes are 6 letters and digits');
+
 const JoinLobbySchema = z.object({
+    contractId: z.string().uuid().optional(),
+    inviteCode: InviteCodeSchema.optional(),
+}).refine(body => (body.contractId === undefined) !== (body.inviteCode === undefined), {
+    message: 'Provide either contractId or inviteCode',
+});
+
+const CreatePrivateLobbySchema = z.object({
+    contractId: z.string().uuid(),
+});
+
+const KickPlayerSchema = z.object({
+    userId: z.string().uuid(),
+});
+
+const LockLobbySchema = z.object({
+    locked: z.boolean(),
+});
+
+const JoinPartySchema = z.object({
+    inviteCode: InviteCodeSchema,
+});
+
+const QueuePartySchema = z.object({
     contractId: z.string().uuid(),
 });
 
@@ -21,13 +66,19 @@ export interface LobbyRoutesConfig {
     getUserByFirebaseUid: (uid: string) => Promise<{
         id: string;
         displayName: string;
-        balance: bigint;
+        balance: bigint; // Available to stake, excluding funds locked in sessions
     } | null>;
     getContractInfo: (contractId: string) => Promise<{
         entryFee: bigint;
         minPlayers: number;
         maxPlayers: number;
     } | null>;
+    getUserBalances: (userIds: string[]) => Promise<Map<string, bigint>>; // Available balances, for checking party members
+    getRatings: GetRatingsFn;
+    ratingBand?: RatingBandOptions;
+    startMatch: StartMatchFn;
+    lobbyTimings?: LobbyOrchestratorOptions;
+    botFill?: { waitMs: number; provideBot: ProvideBotFn }; // Leave out to never add bots
 }
 
 export function registerLobbyRoutes(
@@ -35,20 +86,62 @@ export function registerLobbyRoutes(
     cache: LRUCache<string, unknown>,
     config: LobbyRoutesConfig
 ) {
-    const { prisma, verifyFirebaseToken, getUserByFirebaseUid, getContractInfo } = config;
+    const {
+        prisma,
+        verifyFirebaseToken,
+        getUserByFirebaseUid,
+        getContractInfo,
+        getUserBalances,
+        getRatings,
+        ratingBand,
+        startMatch,
+        lobbyTimings,
+        botFill,
+    } = config;
 
     // Initialize
     const lobbyRepo = new PrismaLobbyRepository(prisma);
+    const partyRepo = new PrismaPartyRepository(prisma);
     const broadcaster = new LobbyBroadcaster();
 
     // Start heartbeat
     broadcaster.startHeartbeat(30000);
 
     // Initialize use cases
-    const joinLobby = new JoinLobbyUseCase(lobbyRepo, broadcaster, getContractInfo);
-    const leaveLobby = new LeaveLobbyUseCase(lobbyRepo, broadcaster);
-    const getLobbies = new GetLobbiesUseCase(lobbyRepo);
-    const getLobbyStatus = new GetLobbyStatusUseCase(lobbyRepo);
+    const orchestrator = new LobbyOrchestrator(lobbyRepo, broadcaster, startMatch, lobbyTimings);
+    const matchmaker = new Matchmaker(lobbyRepo, getRatings, ratingBand);
+    const joinLobby = new JoinLobbyUseCase(lobbyRepo, broadcaster, orchestrator, matchmaker, getContractInfo);
+    const leaveLobby = new LeaveLobbyUseCase(lobbyRepo, broadcaster, orchestrator);
+    const getLobbies = new GetLobbiesUseCase(lobbyRepo, matchmaker);
+    const getLobbyStatus = new GetLobbyStatusUseCase(lobbyRepo, matchmaker);
+    const createPrivateLobby = new CreatePrivateLobbyUseCase(lobbyRepo, matchmaker, getContractInfo);
+    const kickPlayer = new KickPlayerUseCase(lobbyRepo, broadcaster, orchestrator);
+    const lockLobby = new LockLobbyUseCase(lobbyRepo, broadcaster);
+    const startLobbyEarly = new StartLobbyEarlyUseCase(lobbyRepo, orchestrator);
+    const confirmReady = new ConfirmReadyUseCase(lobbyRepo, orchestrator);
+    const createParty = new CreatePartyUseCase(partyRepo);
+    const joinParty = new JoinPartyUseCase(partyRepo);
+    const leaveParty = new LeavePartyUseCase(partyRepo);
+    const getParty = new GetPartyUseCase(partyRepo);
+    const queueParty = new QueuePartyUseCase(
+        lobbyRepo,
+        partyRepo,
+        broadcaster,
+        orchestrator,
+        matchmaker,
+        getContractInfo,
+        getUserBalances
+    );
+
+    // Started by the host with its other background jobs
+    const botFiller = botFill
+        ? new LobbyBotFiller(
+            lobbyRepo,
+            new FillWithBotsUseCase(lobbyRepo, broadcaster, orchestrator, botFill.provideBot),
+            botFill.waitMs
+        )
+        : null;
+    const stalledLobbySweeper = new StalledLobbySweeper(lobbyRepo, orchestrator);
 
     // Helper to verify user
     async function authenticateUser(authHeader: string | undefined) {
@@ -76,6 +169,87 @@ export function registerLobbyRoutes(
         }));
     });
 
+    // Create a private lobby, hosted by the caller
+    app.post('/lobbies/private', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = CreatePrivateLobbySchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.flatten() }
+            });
+        }
+
+        const result = await createPrivateLobby.execute({
+            userId: user.id,
+            contractId: parsed.data.contractId,
+            userBalance: user.balance,
+        });
+
+        return result;
+    });
+
+    // Kick a player from a private lobby (host only)
+    app.post('/lobbies/:id/kick', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = KickPlayerSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.flatten() }
+            });
+        }
+
+        const params = request.params as { id: string };
+        return kickPlayer.execute({ lobbyId: params.id, hostId: user.id, userId: parsed.data.userId });
+    });
+
+    // Lock or unlock a private lobby (host only)
+    app.post('/lobbies/:id/lock', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = LockLobbySchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.flatten() }
+            });
+        }
+
+        const params = request.params as { id: string };
+        return lockLobby.execute({ lobbyId: params.id, hostId: user.id, locked: parsed.data.locked });
+    });
+
+    // Start a private lobby before it's full (host only)
+    app.post('/lobbies/:id/start', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const params = request.params as { id: string };
+        return startLobbyEarly.execute({ lobbyId: params.id, hostId: user.id });
+    });
+
+    // Confirm ready during the lobby's ready check
+    app.post('/lobbies/:id/ready', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const params = request.params as { id: string };
+        return confirmReady.execute({ lobbyId: params.id, userId: user.id });
+    });
+
     // Get lobby status
     app.get('/lobbies/:id/status', async (request, reply) => {
         const params = request.params as { id: string };
@@ -111,7 +285,7 @@ export function registerLobbyRoutes(
 
         // Add client to broadcaster
         const clientId = randomUUID();
-        broadcaster.addClient(lobbyId, clientId, reply);
+        broadcaster.addClient(lobbyId, clientId, reply.raw);
 
         // Keep connection open
         request.raw.on('close', () => {
@@ -140,6 +314,7 @@ export function registerLobbyRoutes(
             userId: user.id,
             displayName: user.displayName,
             contractId: parsed.data.contractId,
+            inviteCode: parsed.data.inviteCode,
             userBalance: user.balance,
         });
 
@@ -157,5 +332,76 @@ export function registerLobbyRoutes(
         return result;
     });
 
-    return { broadcaster };
+    // ============================================
+    // Party Routes
+    // ============================================
+
+    // Create a party, led by the caller
+    app.post('/parties', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const party = await createParty.execute({ userId: user.id });
+        return party.toJSON();
+    });
+
+    // Get the caller's party
+    app.get('/parties/me', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const party = await getParty.execute({ userId: user.id });
+        return party.toJSON();
+    });
+
+    // Join a party by invite code
+    app.post('/parties/join', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = JoinPartySchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.flatten() }
+            });
+        }
+
+        const party = await joinParty.execute({ userId: user.id, inviteCode: parsed.data.inviteCode });
+        return party.toJSON();
+    });
+
+    // Leave the caller's party
+    app.post('/parties/leave', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        return leaveParty.execute({ userId: user.id });
+    });
+
+    // Queue the caller's party for a contract (leader only)
+    app.post('/parties/queue', async (request, reply) => {
+        const user = await authenticateUser(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const parsed = QueuePartySchema.safeParse(request.body);
+        if (!parsed.success) {
+            return reply.status(400).send({
+                error: { code: 'VALIDATION_ERROR', message: 'Invalid request', details: parsed.error.flatten() }
+            });
+        }
+
+        return queueParty.execute({ userId: user.id, contractId: parsed.data.contractId });
+    });
+
+    return { broadcaster, botFiller, stalledLobbySweeper };
 }
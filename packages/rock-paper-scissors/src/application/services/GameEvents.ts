@@ -0,0 +1,58 @@
+import type { RpsGame } from '../../domain/entities/RpsGame.js';
+import type { RpsBroadcaster } from '../../infrastructure/sse/RpsBroadcaster.js';
+
+/**
+ * Broadcast a revealed move, then the round or game it ended
+ */
+export function broadcastReveal(broadcaster: RpsBroadcaster, game: RpsGame, userId: string, round: number): void {
+    broadcaster.broadcast(game.id, { type: 'player_revealed', playerId: userId, round });
+    broadcastRoundEnd(broadcaster, game, round);
+}
+
+/**
+ * Broadcast moves forfeited at the deadline, then the phase, round or game they ended
+ */
+export function broadcastForfeits(
+    broadcaster: RpsBroadcaster,
+    game: RpsGame,
+    userIds: string[],
+    round: number,
+    wasCommitting: boolean
+): void {
+    for (const userId of userIds) {
+        broadcaster.broadcast(game.id, { type: 'player_forfeited', playerId: userId, round });
+    }
+
+    if (wasCommitting && game.isRevealing) {
+        broadcaster.broadcast(game.id, {
+            type: 'reveal_started',
+            round,
+            moveDeadline: game.moveDeadline?.toISOString(),
+        });
+    }
+    broadcastRoundEnd(broadcaster, game, round);
+}
+
+function broadcastRoundEnd(broadcaster: RpsBroadcaster, game: RpsGame, round: number): void {
+    // The round is over once the game completes or moves on to the next round
+    if (game.status !== 'COMPLETE' && game.round === round) {
+        return;
+    }
+
+    broadcaster.broadcast(game.id, {
+        type: 'round_complete',
+        round,
+        results: game.getRounds()[round - 1].results,
+    });
+
+    if (game.status === 'COMPLETE') {
+        broadcaster.broadcast(game.id, { type: 'game_complete', winners: game.getWinners() });
+    } else {
+        broadcaster.broadcast(game.id, {
+            type: 'round_started',
+            round: game.round,
+            players: game.players.filter(p => game.isInCurrentRound(p.userId)).map(p => p.userId),
+            moveDeadline: game.moveDeadline?.toISOString(),
+        });
+    }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { RockPaperScissorsStatus } from '@prisma/client';
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RpsBroadcaster } from '../../infrastructure/sse/RpsBroadcaster.js';
+import type { RpsMove } from '../../domain/entities/RpsGame.js';
+import { RpsGame, RpsPlayer } from '../../domain/entities/RpsGame.js';
+import { MoveCommitment } from '../../domain/entities/MoveCommitment.js';
+import { CommitMoveUseCase } from './CommitMove.js';
+import { RevealMoveUseCase } from './RevealMove.js';
+
+const salt = 'pepper-pepper-pepper';
+
+// Yield to other requests, like a query round trip would
+const roundTrip = () => new Promise<void>(resolve => setImmediate(resolve));
+
+// A game between a and b, stored as rows that each load reads afresh;
+// runLocked queues work one at a time like the game's row lock
+function setup() {
+    const stored = { status: 'COMMITTING' as RockPaperScissorsStatus, round: 1, moves: [] as Array<{ userId: string; move: RpsMove }> };
+    const load = () => new RpsGame('game', 'session', stored.status, new Date(), ['a', 'b'].map(id =>
+        new RpsPlayer(id, id, stored.moves.filter(m => m.userId === id).map(m => ({ ...m.move })))
+    ), 'token', 'PENDING', 0, stored.round, { timeoutSeconds: 30, deadline: new Date(Date.now() + 30_000) });
+    const stores = (userId: string, round: number) => stored.moves.find(m => m.userId === userId && m.move.round === round);
+
+    let queue = Promise.resolve();
+    const rpsGameRepo = {
+        findById: async () => {
+            await roundTrip();
+            return load();
+        },
+        recordCommit: vi.fn(async (_gameId: string, userId: string, move: RpsMove) => {
+            await roundTrip();
+            // Like the unique (gameId, round, userId) index
+            if (stores(userId, move.round)) throw new Error('Unique constraint failed');
+            stored.moves.push({ userId, move: { ...move } });
+        }),
+        recordReveal: vi.fn(async (_gameId: string, userId: string, move: RpsMove) => {
+            await roundTrip();
+            Object.assign(stores(userId, move.round)!.move, { hand: move.hand, salt: move.salt });
+        }),
+        saveProgress: vi.fn(async (game: RpsGame) => {
+            await roundTrip();
+            stored.status = game.status;
+            stored.round = game.round;
+        }),
+        runLocked: vi.fn(<T>(_gameId: string, work: (repo: IRpsGameRepository) => Promise<T>) => {
+            const result = queue.then(() => work(rpsGameRepo));
+            queue = result.then(() => { }, () => { });
+            return result;
+        }),
+    } as unknown as IRpsGameRepository & { runLocked: ReturnType<typeof vi.fn> };
+    const broadcaster = { broadcast: vi.fn() } as unknown as RpsBroadcaster;
+    const onGameComplete = vi.fn(async () => { });
+
+    return {
+        stored,
+        rpsGameRepo,
+        broadcaster,
+        onGameComplete,
+        commitMove: new CommitMoveUseCase(rpsGameRepo, broadcaster),
+        revealMove: new RevealMoveUseCase(rpsGameRepo, broadcaster, onGameComplete),
+    };
+}
+
+describe('CommitMoveUseCase', () => {
+    it('should open reveals when both players commit at the same moment', async () => {
+        const rps = setup();
+
+        const results = await Promise.all([
+            rps.commitMove.execute({ gameId: 'game', userId: 'a', commitment: MoveCommitment.hash('ROCK', salt) }),
+            rps.commitMove.execute({ gameId: 'game', userId: 'b', commitment: MoveCommitment.hash('PAPER', salt) }),
+        ]);
+
+        expect(rps.rpsGameRepo.runLocked).toHaveBeenCalledWith('game', expect.any(Function));
+        expect(results.map(r => r.allPlayersCommitted)).toEqual([false, true]);
+        expect(rps.stored.status).toBe('REVEALING');
+        expect(rps.broadcaster.broadcast).toHaveBeenCalledWith('game', expect.objectContaining({ type: 'reveal_started', round: 1 }));
+    });
+
+    it('should reject a duplicate commit sent at the same moment as the first', async () => {
+        const rps = setup();
+        const commitment = MoveCommitment.hash('ROCK', salt);
+
+        const results = await Promise.allSettled([
+            rps.commitMove.execute({ gameId: 'game', userId: 'a', commitment }),
+            rps.commitMove.execute({ gameId: 'game', userId: 'a', commitment }),
+        ]);
+
+        expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+        expect((results[1] as PromiseRejectedResult).reason.message).toBe('Player has already committed');
+        expect(rps.rpsGameRepo.recordCommit).toHaveBeenCalledOnce();
+    });
+
+    it('should complete the game when both players reveal at the same moment', async () => {
+        const rps = setup();
+        await rps.commitMove.execute({ gameId: 'game', userId: 'a', commitment: MoveCommitment.hash('ROCK', salt) });
+        await rps.commitMove.execute({ gameId: 'game', userId: 'b', commitment: MoveCommitment.hash('PAPER', salt) });
+
+        await Promise.all([
+            rps.revealMove.execute({ gameId: 'game', userId: 'a', hand: 'ROCK', salt }),
+            rps.revealMove.execute({ gameId: 'game', userId: 'b', hand: 'PAPER', salt }),
+        ]);
+
+        expect(rps.stored.status).toBe('COMPLETE');
+        expect(rps.onGameComplete).toHaveBeenCalledOnce();
+        expect(rps.onGameComplete).toHaveBeenCalledWith('game', ['b']);
+    });
+});
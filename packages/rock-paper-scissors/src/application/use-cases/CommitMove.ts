@@ -0,0 +1,87 @@
+import type { RockPaperScissorsStatus } from '@prisma/client';
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RpsBroadcaster } from '../../infrastructure/sse/RpsBroadcaster.js';
+import { NotFoundError, ValidationError } from '@pluto/shared';
+
+export interface CommitMoveInput {
+    gameId: string;
+    userId: string;
+    commitment: string;
+}
+
+export interface CommitMoveResult {
+    round: number;
+    commitment: string;
+    allPlayersCommitted: boolean; // Reveals are open
+    status: RockPaperScissorsStatus;
+}
+
+/**
+ * Check a commitment sent by a player: a hex SHA-256 digest
+ */
+export function parseCommitment(value: unknown): string {
+    if (typeof value !== 'string' || !/^[0-9a-f]{64}$/i.test(value)) {
+        throw new ValidationError('commitment must be a hex SHA-256 digest');
+    }
+    return value.toLowerCase();
+}
+
+/**
+ * Handle a player's hashed move
+ */
+export class CommitMoveUseCase {
+    constructor(
+        private rpsGameRepository: IRpsGameRepository,
+        private broadcaster: RpsBroadcaster
+    ) { }
+
+    async execute(input: CommitMoveInput): Promise<CommitMoveResult> {
+        // Under the game's lock, so the last commit of the round sees every other one and opens reveals
+        const { game, move } = await this.rpsGameRepository.runLocked(input.gameId, async rpsGameRepository => {
+            const game = await rpsGameRepository.findById(input.gameId);
+            if (!game) {
+                throw new NotFoundError('RockPaperScissors game', input.gameId);
+            }
+
+            if (!game.isCommitting) {
+                throw new ValidationError('Game is not in commit phase');
+            }
+
+            // Check player is in game and in the current round
+            const player = game.getPlayer(input.userId);
+            if (!player) {
+                throw new ValidationError('Player is not in this game');
+            }
+            if (!game.isInCurrentRound(input.userId)) {
+                throw new ValidationError('Player is out of the replay');
+            }
+            if (player.moveIn(game.round)) {
+                throw new ValidationError('Player has already committed');
+            }
+
+            const move = game.commit(input.userId, input.commitment);
+            await rpsGameRepository.recordCommit(game.id, input.userId, move);
+            if (game.status === 'REVEALING') {
+                await rpsGameRepository.saveProgress(game);
+            }
+            return { game, move };
+        });
+
+        this.broadcaster.broadcast(game.id, { type: 'player_committed', playerId: input.userId, round: move.round });
+
+        if (game.status === 'REVEALING') {
+            this.broadcaster.broadcast(game.id, {
+                type: 'reveal_started',
+                round: game.round,
+                moveDeadline: game.moveDeadline?.toISOString(),
+            });
+        }
+
+        return {
+            round: move.round,
+            commitment: input.commitment,
+            allPlayersCommitted: game.status === 'REVEALING',
+            status: game.status,
+        };
+    }
+}
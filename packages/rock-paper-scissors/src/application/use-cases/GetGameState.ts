@@ -0,0 +1,51 @@
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RockPaperScissorsState } from '@pluto/shared';
+import { NotFoundError } from '@pluto/shared';
+
+export interface GetGameStateInput {
+    gameId?: string;
+    sessionId?: string;
+}
+
+/**
+ * Get current state of a RockPaperScissors game
+ * Hands stay hidden until every move of their round is revealed
+ */
+export class GetGameStateUseCase {
+    constructor(private rpsGameRepository: IRpsGameRepository) { }
+
+    async execute(input: GetGameStateInput): Promise<RockPaperScissorsState> {
+        let game;
+
+        if (input.gameId) {
+            game = await this.rpsGameRepository.findById(input.gameId);
+        } else if (input.sessionId) {
+            game = await this.rpsGameRepository.findBySessionId(input.sessionId);
+        } else {
+            throw new Error('Either gameId or sessionId must be provided');
+        }
+
+        if (!game) {
+            throw new NotFoundError('RockPaperScissors game');
+        }
+
+        return {
+            gameId: game.id,
+            sessionId: game.sessionId,
+            status: game.status,
+            round: game.round,
+            moveDeadline: game.moveDeadline?.toISOString(),
+            players: game.players.map(p => ({
+                userId: p.userId,
+                displayName: p.displayName,
+                inCurrentRound: game.isInCurrentRound(p.userId),
+                hasCommitted: p.moveIn(game.round) !== undefined,
+                hasRevealed: p.hasRevealedIn(game.round),
+                hasForfeited: p.moveIn(game.round)?.forfeited ?? false,
+            })),
+            rounds: game.getRounds(),
+            winnerId: game.status === 'COMPLETE' ? game.getWinners()[0] : undefined,
+            settlementStatus: game.settlementStatus,
+        };
+    }
+}
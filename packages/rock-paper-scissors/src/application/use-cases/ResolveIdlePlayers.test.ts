@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RpsBroadcaster } from '../../infrastructure/sse/RpsBroadcaster.js';
+import { RpsGame, RpsPlayer } from '../../domain/entities/RpsGame.js';
+import { MoveCommitment } from '../../domain/entities/MoveCommitment.js';
+import { ResolveIdlePlayersUseCase } from './ResolveIdlePlayers.js';
+
+const salt = 'pepper-pepper-pepper';
+const deadline = new Date('2024-01-01T12:00:00Z');
+
+// A game between a, b and c where only a has committed, with its commit deadline at noon
+function setup() {
+    const game = new RpsGame(
+        'game', 'session', 'COMMITTING', new Date(), ['a', 'b', 'c'].map(id => new RpsPlayer(id, id)),
+        'token', 'PENDING', 0, 1, { timeoutSeconds: 30, deadline }
+    );
+    game.commit('a', MoveCommitment.hash('ROCK', salt));
+
+    const rpsGameRepo = {
+        findById: vi.fn(async () => game),
+        recordForfeit: vi.fn(async () => { }),
+        saveProgress: vi.fn(async () => { }),
+        runLocked: <T>(_gameId: string, work: (repo: IRpsGameRepository) => Promise<T>) => work(rpsGameRepo),
+    } as unknown as IRpsGameRepository;
+    const broadcaster = { broadcast: vi.fn() } as unknown as RpsBroadcaster;
+    const onGameComplete = vi.fn(async () => { });
+
+    return {
+        game,
+        rpsGameRepo,
+        broadcaster,
+        onGameComplete,
+        resolveIdlePlayers: new ResolveIdlePlayersUseCase(rpsGameRepo, broadcaster, onGameComplete),
+    };
+}
+
+describe('ResolveIdlePlayersUseCase', () => {
+    it('should leave the game alone before the deadline', async () => {
+        const rps = setup();
+
+        expect(await rps.resolveIdlePlayers.execute('game', new Date(deadline.getTime() - 1))).toBe(0);
+        expect(rps.rpsGameRepo.recordForfeit).not.toHaveBeenCalled();
+        expect(rps.rpsGameRepo.saveProgress).not.toHaveBeenCalled();
+    });
+
+    it('should forfeit players who missed the commit deadline and open reveals', async () => {
+        const rps = setup();
+
+        expect(await rps.resolveIdlePlayers.execute('game', deadline)).toBe(2);
+        expect(rps.rpsGameRepo.recordForfeit).toHaveBeenCalledWith('game', 'b', expect.objectContaining({ forfeited: true, commitment: null }));
+        expect(rps.rpsGameRepo.recordForfeit).toHaveBeenCalledWith('game', 'c', expect.objectContaining({ forfeited: true }));
+        expect(rps.rpsGameRepo.saveProgress).toHaveBeenCalledWith(rps.game);
+        expect(rps.game.status).toBe('REVEALING');
+        expect(rps.broadcaster.broadcast).toHaveBeenCalledWith('game', { type: 'player_forfeited', playerId: 'b', round: 1 });
+        expect(rps.broadcaster.broadcast).toHaveBeenCalledWith('game', expect.objectContaining({ type: 'reveal_started', round: 1 }));
+        expect(rps.onGameComplete).not.toHaveBeenCalled();
+    });
+
+    it('should settle the game once the last idle player forfeits the reveal', async () => {
+        const rps = setup();
+        await rps.resolveIdlePlayers.execute('game', deadline);
+
+        // a never reveals either
+        expect(await rps.resolveIdlePlayers.execute('game', new Date(Date.now() + 60_000))).toBe(1);
+        expect(rps.game.status).toBe('COMPLETE');
+        expect(rps.broadcaster.broadcast).toHaveBeenCalledWith('game', { type: 'game_complete', winners: ['a', 'b', 'c'] });
+        expect(rps.onGameComplete).toHaveBeenCalledWith('game', ['a', 'b', 'c']);
+    });
+});
@@ -0,0 +1,55 @@
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RpsBroadcaster } from '../../infrastructure/sse/RpsBroadcaster.js';
+import { broadcastForfeits } from '../services/GameEvents.js';
+import { NotFoundError } from '@pluto/shared';
+
+/**
+ * Resolve the players who let a phase's move deadline pass
+ * Idle players forfeit the round, and the phase then ends as if they had moved
+ */
+export class ResolveIdlePlayersUseCase {
+    constructor(
+        private rpsGameRepository: IRpsGameRepository,
+        private broadcaster: RpsBroadcaster,
+        private onGameComplete?: (gameId: string, winners: string[]) => Promise<void>
+    ) { }
+
+    /**
+     * @returns the number of idle players resolved
+     */
+    async execute(gameId: string, now = new Date()): Promise<number> {
+        // Under the same lock as moves, so a forfeit can't race the move that would have ended the phase
+        const resolved = await this.rpsGameRepository.runLocked(gameId, async rpsGameRepository => {
+            const game = await rpsGameRepository.findById(gameId);
+            if (!game) {
+                throw new NotFoundError('RockPaperScissors game', gameId);
+            }
+            if (!game.isPastMoveDeadline(now)) {
+                return null;
+            }
+
+            const round = game.round;
+            const wasCommitting = game.isCommitting;
+            const forfeited = game.resolveIdlePlayers(now);
+
+            for (const { userId, move } of forfeited) {
+                await rpsGameRepository.recordForfeit(game.id, userId, move);
+            }
+            await rpsGameRepository.saveProgress(game);
+            return { game, round, wasCommitting, forfeited };
+        });
+
+        if (!resolved) {
+            return 0;
+        }
+
+        const { game, round, wasCommitting, forfeited } = resolved;
+        broadcastForfeits(this.broadcaster, game, forfeited.map(f => f.userId), round, wasCommitting);
+
+        if (game.status === 'COMPLETE' && this.onGameComplete) {
+            await this.onGameComplete(game.id, game.getWinners());
+        }
+
+        return forfeited.length;
+    }
+}
@@ -0,0 +1,114 @@
+import type { RockPaperScissorsHand, RockPaperScissorsStatus } from '@prisma/client';
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RpsBroadcaster } from '../../infrastructure/sse/RpsBroadcaster.js';
+import { MoveCommitment } from '../../domain/entities/MoveCommitment.js';
+import { broadcastReveal } from '../services/GameEvents.js';
+import { NotFoundError, ValidationError } from '@pluto/shared';
+
+const HANDS: RockPaperScissorsHand[] = ['ROCK', 'PAPER', 'SCISSORS'];
+
+export interface RevealMoveInput {
+    gameId: string;
+    userId: string;
+    hand: RockPaperScissorsHand;
+    salt: string;
+}
+
+export interface RevealMoveResult {
+    round: number;
+    hand: RockPaperScissorsHand;
+    allPlayersRevealed: boolean; // Everyone in this round has revealed
+    status: RockPaperScissorsStatus;
+    tiedPlayers?: string[]; // Players replaying the round that just started
+    winners?: string[];
+}
+
+/**
+ * Check a revealed move sent by a player
+ * Salts must be long enough that the hand can't be found by hashing guesses
+ */
+export function parseReveal(hand: unknown, salt: unknown): { hand: RockPaperScissorsHand; salt: string } {
+    if (!HANDS.includes(hand as RockPaperScissorsHand)) {
+        throw new ValidationError('hand must be ROCK, PAPER or SCISSORS');
+    }
+    if (typeof salt !== 'string' || salt.length < 16 || salt.length > 128) {
+        throw new ValidationError('salt must be a string of 16-128 characters');
+    }
+    return { hand: hand as RockPaperScissorsHand, salt };
+}
+
+/**
+ * Handle a player revealing their committed move
+ */
+export class RevealMoveUseCase {
+    constructor(
+        private rpsGameRepository: IRpsGameRepository,
+        private broadcaster: RpsBroadcaster,
+        private onGameComplete?: (gameId: string, winners: string[]) => Promise<void>
+    ) { }
+
+    async execute(input: RevealMoveInput): Promise<RevealMoveResult> {
+        // Under the game's lock, so the last reveal of the round sees every other one and scores it
+        const { game, move, result } = await this.rpsGameRepository.runLocked(input.gameId, async rpsGameRepository => {
+            const game = await rpsGameRepository.findById(input.gameId);
+            if (!game) {
+                throw new NotFoundError('RockPaperScissors game', input.gameId);
+            }
+
+            if (!game.isRevealing) {
+                throw new ValidationError('Game is not in reveal phase');
+            }
+
+            // Check player is in the current round and reveals what they committed to
+            const player = game.getPlayer(input.userId);
+            if (!player) {
+                throw new ValidationError('Player is not in this game');
+            }
+            if (!game.isInCurrentRound(input.userId)) {
+                throw new ValidationError('Player is out of the replay');
+            }
+            const committed = player.moveIn(game.round)!;
+            if (committed.hand) {
+                throw new ValidationError('Player has already revealed');
+            }
+            if (committed.forfeited || !committed.commitment) {
+                throw new ValidationError('Player forfeited this round');
+            }
+            if (!MoveCommitment.matches(committed.commitment, input.hand, input.salt)) {
+                throw new ValidationError('Revealed move does not match the commitment');
+            }
+
+            const move = game.reveal(input.userId, input.hand, input.salt);
+            await rpsGameRepository.recordReveal(game.id, input.userId, move);
+
+            const nextRound = game.round !== move.round;
+            const result: RevealMoveResult = {
+                round: move.round,
+                hand: input.hand,
+                allPlayersRevealed: nextRound || game.status === 'COMPLETE',
+                status: game.status,
+            };
+
+            // Players tied on top replay the round
+            if (nextRound) {
+                await rpsGameRepository.saveProgress(game);
+                result.tiedPlayers = game.players.filter(p => game.isInCurrentRound(p.userId)).map(p => p.userId);
+            }
+
+            if (game.status === 'COMPLETE') {
+                await rpsGameRepository.saveProgress(game);
+                result.winners = game.getWinners();
+            }
+            return { game, move, result };
+        });
+
+        broadcastReveal(this.broadcaster, game, input.userId, move.round);
+
+        if (game.status === 'COMPLETE' && this.onGameComplete) {
+            // Settle the contract
+            await this.onGameComplete(game.id, result.winners!);
+        }
+
+        return result;
+    }
+}
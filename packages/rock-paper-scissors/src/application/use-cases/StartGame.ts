@@ -0,0 +1,39 @@
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { RpsGame } from '../../domain/entities/RpsGame.js';
+import { addSeconds } from '@pluto/shared';
+
+const DEFAULT_MOVE_TIMEOUT_SECONDS = 30;
+
+export interface StartGameInput {
+    sessionId: string;
+    sessionToken: string; // From contract execution, kept to settle the game
+    moveTimeoutSeconds?: number; // Per commit or reveal phase
+    players: Array<{
+        userId: string;
+        displayName: string;
+    }>;
+}
+
+/**
+ * Start a new RockPaperScissors game, opening round 1 for commitments
+ * The first commit deadline starts now
+ */
+export class StartGameUseCase {
+    constructor(private rpsGameRepository: IRpsGameRepository) { }
+
+    async execute(input: StartGameInput): Promise<RpsGame> {
+        // Check if game already exists for this session
+        const existing = await this.rpsGameRepository.findBySessionId(input.sessionId);
+        if (existing) {
+            return existing;
+        }
+
+        const timeoutSeconds = input.moveTimeoutSeconds ?? DEFAULT_MOVE_TIMEOUT_SECONDS;
+        return this.rpsGameRepository.create({
+            sessionId: input.sessionId,
+            sessionToken: input.sessionToken,
+            moveTimer: { timeoutSeconds, deadline: addSeconds(timeoutSeconds) },
+            players: input.players,
+        });
+    }
+}
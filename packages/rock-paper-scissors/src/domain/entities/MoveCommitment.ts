@@ -0,0 +1,20 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { RockPaperScissorsHand } from '@prisma/client';
+
+/**
+ * Commit-reveal scheme for simultaneous moves
+ * Players first send SHA-256("HAND:salt") and only reveal the hand and salt once every move of
+ * the round is committed, so nobody can pick their hand after seeing someone else's.
+ * The salt keeps the three possible hands from being guessed from the commitment.
+ */
+export class MoveCommitment {
+    static hash(hand: RockPaperScissorsHand, salt: string): string {
+        return createHash('sha256').update(`${hand}:${salt}`).digest('hex');
+    }
+
+    static matches(commitment: string, hand: RockPaperScissorsHand, salt: string): boolean {
+        const expected = Buffer.from(MoveCommitment.hash(hand, salt), 'hex');
+        const actual = Buffer.from(commitment, 'hex');
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import type { RockPaperScissorsHand } from '@prisma/client';
+import { RpsGame, RpsPlayer } from './RpsGame.js';
+import { MoveCommitment } from './MoveCommitment.js';
+
+const salt = 'pepper-pepper-pepper';
+const deadline = new Date('2024-01-01T12:00:00Z');
+
+function newGame(userIds: string[]): RpsGame {
+    return new RpsGame('game', 'session', 'COMMITTING', new Date(), userIds.map(id => new RpsPlayer(id, id)));
+}
+
+function timedGame(userIds: string[]): RpsGame {
+    return new RpsGame(
+        'game', 'session', 'COMMITTING', new Date(), userIds.map(id => new RpsPlayer(id, id)),
+        null, 'PENDING', 0, 1, { timeoutSeconds: 30, deadline }
+    );
+}
+
+// Commit every hand, then reveal them in the same order
+function playRound(game: RpsGame, hands: Array<[string, RockPaperScissorsHand]>): void {
+    hands.forEach(([userId, hand]) => game.commit(userId, MoveCommitment.hash(hand, salt)));
+    hands.forEach(([userId, hand]) => game.reveal(userId, hand, salt));
+}
+
+describe('RpsGame', () => {
+    it('should only open reveals once every move is committed', () => {
+        const game = newGame(['a', 'b']);
+        game.commit('a', MoveCommitment.hash('ROCK', salt));
+
+        expect(game.status).toBe('COMMITTING');
+        expect(() => game.reveal('a', 'ROCK', salt)).toThrow('not in reveal phase');
+
+        game.commit('b', MoveCommitment.hash('PAPER', salt));
+        expect(game.status).toBe('REVEALING');
+        expect(game.getRounds()[0].results).toEqual([]);
+    });
+
+    it('should reject a reveal that does not match the commitment', () => {
+        const game = newGame(['a', 'b']);
+        game.commit('a', MoveCommitment.hash('ROCK', salt));
+        game.commit('b', MoveCommitment.hash('PAPER', salt));
+
+        expect(() => game.reveal('a', 'PAPER', salt)).toThrow('does not match');
+        expect(() => game.reveal('a', 'ROCK', 'another-salt-value')).toThrow('does not match');
+    });
+
+    it('should rank a head-to-head win', () => {
+        const game = newGame(['a', 'b']);
+        playRound(game, [['a', 'ROCK'], ['b', 'SCISSORS']]);
+
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getWinners()).toEqual(['a']);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 1 },
+            { userId: 'b', rank: 2 },
+        ]);
+    });
+
+    it('should replay a draw', () => {
+        const game = newGame(['a', 'b']);
+        playRound(game, [['a', 'PAPER'], ['b', 'PAPER']]);
+
+        expect(game.status).toBe('COMMITTING');
+        expect(game.round).toBe(2);
+
+        playRound(game, [['a', 'PAPER'], ['b', 'SCISSORS']]);
+        expect(game.getWinners()).toEqual(['b']);
+    });
+
+    it('should score every pairing and replay among the players tied on top', () => {
+        const game = newGame(['a', 'b', 'c', 'd']);
+        playRound(game, [['a', 'ROCK'], ['b', 'ROCK'], ['c', 'SCISSORS'], ['d', 'SCISSORS']]);
+
+        expect(game.getRounds()[0].results.map(r => r.points)).toEqual([2, 2, 0, 0]);
+        expect(game.isInCurrentRound('c')).toBe(false);
+        expect(() => game.commit('c', MoveCommitment.hash('ROCK', salt))).toThrow('out of round 2');
+
+        playRound(game, [['a', 'SCISSORS'], ['b', 'PAPER']]);
+        expect(game.getWinners()).toEqual(['a']);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 1 },
+            { userId: 'b', rank: 2 },
+            { userId: 'c', rank: 3 },
+            { userId: 'd', rank: 3 },
+        ]);
+    });
+
+    it('should leave players alone until the deadline passes', () => {
+        const game = timedGame(['a', 'b']);
+
+        expect(game.resolveIdlePlayers(new Date(deadline.getTime() - 1))).toEqual([]);
+        expect(game.status).toBe('COMMITTING');
+    });
+
+    it('should forfeit players who never committed and let the others reveal', () => {
+        const game = timedGame(['a', 'b', 'c']);
+        game.commit('a', MoveCommitment.hash('ROCK', salt));
+        game.commit('b', MoveCommitment.hash('SCISSORS', salt));
+
+        expect(game.resolveIdlePlayers(deadline).map(f => f.userId)).toEqual(['c']);
+        expect(game.status).toBe('REVEALING');
+        expect(game.moveDeadline!.getTime()).toBeGreaterThan(deadline.getTime());
+
+        game.reveal('a', 'ROCK', salt);
+        game.reveal('b', 'SCISSORS', salt);
+        expect(game.getRounds()[0].results).toEqual([
+            { userId: 'a', hand: 'ROCK', points: 2 },
+            { userId: 'b', hand: 'SCISSORS', points: 1 },
+            { userId: 'c', hand: null, points: 0 },
+        ]);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 1 },
+            { userId: 'b', rank: 2 },
+            { userId: 'c', rank: 3 },
+        ]);
+        expect(game.moveDeadline).toBeNull();
+    });
+
+    it('should forfeit players who never revealed and refuse their late reveal', () => {
+        const game = timedGame(['a', 'b']);
+        game.commit('a', MoveCommitment.hash('PAPER', salt));
+        game.commit('b', MoveCommitment.hash('SCISSORS', salt));
+        game.reveal('a', 'PAPER', salt);
+
+        expect(game.resolveIdlePlayers(new Date(Date.now() + 60_000)).map(f => f.userId)).toEqual(['b']);
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getWinners()).toEqual(['a']);
+        expect(() => game.reveal('b', 'SCISSORS', salt)).toThrow('not in reveal phase');
+    });
+
+    it('should end the game when every contender forfeits', () => {
+        const game = timedGame(['a', 'b']);
+        playRound(game, [['a', 'ROCK'], ['b', 'ROCK']]);
+        expect(game.round).toBe(2);
+
+        game.resolveIdlePlayers(new Date(Date.now() + 60_000));
+        expect(game.status).toBe('COMPLETE');
+        expect(game.getWinners()).toEqual(['a', 'b']);
+        expect(game.getStandings()).toEqual([
+            { userId: 'a', rank: 1 },
+            { userId: 'b', rank: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,395 @@
+import type {
+    RockPaperScissorsHand,
+    RockPaperScissorsSettlementStatus,
+    RockPaperScissorsStatus,
+} from '@prisma/client';
+import { addSeconds } from '@pluto/shared';
+import { MoveCommitment } from './MoveCommitment.js';
+
+const BEATS: Record<RockPaperScissorsHand, RockPaperScissorsHand> = {
+    ROCK: 'SCISSORS',
+    PAPER: 'ROCK',
+    SCISSORS: 'PAPER',
+};
+
+/**
+ * How long players get to commit or reveal in each phase
+ */
+export interface MoveTimer {
+    timeoutSeconds: number;
+    deadline: Date | null; // For the current phase, cleared once the game is complete
+}
+
+/**
+ * RockPaperScissors game domain entity
+ * Round-robin: each round every contender throws one hand, which scores a point against every
+ * other contender's hand it beats. The players with the most points move on; while more than one
+ * is left on top they replay among themselves, so a game ends with a single winner unless every
+ * contender left forfeits.
+ *
+ * Each round is played in two phases: every contender commits to a hashed move (COMMITTING),
+ * then reveals it (REVEALING).
+ *
+ * Each phase has a deadline; players still idle when it passes forfeit the round, scoring nothing
+ * and counting as beaten by every hand thrown against them, so a game can't keep the players'
+ * funds locked forever.
+ */
+export class RpsGame {
+    constructor(
+        public readonly id: string,
+        public readonly sessionId: string,
+        private _status: RockPaperScissorsStatus,
+        public readonly createdAt: Date,
+        private _players: RpsPlayer[],
+        public readonly sessionToken: string | null = null,
+        public readonly settlementStatus: RockPaperScissorsSettlementStatus = 'PENDING',
+        public readonly settlementAttempts: number = 0,
+        private _round: number = 1,
+        private moveTimer: MoveTimer | null = null // Missing on games started before move deadlines
+    ) { }
+
+    get status(): RockPaperScissorsStatus {
+        return this._status;
+    }
+
+    get round(): number {
+        return this._round;
+    }
+
+    get players(): RpsPlayer[] {
+        return [...this._players];
+    }
+
+    get moveDeadline(): Date | null {
+        return this.moveTimer?.deadline ?? null;
+    }
+
+    get isCommitting(): boolean {
+        return this._status === 'COMMITTING';
+    }
+
+    get isRevealing(): boolean {
+        return this._status === 'REVEALING';
+    }
+
+    /**
+     * Finished but not yet paid out
+     */
+    get isAwaitingSettlement(): boolean {
+        return this._status === 'COMPLETE' && this.settlementStatus === 'PENDING';
+    }
+
+    /**
+     * Get a player by user ID
+     */
+    getPlayer(userId: string): RpsPlayer | undefined {
+        return this._players.find(p => p.userId === userId);
+    }
+
+    /**
+     * Whether a player throws in the current round
+     */
+    isInCurrentRound(userId: string): boolean {
+        return this.contenders(this._round).some(p => p.userId === userId);
+    }
+
+    /**
+     * Commit a player's hashed move for the current round
+     * The reveal phase starts once every contender has committed
+     */
+    commit(userId: string, commitment: string): RpsMove {
+        const player = this.requireContender(userId);
+        if (!this.isCommitting) {
+            throw new Error('Game is not in commit phase');
+        }
+        if (player.moveIn(this._round)) {
+            throw new Error(`Player ${userId} already committed`);
+        }
+
+        const move: RpsMove = { round: this._round, commitment, hand: null, salt: null, forfeited: false };
+        player.commit(move);
+        this.advance();
+
+        return move;
+    }
+
+    /**
+     * Reveal a player's committed move for the current round
+     * The round ends once every contender has revealed
+     */
+    reveal(userId: string, hand: RockPaperScissorsHand, salt: string): RpsMove {
+        const player = this.requireContender(userId);
+        if (!this.isRevealing) {
+            throw new Error('Game is not in reveal phase');
+        }
+
+        const move = player.reveal(this._round, hand, salt);
+        this.advance();
+
+        return move;
+    }
+
+    /**
+     * Whether the current phase's deadline has passed
+     */
+    isPastMoveDeadline(now = new Date()): boolean {
+        return this._status !== 'COMPLETE' && this.moveDeadline !== null && this.moveDeadline <= now;
+    }
+
+    /**
+     * Forfeit the round of every contender who let the phase deadline pass, which ends the phase
+     * Contenders who haven't committed forfeit while committing, and those who haven't revealed
+     * while revealing
+     */
+    resolveIdlePlayers(now = new Date()): Array<{ userId: string; move: RpsMove }> {
+        if (!this.isPastMoveDeadline(now)) {
+            return [];
+        }
+
+        const idle = this.contenders(this._round).filter(p => this.isCommitting
+            ? !p.moveIn(this._round)
+            : !p.hasPlayedIn(this._round));
+        const forfeited = idle.map(player => ({ userId: player.userId, move: player.forfeit(this._round) }));
+
+        this.advance();
+        return forfeited;
+    }
+
+    private requireContender(userId: string): RpsPlayer {
+        const player = this.getPlayer(userId);
+        if (!player) {
+            throw new Error(`Player ${userId} not in game`);
+        }
+        if (!this.isInCurrentRound(userId)) {
+            throw new Error(`Player ${userId} is out of round ${this._round}`);
+        }
+        return player;
+    }
+
+    /**
+     * Open reveals once every contender has committed (or forfeited), and end the round once
+     * every contender has revealed (or forfeited)
+     */
+    private advance(): void {
+        const contenders = this.contenders(this._round);
+        if (this.isCommitting && contenders.every(p => p.moveIn(this._round))) {
+            this._status = 'REVEALING';
+            this.restartDeadline();
+        }
+        if (this.isRevealing && contenders.every(p => p.hasPlayedIn(this._round))) {
+            this.finishRound();
+        }
+    }
+
+    /**
+     * Complete the game, or replay the round among the players tied on top
+     * A round every contender forfeited ends the game with them sharing the top rather than
+     * repeating forever
+     */
+    private finishRound(): void {
+        const forfeited = this.contenders(this._round).every(p => p.moveIn(this._round)!.forfeited);
+        if (!forfeited && this.leaders(this._round).length > 1) {
+            this._round++;
+            this._status = 'COMMITTING';
+        } else {
+            this._status = 'COMPLETE';
+        }
+        this.restartDeadline();
+    }
+
+    private restartDeadline(): void {
+        if (this.moveTimer) {
+            this.moveTimer.deadline = this._status === 'COMPLETE' ? null : addSeconds(this.moveTimer.timeoutSeconds);
+        }
+    }
+
+    /**
+     * Players throwing in a round: everyone in round 1, then those tied on top of the previous round
+     */
+    private contenders(round: number): RpsPlayer[] {
+        let contenders = this._players;
+        for (let r = 1; r < round; r++) {
+            contenders = this.topOf(r, contenders);
+        }
+        return contenders;
+    }
+
+    private leaders(round: number): RpsPlayer[] {
+        return this.topOf(round, this.contenders(round));
+    }
+
+    private topOf(round: number, contenders: RpsPlayer[]): RpsPlayer[] {
+        const points = contenders.map(p => this.pointsAgainst(round, p, contenders));
+        const maxPoints = Math.max(...points);
+        return contenders.filter((_, i) => points[i] === maxPoints);
+    }
+
+    private pointsIn(round: number, player: RpsPlayer): number {
+        return this.pointsAgainst(round, player, this.contenders(round));
+    }
+
+    /**
+     * One point for every other contender's hand the player's hand beats, and every contender who forfeited
+     */
+    private pointsAgainst(round: number, player: RpsPlayer, contenders: RpsPlayer[]): number {
+        const hand = player.moveIn(round)?.hand;
+        if (!hand) return 0;
+        return contenders.filter(other => {
+            const move = other.moveIn(round);
+            return move?.hand === BEATS[hand] || (move?.forfeited ?? false);
+        }).length;
+    }
+
+    /**
+     * The players left on top: a single player, unless every contender forfeited the last round
+     */
+    getWinners(): string[] {
+        if (this._status !== 'COMPLETE') {
+            throw new Error('Not all players have revealed');
+        }
+
+        return this.leaders(this._round).map(p => p.userId);
+    }
+
+    /**
+     * Rank players, best first
+     * Players who reached a later round rank above those knocked out earlier; within a round
+     * players rank by points. Equal results share a rank and the next rank skips ahead (1, 2, 2)
+     */
+    getStandings(): Array<{ userId: string; rank: number }> {
+        if (this._status !== 'COMPLETE') {
+            throw new Error('Not all players have revealed');
+        }
+
+        const lastRound = (p: RpsPlayer) => p.lastMove!.round;
+        const beats = (a: RpsPlayer, b: RpsPlayer) => lastRound(a) !== lastRound(b)
+            ? lastRound(a) > lastRound(b)
+            : this.pointsIn(lastRound(a), a) > this.pointsIn(lastRound(b), b);
+
+        return this._players.map(p => ({
+            userId: p.userId,
+            rank: 1 + this._players.filter(other => beats(other, p)).length,
+        }));
+    }
+
+    /**
+     * Every round's hands and points, once all its moves are revealed
+     * Hands of a round still being revealed stay hidden; forfeited moves have no hand
+     */
+    getRounds(): Array<{ round: number; results: Array<{ userId: string; hand: RockPaperScissorsHand | null; points: number }> }> {
+        const rounds = [];
+        for (let round = 1; round <= this._round; round++) {
+            const contenders = this.contenders(round);
+            const revealed = contenders.every(p => p.hasPlayedIn(round));
+            rounds.push({
+                round,
+                results: revealed
+                    ? contenders.map(p => ({
+                        userId: p.userId,
+                        hand: p.moveIn(round)!.hand,
+                        points: this.pointsAgainst(round, p, contenders),
+                    }))
+                    : [],
+            });
+        }
+        return rounds;
+    }
+}
+
+export interface RpsMove {
+    round: number;
+    commitment: string | null; // Null when forfeited before committing
+    hand: RockPaperScissorsHand | null; // Null until revealed
+    salt: string | null;
+    forfeited: boolean; // Let the commit or reveal deadline pass
+}
+
+/**
+ * Player in a rock-paper-scissors game
+ */
+export class RpsPlayer {
+    private _moves: RpsMove[];
+
+    constructor(
+        public readonly userId: string,
+        public readonly displayName: string,
+        moves: RpsMove[] = []
+    ) {
+        this._moves = [...moves].sort((a, b) => a.round - b.round);
+    }
+
+    get moves(): RpsMove[] {
+        return [...this._moves];
+    }
+
+    /**
+     * The player's latest move
+     */
+    get lastMove(): RpsMove | null {
+        return this._moves[this._moves.length - 1] ?? null;
+    }
+
+    moveIn(round: number): RpsMove | undefined {
+        return this._moves.find(m => m.round === round);
+    }
+
+    hasRevealedIn(round: number): boolean {
+        return this.moveIn(round)?.hand != null;
+    }
+
+    /**
+     * Whether the player is done with a round: revealed or forfeited
+     */
+    hasPlayedIn(round: number): boolean {
+        const move = this.moveIn(round);
+        return move !== undefined && (move.hand !== null || move.forfeited);
+    }
+
+    commit(move: RpsMove): void {
+        if (this.moveIn(move.round)) {
+            throw new Error(`Already committed in round ${move.round}`);
+        }
+        this._moves.push(move);
+    }
+
+    /**
+     * Reveal the move committed for a round, checking it against the commitment
+     */
+    reveal(round: number, hand: RockPaperScissorsHand, salt: string): RpsMove {
+        const move = this.moveIn(round);
+        if (!move) {
+            throw new Error(`Nothing committed in round ${round}`);
+        }
+        if (move.hand) {
+            throw new Error(`Already revealed in round ${round}`);
+        }
+        if (move.forfeited || !move.commitment) {
+            throw new Error(`Forfeited round ${round}`);
+        }
+        if (!MoveCommitment.matches(move.commitment, hand, salt)) {
+            throw new Error('Revealed move does not match the commitment');
+        }
+
+        move.hand = hand;
+        move.salt = salt;
+        return move;
+    }
+
+    /**
+     * Forfeit a round, with or without a committed move
+     */
+    forfeit(round: number): RpsMove {
+        const move = this.moveIn(round);
+        if (!move) {
+            const forfeited: RpsMove = { round, commitment: null, hand: null, salt: null, forfeited: true };
+            this.commit(forfeited);
+            return forfeited;
+        }
+        if (move.hand) {
+            throw new Error(`Already revealed in round ${round}`);
+        }
+
+        move.forfeited = true;
+        return move;
+    }
+}
@@ -0,0 +1,57 @@
+import type { GameSettlementStore } from '@pluto/shared';
+import type { MoveTimer, RpsGame, RpsMove } from '../entities/RpsGame.js';
+
+/**
+ * Repository interface for RockPaperScissors game operations
+ * Settlement bookkeeping comes from the shared game settlement store
+ */
+export interface IRpsGameRepository extends GameSettlementStore<RpsGame> {
+    /**
+     * Find game by session ID
+     */
+    findBySessionId(sessionId: string): Promise<RpsGame | null>;
+
+    /**
+     * Create a new game
+     */
+    create(data: {
+        sessionId: string;
+        sessionToken: string;
+        moveTimer: MoveTimer;
+        players: Array<{
+            userId: string;
+            displayName: string;
+        }>;
+    }): Promise<RpsGame>;
+
+    /**
+     * Record a committed move
+     */
+    recordCommit(gameId: string, userId: string, move: RpsMove): Promise<void>;
+
+    /**
+     * Record a revealed move
+     */
+    recordReveal(gameId: string, userId: string, move: RpsMove): Promise<void>;
+
+    /**
+     * Record a forfeited move, committed or not
+     */
+    recordForfeit(gameId: string, userId: string, move: RpsMove): Promise<void>;
+
+    /**
+     * Save a game's status, round and move deadline after a phase ends
+     */
+    saveProgress(game: RpsGame): Promise<void>;
+
+    /**
+     * Run work while holding the game's row lock, in one transaction with a repository bound to it
+     * Every move goes through here, so the last commit or reveal of a phase sees all the others
+     */
+    runLocked<T>(gameId: string, work: (rpsGameRepository: IRpsGameRepository) => Promise<T>): Promise<T>;
+
+    /**
+     * Find IDs of games whose current phase's move deadline has passed
+     */
+    findPastMoveDeadline(now: Date, limit: number): Promise<string[]>;
+}
@@ -0,0 +1,13 @@
+export * from './domain/entities/RpsGame.js';
+export * from './domain/entities/MoveCommitment.js';
+export * from './domain/repositories/IRpsGameRepository.js';
+export * from './application/use-cases/StartGame.js';
+export * from './application/use-cases/CommitMove.js';
+export * from './application/use-cases/RevealMove.js';
+export * from './application/use-cases/GetGameState.js';
+export * from './application/use-cases/ResolveIdlePlayers.js';
+export * from './infrastructure/repositories/PrismaRpsGameRepository.js';
+export * from './infrastructure/jobs/MoveDeadlineEnforcer.js';
+export * from './infrastructure/sse/RpsBroadcaster.js';
+export * from './interface/routes.js';
+export * from './interface/RockPaperScissorsPlugin.js';
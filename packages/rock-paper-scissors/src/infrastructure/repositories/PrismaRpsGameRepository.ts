@@ -0,0 +1,257 @@
+import type {
+    Prisma,
+    PrismaClient,
+    RockPaperScissorsHand,
+    RockPaperScissorsStatus,
+    RockPaperScissorsSettlementStatus,
+} from '@prisma/client';
+import type { IRpsGameRepository } from '../../domain/repositories/IRpsGameRepository.js';
+import type { MoveTimer, RpsMove } from '../../domain/entities/RpsGame.js';
+import { RpsGame, RpsPlayer } from '../../domain/entities/RpsGame.js';
+import { ConflictError } from '@pluto/shared';
+
+// Moves in one game queue on its row lock, so they may wait past Prisma's defaults (2s/5s)
+const LOCKED_TRANSACTION_OPTIONS = { maxWait: 5000, timeout: 10000 };
+
+export class PrismaRpsGameRepository implements IRpsGameRepository {
+    constructor(private prisma: PrismaClient | Prisma.TransactionClient) { }
+
+    private toEntity(data: {
+        id: string;
+        sessionId: string;
+        sessionToken: string | null;
+        status: RockPaperScissorsStatus;
+        round: number;
+        settlementStatus: RockPaperScissorsSettlementStatus;
+        settlementAttempts: number;
+        moveTimeoutSeconds: number | null;
+        moveDeadline: Date | null;
+        createdAt: Date;
+        moves: Array<{
+            userId: string;
+            round: number;
+            commitment: string | null;
+            hand: RockPaperScissorsHand | null;
+            salt: string | null;
+            forfeited: boolean;
+        }>;
+    }, playerInfo: Array<{ userId: string; displayName: string }>): RpsGame {
+        const players = playerInfo.map(p => {
+            const moves = data.moves
+                .filter(m => m.userId === p.userId)
+                .map(m => ({
+                    round: m.round,
+                    commitment: m.commitment,
+                    hand: m.hand,
+                    salt: m.salt,
+                    forfeited: m.forfeited,
+                }));
+            return new RpsPlayer(p.userId, p.displayName, moves);
+        });
+
+        return new RpsGame(
+            data.id,
+            data.sessionId,
+            data.status,
+            data.createdAt,
+            players,
+            data.sessionToken,
+            data.settlementStatus,
+            data.settlementAttempts,
+            data.round,
+            data.moveTimeoutSeconds !== null
+                ? { timeoutSeconds: data.moveTimeoutSeconds, deadline: data.moveDeadline }
+                : null
+        );
+    }
+
+    async findById(id: string): Promise<RpsGame | null> {
+        const data = await this.prisma.rockPaperScissorsGame.findUnique({
+            where: { id },
+            include: { moves: true },
+        });
+
+        if (!data) return null;
+
+        const playerInfo = await this.findPlayers(data.sessionId);
+        return playerInfo ? this.toEntity(data, playerInfo) : null;
+    }
+
+    async findBySessionId(sessionId: string): Promise<RpsGame | null> {
+        const data = await this.prisma.rockPaperScissorsGame.findUnique({
+            where: { sessionId },
+            include: { moves: true },
+        });
+
+        if (!data) return null;
+
+        const playerInfo = await this.findPlayers(sessionId);
+        return playerInfo ? this.toEntity(data, playerInfo) : null;
+    }
+
+    // Get player info from game session
+    private async findPlayers(sessionId: string): Promise<Array<{ userId: string; displayName: string }> | null> {
+        const session = await this.prisma.gameSession.findUnique({
+            where: { id: sessionId },
+            include: {
+                players: {
+                    include: {
+                        user: { select: { uniqueDisplayName: true } },
+                    },
+                },
+            },
+        });
+
+        if (!session) return null;
+
+        return session.players.map(p => ({
+            userId: p.userId,
+            displayName: p.user.uniqueDisplayName,
+        }));
+    }
+
+    async create(data: {
+        sessionId: string;
+        sessionToken: string;
+        moveTimer: MoveTimer;
+        players: Array<{ userId: string; displayName: string }>;
+    }): Promise<RpsGame> {
+        const created = await this.prisma.rockPaperScissorsGame.create({
+            data: {
+                sessionId: data.sessionId,
+                sessionToken: data.sessionToken,
+                status: 'COMMITTING',
+                moveTimeoutSeconds: data.moveTimer.timeoutSeconds,
+                moveDeadline: data.moveTimer.deadline,
+            },
+            include: { moves: true },
+        });
+
+        return this.toEntity(created, data.players);
+    }
+
+    async recordCommit(gameId: string, userId: string, move: RpsMove): Promise<void> {
+        await this.prisma.rockPaperScissorsMove.create({
+            data: {
+                gameId,
+                userId,
+                round: move.round,
+                commitment: move.commitment,
+            },
+        });
+    }
+
+    async recordReveal(gameId: string, userId: string, move: RpsMove): Promise<void> {
+        // Only while still unrevealed, so a reveal can't overwrite a forfeit made at the deadline
+        const { count } = await this.prisma.rockPaperScissorsMove.updateMany({
+            where: { gameId, round: move.round, userId, hand: null, forfeited: false },
+            data: {
+                hand: move.hand,
+                salt: move.salt,
+                revealedAt: new Date(),
+            },
+        });
+        if (count === 0) {
+            throw new ConflictError(`Move of round ${move.round} was already revealed or forfeited`);
+        }
+    }
+
+    async recordForfeit(gameId: string, userId: string, move: RpsMove): Promise<void> {
+        if (!move.commitment) {
+            await this.prisma.rockPaperScissorsMove.create({
+                data: { gameId, userId, round: move.round, forfeited: true },
+            });
+            return;
+        }
+
+        const { count } = await this.prisma.rockPaperScissorsMove.updateMany({
+            where: { gameId, round: move.round, userId, hand: null },
+            data: { forfeited: true },
+        });
+        if (count === 0) {
+            throw new ConflictError(`Move of round ${move.round} was revealed before the forfeit`);
+        }
+    }
+
+    async saveProgress(game: RpsGame): Promise<void> {
+        await this.prisma.rockPaperScissorsGame.update({
+            where: { id: game.id },
+            data: {
+                status: game.status,
+                round: game.round,
+                moveDeadline: game.moveDeadline,
+            },
+        });
+    }
+
+    async runLocked<T>(gameId: string, work: (rpsGameRepository: IRpsGameRepository) => Promise<T>): Promise<T> {
+        const lockAndWork = async (tx: Prisma.TransactionClient) => {
+            await tx.$queryRaw`SELECT id FROM "RockPaperScissorsGame" WHERE id = ${gameId} FOR UPDATE`;
+            return work(new PrismaRpsGameRepository(tx));
+        };
+
+        // Already in a transaction: take the lock as part of it
+        if (!('$transaction' in this.prisma)) {
+            return lockAndWork(this.prisma);
+        }
+        return this.prisma.$transaction(lockAndWork, LOCKED_TRANSACTION_OPTIONS);
+    }
+
+    async findPastMoveDeadline(now: Date, limit: number): Promise<string[]> {
+        const due = await this.prisma.rockPaperScissorsGame.findMany({
+            where: {
+                status: { in: ['COMMITTING', 'REVEALING'] },
+                moveDeadline: { lte: now },
+            },
+            orderBy: { moveDeadline: 'asc' },
+            take: limit,
+            select: { id: true },
+        });
+        return due.map(g => g.id);
+    }
+
+    async findAwaitingSettlement(now: Date, limit: number): Promise<RpsGame[]> {
+        const due = await this.prisma.rockPaperScissorsGame.findMany({
+            where: {
+                status: 'COMPLETE',
+                settlementStatus: 'PENDING',
+                OR: [{ nextSettlementAt: null }, { nextSettlementAt: { lte: now } }],
+            },
+            orderBy: { updatedAt: 'asc' },
+            take: limit,
+            select: { id: true },
+        });
+
+        const games = [];
+        for (const { id } of due) {
+            const game = await this.findById(id);
+            if (game) games.push(game);
+        }
+        return games;
+    }
+
+    async markSettled(id: string): Promise<void> {
+        await this.prisma.rockPaperScissorsGame.update({
+            where: { id },
+            data: {
+                settlementStatus: 'SETTLED',
+                settlementAttempts: { increment: 1 },
+                settlementError: null,
+                nextSettlementAt: null,
+                settledAt: new Date(),
+            },
+        });
+    }
+
+    async recordSettlementFailure(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+        await this.prisma.rockPaperScissorsGame.update({
+            where: { id },
+            data: {
+                settlementStatus: nextAttemptAt ? 'PENDING' : 'FAILED',
+                settlementAttempts: { increment: 1 },
+                settlementError: error,
+                nextSettlementAt: nextAttemptAt,
+            },
+        });
+    }
+}
@@ -0,0 +1,8 @@
+import type { RockPaperScissorsEvent } from '@pluto/shared';
+import { SseBroadcaster } from '@pluto/shared';
+
+/**
+ * SSE Broadcaster for RockPaperScissors game events
+ * One channel per game
+ */
+export class RpsBroadcaster extends SseBroadcaster<RockPaperScissorsEvent> { }
@@ -0,0 +1,192 @@
+import type { FastifyInstance } from 'fastify';
+import type { PrismaClient } from '@prisma/client';
+import type {
+    GamePlugin,
+    GamePluginHost,
+    GamePlayerAction,
+    GameResult,
+    GameSessionInfo,
+    RockPaperScissorsState,
+} from '@pluto/shared';
+import { GameSettler, NotFoundError, SettlementRetrier, ValidationError } from '@pluto/shared';
+import type { RpsGame } from '../domain/entities/RpsGame.js';
+import { StartGameUseCase } from '../application/use-cases/StartGame.js';
+import { CommitMoveUseCase, parseCommitment } from '../application/use-cases/CommitMove.js';
+import type { CommitMoveResult } from '../application/use-cases/CommitMove.js';
+import { RevealMoveUseCase, parseReveal } from '../application/use-cases/RevealMove.js';
+import type { RevealMoveResult } from '../application/use-cases/RevealMove.js';
+import { GetGameStateUseCase } from '../application/use-cases/GetGameState.js';
+import { ResolveIdlePlayersUseCase } from '../application/use-cases/ResolveIdlePlayers.js';
+import { PrismaRpsGameRepository } from '../infrastructure/repositories/PrismaRpsGameRepository.js';
+import { MoveDeadlineEnforcer } from '../infrastructure/jobs/MoveDeadlineEnforcer.js';
+import { RpsBroadcaster } from '../infrastructure/sse/RpsBroadcaster.js';
+import { registerRockPaperScissorsRoutes } from './routes.js';
+
+export interface RockPaperScissorsPluginOptions {
+    moveTimeoutSeconds?: number;
+    settlementRetryIntervalMs?: number;
+    moveDeadlineIntervalMs?: number;
+}
+
+/**
+ * JSON Schema of RockPaperScissorsState
+ */
+const STATE_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'RockPaperScissorsState',
+    type: 'object',
+    required: ['gameId', 'sessionId', 'status', 'round', 'players', 'rounds', 'settlementStatus'],
+    properties: {
+        gameId: { type: 'string' },
+        sessionId: { type: 'string' },
+        status: { enum: ['COMMITTING', 'REVEALING', 'COMPLETE'] },
+        round: { type: 'integer', minimum: 1 },
+        moveDeadline: { type: 'string', format: 'date-time' },
+        players: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['userId', 'displayName', 'inCurrentRound', 'hasCommitted', 'hasRevealed', 'hasForfeited'],
+                properties: {
+                    userId: { type: 'string' },
+                    displayName: { type: 'string' },
+                    inCurrentRound: { type: 'boolean' },
+                    hasCommitted: { type: 'boolean' },
+                    hasRevealed: { type: 'boolean' },
+                    hasForfeited: { type: 'boolean' },
+                },
+            },
+        },
+        rounds: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['round', 'results'],
+                properties: {
+                    round: { type: 'integer', minimum: 1 },
+                    results: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            required: ['userId', 'hand', 'points'],
+                            properties: {
+                                userId: { type: 'string' },
+                                hand: { enum: ['ROCK', 'PAPER', 'SCISSORS', null] }, // Null when forfeited
+                                points: { type: 'integer', minimum: 0 },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        winnerId: { type: 'string' },
+        settlementStatus: { enum: ['PENDING', 'SETTLED', 'FAILED'] },
+    },
+};
+
+/**
+ * RockPaperScissors as an in-process game plugin
+ * Players play each round through the `commit` action, then the `reveal` action, and forfeit the
+ * round if they let either phase's deadline pass; complete games are settled through the host like
+ * DiceRoyale's.
+ */
+export class RockPaperScissorsPlugin implements GamePlugin {
+    readonly gameName = 'RockPaperScissors';
+    readonly stateSchema = STATE_SCHEMA;
+    readonly supportsBots = false;
+
+    private rpsGameRepo: PrismaRpsGameRepository;
+    private broadcaster = new RpsBroadcaster();
+    private startGame: StartGameUseCase;
+    private commitMove: CommitMoveUseCase;
+    private revealMove: RevealMoveUseCase;
+    private getGameState: GetGameStateUseCase;
+    private resolveIdlePlayers: ResolveIdlePlayersUseCase;
+    private settler: GameSettler<RpsGame>;
+
+    constructor(
+        prisma: PrismaClient,
+        private host: GamePluginHost,
+        private options: RockPaperScissorsPluginOptions = {}
+    ) {
+        this.rpsGameRepo = new PrismaRpsGameRepository(prisma);
+        this.settler = new GameSettler(this.gameName, this.rpsGameRepo, this.broadcaster, host.settleContract);
+        this.startGame = new StartGameUseCase(this.rpsGameRepo);
+        this.commitMove = new CommitMoveUseCase(this.rpsGameRepo, this.broadcaster);
+        this.revealMove = new RevealMoveUseCase(this.rpsGameRepo, this.broadcaster, gameId => this.onGameComplete(gameId));
+        this.getGameState = new GetGameStateUseCase(this.rpsGameRepo);
+        this.resolveIdlePlayers = new ResolveIdlePlayersUseCase(
+            this.rpsGameRepo,
+            this.broadcaster,
+            gameId => this.onGameComplete(gameId)
+        );
+    }
+
+    registerRoutes(app: FastifyInstance): void {
+        registerRockPaperScissorsRoutes(app, {
+            authenticate: this.host.authenticate,
+            rpsGameRepo: this.rpsGameRepo,
+            broadcaster: this.broadcaster,
+            commitMove: this.commitMove,
+            revealMove: this.revealMove,
+            getGameState: this.getGameState,
+        });
+    }
+
+    async createGame(session: GameSessionInfo): Promise<{ gameId: string }> {
+        const game = await this.startGame.execute({
+            sessionId: session.sessionId,
+            sessionToken: session.sessionToken,
+            moveTimeoutSeconds: this.options.moveTimeoutSeconds,
+            players: session.players,
+        });
+        return { gameId: game.id };
+    }
+
+    async handleAction(
+        gameId: string,
+        userId: string,
+        action: GamePlayerAction
+    ): Promise<CommitMoveResult | RevealMoveResult> {
+        switch (action.type) {
+            case 'commit':
+                return this.commitMove.execute({ gameId, userId, commitment: parseCommitment(action.commitment) });
+            case 'reveal':
+                return this.revealMove.execute({ gameId, userId, ...parseReveal(action.hand, action.salt) });
+            default:
+                throw new ValidationError(`Unknown RockPaperScissors action: ${action.type}`);
+        }
+    }
+
+    async getState(gameId: string): Promise<RockPaperScissorsState> {
+        return this.getGameState.execute({ gameId });
+    }
+
+    async getResults(gameId: string): Promise<GameResult[] | null> {
+        const game = await this.rpsGameRepo.findById(gameId);
+        if (!game) {
+            throw new NotFoundError('RockPaperScissors game', gameId);
+        }
+        if (game.status !== 'COMPLETE') {
+            return null;
+        }
+        return game.getStandings().map(s => ({ playerId: s.userId, rank: s.rank }));
+    }
+
+    startJobs(): NodeJS.Timeout[] {
+        return [
+            this.broadcaster.startHeartbeat(30000),
+            new SettlementRetrier(this.rpsGameRepo, this.settler).start(this.options.settlementRetryIntervalMs),
+            new MoveDeadlineEnforcer(this.rpsGameRepo, this.resolveIdlePlayers).start(this.options.moveDeadlineIntervalMs),
+        ];
+    }
+
+    // Failures are left for the settlement retrier, the moves themselves have already been recorded
+    private async onGameComplete(gameId: string): Promise<void> {
+        try {
+            await this.settler.settle(gameId);
+        } catch (error) {
+            console.error(`❌ Failed to settle RockPaperScissors game ${gameId}:`, error);
+        }
+    }
+}
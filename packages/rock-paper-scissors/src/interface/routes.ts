@@ -0,0 +1,128 @@
+import type { FastifyInstance } from 'fastify';
+import type { GamePluginHost } from '@pluto/shared';
+import { randomUUID } from 'node:crypto';
+import type { IRpsGameRepository } from '../domain/repositories/IRpsGameRepository.js';
+import { parseCommitment } from '../application/use-cases/CommitMove.js';
+import type { CommitMoveUseCase } from '../application/use-cases/CommitMove.js';
+import { parseReveal } from '../application/use-cases/RevealMove.js';
+import type { RevealMoveUseCase } from '../application/use-cases/RevealMove.js';
+import type { GetGameStateUseCase } from '../application/use-cases/GetGameState.js';
+import type { RpsBroadcaster } from '../infrastructure/sse/RpsBroadcaster.js';
+
+/**
+ * Built by the RockPaperScissors plugin, which shares the use cases with its background jobs
+ */
+export interface RockPaperScissorsRoutesConfig {
+    authenticate: GamePluginHost['authenticate'];
+    rpsGameRepo: IRpsGameRepository;
+    broadcaster: RpsBroadcaster;
+    commitMove: CommitMoveUseCase;
+    revealMove: RevealMoveUseCase;
+    getGameState: GetGameStateUseCase;
+}
+
+export function registerRockPaperScissorsRoutes(app: FastifyInstance, config: RockPaperScissorsRoutesConfig) {
+    const { authenticate, rpsGameRepo, broadcaster, commitMove, revealMove, getGameState } = config;
+
+    // ============================================
+    // RockPaperScissors Routes
+    // ============================================
+
+    // Get game state by session ID
+    app.get('/rock-paper-scissors/:sessionId/state', async (request, reply) => {
+        const params = request.params as { sessionId: string };
+
+        try {
+            return await getGameState.execute({ sessionId: params.sessionId });
+        } catch (error: any) {
+            if (error.name === 'NotFoundError') {
+                return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'Game not found' } });
+            }
+            throw error;
+        }
+    });
+
+    // SSE endpoint for game events
+    app.get('/rock-paper-scissors/:gameId/events', async (request, reply) => {
+        const params = request.params as { gameId: string };
+        const gameId = params.gameId;
+
+        // Verify game exists
+        const game = await rpsGameRepo.findById(gameId);
+        if (!game) {
+            return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'Game not found' } });
+        }
+
+        // Set up SSE headers
+        reply.raw.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'Access-Control-Allow-Origin': '*',
+        });
+
+        // Send initial connection event
+        reply.raw.write(`data: ${JSON.stringify({ type: 'connected', gameId })}\n\n`);
+
+        // Add client to broadcaster
+        const clientId = randomUUID();
+        broadcaster.addClient(gameId, clientId, reply.raw);
+
+        // Don't end the response - it's a continuous stream
+        return reply;
+    });
+
+    // Commit a hashed move (player action)
+    app.post('/rock-paper-scissors/:gameId/commit', async (request, reply) => {
+        const user = await authenticate(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const params = request.params as { gameId: string };
+        const body = (request.body ?? {}) as { commitment?: unknown };
+
+        try {
+            return await commitMove.execute({
+                gameId: params.gameId,
+                userId: user.id,
+                commitment: parseCommitment(body.commitment),
+            });
+        } catch (error: any) {
+            if (error.name === 'NotFoundError') {
+                return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'Game not found' } });
+            }
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({ error: { code: 'VALIDATION_ERROR', message: error.message } });
+            }
+            throw error;
+        }
+    });
+
+    // Reveal the committed move (player action)
+    app.post('/rock-paper-scissors/:gameId/reveal', async (request, reply) => {
+        const user = await authenticate(request.headers.authorization);
+        if (!user) {
+            return reply.status(401).send({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } });
+        }
+
+        const params = request.params as { gameId: string };
+        const body = (request.body ?? {}) as { hand?: unknown; salt?: unknown };
+
+        try {
+            return await revealMove.execute({
+                gameId: params.gameId,
+                userId: user.id,
+                ...parseReveal(body.hand, body.salt),
+            });
+        } catch (error: any) {
+            if (error.name === 'NotFoundError') {
+                return reply.status(404).send({ error: { code: 'NOT_FOUND', message: 'Game not found' } });
+            }
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({ error: { code: 'VALIDATION_ERROR', message: error.message } });
+            }
+            throw error;
+        }
+    });
+}
@@ -145,8 +145,8 @@ export class SessionAlreadySettledError extends ConflictError {
 }
 
 export class DuplicateExecutionError extends ConflictError {
-    constructor() {
-        super('Duplicate contract execution attempt');
+    constructor(message = 'Duplicate contract execution attempt') {
+        super(message);
         this.name = 'DuplicateExecutionError';
     }
 }
@@ -186,6 +186,13 @@ export class LobbyFullError extends PlutoError {
     }
 }
 
+export class LobbyLockedError extends PlutoError {
+    constructor() {
+        super('Lobby is locked by its host', 'LOBBY_LOCKED', 422);
+        this.name = 'LobbyLockedError';
+    }
+}
+
 export class LobbyNotReadyError extends PlutoError {
     constructor(current: number, required: number) {
         super(
@@ -204,6 +211,17 @@ export class GameNotActiveError extends PlutoError {
     }
 }
 
+export class IdempotencyKeyReusedError extends PlutoError {
+    constructor(key: string) {
+        super(
+            `Idempotency key '${key}' was already used with a different request`,
+            'IDEMPOTENCY_KEY_REUSED',
+            422
+        );
+        this.name = 'IdempotencyKeyReusedError';
+    }
+}
+
 export class SessionExpiredError extends PlutoError {
     constructor(sessionId: string) {
         super(`Session '${sessionId}' has expired`, 'SESSION_EXPIRED', 422);
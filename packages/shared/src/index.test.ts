@@ -1,9 +1,18 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import type { ServerResponse } from 'node:http';
+import type { GamePlugin, GameSettlementStore, SettleableGame } from './index.js';
 import {
+    SseBroadcaster,
+    GamePluginRegistry,
+    GameSettler,
+    SessionAlreadySettledError,
+    ValidationError,
     calculatePercentage,
     distributeEvenly,
     isValidDisplayName,
-    generateHmacSignature
+    generateHmacSignature,
+    serializeJson
 } from './index.js';
 
 describe('Shared Utils', () => {
@@ -43,4 +52,129 @@ describe('Shared Utils', () => {
             expect(sig1).toHaveLength(64); // Hex SHA256
         });
     });
+
+    describe('serializeJson', () => {
+        it('should write BigInts as strings', () => {
+            expect(serializeJson({ totalPot: 200n, players: [{ amountLocked: 100n }] }))
+                .toBe('{"totalPot":"200","players":[{"amountLocked":"100"}]}');
+        });
+    });
+});
+
+describe('SseBroadcaster', () => {
+    // Just enough of a ServerResponse to collect writes and emit close
+    function fakeResponse() {
+        const response = Object.assign(new EventEmitter(), {
+            written: [] as string[],
+            write(data: string) {
+                response.written.push(data);
+                return true;
+            },
+        });
+        return response;
+    }
+
+    it('should send events to the channel\'s clients until they disconnect', () => {
+        const broadcaster = new SseBroadcaster<{ type: string }>();
+        const a = fakeResponse();
+        const b = fakeResponse();
+        broadcaster.addClient('game-1', 'a', a as unknown as ServerResponse);
+        broadcaster.addClient('game-2', 'b', b as unknown as ServerResponse);
+
+        broadcaster.broadcast('game-1', { type: 'player_rolled' });
+        expect(a.written).toEqual(['data: {"type":"player_rolled"}\n\n']);
+        expect(b.written).toEqual([]);
+
+        a.emit('close');
+        expect(broadcaster.getClientCount('game-1')).toBe(0);
+    });
+});
+
+describe('GamePluginRegistry', () => {
+    const plugin = { gameName: 'DiceRoyale' } as GamePlugin;
+
+    it('should find the plugin playing a game', () => {
+        const registry = new GamePluginRegistry();
+        registry.register(plugin);
+
+        expect(registry.forGame({ name: 'DiceRoyale' })).toBe(plugin);
+        expect(registry.forGame({ name: 'ThirdPartyGame' })).toBeNull();
+    });
+
+    it('should reject a second plugin for the same game', () => {
+        const registry = new GamePluginRegistry();
+        registry.register(plugin);
+
+        expect(() => registry.register(plugin)).toThrow('already registered');
+    });
+});
+
+describe('GameSettler', () => {
+    // A complete game with two players waiting to be paid out, in a store that records what happened
+    function setup(settleContract = vi.fn(async () => { }), sessionToken: string | null = 'token-1') {
+        const game: SettleableGame = {
+            id: 'game-1',
+            sessionToken,
+            settlementStatus: 'PENDING',
+            settlementAttempts: 2,
+            isAwaitingSettlement: true,
+            getStandings: () => [{ userId: 'a', rank: 1 }, { userId: 'b', rank: 2 }],
+        };
+        const store = {
+            findById: vi.fn(async () => game),
+            findAwaitingSettlement: vi.fn(async () => [game]),
+            markSettled: vi.fn(async () => { }),
+            recordSettlementFailure: vi.fn(async () => { }),
+        } satisfies GameSettlementStore<SettleableGame>;
+        const broadcaster = { broadcast: vi.fn() };
+        const settler = new GameSettler('DiceRoyale', store, broadcaster, settleContract);
+        return { game, store, broadcaster, settler, settleContract };
+    }
+
+    it('should settle the contract by the game standings', async () => {
+        const { store, broadcaster, settler, settleContract } = setup();
+
+        expect(await settler.settle('game-1')).toBe('SETTLED');
+        expect(settleContract).toHaveBeenCalledWith('token-1', [
+            { playerId: 'a', rank: 1 },
+            { playerId: 'b', rank: 2 },
+        ]);
+        expect(store.markSettled).toHaveBeenCalledWith('game-1');
+        expect(broadcaster.broadcast).toHaveBeenCalledWith('game-1', { type: 'settled', settlementStatus: 'SETTLED' });
+    });
+
+    it('should schedule a retry with backoff when the bank is unavailable', async () => {
+        const { store, broadcaster, settler } = setup(vi.fn(async () => { throw new Error('connection reset'); }));
+        const before = Date.now();
+
+        expect(await settler.settle('game-1')).toBe('PENDING');
+        const [, error, nextAttemptAt] = store.recordSettlementFailure.mock.calls[0] as unknown as [string, string, Date];
+        expect(error).toBe('connection reset');
+        // Third attempt waits 5s * 2^2
+        expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 20_000);
+        expect(broadcaster.broadcast).not.toHaveBeenCalled();
+    });
+
+    it('should give up when the bank rejects the settlement', async () => {
+        const { store, broadcaster, settler } = setup(vi.fn(async () => { throw new ValidationError('Bad results'); }));
+
+        expect(await settler.settle('game-1')).toBe('FAILED');
+        expect(store.recordSettlementFailure).toHaveBeenCalledWith('game-1', 'Bad results', null);
+        expect(broadcaster.broadcast).toHaveBeenCalledWith('game-1', { type: 'settled', settlementStatus: 'FAILED' });
+    });
+
+    it('should treat an already settled session as settled', async () => {
+        const { store, settler } = setup(vi.fn(async () => { throw new SessionAlreadySettledError('session-1'); }));
+
+        expect(await settler.settle('game-1')).toBe('SETTLED');
+        expect(store.markSettled).toHaveBeenCalledWith('game-1');
+    });
+
+    it('should fail a game with no session token without calling the bank', async () => {
+        const { store, settler, settleContract } = setup(undefined, null);
+
+        expect(await settler.settle('game-1')).toBe('FAILED');
+        expect(settleContract).not.toHaveBeenCalled();
+        expect(store.recordSettlementFailure).toHaveBeenCalledWith('game-1', 'Game has no session token', null);
+    });
 });
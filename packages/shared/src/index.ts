@@ -2,3 +2,5 @@
 export * from './errors/index.js';
 export * from './types/index.js';
 export * from './utils/index.js';
+export * from './sse/index.js';
+export * from './plugins/index.js';
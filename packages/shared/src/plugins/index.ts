@@ -0,0 +1,87 @@
+import type { FastifyInstance } from 'fastify';
+import type { MatchMode, PayoutModel } from '@prisma/client';
+
+/**
+ * A player's final placing; rank 1 is first place and equal ranks share the payout
+ */
+export interface GameResult {
+    playerId: string;
+    rank: number;
+}
+
+/**
+ * Settles the contract behind a game session through the bank
+ */
+export type SettleContractFn = (sessionToken: string, results: GameResult[]) => Promise<void>;
+
+/**
+ * Platform services handed to in-process games
+ */
+export interface GamePluginHost {
+    authenticate: (authorization: string | undefined) => Promise<{ id: string; displayName: string } | null>;
+    settleContract: SettleContractFn;
+}
+
+/**
+ * A session whose funds are locked, handed to the game to be played
+ */
+export interface GameSessionInfo {
+    sessionId: string;
+    sessionToken: string; // Kept by the game to settle the session
+    contractId: string;
+    payoutModel: PayoutModel;
+    match: { mode: MatchMode; length: number }; // For games played in rounds
+    settings: Record<string, unknown>; // Contract's game settings, validated by the game
+    players: Array<{ userId: string; displayName: string; isBot: boolean }>;
+}
+
+/**
+ * Something a player does in a game (roll, move...), validated by the game
+ */
+export interface GamePlayerAction {
+    type: string;
+    [key: string]: unknown;
+}
+
+/**
+ * First-party game running inside the hub
+ * The lobby starts matches through createGame, and the game reports results through the
+ * host's settleContract once they are final.
+ */
+export interface GamePlugin {
+    readonly gameName: string; // Name of the Game record it plays
+    readonly stateSchema: Record<string, unknown>; // JSON Schema of getState()
+    readonly supportsBots: boolean; // Whether it plays for bot players, so lobbies can be filled with them
+
+    registerRoutes(app: FastifyInstance): void;
+    createGame(session: GameSessionInfo): Promise<{ gameId: string }>;
+    handleAction(gameId: string, userId: string, action: GamePlayerAction): Promise<unknown>;
+    getState(gameId: string): Promise<unknown>;
+    getResults(gameId: string): Promise<GameResult[] | null>; // Null until the game is over
+    minMatchSeconds?(match: { mode: MatchMode; length: number }): number; // Shortest match if everyone waits out every deadline
+    startJobs(): NodeJS.Timeout[]; // Background timers, cleared on shutdown
+}
+
+/**
+ * Maps Game records to the plugins playing them
+ * Games without a plugin are third-party backends reached by callback.
+ */
+export class GamePluginRegistry {
+    private plugins: Map<string, GamePlugin> = new Map();
+
+    register(plugin: GamePlugin): void {
+        if (this.plugins.has(plugin.gameName)) {
+            throw new Error(`Game plugin ${plugin.gameName} is already registered`);
+        }
+        this.plugins.set(plugin.gameName, plugin);
+    }
+
+    forGame(game: { name: string }): GamePlugin | null {
+        return this.plugins.get(game.name) ?? null;
+    }
+
+    all(): GamePlugin[] {
+        return [...this.plugins.values()];
+    }
+}
+export * from './settlement.js';
@@ -0,0 +1,157 @@
+import type { SettleContractFn } from './index.js';
+import { NotFoundError, PlutoError, SessionAlreadySettledError } from '../errors/index.js';
+
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+const RETRY_BATCH_SIZE = 50;
+
+export type GameSettlementStatus = 'PENDING' | 'SETTLED' | 'FAILED';
+
+/**
+ * A first-party game that pays out its contract once it's over
+ */
+export interface SettleableGame {
+    readonly id: string;
+    readonly sessionToken: string | null; // From contract execution, needed to settle
+    readonly settlementStatus: GameSettlementStatus;
+    readonly settlementAttempts: number;
+    readonly isAwaitingSettlement: boolean; // Finished but not yet paid out
+    getStandings(): Array<{ userId: string; rank: number }>;
+}
+
+/**
+ * Where a game keeps track of paying out its contract
+ */
+export interface GameSettlementStore<TGame extends SettleableGame> {
+    /**
+     * Find game by ID
+     */
+    findById(id: string): Promise<TGame | null>;
+
+    /**
+     * Find complete games still waiting to be paid out whose next attempt is due
+     */
+    findAwaitingSettlement(now: Date, limit: number): Promise<TGame[]>;
+
+    /**
+     * Mark a game's contract as settled
+     */
+    markSettled(id: string): Promise<void>;
+
+    /**
+     * Record a failed settlement attempt
+     * A null nextAttemptAt means the failure is permanent and the game is not retried
+     */
+    recordSettlementFailure(id: string, error: string, nextAttemptAt: Date | null): Promise<void>;
+}
+
+/**
+ * Tells a game's players how its settlement went
+ */
+export interface SettlementBroadcaster {
+    broadcast(gameId: string, event: { type: 'settled'; settlementStatus: 'SETTLED' | 'FAILED' }): void;
+}
+
+/**
+ * Pay out a finished first-party game through the host, by the game's standings
+ * Failures are recorded and retried with exponential backoff; only errors the bank will never
+ * accept (4xx) stop the retries.
+ */
+export class GameSettler<TGame extends SettleableGame> {
+    constructor(
+        public readonly gameName: string,
+        private store: GameSettlementStore<TGame>,
+        private broadcaster: SettlementBroadcaster,
+        private settleContract: SettleContractFn
+    ) { }
+
+    async settle(gameId: string): Promise<GameSettlementStatus> {
+        const game = await this.store.findById(gameId);
+        if (!game) {
+            throw new NotFoundError(`${this.gameName} game`, gameId);
+        }
+        if (!game.isAwaitingSettlement) {
+            return game.settlementStatus;
+        }
+        if (!game.sessionToken) {
+            await this.store.recordSettlementFailure(game.id, 'Game has no session token', null);
+            this.broadcaster.broadcast(game.id, { type: 'settled', settlementStatus: 'FAILED' });
+            return 'FAILED';
+        }
+
+        try {
+            await this.settleContract(
+                game.sessionToken,
+                game.getStandings().map(s => ({ playerId: s.userId, rank: s.rank }))
+            );
+        } catch (error) {
+            // A previous attempt that got through but wasn't recorded
+            if (!(error instanceof SessionAlreadySettledError)) {
+                const permanent = error instanceof PlutoError && error.statusCode < 500;
+                const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** game.settlementAttempts, MAX_RETRY_DELAY_MS);
+
+                await this.store.recordSettlementFailure(
+                    game.id,
+                    error instanceof Error ? error.message : String(error),
+                    permanent ? null : new Date(Date.now() + delay)
+                );
+                if (permanent) {
+                    this.broadcaster.broadcast(game.id, { type: 'settled', settlementStatus: 'FAILED' });
+                }
+                return permanent ? 'FAILED' : 'PENDING';
+            }
+        }
+
+        await this.store.markSettled(game.id);
+        this.broadcaster.broadcast(game.id, { type: 'settled', settlementStatus: 'SETTLED' });
+        return 'SETTLED';
+    }
+}
+
+/**
+ * Periodically retries settlement of a game's complete games that have not been paid out
+ */
+export class SettlementRetrier<TGame extends SettleableGame> {
+    private running = false;
+
+    constructor(
+        private store: GameSettlementStore<TGame>,
+        private settler: GameSettler<TGame>
+    ) { }
+
+    /**
+     * Run one pass, skipping if the previous one is still in progress
+     */
+    async retry(): Promise<number> {
+        if (this.running) return 0;
+
+        this.running = true;
+        try {
+            const games = await this.store.findAwaitingSettlement(new Date(), RETRY_BATCH_SIZE);
+            let settled = 0;
+            for (const game of games) {
+                if (await this.settler.settle(game.id) === 'SETTLED') {
+                    settled++;
+                }
+            }
+            if (games.length > 0) {
+                console.log(`🎮 Retried settlement of ${games.length} ${this.settler.gameName} game(s), ${settled} settled`);
+            }
+            return settled;
+        } catch (error) {
+            console.error(`❌ ${this.settler.gameName} settlement retry failed:`, error);
+            return 0;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Start retrying on an interval
+     */
+    start(intervalMs = 15000): NodeJS.Timeout {
+        return setInterval(() => {
+            void this.retry();
+        }, intervalMs);
+    }
+}
@@ -0,0 +1,98 @@
+import type { ServerResponse } from 'node:http';
+
+interface SSEClient {
+    id: string;
+    response: ServerResponse;
+}
+
+/**
+ * SSE Broadcaster
+ * Manages connections per channel (a lobby, a game...) and broadcasts typed events to all
+ * clients connected to a channel
+ */
+export class SseBroadcaster<TEvent> {
+    private channels: Map<string, Set<SSEClient>> = new Map();
+
+    /**
+     * Add a client to a channel's broadcast list
+     */
+    addClient(channelId: string, clientId: string, response: ServerResponse): void {
+        if (!this.channels.has(channelId)) {
+            this.channels.set(channelId, new Set());
+        }
+
+        const client: SSEClient = { id: clientId, response };
+        this.channels.get(channelId)!.add(client);
+
+        // Handle client disconnect
+        response.on('close', () => {
+            this.removeClient(channelId, clientId);
+        });
+    }
+
+    /**
+     * Remove a client from a channel's broadcast list
+     */
+    removeClient(channelId: string, clientId: string): void {
+        const clients = this.channels.get(channelId);
+        if (!clients) return;
+
+        for (const client of clients) {
+            if (client.id === clientId) {
+                clients.delete(client);
+                break;
+            }
+        }
+
+        // Clean up empty channels
+        if (clients.size === 0) {
+            this.channels.delete(channelId);
+        }
+    }
+
+    /**
+     * Broadcast an event to all clients in a channel
+     */
+    broadcast(channelId: string, event: TEvent): void {
+        this.write(channelId, `data: ${JSON.stringify(event)}\n\n`);
+    }
+
+    /**
+     * Send a heartbeat to keep connections alive
+     */
+    sendHeartbeat(channelId: string): void {
+        this.write(channelId, `: heartbeat\n\n`);
+    }
+
+    /**
+     * Get number of connected clients for a channel
+     */
+    getClientCount(channelId: string): number {
+        return this.channels.get(channelId)?.size ?? 0;
+    }
+
+    /**
+     * Start heartbeat interval for all channels
+     */
+    startHeartbeat(intervalMs = 30000): NodeJS.Timeout {
+        return setInterval(() => {
+            for (const channelId of this.channels.keys()) {
+                this.sendHeartbeat(channelId);
+            }
+        }, intervalMs);
+    }
+
+    private write(channelId: string, data: string): void {
+        const clients = this.channels.get(channelId);
+        if (!clients) return;
+
+        for (const client of clients) {
+            try {
+                client.response.write(data);
+            } catch (error) {
+                // Client disconnected, remove them
+                clients.delete(client);
+            }
+        }
+    }
+}
@@ -111,8 +111,9 @@ export interface SettleContractRequest {
 
 export interface PlayerResult {
     playerId: string; // Firebase UID
-    isWinner: boolean;
-    winAmount?: bigint; // Optional: custom amount, otherwise calculated
+    isWinner?: boolean; // Used when no rank is given
+    rank?: number; // 1 = first place, equal ranks are ties
+    winAmount?: bigint; // CUSTOM payout contracts only
 }
 
 export interface SettleContractResult {
@@ -123,8 +124,28 @@ export interface SettleContractResult {
         amountWon: bigint;
     }[];
     platformFeeCollected: bigint;
+    developerRevenue: bigint; // Part of the platform fee paid to the game developer
 }
 
+// Events pushed to a game's callbackUrl
+export type GameCallbackEvent =
+    | {
+        type: 'session_started';
+        sessionId: string;
+        contractId: string;
+        sessionToken: string; // JWT for settle/cancel
+        players: { id: string; displayName: string }[];
+        expiresAt: string; // ISO date
+        occurredAt: string; // ISO date
+    }
+    | {
+        type: 'session_expired';
+        sessionId: string;
+        contractId: string;
+        refundedPlayers: { id: string; amountRefunded: string }[];
+        occurredAt: string; // ISO date
+    };
+
 // ============================================
 // Lobby Types
 // ============================================
@@ -140,9 +161,14 @@ export interface LobbyInfo {
     minPlayers: number;
     maxPlayers: number;
     createdAt: Date;
+    rating: number | null; // Average rating of its players for the game
+    ratingBand: { min: number; max: number } | null; // Ratings it matches now, null when it takes anyone
 }
 
 export interface LobbyDetails extends LobbyInfo {
+    isPrivate: boolean; // Joined by invite code, never listed
+    hostId: string | null; // Host of a private lobby
+    isLocked: boolean;
     players: LobbyPlayerInfo[];
 }
 
@@ -150,13 +176,23 @@ export interface LobbyPlayerInfo {
     id: string;
     displayName: string;
     joinedAt: Date;
+    isBot: boolean; // Added by the bot filler
+    rating: number | null; // Rating for the game on joining, null for bots
 }
 
 // SSE Event Types
 export type LobbyEvent =
     | { type: 'player_joined'; player: LobbyPlayerInfo }
     | { type: 'player_left'; playerId: string }
+    | { type: 'player_kicked'; playerId: string }
+    | { type: 'host_changed'; hostId: string }
+    | { type: 'lobby_locked' }
+    | { type: 'lobby_unlocked' }
+    | { type: 'ready_check'; seconds: number; deadline: string } // ISO 8601
+    | { type: 'player_ready'; playerId: string }
+    | { type: 'ready_check_failed'; playerIds: string[] } // Removed for not confirming
     | { type: 'lobby_starting'; countdown: number }
+    | { type: 'lobby_countdown_cancelled'; reason: string }
     | { type: 'game_started'; sessionId: string }
     | { type: 'lobby_closed'; reason: string };
 
@@ -194,14 +230,85 @@ export interface SessionTokenPayload {
 export interface DiceRoyaleState {
     gameId: string;
     sessionId: string;
-    status: 'ROLLING' | 'COMPLETE';
+    status: 'ROLLING' | 'TIEBREAK' | 'COMPLETE';
+    round: number; // Counts match and sudden-death rounds
+    tiePolicy: 'SPLIT' | 'SUDDEN_DEATH';
+    match: { mode: 'BEST_OF' | 'FIRST_TO'; length: number };
+    variant: { dice: number; faces: number; scoring: 'SUM' | 'HIGHEST' | 'SETS' | 'YAHTZEE_LITE' };
+    rollDeadline?: string; // ISO date, idle players are resolved once it passes
+    idlePolicy?: 'AUTO_ROLL' | 'FORFEIT';
     players: DiceRoyalePlayer[];
+    rounds: DiceRoyaleRound[];
     winnerId?: string;
+    settlementStatus: 'PENDING' | 'SETTLED' | 'FAILED';
+    serverSeedHash?: string; // Commitment published at start
+    serverSeed?: string; // Revealed once the game is complete
 }
 
 export interface DiceRoyalePlayer {
     userId: string;
     displayName: string;
-    hasRolled: boolean;
-    rollValue?: number;
+    isBot: boolean;
+    score: number; // Rounds won
+    hasRolled: boolean; // In the current round
+    inCurrentRound: boolean; // False once knocked out of sudden death
+    rollValue?: number; // Latest roll's score
+    dice?: number[]; // Latest roll's dice
+    clientSeed?: string;
+    nonce?: number;
+}
+
+export interface DiceRoyaleRound {
+    round: number;
+    results: { userId: string; rollValue: number; dice: number[]; kind: 'PLAYER' | 'AUTO' | 'FORFEIT' }[];
+    winners: string[]; // Highest score, once every contender has rolled
 }
+
+// SSE Events for DiceRoyale games
+export type DiceRoyaleEvent =
+    | { type: 'player_rolled'; playerId: string; round: number; rollValue: number; dice: number[]; kind: 'PLAYER' | 'AUTO' | 'FORFEIT' }
+    | { type: 'round_started'; round: number; players: string[]; rollDeadline?: string }
+    | { type: 'game_complete'; winners: string[]; serverSeed?: string }
+    | { type: 'settled'; settlementStatus: 'SETTLED' | 'FAILED' };
+
+// ============================================
+// RockPaperScissors Types
+// ============================================
+
+export interface RockPaperScissorsState {
+    gameId: string;
+    sessionId: string;
+    status: 'COMMITTING' | 'REVEALING' | 'COMPLETE';
+    round: number; // Above 1 while players tied on top replay
+    moveDeadline?: string; // ISO date, idle players forfeit the round once it passes
+    players: RockPaperScissorsPlayer[];
+    rounds: RockPaperScissorsRound[];
+    winnerId?: string;
+    settlementStatus: 'PENDING' | 'SETTLED' | 'FAILED';
+}
+
+export interface RockPaperScissorsPlayer {
+    userId: string;
+    displayName: string;
+    inCurrentRound: boolean; // False once knocked out by a round they didn't top
+    hasCommitted: boolean; // In the current round
+    hasRevealed: boolean;
+    hasForfeited: boolean;
+}
+
+// Hands are only shown once every move of the round is revealed; forfeited moves have none
+export interface RockPaperScissorsRound {
+    round: number;
+    results: { userId: string; hand: 'ROCK' | 'PAPER' | 'SCISSORS' | null; points: number }[];
+}
+
+// SSE Events for RockPaperScissors games
+export type RockPaperScissorsEvent =
+    | { type: 'player_committed'; playerId: string; round: number }
+    | { type: 'reveal_started'; round: number; moveDeadline?: string }
+    | { type: 'player_revealed'; playerId: string; round: number }
+    | { type: 'player_forfeited'; playerId: string; round: number }
+    | { type: 'round_complete'; round: number; results: RockPaperScissorsRound['results'] }
+    | { type: 'round_started'; round: number; players: string[]; moveDeadline?: string }
+    | { type: 'game_complete'; winners: string[] }
+    | { type: 'settled'; settlementStatus: 'SETTLED' | 'FAILED' };
@@ -81,6 +81,17 @@ export function distributeEvenly(amount: bigint, count: number): bigint[] {
     );
 }
 
+// ============================================
+// JSON Utilities
+// ============================================
+
+/**
+ * Serialize a value to JSON, writing BigInts as decimal strings
+ */
+export function serializeJson(value: unknown): string {
+    return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v);
+}
+
 // ============================================
 // Date Utilities
 // ============================================
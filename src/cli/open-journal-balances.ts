@@ -0,0 +1,37 @@
+import { PrismaClient } from '@prisma/client';
+import {
+    PrismaUserRepository,
+    PrismaUnitOfWork,
+    OpenJournalBalancesUseCase,
+} from '@pluto/bank';
+
+// ============================================
+// Journal Opening Balances
+// Usage: npm run ledger:open-balances
+// Carries balances from before the double-entry journal into it; safe to re-run
+// ============================================
+
+const prisma = new PrismaClient();
+
+async function main() {
+    const openJournalBalances = new OpenJournalBalancesUseCase(
+        new PrismaUserRepository(prisma),
+        new PrismaUnitOfWork(prisma)
+    );
+
+    console.log('📒 Opening journal balances...');
+    const result = await openJournalBalances.execute();
+
+    console.log(`Checked ${result.usersChecked} users`);
+    if (result.alreadyOpen > 0) {
+        console.log(`⏭️  ${result.alreadyOpen} user(s) already had a player account`);
+    }
+    console.log(`✅ Opened ${result.accountsOpened} player account(s)`);
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Opening balances crashed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
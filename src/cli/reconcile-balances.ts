@@ -0,0 +1,41 @@
+import { PrismaClient } from '@prisma/client';
+import {
+    PrismaUnitOfWork,
+    ReconcileBalancesUseCase,
+} from '@pluto/bank';
+
+// ============================================
+// Balance Reconciliation
+// Usage: npm run ledger:reconcile
+// Exits with status 1 if any balance disagrees with the ledger
+// ============================================
+
+const prisma = new PrismaClient();
+
+async function main() {
+    const reconcileBalances = new ReconcileBalancesUseCase(new PrismaUnitOfWork(prisma));
+
+    console.log('🔍 Reconciling user balances...');
+    const result = await reconcileBalances.execute();
+
+    for (const d of result.discrepancies) {
+        console.error(
+            `❌ [${d.kind}] ${d.displayName} (${d.userId}): stored ${d.stored}, expected ${d.expected} (${d.difference})`
+        );
+    }
+
+    console.log(`Checked ${result.usersChecked} users`);
+    if (!result.consistent) {
+        console.error(`❌ Found ${result.discrepancies.length} discrepancy(ies)`);
+        process.exitCode = 1;
+        return;
+    }
+    console.log('✅ All balances reconcile');
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Reconciliation crashed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
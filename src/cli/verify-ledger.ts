@@ -0,0 +1,45 @@
+import { PrismaClient } from '@prisma/client';
+import {
+    PrismaLedgerRepository,
+    PrismaUserRepository,
+    VerifyLedgerUseCase,
+} from '@pluto/bank';
+
+// ============================================
+// Ledger Verification
+// Usage: npm run ledger:verify [-- <userId>]
+// Exits with status 1 if any chain is broken
+// ============================================
+
+const prisma = new PrismaClient();
+
+async function main() {
+    const userId = process.argv[2];
+    const verifyLedger = new VerifyLedgerUseCase(
+        new PrismaLedgerRepository(prisma),
+        new PrismaUserRepository(prisma)
+    );
+
+    console.log(userId ? `🔍 Verifying ledger for user ${userId}...` : '🔍 Verifying ledger for all users...');
+    const result = await verifyLedger.execute({ userId });
+
+    for (const issue of result.issues) {
+        const position = issue.sequence !== null ? ` #${issue.sequence}` : '';
+        console.error(`❌ [${issue.kind}] user ${issue.userId}${position}: ${issue.message}`);
+    }
+
+    console.log(`Checked ${result.entriesChecked} entries across ${result.usersChecked} users`);
+    if (!result.valid) {
+        console.error(`❌ Ledger verification failed with ${result.issues.length} issue(s)`);
+        process.exitCode = 1;
+        return;
+    }
+    console.log('✅ Ledger verified');
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Ledger verification crashed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
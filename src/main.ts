@@ -5,10 +5,34 @@ import { resolve } from 'node:path';
 import crypto from 'node:crypto';
 import jwt from '@fastify/jwt';
 import { Gateway } from '@pluto/gateway';
-import { registerBankRoutes, PrismaUserRepository, PrismaContractRepository } from '@pluto/bank';
+import {
+    registerBankRoutes,
+    PrismaUserRepository,
+    PrismaContractRepository,
+    PrismaSessionRepository,
+    PrismaRatingRepository,
+    PrismaUnitOfWork,
+    ExecuteContractUseCase,
+    SettleContractUseCase,
+    CancelContractUseCase,
+    HttpGameCallbackNotifier,
+    FakePaymentProvider,
+    ExpireSessionsUseCase,
+    SessionExpirySweeper,
+    ProvisionBotUseCase,
+    PrismaPaymentRepository,
+    ResolvePaymentUseCase,
+    ResolvePendingPaymentsUseCase,
+    PendingPaymentPoller,
+} from '@pluto/bank';
+import type { IPaymentProvider } from '@pluto/bank';
 import { registerLobbyRoutes } from '@pluto/lobby';
+import type { StartMatchFn, ProvideBotFn, LobbyBotFiller, StalledLobbySweeper } from '@pluto/lobby';
 import { registerIdentityRoutes } from '@pluto/identity';
-import { registerDiceRoyaleRoutes } from '@pluto/dice-royale';
+import { DiceRoyalePlugin } from '@pluto/dice-royale';
+import { RockPaperScissorsPlugin } from '@pluto/rock-paper-scissors';
+import { GamePluginRegistry, ConflictError, NotFoundError } from '@pluto/shared';
+import type { GamePluginHost, SettleContractFn } from '@pluto/shared';
 
 // ============================================
 // Configuration
@@ -23,6 +47,24 @@ const config = {
     firebaseServiceAccountPath: process.env.FIREBASE_SERVICE_ACCOUNT_PATH || './devops/firebase.json',
     jwtSecret: process.env.JWT_SECRET || 'development-jwt-secret',
     hmacSecret: process.env.HMAC_SECRET || 'development-hmac-secret',
+    allowFakePayments: process.env.ALLOW_FAKE_PAYMENTS === 'true',
+    sessionSweepIntervalMs: parseInt(process.env.SESSION_SWEEP_INTERVAL_MS || '30000', 10),
+    paymentPollIntervalMs: parseInt(process.env.PAYMENT_POLL_INTERVAL_MS || '60000', 10),
+    settlementRetryIntervalMs: parseInt(process.env.SETTLEMENT_RETRY_INTERVAL_MS || '15000', 10),
+    lobbyGraceMs: parseInt(process.env.LOBBY_GRACE_MS || '15000', 10),
+    lobbyReadyCheckSeconds: parseInt(process.env.LOBBY_READY_CHECK_SECONDS || '20', 10),
+    lobbyCountdownSeconds: parseInt(process.env.LOBBY_COUNTDOWN_SECONDS || '5', 10),
+    lobbyBotWaitMs: parseInt(process.env.LOBBY_BOT_WAIT_MS || '0', 10), // 0 never fills lobbies with bots
+    stalledLobbySweepIntervalMs: parseInt(process.env.STALLED_LOBBY_SWEEP_INTERVAL_MS || '30000', 10),
+    botRollIntervalMs: parseInt(process.env.BOT_ROLL_INTERVAL_MS || '2000', 10),
+    matchBandInitial: parseInt(process.env.MATCH_BAND_INITIAL || '100', 10),
+    matchBandGrowthPerSecond: parseInt(process.env.MATCH_BAND_GROWTH_PER_SECOND || '10', 10),
+    matchBandMax: parseInt(process.env.MATCH_BAND_MAX || '500', 10),
+    diceRoyaleRollTimeoutSeconds: parseInt(process.env.DICE_ROYALE_ROLL_TIMEOUT_SECONDS || '30', 10),
+    diceRoyaleIdlePolicy: process.env.DICE_ROYALE_IDLE_POLICY === 'FORFEIT' ? 'FORFEIT' as const : 'AUTO_ROLL' as const,
+    rollDeadlineIntervalMs: parseInt(process.env.ROLL_DEADLINE_INTERVAL_MS || '5000', 10),
+    rockPaperScissorsMoveTimeoutSeconds: parseInt(process.env.ROCK_PAPER_SCISSORS_MOVE_TIMEOUT_SECONDS || '30', 10),
+    moveDeadlineIntervalMs: parseInt(process.env.MOVE_DEADLINE_INTERVAL_MS || '5000', 10),
 };
 
 // ============================================
@@ -55,6 +97,93 @@ const firebaseApp = initializeApp({
 // Repositories (for cross-service use)
 const userRepo = new PrismaUserRepository(prisma);
 const contractRepo = new PrismaContractRepository(prisma);
+const sessionRepo = new PrismaSessionRepository(prisma);
+const ratingRepo = new PrismaRatingRepository(prisma);
+const unitOfWork = new PrismaUnitOfWork(prisma);
+
+// First-party games settle through the same bank use case as third-party games
+const settleContract = new SettleContractUseCase(contractRepo, unitOfWork, verifySessionToken);
+const settleGameContract: SettleContractFn = async (sessionToken, results) => {
+    await settleContract.execute({ sessionToken, results });
+};
+
+// In-process games, registered once the auth helpers they need are ready
+const gamePlugins = new GamePluginRegistry();
+const gameCallbackNotifier = new HttpGameCallbackNotifier();
+
+// Lobby matches lock funds, then hand the session to the game: games with a plugin are
+// started in-process, third-party game backends get the session token by callback.
+// Funds are refunded if the game can't be started.
+const executeContract = new ExecuteContractUseCase(userRepo, contractRepo, unitOfWork, generateSessionToken);
+const cancelContract = new CancelContractUseCase(unitOfWork, verifySessionToken);
+const startMatch: StartMatchFn = async ({ contractId, players }) => {
+    // Check something can take the session before locking funds into it
+    const contract = await contractRepo.findContractById(contractId);
+    if (!contract) {
+        throw new NotFoundError('Contract', contractId);
+    }
+    const game = await contractRepo.findGameById(contract.gameId);
+    if (!game) {
+        throw new NotFoundError('Game', contract.gameId);
+    }
+    const plugin = gamePlugins.forGame(game);
+    if (!plugin && !game.callbackUrl) {
+        throw new ConflictError(`Game '${game.name}' has no plugin or callback URL to start its matches`);
+    }
+
+    const users = await userRepo.findByIds(players.map(p => p.userId));
+    const session = await executeContract.execute({
+        contractId,
+        playerFirebaseUids: users.map(u => u.firebaseUid),
+    });
+
+    try {
+        if (plugin) {
+            await plugin.createGame({
+                sessionId: session.sessionId,
+                sessionToken: session.sessionToken,
+                contractId,
+                payoutModel: contract.payout.model,
+                match: { mode: contract.match.mode, length: contract.match.length },
+                settings: contract.gameSettings,
+                players,
+            });
+        } else {
+            await gameCallbackNotifier.notify(game, {
+                type: 'session_started',
+                sessionId: session.sessionId,
+                contractId,
+                sessionToken: session.sessionToken,
+                players: session.players.map(p => ({ id: p.id, displayName: p.displayName })),
+                expiresAt: session.expiresAt.toISOString(),
+                occurredAt: new Date().toISOString(),
+            });
+        }
+    } catch (error) {
+        await cancelContract.execute({ sessionToken: session.sessionToken, reason: 'Game failed to start' });
+        throw error;
+    }
+
+    return { sessionId: session.sessionId };
+};
+
+// Bots fill lobbies of games that can play for them, funded by the house
+const provisionBot = new ProvisionBotUseCase(userRepo, unitOfWork);
+const provideBot: ProvideBotFn = async ({ contractId, entryFee }) => {
+    const contract = await contractRepo.findContractById(contractId);
+    const game = contract ? await contractRepo.findGameById(contract.gameId) : null;
+    if (!game || !gamePlugins.forGame(game)?.supportsBots) {
+        return null;
+    }
+
+    const bot = await provisionBot.execute({ stake: entryFee });
+    return { userId: bot.id, displayName: bot.displayName };
+};
+
+// Background jobs
+const sessionExpirySweeper = new SessionExpirySweeper(
+    new ExpireSessionsUseCase(sessionRepo, contractRepo, unitOfWork, gameCallbackNotifier)
+);
 
 // ============================================
 // Helper Functions
@@ -107,6 +236,15 @@ async function verifyHmacSignature(body: string, signature: string, gameId: stri
     }
 }
 
+// Payment provider behind deposits and withdrawals
+// The fake provider confirms every payment straight away, so production only runs it when explicitly allowed
+function createPaymentProvider(): IPaymentProvider {
+    if (config.nodeEnv !== 'production' || config.allowFakePayments) {
+        return new FakePaymentProvider();
+    }
+    throw new Error('No payment provider configured - set ALLOW_FAKE_PAYMENTS=true to run the fake provider in production');
+}
+
 // ============================================
 // Main Application
 // ============================================
@@ -114,6 +252,14 @@ async function verifyHmacSignature(body: string, signature: string, gameId: stri
 async function main() {
     console.log('🚀 Starting Pluto Hub...');
 
+    // Refuse to start without a payment provider fit for this environment
+    const paymentProvider = createPaymentProvider();
+    const pendingPaymentPoller = new PendingPaymentPoller(new ResolvePendingPaymentsUseCase(
+        new PrismaPaymentRepository(prisma),
+        paymentProvider,
+        new ResolvePaymentUseCase(unitOfWork)
+    ));
+
     // Test database connection
     await prisma.$connect();
     console.log('✅ Database connected');
@@ -151,7 +297,7 @@ async function main() {
         return {
             id: user.id,
             displayName: user.displayName,
-            balance: user.balance,
+            balance: user.availableBalance, // Funds locked in sessions can't pay another entry fee
         };
     };
 
@@ -166,7 +312,47 @@ async function main() {
         };
     };
 
+    // Helper to get players' ratings at a contract's game, for matchmaking
+    const getRatings = async (contractId: string, userIds: string[]) => {
+        const contract = await contractRepo.findContractById(contractId);
+        if (!contract) return new Map<string, number>();
+        const ratings = await ratingRepo.findByUsers(contract.gameId, userIds);
+        return new Map(ratings.map(r => [r.userId, r.rating]));
+    };
+
+    // Helper to check party members' available balances at once
+    const getUserBalances = async (userIds: string[]) => {
+        const users = await userRepo.findByIds(userIds);
+        return new Map(users.map(u => [u.id, u.availableBalance]));
+    };
+
+    // First-party games
+    const gamePluginHost: GamePluginHost = {
+        authenticate: async (authorization) => {
+            if (!authorization?.startsWith('Bearer ')) {
+                return null;
+            }
+            const decoded = await verifyFirebaseToken(authorization.slice(7));
+            return decoded ? getUserByFirebaseUid(decoded.uid) : null;
+        },
+        settleContract: settleGameContract,
+    };
+    gamePlugins.register(new DiceRoyalePlugin(prisma, gamePluginHost, {
+        rollTimeoutSeconds: config.diceRoyaleRollTimeoutSeconds,
+        idlePolicy: config.diceRoyaleIdlePolicy,
+        settlementRetryIntervalMs: config.settlementRetryIntervalMs,
+        rollDeadlineIntervalMs: config.rollDeadlineIntervalMs,
+        botRollIntervalMs: config.botRollIntervalMs,
+    }));
+    gamePlugins.register(new RockPaperScissorsPlugin(prisma, gamePluginHost, {
+        moveTimeoutSeconds: config.rockPaperScissorsMoveTimeoutSeconds,
+        settlementRetryIntervalMs: config.settlementRetryIntervalMs,
+        moveDeadlineIntervalMs: config.moveDeadlineIntervalMs,
+    }));
+
     // Register all service routes under /v1 prefix
+    let lobbyBotFiller = null as LobbyBotFiller | null; // Set once the lobby routes are registered
+    let stalledLobbySweeper = null as StalledLobbySweeper | null;
     gateway.registerRoutes('/v1', (instance: any, cache: any) => {
         // Bank routes
         registerBankRoutes(instance, cache, {
@@ -175,35 +361,58 @@ async function main() {
             verifySessionToken,
             verifyFirebaseToken,
             verifyHmacSignature,
+            paymentProvider,
+            minMatchSeconds: (game, match) => gamePlugins.forGame(game)?.minMatchSeconds?.(match) ?? null,
         });
 
         // Lobby routes
-        const { broadcaster } = registerLobbyRoutes(instance, cache, {
+        const { botFiller, stalledLobbySweeper: sweeper } = registerLobbyRoutes(instance, cache, {
             prisma,
             verifyFirebaseToken,
             getUserByFirebaseUid,
             getContractInfo,
-        });
-
-        // DiceRoyale routes
-        registerDiceRoyaleRoutes(instance, cache, {
-            prisma,
-            verifyFirebaseToken,
-            getUserByFirebaseUid,
-            settleGame: async (sessionId: string, winnerUserIds: string[]) => {
-                // This would call the settle contract endpoint internally
-                console.log(`Settling game session ${sessionId} with winners: ${winnerUserIds.join(', ')}`);
-                // In production, this would make an internal call to /v1/contracts/settle
+            getUserBalances,
+            getRatings,
+            ratingBand: {
+                initialWidth: config.matchBandInitial,
+                widthGrowthPerSecond: config.matchBandGrowthPerSecond,
+                maxWidth: config.matchBandMax,
+            },
+            startMatch,
+            lobbyTimings: {
+                graceMs: config.lobbyGraceMs,
+                readyCheckSeconds: config.lobbyReadyCheckSeconds,
+                countdownSeconds: config.lobbyCountdownSeconds,
             },
+            botFill: config.lobbyBotWaitMs > 0 ? { waitMs: config.lobbyBotWaitMs, provideBot } : undefined,
         });
+        lobbyBotFiller = botFiller;
+        stalledLobbySweeper = sweeper;
+
+        // In-process game routes
+        for (const plugin of gamePlugins.all()) {
+            plugin.registerRoutes(instance);
+        }
     });
 
     // Start server
     await gateway.start();
 
+    // Start background jobs
+    const sessionSweepTimer = sessionExpirySweeper.start(config.sessionSweepIntervalMs);
+    const paymentPollTimer = pendingPaymentPoller.start(config.paymentPollIntervalMs);
+    const gameJobTimers = gamePlugins.all().flatMap(plugin => plugin.startJobs());
+    const botFillTimer = lobbyBotFiller?.start();
+    const stalledLobbyTimer = stalledLobbySweeper?.start(config.stalledLobbySweepIntervalMs); // Sweeps once straight away
+
     // Graceful shutdown
     const shutdown = async () => {
         console.log('\n📴 Shutting down...');
+        clearInterval(sessionSweepTimer);
+        clearInterval(paymentPollTimer);
+        gameJobTimers.forEach(timer => clearInterval(timer));
+        clearInterval(botFillTimer);
+        clearInterval(stalledLobbyTimer);
         await gateway.stop();
         await prisma.$disconnect();
         process.exit(0);
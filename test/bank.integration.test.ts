@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FastifyInstance } from 'fastify';
 import { Gateway } from '@pluto/gateway';
-import { registerBankRoutes } from '@pluto/bank';
+import { registerBankRoutes, FakePaymentProvider } from '@pluto/bank';
 
 describe('Bank API Integration', () => {
     let app: FastifyInstance;
@@ -30,6 +30,7 @@ describe('Bank API Integration', () => {
                 generateSessionToken: () => 'session-token',
                 verifySessionToken: () => ({ sessionId: 's1' }),
                 verifyHmacSignature: async () => true,
+                paymentProvider: new FakePaymentProvider(),
             });
         });
     });
@@ -65,4 +66,32 @@ describe('Bank API Integration', () => {
         expect(data.balance).toBe('1000');
         expect(data.availableBalance).toBe('800');
     });
+
+    it('should return 403 when creating a contract without developer or admin access', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue({
+            id: 'u1',
+            firebaseUid: 'uid123',
+            uniqueDisplayName: 'TestPlayer',
+            balance: 1000n,
+            lockedBalance: 0n,
+            role: 'PLAYER',
+            developerStatus: null,
+            createdAt: new Date(),
+        });
+
+        const unauthenticated = await app.inject({
+            method: 'POST',
+            url: '/v1/dev/contracts',
+            payload: { gameId: crypto.randomUUID(), name: 'Free Money', entryFee: '100', platformFee: 50, developerShare: 100, minPlayers: 2, maxPlayers: 2 },
+        });
+        const player = await app.inject({
+            method: 'POST',
+            url: '/v1/dev/contracts',
+            headers: { authorization: 'Bearer valid' },
+            payload: { gameId: crypto.randomUUID(), name: 'Free Money', entryFee: '100', platformFee: 50, developerShare: 100, minPlayers: 2, maxPlayers: 2 },
+        });
+
+        expect(unauthenticated.statusCode).toBe(403);
+        expect(player.statusCode).toBe(403);
+    });
 });